@@ -16,6 +16,9 @@ import {
 import * as Notifications from 'expo-notifications';
 import { NotificationSettingsProvider, useNotificationSettings } from './contexts/NotificationSettingsContext';
 import { StorageManager } from './utils/storage';
+import { SQLiteStorageBackend } from './utils/storageBackends';
+import { SchemaMigrations } from './utils/schemaMigrations';
+import { AudioStore } from './utils/audioStore';
 
 import SymptomsScreen from './screens/SymptomsScreen';
 import AppointmentsScreen from './screens/AppointmentsScreen';
@@ -23,6 +26,7 @@ import RecommendationsScreen from './screens/RecommendationsScreen';
 import RecordingDetailScreen from './screens/RecordingDetailScreen';
 import AppointmentDetailScreen from './screens/AppointmentDetailScreen';
 import FollowUpQuestionsScreen from './screens/FollowUpQuestionsScreen';
+import DiagnosticsScreen from './screens/DiagnosticsScreen';
 import OnboardingScreen from './screens/OnboardingScreen';
 import Header from './components/Header';
 import CustomTabBar from './components/CustomTabBar';
@@ -33,21 +37,57 @@ import { AppointmentsProvider, useAppointments } from './contexts/AppointmentsCo
 import { OnboardingProvider, useOnboarding } from './contexts/OnboardingContext';
 
 import { SmartAIProvider } from './contexts/SmartAIContext';
+import { ProcessingQueueProvider } from './contexts/ProcessingQueueContext';
+import { RedFlagProvider } from './contexts/RedFlagContext';
 import { PrivacyProvider, usePrivacy } from './contexts/PrivacyContext';
 import { TutorialProvider, useTutorial } from './contexts/TutorialContext';
 import { NavigationProvider, useNavigationContext } from './contexts/NavigationContext';
 import { FollowUpQuestionsProvider } from './contexts/FollowUpQuestionsContext';
+import { RepositoryProvider } from './contexts/RepositoryContext';
+import { ProfileProvider, useProfiles } from './contexts/ProfileContext';
+import { LocaleProvider, useLocale } from './contexts/LocaleContext';
+import { RetentionProvider, useRetention } from './contexts/RetentionContext';
+import { RetentionPolicy } from './utils/retention';
+import { DateUtils } from './utils/dateUtils';
 import OnboardingTutorial from './components/OnboardingTutorial';
 
 const Tab = createBottomTabNavigator();
 const Stack = createStackNavigator();
 
-function MainTabNavigator() {
+function MainTabNavigator({ navigation }: any) {
   const { clearAllSymptomLogs } = useSymptomLogs();
   const { clearAllRecommendations } = useRecommendations();
   const { clearAllAppointments } = useAppointments();
   const [settingsVisible, setSettingsVisible] = useState(false);
   const { settings, updateSettings, clearAllNotifications } = useNotificationSettings();
+  const { pendingReview, dismissReview, purgeExpiredData } = useRetention();
+  const { t, tCount, locale, language } = useLocale();
+
+  // Show what the retention policy would delete before deleting anything
+  useEffect(() => {
+    if (!pendingReview) return;
+
+    Alert.alert(
+      t('privacy.removeOldTitle'),
+      [
+        t('privacy.retentionReviewMessage', { days: pendingReview.retentionDays, date: DateUtils.formatDate(pendingReview.cutoff, locale) }),
+        `• ${RetentionPolicy.describe(pendingReview.counts, language).join('\n• ')}`,
+        ...(pendingReview.profiles.length > 1 ? [tCount('privacy.retentionProfiles', pendingReview.profiles.length)] : []),
+      ].join('\n\n'),
+      [
+        { text: t('common.notNow'), style: 'cancel', onPress: dismissReview },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => {
+            purgeExpiredData(pendingReview).catch(error => {
+              console.error('Error purging expired data:', error);
+            });
+          }
+        }
+      ]
+    );
+  }, [pendingReview]);
 
   const handleSettingsPress = () => {
     setSettingsVisible(true);
@@ -55,12 +95,12 @@ function MainTabNavigator() {
 
   const handleClearSymptomLogs = () => {
     Alert.alert(
-      'Clear All Symptom Logs',
-      'Are you sure you want to delete all your symptom recordings, summaries, transcripts, and logs? This action cannot be undone.',
+      t('settings.clearSymptomLogs'),
+      t('settings.clearSymptomLogsMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Clear All', 
+          text: t('settings.clearAll'), 
           style: 'destructive',
           onPress: () => {
             clearAllSymptomLogs();
@@ -72,12 +112,12 @@ function MainTabNavigator() {
 
   const handleClearAppointments = () => {
     Alert.alert(
-      'Clear All Appointments',
-      'Are you sure you want to delete all your upcoming and previous appointments and their recommended questions? This action cannot be undone.',
+      t('settings.clearAppointments'),
+      t('settings.clearAppointmentsMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Clear All', 
+          text: t('settings.clearAll'), 
           style: 'destructive',
           onPress: () => {
             clearAllAppointments();
@@ -89,12 +129,12 @@ function MainTabNavigator() {
 
   const handleClearRecommendations = () => {
     Alert.alert(
-      'Clear All Recommendations',
-      'Are you sure you want to delete all your completed, current, and canceled recommendations? This action cannot be undone.',
+      t('settings.clearRecommendations'),
+      t('settings.clearRecommendationsMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Clear All', 
+          text: t('settings.clearAll'), 
           style: 'destructive',
           onPress: () => {
             clearAllRecommendations();
@@ -104,6 +144,11 @@ function MainTabNavigator() {
     );
   };
 
+  const handleOpenDiagnostics = () => {
+    setSettingsVisible(false);
+    navigation.navigate('Diagnostics');
+  };
+
   const handleFollowUpPress = () => {
     // Navigate to follow-up questions
   };
@@ -113,9 +158,9 @@ function MainTabNavigator() {
       <Tab.Navigator
         tabBar={props => <CustomTabBar {...props} />}
         screenOptions={({ route }) => ({
-          header: ({ route }) => (
+          header: ({ route, options }) => (
             <Header
-              title={route.name}
+              title={options.title ?? route.name}
               onSettingsPress={handleSettingsPress}
               onFollowUpPress={handleFollowUpPress}
             />
@@ -125,17 +170,17 @@ function MainTabNavigator() {
         <Tab.Screen 
           name="Symptoms" 
           component={SymptomsScreen}
-          options={{ tabBarLabel: 'Symptoms' }}
+          options={{ title: t('tabs.symptoms'), tabBarLabel: t('tabs.symptoms') }}
         />
         <Tab.Screen 
           name="Recommendations" 
           component={RecommendationsScreen}
-          options={{ tabBarLabel: 'Recommendations' }}
+          options={{ title: t('tabs.recommendations'), tabBarLabel: t('tabs.recommendations') }}
         />
         <Tab.Screen 
           name="Appointments" 
           component={AppointmentsScreen}
-          options={{ tabBarLabel: 'Appointments' }}
+          options={{ title: t('tabs.appointments'), tabBarLabel: t('tabs.appointments') }}
         />
       </Tab.Navigator>
 
@@ -146,6 +191,7 @@ function MainTabNavigator() {
         onClearAppointments={handleClearAppointments}
         onClearRecommendations={handleClearRecommendations}
         onUpdateNotificationSettings={updateSettings}
+        onOpenDiagnostics={handleOpenDiagnostics}
         notificationEnabled={settings.enabled}
         notificationTime={settings.dailyReminderTime}
         notificationFrequency={settings.frequency}
@@ -212,6 +258,11 @@ function AppContent() {
                 component={FollowUpQuestionsScreen}
                 options={{ headerShown: false }}
               />
+              <Stack.Screen
+                name="Diagnostics"
+                component={DiagnosticsScreen}
+                options={{ headerShown: false }}
+              />
             </>
           )}
         </Stack.Navigator>
@@ -226,7 +277,44 @@ function AppContent() {
   );
 }
 
+/**
+ * Everything that holds a profile's data. Keyed by the active profile so a
+ * switch remounts it all - contexts, AI agents and navigation - with nothing
+ * from the previous person carried over
+ */
+function ProfileScopedApp() {
+  const { activeProfileId } = useProfiles();
+
+  return (
+    <SymptomLogsProvider key={activeProfileId}>
+      <RecommendationsProvider>
+        <AppointmentsProvider>
+          <FollowUpQuestionsProvider>
+            <NotificationSettingsProvider>
+              <SmartAIProvider userId={activeProfileId}>
+                <RedFlagProvider>
+                  <ProcessingQueueProvider>
+                    <PrivacyProvider>
+                      <RetentionProvider>
+                        <TutorialProvider>
+                          <AppContent />
+                        </TutorialProvider>
+                      </RetentionProvider>
+                    </PrivacyProvider>
+                  </ProcessingQueueProvider>
+                </RedFlagProvider>
+              </SmartAIProvider>
+            </NotificationSettingsProvider>
+          </FollowUpQuestionsProvider>
+        </AppointmentsProvider>
+      </RecommendationsProvider>
+    </SymptomLogsProvider>
+  );
+}
+
 export default function App() {
+  const [isDataReady, setIsDataReady] = useState(false);
+
   useEffect(() => {
     // Configure notifications on app start
     configureNotifications();
@@ -244,23 +332,46 @@ export default function App() {
     
     clearNotifications();
     
-    // Migrate and clean up any corrupted data
+    // Move storage to SQLite and run versioned schema migrations before any context reads its data
     const migrateData = async () => {
       try {
-        await StorageManager.migrateCorruptedData();
-        
-        // Migrate any legacy (non-encrypted) data to encrypted format
-        await StorageManager.migrateLegacyData();
+        // Move data from AsyncStorage into SQLite; on failure stay on AsyncStorage
+        try {
+          const moved = await StorageManager.migrateTo(new SQLiteStorageBackend());
+          if (moved > 0) {
+            console.log(`✅ Moved ${moved} keys from AsyncStorage to SQLite`);
+          }
+        } catch (error) {
+          console.error('Error switching to SQLite storage, staying on AsyncStorage:', error);
+          await StorageManager.recordFallback();
+        }
+
+        // Salvage anything quarantined on a previous run before migrating
+        await StorageManager.recoverQuarantined();
+
+        const report = await SchemaMigrations.run();
+        if (report.errors.length > 0) {
+          console.warn(`⚠️ Schema migration stopped at v${report.toVersion}:`, report.errors);
+        } else if (report.steps.length > 0) {
+          console.log(`✅ Schema migrated v${report.fromVersion} → v${report.toVersion}${report.resumed ? ' (resumed)' : ''}:`, report.steps);
+        }
         
         // Check data health after migration
         const health = await StorageManager.checkDataHealth();
         if (health.healthy) {
           console.log(`✅ Data health check passed: ${health.totalKeys} keys verified`);
         } else {
-          console.warn(`⚠️ Data health issues found:`, health.errors);
+          console.warn(`⚠️ Data health issues found:`, health.errors, health.quarantinedKeys);
+        }
+
+        // Audio maintenance rewrites symptom logs, so only on a fully migrated schema
+        if (report.errors.length === 0) {
+          await AudioStore.runMaintenance();
         }
       } catch (error) {
         console.error('Error during data migration:', error);
+      } finally {
+        setIsDataReady(true);
       }
     };
     
@@ -317,25 +428,19 @@ export default function App() {
     return () => subscription.remove();
   }, []);
 
+  if (!isDataReady) {
+    return null; // Contexts must not load data until migrations finish
+  }
+
   return (
-    <OnboardingProvider>
-      <SymptomLogsProvider>
-        <RecommendationsProvider>
-          <AppointmentsProvider>
-            <FollowUpQuestionsProvider>
-              <NotificationSettingsProvider>
-                <SmartAIProvider userId="default-user">
-                  <PrivacyProvider>
-                    <TutorialProvider>
-                      <AppContent />
-                    </TutorialProvider>
-                  </PrivacyProvider>
-                </SmartAIProvider>
-              </NotificationSettingsProvider>
-            </FollowUpQuestionsProvider>
-          </AppointmentsProvider>
-        </RecommendationsProvider>
-      </SymptomLogsProvider>
-    </OnboardingProvider>
+    <RepositoryProvider>
+      <ProfileProvider>
+        <LocaleProvider>
+          <OnboardingProvider>
+            <ProfileScopedApp />
+          </OnboardingProvider>
+        </LocaleProvider>
+      </ProfileProvider>
+    </RepositoryProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,193 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Linking, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RedFlagRule, RedFlagTriage } from '../utils/redFlagTriage';
+import { useLocale } from '../contexts/LocaleContext';
+import { colors } from '../utils/colors';
+
+interface EmergencyAlertModalProps {
+  rules: RedFlagRule[];
+  onClose: () => void;
+}
+
+/**
+ * Full-screen emergency guidance for matched red-flag rules. Works without a
+ * network: the guidance ships with the app and calls go through the phone dialer.
+ */
+export default function EmergencyAlertModal({ rules, onClose }: EmergencyAlertModalProps) {
+  const { t, language } = useLocale();
+  const contacts = RedFlagTriage.getEmergencyContacts(language);
+  const crisisLine = rules.some(rule => rule.contact === 'crisis') ? contacts.crisis : undefined;
+  // Without a known crisis line, the emergency number is the one to call
+  const needsEmergency = rules.some(rule => rule.contact === 'emergency' || !contacts.crisis);
+
+  const call = async (number: string) => {
+    try {
+      await Linking.openURL(`tel:${number}`);
+    } catch (error) {
+      console.error('Error opening dialer:', error);
+      Alert.alert(t('redFlags.callForHelp'), t('redFlags.dialManually', { number }));
+    }
+  };
+
+  return (
+    <Modal
+      visible={rules.length > 0}
+      animationType="slide"
+      onRequestClose={onClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Ionicons name="warning" size={40} color="#ffffff" />
+          <Text style={styles.headerTitle}>{t('redFlags.headerTitle')}</Text>
+          <Text style={styles.headerSubtitle}>
+            {t('redFlags.headerSubtitle')}
+          </Text>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {rules.map(rule => {
+            const guidance = RedFlagTriage.describe(rule, language, contacts);
+            return (
+              <View key={rule.id} style={styles.ruleCard}>
+                <Text style={styles.ruleTitle}>{guidance.title}</Text>
+                <Text style={styles.ruleCondition}>{guidance.condition}</Text>
+                {guidance.steps.map((step, index) => (
+                  <View key={index} style={styles.stepRow}>
+                    <Text style={styles.stepNumber}>{index + 1}</Text>
+                    <Text style={styles.stepText}>{step}</Text>
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          {needsEmergency && (
+            <TouchableOpacity style={styles.callButton} onPress={() => call(contacts.emergency)}>
+              <Ionicons name="call" size={22} color="#ffffff" />
+              <Text style={styles.callButtonText}>{t('redFlags.callEmergency', { number: contacts.emergency })}</Text>
+            </TouchableOpacity>
+          )}
+          {crisisLine && (
+            <TouchableOpacity style={styles.callButton} onPress={() => call(crisisLine)}>
+              <Ionicons name="call" size={22} color="#ffffff" />
+              <Text style={styles.callButtonText}>{t('redFlags.callCrisisLine', { number: crisisLine })}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.dismissButton} onPress={onClose}>
+            <Text style={styles.dismissButtonText}>{t('redFlags.dismiss')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    backgroundColor: '#dc2626',
+    paddingTop: 72,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginTop: 12,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#fee2e2',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 22,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+  },
+  ruleCard: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    padding: 16,
+    marginBottom: 16,
+  },
+  ruleTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#991b1b',
+    marginBottom: 6,
+  },
+  ruleCondition: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 21,
+    marginBottom: 12,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  stepNumber: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#dc2626',
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '700',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginRight: 10,
+    overflow: 'hidden',
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  actions: {
+    padding: 20,
+    paddingBottom: 40,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#dc2626',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 12,
+  },
+  callButtonText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginLeft: 8,
+  },
+  dismissButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  dismissButtonText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+});
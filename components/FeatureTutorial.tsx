@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { fontStyles } from '../utils/fonts';
+import { useLocale } from '../contexts/LocaleContext';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -31,6 +32,7 @@ export default function FeatureTutorial({
   onSkip,
   showSkip = true,
 }: FeatureTutorialProps) {
+  const { t } = useLocale();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.8)).current;
 
@@ -122,7 +124,7 @@ export default function FeatureTutorial({
         <Text style={styles.description}>{description}</Text>
 
         <TouchableOpacity style={styles.gotItButton} onPress={onComplete}>
-          <Text style={styles.gotItButtonText}>Got it!</Text>
+          <Text style={styles.gotItButtonText}>{t('tutorial.gotIt')}</Text>
         </TouchableOpacity>
       </Animated.View>
     </Animated.View>
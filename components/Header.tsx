@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { fontStyles } from '../utils/fonts';
 import { useFollowUpQuestions } from '../contexts/FollowUpQuestionsContext';
+import { useProfiles } from '../contexts/ProfileContext';
 import { colors } from '../utils/colors';
+import ProfileSwitcher from './ProfileSwitcher';
 
 interface HeaderProps {
   title: string;
@@ -14,10 +16,19 @@ interface HeaderProps {
 export default function Header({ title, onSettingsPress, onFollowUpPress }: HeaderProps) {
   const { getUnansweredCount } = useFollowUpQuestions();
   const unansweredCount = getUnansweredCount();
+  const { activeProfile } = useProfiles();
+  const [switcherVisible, setSwitcherVisible] = useState(false);
 
   return (
     <View style={styles.header}>
       <View style={styles.headerContent}>
+        <TouchableOpacity style={styles.profileButton} onPress={() => setSwitcherVisible(true)}>
+          <View style={[styles.profileAvatar, { backgroundColor: colors.accent }]}>
+            <Text style={styles.profileInitial}>{activeProfile.name.charAt(0).toUpperCase()}</Text>
+          </View>
+          <Text style={styles.profileName} numberOfLines={1}>{activeProfile.name}</Text>
+          <Ionicons name="chevron-down" size={16} color="#64748b" />
+        </TouchableOpacity>
         <View style={styles.headerActions}>
           {onFollowUpPress && (
             <TouchableOpacity style={styles.actionButton} onPress={onFollowUpPress}>
@@ -36,6 +47,8 @@ export default function Header({ title, onSettingsPress, onFollowUpPress }: Head
           </TouchableOpacity>
         </View>
       </View>
+
+      <ProfileSwitcher visible={switcherVisible} onClose={() => setSwitcherVisible(false)} />
     </View>
   );
 }
@@ -50,10 +63,36 @@ const styles = StyleSheet.create({
   },
   headerContent: {
     flexDirection: 'row',
-    justifyContent: 'flex-end',
+    justifyContent: 'space-between',
     alignItems: 'center',
     paddingHorizontal: 16,
   },
+  profileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexShrink: 1,
+    paddingVertical: 4,
+  },
+  profileAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  profileInitial: {
+    ...fontStyles.body,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  profileName: {
+    ...fontStyles.body,
+    color: '#1e293b',
+    fontWeight: '600',
+    marginRight: 4,
+    flexShrink: 1,
+  },
   title: {
     ...fontStyles.h3,
     color: '#1e293b',
@@ -13,6 +13,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { fontStyles } from '../utils/fonts';
 import { colors } from '../utils/colors';
 import { onboardingSteps, OnboardingStep } from '../utils/onboardingContent';
+import { useLocale } from '../contexts/LocaleContext';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -41,6 +42,7 @@ const tutorialSteps = onboardingSteps;
 
 export default function OnboardingTutorial({ visible, onComplete, onSkip }: OnboardingTutorialProps) {
   const [currentStep, setCurrentStep] = useState(0);
+  const { t } = useLocale();
   const scrollViewRef = useRef<ScrollView>(null);
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
@@ -100,8 +102,8 @@ export default function OnboardingTutorial({ visible, onComplete, onSkip }: Onbo
           <Ionicons name={step.icon as any} size={iconSize} color={step.color} />
         </View>
         
-        <Text style={[styles.stepTitle, { fontSize: titleFontSize }]}>{step.title}</Text>
-        <Text style={[styles.stepDescription, { fontSize: descriptionFontSize }]}>{step.description}</Text>
+        <Text style={[styles.stepTitle, { fontSize: titleFontSize }]}>{t(step.title)}</Text>
+        <Text style={[styles.stepDescription, { fontSize: descriptionFontSize }]}>{t(step.description)}</Text>
         
         {step.illustration && (
           <View style={styles.illustrationContainer}>
@@ -124,7 +126,7 @@ export default function OnboardingTutorial({ visible, onComplete, onSkip }: Onbo
           {/* Header */}
           <View style={styles.header}>
             <TouchableOpacity style={styles.skipButton} onPress={handleSkip}>
-              <Text style={styles.skipText}>Skip</Text>
+              <Text style={styles.skipText}>{t('tutorial.skip')}</Text>
             </TouchableOpacity>
             
             <View style={styles.progressContainer}>
@@ -162,7 +164,7 @@ export default function OnboardingTutorial({ visible, onComplete, onSkip }: Onbo
               {currentStep > 0 && (
                 <TouchableOpacity style={styles.previousButton} onPress={handlePrevious}>
                   <Ionicons name="arrow-back" size={20} color="#64748b" />
-                  <Text style={styles.previousButtonText}>Previous</Text>
+                  <Text style={styles.previousButtonText}>{t('tutorial.previous')}</Text>
                 </TouchableOpacity>
               )}
               
@@ -174,7 +176,7 @@ export default function OnboardingTutorial({ visible, onComplete, onSkip }: Onbo
                 onPress={handleNext}
               >
                 <Text style={styles.nextButtonText}>
-                  {currentStep === tutorialSteps.length - 1 ? 'Get Started' : 'Next'}
+                  {t(currentStep === tutorialSteps.length - 1 ? 'tutorial.getStarted' : 'tutorial.next')}
                 </Text>
                 <Ionicons 
                   name={currentStep === tutorialSteps.length - 1 ? 'checkmark' : 'arrow-forward'} 
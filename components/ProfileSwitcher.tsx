@@ -0,0 +1,272 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Alert, Dimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useProfiles } from '../contexts/ProfileContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { AppLanguage, SUPPORTED_LANGUAGES } from '../utils/i18n';
+import { Profile } from '../types/profiles';
+import { colors } from '../utils/colors';
+
+interface ProfileSwitcherProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const { height: screenHeight } = Dimensions.get('window');
+
+export default function ProfileSwitcher({ visible, onClose }: ProfileSwitcherProps) {
+  const { profiles, activeProfileId, switchProfile, addProfile, renameProfile, setProfileLanguage, deleteProfile } = useProfiles();
+  const { t } = useLocale();
+
+  const showError = (title: string, error: unknown) => {
+    Alert.alert(title, error instanceof Error ? error.message : t('common.tryAgain'));
+  };
+
+  const handleSelect = (profile: Profile) => {
+    onClose();
+    switchProfile(profile.id);
+  };
+
+  const handleAdd = () => {
+    Alert.prompt(
+      t('profiles.add'),
+      t('profiles.addMessage'),
+      async (name) => {
+        if (!name?.trim()) return;
+        try {
+          const profile = await addProfile(name);
+          onClose();
+          switchProfile(profile.id);
+        } catch (error) {
+          showError(t('profiles.addFailed'), error);
+        }
+      },
+      'plain-text'
+    );
+  };
+
+  const handleRename = (profile: Profile) => {
+    Alert.prompt(
+      t('profiles.rename'),
+      undefined,
+      async (name) => {
+        if (!name?.trim()) return;
+        try {
+          await renameProfile(profile.id, name);
+        } catch (error) {
+          showError(t('profiles.renameFailed'), error);
+        }
+      },
+      'plain-text',
+      profile.name
+    );
+  };
+
+  const handleDelete = (profile: Profile) => {
+    Alert.alert(
+      t('profiles.deleteTitle', { name: profile.name }),
+      t('profiles.deleteMessage', { name: profile.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProfile(profile.id);
+            } catch (error) {
+              showError(t('profiles.deleteFailed'), error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLanguage = (profile: Profile) => {
+    const choose = async (language?: AppLanguage) => {
+      try {
+        await setProfileLanguage(profile.id, language);
+      } catch (error) {
+        showError(t('profiles.languageFailed'), error);
+      }
+    };
+
+    Alert.alert(
+      t('profiles.language'),
+      t('profiles.languageMessage', { name: profile.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('profiles.languageAutomatic'), onPress: () => choose(undefined) },
+        ...(Object.keys(SUPPORTED_LANGUAGES) as AppLanguage[]).map(language => ({
+          text: SUPPORTED_LANGUAGES[language].nativeName,
+          onPress: () => choose(language),
+        })),
+      ]
+    );
+  };
+
+  const handleLongPress = (profile: Profile) => {
+    const currentLanguage = profile.language
+      ? SUPPORTED_LANGUAGES[profile.language].nativeName
+      : t('profiles.languageAutomatic');
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('profiles.rename'), onPress: () => handleRename(profile) },
+      { text: t('profiles.languageCurrent', { language: currentLanguage }), onPress: () => handleLanguage(profile) },
+    ];
+    if (profiles.length > 1) {
+      buttons.push({ text: t('common.delete'), style: 'destructive', onPress: () => handleDelete(profile) });
+    }
+    Alert.alert(profile.name, undefined, buttons);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+      statusBarTranslucent={true}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.modalContent}>
+          <View style={styles.handle} />
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('profiles.title')}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.options}>
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfileId;
+              return (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={styles.option}
+                  onPress={() => handleSelect(profile)}
+                  onLongPress={() => handleLongPress(profile)}
+                >
+                  <View style={[styles.avatar, isActive && { backgroundColor: colors.accent }]}>
+                    <Text style={[styles.avatarText, isActive && styles.avatarTextActive]}>
+                      {profile.name.charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                  <Text style={styles.optionTitle} numberOfLines={1}>{profile.name}</Text>
+                  {isActive && <Ionicons name="checkmark" size={22} color={colors.accent} />}
+                </TouchableOpacity>
+              );
+            })}
+
+            <TouchableOpacity style={styles.option} onPress={handleAdd}>
+              <View style={styles.avatar}>
+                <Ionicons name="person-add-outline" size={18} color="#64748b" />
+              </View>
+              <Text style={styles.optionTitle}>{t('profiles.add')}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          <Text style={styles.hint}>{t('profiles.hint')}</Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 40,
+    maxHeight: screenHeight * 0.6,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: -2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#e2e8f0',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  options: {
+    paddingHorizontal: 20,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  avatarTextActive: {
+    color: '#ffffff',
+  },
+  optionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#94a3b8',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MedicalRecommendation, SymptomLog } from '../types/recommendations';
+import { useSymptomLogs } from '../contexts/SymptomLogsContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { fontStyles } from '../utils/fonts';
+import { colors } from '../utils/colors';
+
+interface RecommendationProvenanceProps {
+  recommendation: MedicalRecommendation;
+  onOpenRecording: (log: SymptomLog) => void;
+}
+
+/**
+ * Collapsible "Why am I seeing this?" panel: the recordings a recommendation
+ * came from, the patterns and reasoning behind it, and the model that wrote it.
+ * Source recordings may have been deleted or purged since; those are counted.
+ */
+export default function RecommendationProvenance({ recommendation, onOpenRecording }: RecommendationProvenanceProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { getSymptomLog } = useSymptomLogs();
+  const { t, tCount, locale } = useLocale();
+  const { provenance, generatedBy } = recommendation;
+
+  const sourceLogs = (provenance?.sourceLogIds ?? [])
+    .map(id => getSymptomLog(id))
+    .filter((log): log is SymptomLog => log !== undefined)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const deletedCount = (provenance?.sourceLogIds.length ?? 0) - sourceLogs.length;
+
+  const renderDetails = () => {
+    if (!provenance && !generatedBy) {
+      return <Text style={styles.emptyText}>{t('recommendations.provenance.none')}</Text>;
+    }
+
+    return (
+      <>
+        {provenance && provenance.sourceLogIds.length > 0 && (
+          <View style={styles.group}>
+            <Text style={styles.groupTitle}>{t('recommendations.provenance.recordings')}</Text>
+            {sourceLogs.map(log => (
+              <TouchableOpacity key={log.id} style={styles.recordingRow} onPress={() => onOpenRecording(log)}>
+                <Ionicons name="mic" size={16} color={colors.accent} />
+                <View style={styles.recordingText}>
+                  <Text style={styles.recordingSummary}>{log.summary}</Text>
+                  <Text style={styles.recordingDate}>{log.timestamp.toLocaleString(locale)}</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#888" />
+              </TouchableOpacity>
+            ))}
+            {deletedCount > 0 && (
+              <Text style={styles.detailText}>
+                {tCount('recommendations.provenance.deletedRecordings', deletedCount)}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {provenance && provenance.patterns.length > 0 && (
+          <View style={styles.group}>
+            <Text style={styles.groupTitle}>{t('recommendations.provenance.patterns')}</Text>
+            {provenance.patterns.map((pattern, index) => (
+              <Text key={index} style={styles.detailText}>
+                {t('recommendations.provenance.pattern', {
+                  symptom: pattern.symptom,
+                  frequency: pattern.frequency.toLocaleString(locale),
+                  trend: t(`recommendations.provenance.trend.${pattern.trend}`),
+                })}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {provenance?.decisionReasoning && (
+          <View style={styles.group}>
+            <Text style={styles.groupTitle}>{t('recommendations.provenance.reasoning')}</Text>
+            <Text style={styles.detailText}>{provenance.decisionReasoning}</Text>
+          </View>
+        )}
+
+        {generatedBy && (
+          <Text style={styles.generatedBy}>
+            {t('recommendations.provenance.generatedBy', {
+              model: generatedBy.model,
+              prompt: generatedBy.prompt,
+              version: generatedBy.promptVersion,
+            })}
+            {generatedBy.usedFallback ? ` ${t('recommendations.provenance.usedFallback')}` : ''}
+          </Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.toggle} onPress={() => setIsExpanded(!isExpanded)} activeOpacity={0.7}>
+        <Ionicons name="help-circle-outline" size={18} color="#64748b" />
+        <Text style={styles.toggleText}>{t('recommendations.whyAmISeeingThis')}</Text>
+        <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color="#64748b" />
+      </TouchableOpacity>
+      {isExpanded && <View style={styles.details}>{renderDetails()}</View>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  toggleText: {
+    ...fontStyles.bodyMedium,
+    color: '#64748b',
+    flex: 1,
+  },
+  details: {
+    marginTop: 8,
+    padding: 12,
+    backgroundColor: '#F7FAFC',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  group: {
+    marginBottom: 12,
+  },
+  groupTitle: {
+    ...fontStyles.bodyMedium,
+    color: '#1e293b',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  recordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  recordingText: {
+    flex: 1,
+  },
+  recordingSummary: {
+    ...fontStyles.body,
+    color: '#374151',
+  },
+  recordingDate: {
+    ...fontStyles.caption,
+    color: '#888888',
+  },
+  detailText: {
+    ...fontStyles.body,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  generatedBy: {
+    ...fontStyles.caption,
+    color: '#888888',
+  },
+  emptyText: {
+    ...fontStyles.body,
+    color: '#64748b',
+    fontStyle: 'italic',
+  },
+});
@@ -5,6 +5,8 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import * as Updates from 'expo-updates';
 import { useTutorial } from '../contexts/TutorialContext';
 import { useOnboarding } from '../contexts/OnboardingContext';
+import { useSmartAI } from '../contexts/SmartAIContext';
+import { useLocale } from '../contexts/LocaleContext';
 import { clearAllStoredData } from '../utils/testUtils';
 import { colors } from '../utils/colors';
 
@@ -14,6 +16,7 @@ interface SettingsModalProps {
   onClearSymptomLogs: () => void;
   onClearAppointments: () => void;
   onClearRecommendations: () => void;
+  onOpenDiagnostics: () => void; // Hidden developer screen, opened by long-pressing the title
   onUpdateNotificationSettings: (newSettings: Partial<{
     enabled: boolean;
     dailyReminderEnabled: boolean;
@@ -33,6 +36,7 @@ export default function SettingsModal({
   onClearSymptomLogs, 
   onClearAppointments, 
   onClearRecommendations,
+  onOpenDiagnostics,
   onUpdateNotificationSettings,
   notificationEnabled,
   notificationTime,
@@ -40,16 +44,18 @@ export default function SettingsModal({
 }: SettingsModalProps) {
   const { resetTutorials } = useTutorial();
   const { resetOnboarding } = useOnboarding();
+  const { budget, setMonthlyBudget } = useSmartAI();
+  const { t } = useLocale();
   const slideAnim = React.useRef(new Animated.Value(screenHeight)).current;
 
   const handleRestartApp = () => {
     Alert.alert(
-      'Restart App',
-      'This will completely reset the app to its initial state and clear ALL data including symptoms, recommendations, appointments, and settings. This action cannot be undone. Are you sure?',
+      t('settings.restartApp'),
+      t('settings.restartAppMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Restart App',
+          text: t('settings.restartApp'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -76,11 +82,11 @@ export default function SettingsModal({
               
               // Show success message
               Alert.alert(
-                'App Reset Complete',
-                'All data has been cleared and the app has been reset to its initial state. The app will now restart to complete the reset.',
+                t('settings.resetComplete'),
+                t('settings.resetCompleteMessage'),
                 [
                   { 
-                    text: 'OK',
+                    text: t('common.ok'),
                     onPress: async () => {
                       try {
                         // Force app restart to complete the reset
@@ -97,9 +103,9 @@ export default function SettingsModal({
             } catch (error) {
               console.error('❌ Error restarting app:', error);
               Alert.alert(
-                'Error',
-                'Failed to restart the app. Please try again.',
-                [{ text: 'OK' }]
+                t('common.error'),
+                t('settings.restartFailed'),
+                [{ text: t('common.ok') }]
               );
             }
           }
@@ -177,6 +183,43 @@ export default function SettingsModal({
     onUpdateNotificationSettings({ frequency });
   };
 
+  const handleMonthlyBudget = () => {
+    Alert.prompt(
+      t('settings.budgetPromptTitle'),
+      t('settings.budgetPromptMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.update'),
+          onPress: async (value) => {
+            const trimmed = (value || '').trim().replace(/^\$/, '');
+            const cap = parseFloat(trimmed);
+            if (trimmed && !(cap >= 0)) return;
+
+            try {
+              await setMonthlyBudget(trimmed ? Math.round(cap * 100) / 100 : null);
+            } catch (error) {
+              Alert.alert(t('common.error'), t('settings.budgetUpdateFailed'));
+            }
+          }
+        }
+      ],
+      'plain-text',
+      budget?.monthlyCapUsd?.toString() ?? ''
+    );
+  };
+
+  const formatBudget = () => {
+    if (!budget) return t('settings.budgetLoading');
+    const spent = `$${budget.spentThisMonth.toFixed(2)}`;
+    if (budget.monthlyCapUsd === null) return t('settings.budgetNoLimit', { spent });
+
+    const usage = t('settings.budgetOfCap', { spent, cap: `$${budget.monthlyCapUsd.toFixed(2)}` });
+    if (budget.level === 'exceeded') return t('settings.budgetExceeded', { usage });
+    if (budget.level === 'near') return t('settings.budgetNear', { usage });
+    return usage;
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
@@ -215,7 +258,7 @@ export default function SettingsModal({
           <View style={styles.handle} />
           
           <View style={styles.header}>
-            <Text style={styles.title}>Settings</Text>
+            <Text style={styles.title} onLongPress={onOpenDiagnostics} suppressHighlighting>{t('settings.title')}</Text>
             <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
               <Ionicons name="close" size={24} color="#64748b" />
             </TouchableOpacity>
@@ -224,13 +267,13 @@ export default function SettingsModal({
           <ScrollView style={styles.sections} showsVerticalScrollIndicator={false}>
             {/* Notification Settings */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Daily Reminders</Text>
+              <Text style={styles.sectionTitle}>{t('settings.reminders')}</Text>
               
               <View style={styles.settingRow}>
                 <View style={styles.settingContent}>
-                  <Text style={styles.settingTitle}>Enable Reminders</Text>
+                  <Text style={styles.settingTitle}>{t('settings.enableReminders')}</Text>
                   <Text style={styles.settingDescription}>
-                    Get reminded to record your symptoms
+                    {t('settings.enableRemindersDescription')}
                   </Text>
                 </View>
                 <Switch
@@ -245,9 +288,9 @@ export default function SettingsModal({
                 <>
                   <View style={styles.settingRow}>
                     <View style={styles.settingContent}>
-                      <Text style={styles.settingTitle}>Reminder Time</Text>
+                      <Text style={styles.settingTitle}>{t('settings.reminderTime')}</Text>
                       <Text style={styles.settingDescription}>
-                        When to send reminders
+                        {t('settings.reminderTimeDescription')}
                       </Text>
                     </View>
                     <DateTimePicker
@@ -262,30 +305,30 @@ export default function SettingsModal({
 
                   <View style={styles.settingRow}>
                     <View style={styles.settingContent}>
-                      <Text style={styles.settingTitle}>Frequency</Text>
+                      <Text style={styles.settingTitle}>{t('settings.frequency')}</Text>
                       <Text style={styles.settingDescription}>
-                        How often to send reminders
+                        {t('settings.frequencyDescription')}
                       </Text>
                     </View>
                     <View style={styles.frequencyButtons}>
                       {([
-                        { display: 'Daily', value: 'Daily' as const },
-                        { display: 'Weekdays', value: 'Weekdays' as const },
-                        { display: 'Weekly', value: 'Weekly' as const }
-                      ] as const).map(({ display, value }) => (
+                        { label: 'settings.frequencyDaily', value: 'Daily' },
+                        { label: 'settings.frequencyWeekdays', value: 'Weekdays' },
+                        { label: 'settings.frequencyWeekly', value: 'Weekly' }
+                      ] as const).map(({ label, value }) => (
                         <TouchableOpacity
-                          key={display}
+                          key={value}
                           style={[
                             styles.frequencyButton,
-                            notificationFrequency === display && styles.frequencyButtonActive
+                            notificationFrequency === value && styles.frequencyButtonActive
                           ]}
                           onPress={() => handleFrequencyChange(value)}
                         >
                           <Text style={[
                             styles.frequencyText,
-                            notificationFrequency === display && styles.frequencyTextActive
+                            notificationFrequency === value && styles.frequencyTextActive
                           ]}>
-                            {display}
+                            {t(label)}
                           </Text>
                         </TouchableOpacity>
                       ))}
@@ -295,9 +338,33 @@ export default function SettingsModal({
               )}
             </View>
 
+            {/* AI Budget */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.aiBudget')}</Text>
+
+              <TouchableOpacity 
+                style={styles.option} 
+                onPress={handleMonthlyBudget}
+              >
+                <View style={styles.optionIcon}>
+                  <Ionicons name="wallet" size={24} color="#00B39F" />
+                </View>
+                <View style={styles.optionContent}>
+                  <Text style={styles.optionTitle}>{t('settings.monthlyLimit')}</Text>
+                  <Text style={[
+                    styles.optionDescription,
+                    budget?.level === 'exceeded' && styles.optionDescriptionWarning
+                  ]}>
+                    {formatBudget()}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#cbd5e1" />
+              </TouchableOpacity>
+            </View>
+
             {/* App Settings */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>App Settings</Text>
+              <Text style={styles.sectionTitle}>{t('settings.appSettings')}</Text>
               
               <TouchableOpacity 
                 style={styles.option} 
@@ -307,9 +374,9 @@ export default function SettingsModal({
                   <Ionicons name="refresh-circle" size={24} color="#00B39F" />
                 </View>
                 <View style={styles.optionContent}>
-                  <Text style={styles.optionTitle}>Restart App</Text>
+                  <Text style={styles.optionTitle}>{t('settings.restartApp')}</Text>
                   <Text style={styles.optionDescription}>
-                    Reset everything and start fresh with onboarding
+                    {t('settings.restartAppDescription')}
                   </Text>
                 </View>
                 <Ionicons name="chevron-forward" size={20} color="#cbd5e1" />
@@ -318,9 +385,9 @@ export default function SettingsModal({
 
             {/* Delete Data */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Delete Data</Text>
+              <Text style={styles.sectionTitle}>{t('settings.deleteData')}</Text>
               <Text style={styles.sectionDescription}>
-                These actions cannot be undone
+                {t('settings.deleteDataDescription')}
               </Text>
               
               <TouchableOpacity 
@@ -331,9 +398,9 @@ export default function SettingsModal({
                   <Ionicons name="pulse" size={24} color="#ef4444" />
                 </View>
                 <View style={styles.optionContent}>
-                  <Text style={styles.optionTitle}>Clear All Symptom Logs</Text>
+                  <Text style={styles.optionTitle}>{t('settings.clearSymptomLogs')}</Text>
                   <Text style={styles.optionDescription}>
-                    Delete all recordings, summaries, and logs
+                    {t('settings.clearSymptomLogsDescription')}
                   </Text>
                 </View>
                 <Ionicons name="chevron-forward" size={20} color="#cbd5e1" />
@@ -347,9 +414,9 @@ export default function SettingsModal({
                   <Ionicons name="bulb" size={24} color="#ef4444" />
                 </View>
                 <View style={styles.optionContent}>
-                  <Text style={styles.optionTitle}>Clear All Recommendations</Text>
+                  <Text style={styles.optionTitle}>{t('settings.clearRecommendations')}</Text>
                   <Text style={styles.optionDescription}>
-                    Delete all health recommendations
+                    {t('settings.clearRecommendationsDescription')}
                   </Text>
                 </View>
                 <Ionicons name="chevron-forward" size={20} color="#cbd5e1" />
@@ -363,9 +430,9 @@ export default function SettingsModal({
                   <Ionicons name="calendar" size={24} color="#ef4444" />
                 </View>
                 <View style={styles.optionContent}>
-                  <Text style={styles.optionTitle}>Clear All Appointments</Text>
+                  <Text style={styles.optionTitle}>{t('settings.clearAppointments')}</Text>
                   <Text style={styles.optionDescription}>
-                    Delete all upcoming and past appointments
+                    {t('settings.clearAppointmentsDescription')}
                   </Text>
                 </View>
                 <Ionicons name="chevron-forward" size={20} color="#cbd5e1" />
@@ -550,4 +617,7 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#64748b',
   },
+  optionDescriptionWarning: {
+    color: '#b45309',
+  },
 }); 
\ No newline at end of file
@@ -1,4 +1,6 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ValidationUtils } from '../utils/validation';
+import { useProfileRepositories } from './ProfileContext';
 
 interface Appointment {
   id: string;
@@ -11,9 +13,11 @@ interface Appointment {
 
 interface AppointmentsContextType {
   appointments: Appointment[];
+  isLoaded: boolean; // False until stored appointments have been read
   addAppointment: (appointment: Appointment) => void;
   updateAppointment: (id: string, updates: Partial<Appointment>) => void;
   deleteAppointment: (id: string) => void;
+  deleteAppointments: (ids: string[]) => void;
   clearAllAppointments: () => void;
 }
 
@@ -31,8 +35,58 @@ interface AppointmentsProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Convert date strings from storage back into Date objects
+ */
+const reviveAppointment = (appointment: Appointment): Appointment => ({
+  ...appointment,
+  date: new Date(appointment.date),
+  timestamp: appointment.timestamp ? new Date(appointment.timestamp) : new Date(appointment.date),
+  recentSymptomsLastUpdated: appointment.recentSymptomsLastUpdated
+    ? new Date(appointment.recentSymptomsLastUpdated)
+    : undefined,
+});
+
 export const AppointmentsProvider: React.FC<AppointmentsProviderProps> = ({ children }) => {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { appointments: repository } = useProfileRepositories();
+
+  // Load appointments from encrypted storage
+  useEffect(() => {
+    const loadAppointments = async () => {
+      try {
+        const stored = await repository.loadAll();
+        if (stored && Array.isArray(stored)) {
+          // Validate each appointment before setting state
+          const validAppointments = stored.filter(appointment => {
+            const validation = ValidationUtils.validateAppointment(appointment);
+            if (!validation.isValid) {
+              console.warn('Invalid appointment found:', validation.errors);
+            }
+            return validation.isValid;
+          });
+
+          setAppointments(validAppointments.map(reviveAppointment));
+        }
+      } catch (error) {
+        console.error('Error loading encrypted appointments:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadAppointments();
+  }, []);
+
+  // Save to encrypted storage on change (only after the initial load, so an
+  // empty initial state never overwrites stored data)
+  useEffect(() => {
+    if (!isLoaded) return;
+    repository.replaceAll(appointments).catch(error => {
+      console.error('Error saving appointments:', error);
+    });
+  }, [appointments, isLoaded]);
 
   const addAppointment = (appointment: Appointment) => {
     setAppointments(prev => [appointment, ...prev]);
@@ -48,15 +102,22 @@ export const AppointmentsProvider: React.FC<AppointmentsProviderProps> = ({ chil
     setAppointments(prev => prev.filter(app => app.id !== id));
   };
 
+  const deleteAppointments = (ids: string[]) => {
+    const idSet = new Set(ids);
+    setAppointments(prev => prev.filter(app => !idSet.has(app.id)));
+  };
+
   const clearAllAppointments = () => {
     setAppointments([]);
   };
 
   const value: AppointmentsContextType = {
     appointments,
+    isLoaded,
     addAppointment,
     updateAppointment,
     deleteAppointment,
+    deleteAppointments,
     clearAllAppointments,
   };
 
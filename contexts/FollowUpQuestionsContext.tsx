@@ -1,13 +1,15 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { FollowUpQuestion } from '../types/recommendations';
-import { StorageManager } from '../utils/storage';
 import { ValidationUtils } from '../utils/validation';
+import { useProfiles, useProfileRepositories } from './ProfileContext';
 import { sendFollowUpQuestionNotification } from '../utils/notifications';
 
 interface FollowUpQuestionsContextType {
   followUpQuestions: FollowUpQuestion[];
+  isLoaded: boolean; // False until stored questions have been read
   addFollowUpQuestion: (question: FollowUpQuestion) => void;
   removeFollowUpQuestion: (id: string) => void;
+  removeFollowUpQuestions: (ids: string[]) => void;
   markAsAnswered: (id: string) => void;
   getUnansweredCount: () => number;
   clearAllQuestions: () => void;
@@ -15,16 +17,17 @@ interface FollowUpQuestionsContextType {
 
 const FollowUpQuestionsContext = createContext<FollowUpQuestionsContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'follow_up_questions';
-
 export function FollowUpQuestionsProvider({ children }: { children: React.ReactNode }) {
   const [followUpQuestions, setFollowUpQuestions] = useState<FollowUpQuestion[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { followUpQuestions: repository } = useProfileRepositories();
+  const { notificationProfile } = useProfiles();
 
   // Load follow-up questions from encrypted storage
   useEffect(() => {
     const loadFollowUpQuestions = async () => {
       try {
-        const stored = await StorageManager.load<FollowUpQuestion[]>(STORAGE_KEY);
+        const stored = await repository.loadAll();
         if (stored && Array.isArray(stored)) {
           // Validate each question before setting state
           const validQuestions = stored.filter(question => {
@@ -39,19 +42,24 @@ export function FollowUpQuestionsProvider({ children }: { children: React.ReactN
         }
       } catch (error) {
         console.error('Error loading encrypted follow-up questions:', error);
+      } finally {
+        setIsLoaded(true);
       }
     };
 
     loadFollowUpQuestions();
   }, []);
 
+  // Save on change (only after the initial load, so an empty initial state
+  // never overwrites stored data)
   useEffect(() => {
+    if (!isLoaded) return;
     saveFollowUpQuestions();
-  }, [followUpQuestions]);
+  }, [followUpQuestions, isLoaded]);
 
   const saveFollowUpQuestions = async () => {
     try {
-      await StorageManager.save(STORAGE_KEY, followUpQuestions);
+      await repository.replaceAll(followUpQuestions);
     } catch (error) {
       console.error('Error saving follow-up questions:', error);
     }
@@ -69,12 +77,12 @@ export function FollowUpQuestionsProvider({ children }: { children: React.ReactN
       setFollowUpQuestions(updatedQuestions);
       
       // Save to encrypted storage
-      await StorageManager.save(STORAGE_KEY, updatedQuestions);
+      await repository.replaceAll(updatedQuestions);
       
       // Send notification for new follow-up questions
       const unansweredCount = updatedQuestions.filter(q => !q.isAnswered).length;
       if (unansweredCount > 0) {
-        sendFollowUpQuestionNotification(unansweredCount);
+        sendFollowUpQuestionNotification(unansweredCount, notificationProfile);
       }
     } catch (error) {
       console.error('Error saving encrypted follow-up question:', error);
@@ -86,6 +94,11 @@ export function FollowUpQuestionsProvider({ children }: { children: React.ReactN
     setFollowUpQuestions(prev => prev.filter(q => q.id !== id));
   };
 
+  const removeFollowUpQuestions = (ids: string[]) => {
+    const idSet = new Set(ids);
+    setFollowUpQuestions(prev => prev.filter(q => !idSet.has(q.id)));
+  };
+
   const markAsAnswered = (id: string) => {
     setFollowUpQuestions(prev => 
       prev.map(q => q.id === id ? { ...q, isAnswered: true } : q)
@@ -104,8 +117,10 @@ export function FollowUpQuestionsProvider({ children }: { children: React.ReactN
     <FollowUpQuestionsContext.Provider
       value={{
         followUpQuestions,
+        isLoaded,
         addFollowUpQuestion,
         removeFollowUpQuestion,
+        removeFollowUpQuestions,
         markAsAnswered,
         getUnansweredCount,
         clearAllQuestions,
@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useMemo, useCallback, ReactNode } from 'react';
+import { TranslationKey } from '../locales/en';
+import { AppLanguage, I18n, PluralKey, TranslationParams } from '../utils/i18n';
+import { useProfiles } from './ProfileContext';
+
+// ============================================================================
+// LOCALE CONTEXT - The active profile's language, for screens
+// ============================================================================
+//
+// PURPOSE: Give every screen t() / tCount() and a date locale that follow
+//          the active profile's language setting (or the device when unset)
+// USAGE: const { t, locale } = useLocale();
+//        t('symptoms.status.saved'); DateUtils.formatDate(date, locale)
+// SETTING: Changed per profile via useProfiles().setProfileLanguage
+
+interface LocaleContextType {
+  language: AppLanguage;                      // Resolved language the UI is shown in
+  languagePreference: AppLanguage | undefined; // The profile's setting; undefined follows the device
+  locale: string;                             // BCP 47 locale for dates and times
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  tCount: (base: PluralKey, count: number, params?: TranslationParams) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+};
+
+interface LocaleProviderProps {
+  children: ReactNode;
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
+  const { activeProfile } = useProfiles();
+  const languagePreference = activeProfile.language;
+  const language = I18n.resolveLanguage(languagePreference);
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => I18n.translate(language, key, params),
+    [language]
+  );
+
+  const tCount = useCallback(
+    (base: PluralKey, count: number, params?: TranslationParams) => I18n.translateCount(language, base, count, params),
+    [language]
+  );
+
+  const value = useMemo<LocaleContextType>(() => ({
+    language,
+    languagePreference,
+    locale: I18n.getLocale(language),
+    t,
+    tCount,
+  }), [language, languagePreference, t, tCount]);
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
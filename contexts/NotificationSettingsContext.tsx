@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { StorageManager } from '../utils/storage';
 import { ValidationUtils } from '../utils/validation';
+import { useRepositories } from './RepositoryContext';
+import { useLocale } from './LocaleContext';
 import { 
   sendDailyReminderNotification, 
   clearBadgeCount, 
@@ -37,8 +38,6 @@ interface NotificationSettingsContextType {
 
 const NotificationSettingsContext = createContext<NotificationSettingsContextType | undefined>(undefined);
 
-const NOTIFICATION_SETTINGS_KEY = '@nexst:notification_settings';
-
 const defaultSettings: NotificationSettings = {
   enabled: true,
   time: new Date(),
@@ -61,12 +60,14 @@ interface NotificationSettingsProviderProps {
 
 export const NotificationSettingsProvider: React.FC<NotificationSettingsProviderProps> = ({ children }) => {
   const [settings, setSettings] = useState<NotificationSettings>(defaultSettings);
+  const { notificationSettings: repository } = useRepositories();
+  const { language } = useLocale();
 
   // Load notification settings from encrypted storage
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const stored = await StorageManager.load<NotificationSettings>(NOTIFICATION_SETTINGS_KEY);
+        const stored = await repository.load();
         if (stored) {
           // Fix any corrupted date data first
           const fixedSettings = ValidationUtils.fixCorruptedDates(stored);
@@ -106,18 +107,18 @@ export const NotificationSettingsProvider: React.FC<NotificationSettingsProvider
       setSettings(updatedSettings);
       
       // Save to encrypted storage
-      await StorageManager.save(NOTIFICATION_SETTINGS_KEY, updatedSettings);
+      await repository.save(updatedSettings);
       
       // Handle daily reminder scheduling
       if (updatedSettings.dailyReminderEnabled) {
         // Add delay to prevent immediate scheduling on app startup
         // and ensure the settings are properly saved first
         setTimeout(() => {
-          sendDailyReminderNotification(updatedSettings.dailyReminderTime, true);
+          sendDailyReminderNotification(updatedSettings.dailyReminderTime, true, language);
         }, 1000);
       } else {
         // Disable daily reminders
-        sendDailyReminderNotification(updatedSettings.dailyReminderTime, false);
+        sendDailyReminderNotification(updatedSettings.dailyReminderTime, false, language);
       }
     } catch (error) {
       console.error('Error saving encrypted notification settings:', error);
@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { StorageManager } from '../utils/storage';
-import { ValidationUtils } from '../utils/validation';
+import { useRepositories } from './RepositoryContext';
 
 interface OnboardingContextType {
   hasSeenOnboarding: boolean;
@@ -25,14 +24,14 @@ interface OnboardingProviderProps {
 export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children }) => {
   const [hasSeenOnboarding, setHasSeenOnboarding] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { onboardingComplete: repository } = useRepositories();
 
   // Load onboarding status from encrypted storage
   useEffect(() => {
     const loadOnboardingStatus = async () => {
       try {
         setIsLoading(true);
-        // Use safeLoad with a default value to prevent crashes
-        const onboardingComplete = await StorageManager.safeLoad<string>('onboardingComplete', 'false');
+        const onboardingComplete = await repository.load();
         
         if (onboardingComplete === 'true') {
           setHasSeenOnboarding(true);
@@ -55,7 +54,7 @@ export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children
       setHasSeenOnboarding(true);
       
       // Save to encrypted storage
-      await StorageManager.save('onboardingComplete', 'true');
+      await repository.save('true');
     } catch (error) {
       console.error('Error saving encrypted onboarding status:', error);
       throw error;
@@ -67,7 +66,7 @@ export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children
       setHasSeenOnboarding(false);
       
       // Remove from encrypted storage
-      await StorageManager.remove('onboardingComplete');
+      await repository.remove();
     } catch (error) {
       console.error('Error removing encrypted onboarding status:', error);
       throw error;
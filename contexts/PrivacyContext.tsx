@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { StorageManager } from '../utils/storage';
+import { StorageManager, STORAGE_KEYS, QuarantinedRecord, RecoveryResult } from '../utils/storage';
 import { ValidationUtils } from '../utils/validation';
+import { useRepositories } from './RepositoryContext';
+import { BackupManager, OpenedBackup, RestoreMode, RestoreReport } from '../utils/backup';
+import { SchemaMigrations } from '../utils/schemaMigrations';
+import { AudioStore, AudioSettings, AudioUsage, defaultAudioSettings } from '../utils/audioStore';
 
 interface PrivacySettings {
   aiProcessingEnabled: boolean;
@@ -13,13 +17,26 @@ interface PrivacySettings {
 
 interface PrivacyContextType {
   privacySettings: PrivacySettings;
+  isLoaded: boolean; // False until stored privacy settings have been read
   toggleAIProcessing: () => Promise<void>;
   toggleDataSharing: () => Promise<void>;
   toggleAnalytics: () => Promise<void>;
   updateDataRetention: (days: number) => Promise<void>;
   exportUserData: () => Promise<string>;
+  createBackup: (passphrase: string) => Promise<string>;
+  openBackup: (fileUri: string, passphrase: string) => Promise<OpenedBackup>;
+  restoreBackup: (backup: OpenedBackup, mode: RestoreMode) => Promise<RestoreReport>;
   deleteAllData: () => Promise<void>;
   resetPrivacySettings: () => Promise<void>;
+  audioSettings: AudioSettings;
+  updateAudioSettings: (updates: Partial<AudioSettings>) => Promise<void>;
+  getAudioUsage: () => Promise<AudioUsage>;
+  cleanUpAudio: () => Promise<{ deleted: number; freedBytes: number }>;
+  quarantinedRecords: QuarantinedRecord[];
+  refreshQuarantine: () => Promise<void>;
+  recoverQuarantinedData: () => Promise<RecoveryResult[]>;
+  exportQuarantinedData: () => Promise<string>;
+  discardQuarantinedData: () => Promise<void>;
 }
 
 const defaultPrivacySettings: PrivacySettings = {
@@ -47,12 +64,17 @@ interface PrivacyProviderProps {
 
 export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) => {
   const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(defaultPrivacySettings);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(defaultAudioSettings);
+  const repositories = useRepositories();
+  const repository = repositories.privacySettings;
 
   // Load privacy settings from encrypted storage
   useEffect(() => {
     const loadPrivacySettings = async () => {
       try {
-        const stored = await StorageManager.load<PrivacySettings>('privacySettings');
+        const stored = await repository.load();
         if (stored) {
           // Fix any corrupted data first
           const fixedSettings = ValidationUtils.fixCorruptedDates(stored);
@@ -69,10 +91,25 @@ export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) =>
       } catch (error) {
         console.error('Error loading encrypted privacy settings:', error);
         setPrivacySettings(defaultPrivacySettings);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    const loadAudioSettings = async () => {
+      try {
+        const stored = await repositories.audioSettings.load();
+        if (stored) {
+          setAudioSettings({ ...defaultAudioSettings, ...stored });
+        }
+      } catch (error) {
+        console.error('Error loading audio settings:', error);
       }
     };
 
     loadPrivacySettings();
+    loadAudioSettings();
+    refreshQuarantine();
   }, []);
 
   const updatePrivacySettings = async (newSettings: Partial<PrivacySettings>) => {
@@ -88,7 +125,7 @@ export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) =>
       setPrivacySettings(updatedSettings);
       
       // Save to encrypted storage
-      await StorageManager.save('privacySettings', updatedSettings);
+      await repository.save(updatedSettings);
     } catch (error) {
       console.error('Error saving encrypted privacy settings:', error);
       throw error;
@@ -118,11 +155,18 @@ export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) =>
     try {
       const keys = await StorageManager.getAllKeys();
       const keysToDelete = keys.filter(key => 
-        key !== 'privacySettings' && 
-        key !== 'onboardingComplete'
+        key !== STORAGE_KEYS.privacySettings && 
+        key !== STORAGE_KEYS.onboardingComplete &&
+        key !== STORAGE_KEYS.schemaVersion &&
+        key !== STORAGE_KEYS.audioSettings &&
+        key !== STORAGE_KEYS.aiBudgetSettings &&
+        // Profiles stay (now empty) so the people tracked on this device don't change underneath the UI
+        key !== STORAGE_KEYS.profiles &&
+        key !== STORAGE_KEYS.activeProfileId
       );
       
       await StorageManager.multiRemove(keysToDelete);
+      await AudioStore.deleteAll();
       console.log('✅ All user data deleted from encrypted storage');
     } catch (error) {
       console.error('Error deleting encrypted user data:', error);
@@ -182,6 +226,82 @@ export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) =>
     }
   };
 
+  // ============================================================================
+  // AUDIO RECORDINGS - Quality, expiry and disk usage
+  // ============================================================================
+
+  const updateAudioSettings = async (updates: Partial<AudioSettings>) => {
+    const updated = { ...audioSettings, ...updates };
+    if (updated.expireAfterDays !== null && !(updated.expireAfterDays >= 1)) {
+      throw new Error('Audio expiry must be at least 1 day');
+    }
+
+    setAudioSettings(updated);
+    try {
+      await repositories.audioSettings.save(updated);
+    } catch (error) {
+      console.error('Error saving audio settings:', error);
+      throw error;
+    }
+  };
+
+  const getAudioUsage = async (): Promise<AudioUsage> => {
+    try {
+      return await AudioStore.getUsage();
+    } catch (error) {
+      console.error('Error reading audio usage:', error);
+      return { fileCount: 0, totalBytes: 0 };
+    }
+  };
+
+  /**
+   * Delete recordings no symptom log (of any profile) points at
+   */
+  const cleanUpAudio = async () => {
+    const entities = await SchemaMigrations.loadEntities();
+    const referenced = new Set<string>();
+    Object.values(entities.symptomLogs).forEach(logs =>
+      logs.forEach(log => log?.audioURI && referenced.add(log.audioURI))
+    );
+
+    const result = await AudioStore.collectGarbage(referenced);
+    if (result.errors.length > 0) {
+      console.warn('Some orphaned recordings could not be deleted:', result.errors);
+    }
+    return { deleted: result.deleted, freedBytes: result.freedBytes };
+  };
+
+  // ============================================================================
+  // BACKUP & RESTORE - Encrypted bundles for moving to a new device
+  // ============================================================================
+
+  const createBackup = async (passphrase: string): Promise<string> => {
+    try {
+      return await BackupManager.createBackup(passphrase);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      throw error;
+    }
+  };
+
+  const openBackup = async (fileUri: string, passphrase: string): Promise<OpenedBackup> => {
+    try {
+      return await BackupManager.openBackup(fileUri, passphrase);
+    } catch (error) {
+      console.error('Error opening backup:', error);
+      throw error;
+    }
+  };
+
+  const restoreBackup = async (backup: OpenedBackup, mode: RestoreMode): Promise<RestoreReport> => {
+    try {
+      return await BackupManager.restoreBackup(backup, mode);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw new Error('Failed to restore backup');
+    }
+  };
+
   const deleteAllData = async () => {
     try {
       await deleteAllUserData();
@@ -197,16 +317,69 @@ export const PrivacyProvider: React.FC<PrivacyProviderProps> = ({ children }) =>
     await updatePrivacySettings(defaultPrivacySettings);
   };
 
+  // ============================================================================
+  // QUARANTINED DATA - Corrupted payloads kept aside for explicit user action
+  // ============================================================================
+
+  const refreshQuarantine = async () => {
+    try {
+      setQuarantinedRecords(await StorageManager.getQuarantinedRecords());
+    } catch (error) {
+      console.error('Error loading quarantined data:', error);
+    }
+  };
+
+  const recoverQuarantinedData = async (): Promise<RecoveryResult[]> => {
+    try {
+      return await StorageManager.recoverQuarantined();
+    } finally {
+      await refreshQuarantine();
+    }
+  };
+
+  const exportQuarantinedData = async (): Promise<string> => {
+    const records = await StorageManager.getQuarantinedRecords();
+    return JSON.stringify({
+      exportDate: new Date().toISOString(),
+      appVersion: '1.0.0',
+      quarantinedRecords: records,
+    }, null, 2);
+  };
+
+  const discardQuarantinedData = async () => {
+    try {
+      await StorageManager.discardQuarantined();
+    } catch (error) {
+      console.error('Error discarding quarantined data:', error);
+      throw new Error('Failed to discard quarantined data');
+    } finally {
+      await refreshQuarantine();
+    }
+  };
+
   return (
     <PrivacyContext.Provider value={{
       privacySettings,
+      isLoaded,
       toggleAIProcessing,
       toggleDataSharing,
       toggleAnalytics,
       updateDataRetention,
       exportUserData,
+      createBackup,
+      openBackup,
+      restoreBackup,
       deleteAllData,
       resetPrivacySettings,
+      audioSettings,
+      updateAudioSettings,
+      getAudioUsage,
+      cleanUpAudio,
+      quarantinedRecords,
+      refreshQuarantine,
+      recoverQuarantinedData,
+      exportQuarantinedData,
+      discardQuarantinedData,
     }}>
       {children}
     </PrivacyContext.Provider>
@@ -0,0 +1,323 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { SymptomLog } from '../types/recommendations';
+import { useSymptomLogs } from './SymptomLogsContext';
+import { useRecommendations } from './RecommendationsContext';
+import { useSmartAI } from './SmartAIContext';
+import { useProfileRepositories } from './ProfileContext';
+import { useRedFlags } from './RedFlagContext';
+import { ProcessingQueue, ProcessingJob, ProcessingStage } from '../utils/processingQueue';
+
+// ============================================================================
+// PROCESSING QUEUE CONTEXT - Runs the active profile's recording jobs
+// ============================================================================
+//
+// PURPOSE: Save every recording as a log immediately and finish its
+//          transcription, analysis and recommendations whenever the AI can
+//          be reached (see utils/processingQueue.ts)
+// RETRIES: Each job backs off after a failure; every pending job is retried
+//          at once when the app comes back to the foreground or another job
+//          succeeds, both signs that connectivity has returned
+// NOTE: Jobs of other profiles wait in storage until their profile is active
+
+export type RecordingOutcome = 'processed' | 'queued';
+
+interface ProcessingQueueContextType {
+  jobs: ProcessingJob[];
+  getJob: (logId: string) => ProcessingJob | undefined;
+  enqueueRecording: (recording: { id: string; timestamp: Date; audioURI: string }) => Promise<RecordingOutcome>;
+  retryJob: (logId: string) => Promise<void>;
+}
+
+const ProcessingQueueContext = createContext<ProcessingQueueContextType | undefined>(undefined);
+
+// Upper bound on one timer so a long backoff still wakes up to re-check
+const MAX_TIMER_DELAY_MS = 15 * 60 * 1000;
+
+// Transcript excerpt used as the symptom on a red-flag recommendation (the summary doesn't exist yet)
+const MAX_RED_FLAG_EXCERPT_LENGTH = 120;
+
+interface ProcessingQueueProviderProps {
+  children: ReactNode;
+}
+
+export const ProcessingQueueProvider: React.FC<ProcessingQueueProviderProps> = ({ children }) => {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [jobsLoaded, setJobsLoaded] = useState(false);
+  const { processingJobs: repository } = useProfileRepositories();
+  const symptomLogsContext = useSymptomLogs();
+  const { addRecommendations } = useRecommendations();
+  const { transcribeRecording, analyzeTranscript, analyzeForRecommendations } = useSmartAI();
+  const { screenTranscript } = useRedFlags();
+
+  const jobsRef = useRef<ProcessingJob[]>([]);
+  const activeJobIds = useRef(new Set<string>());
+  const isDrainingRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Jobs run across renders; always call the latest context functions
+  const latest = useRef({ symptomLogsContext, addRecommendations, screenTranscript, transcribeRecording, analyzeTranscript, analyzeForRecommendations });
+  latest.current = { symptomLogsContext, addRecommendations, screenTranscript, transcribeRecording, analyzeTranscript, analyzeForRecommendations };
+
+  // Load the queue on mount
+  useEffect(() => {
+    const loadJobs = async () => {
+      try {
+        const stored = await repository.loadAll();
+        if (stored) {
+          jobsRef.current = stored;
+          setJobs(stored);
+        }
+      } catch (error) {
+        console.error('Error loading processing queue:', error);
+      } finally {
+        setJobsLoaded(true);
+      }
+    };
+
+    loadJobs();
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [repository]);
+
+  // Start once both the queue and the logs are loaded
+  useEffect(() => {
+    if (!jobsLoaded || !symptomLogsContext.isLoaded) return;
+
+    // A log saved just before the app was killed may not have its job yet
+    const queued = new Set(jobsRef.current.map(job => job.id));
+    const orphans = symptomLogsContext.symptomLogs
+      .filter(log => log.processingStatus && log.audioURI && !queued.has(log.id))
+      .map(log => ProcessingQueue.createJob(log.id, log.audioURI!));
+    if (orphans.length > 0) {
+      saveJobs([...jobsRef.current, ...orphans]);
+    }
+
+    drainQueue();
+  }, [jobsLoaded, symptomLogsContext.isLoaded]);
+
+  // Returning to the foreground is the best signal we have that the network may be back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        retryPendingNow();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  const saveJobs = (next: ProcessingJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+
+    // Serialized so an older write can't land after a newer one
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => repository.replaceAll(next))
+      .catch(error => console.error('Error saving processing queue:', error));
+  };
+
+  const updateJob = (job: ProcessingJob) => {
+    saveJobs(jobsRef.current.map(existing => existing.id === job.id ? job : existing));
+  };
+
+  const removeJob = (id: string) => {
+    saveJobs(jobsRef.current.filter(job => job.id !== id));
+  };
+
+  // ============================================================================
+  // RUNNER
+  // ============================================================================
+
+  /**
+   * Work a job through its stages until it finishes, fails or reaches stopBefore
+   * @returns Whether every stage attempted succeeded
+   */
+  const runJob = async (initial: ProcessingJob, stopBefore?: ProcessingStage): Promise<boolean> => {
+    const { symptomLogsContext: logs, ...ai } = latest.current;
+    let job = initial;
+
+    if (!logs.getSymptomLog(job.id)) {
+      console.log(`🗑️ Processing queue: log ${job.id} was deleted, dropping its job`);
+      removeJob(job.id);
+      return false;
+    }
+
+    activeJobIds.current.add(job.id);
+    try {
+      if (job.stage === 'transcription' && stopBefore !== 'transcription') {
+        const transcript = await ai.transcribeRecording(job.audioURI);
+
+        // Red flags are checked locally before any further AI call, so the
+        // emergency screen doesn't wait on (or depend on) analysis succeeding
+        const redFlags = ai.screenTranscript(transcript, transcript.slice(0, MAX_RED_FLAG_EXCERPT_LENGTH), job.id);
+        await logs.updateSymptomLog(job.id, { transcript, ...(redFlags.length > 0 && { redFlags }) });
+
+        job = ProcessingQueue.advance(job, 'analysis', { transcript });
+        updateJob(job);
+      }
+
+      if (job.stage === 'analysis' && stopBefore !== 'analysis') {
+        const transcript = job.transcript ?? '';
+        const analysis = await ai.analyzeTranscript(transcript);
+        const hasRedFlags = (logs.getSymptomLog(job.id)?.redFlags?.length ?? 0) > 0;
+        await logs.updateSymptomLog(job.id, {
+          transcript,
+          summary: analysis.summary,
+          englishSummary: analysis.englishSummary,
+          healthDomain: analysis.healthDomain,
+          // A red flag overrides whatever the model thought of the severity
+          severity: hasRedFlags ? 'severe' : analysis.severity as SymptomLog['severity'],
+          impact: hasRedFlags ? 'high' : analysis.impact as SymptomLog['impact'],
+          generatedBy: analysis.generatedBy,
+          processingStatus: undefined,
+        });
+        job = ProcessingQueue.advance(job, 'recommendations');
+        updateJob(job);
+      }
+
+      if (job.stage === 'recommendations' && stopBefore !== 'recommendations') {
+        const log = logs.getSymptomLog(job.id);
+        if (log) {
+          const recommendations = await ai.analyzeForRecommendations(log);
+          if (recommendations.length > 0) {
+            latest.current.addRecommendations(recommendations);
+          }
+        }
+        removeJob(job.id);
+        console.log(`✅ Processing queue: finished log ${job.id}`);
+      }
+      return true;
+    } catch (error) {
+      const failed = ProcessingQueue.recordFailure(job, error);
+      updateJob(failed);
+      console.warn(
+        `⚠️ Processing queue: ${job.stage} failed for log ${job.id} (attempt ${failed.attempts}):`,
+        failed.lastError
+      );
+
+      // Once analysis is done the log is complete; only missing recommendations remain
+      if (failed.status === 'failed' && failed.stage !== 'recommendations') {
+        await logs.updateSymptomLog(job.id, { processingStatus: 'failed' });
+      }
+      return false;
+    } finally {
+      activeJobIds.current.delete(job.id);
+    }
+  };
+
+  /**
+   * Run every due job, one at a time, then schedule the next wake-up
+   */
+  const drainQueue = async () => {
+    if (isDrainingRef.current) return;
+    isDrainingRef.current = true;
+
+    try {
+      let job: ProcessingJob | undefined;
+      while ((job = jobsRef.current.find(candidate => ProcessingQueue.isDue(candidate) && !activeJobIds.current.has(candidate.id)))) {
+        const succeeded = await runJob(job);
+        if (succeeded) {
+          // The AI is reachable again: don't leave other recordings waiting out their backoff
+          saveJobs(jobsRef.current.map(other =>
+            other.status === 'pending' && other.attempts > 0 ? ProcessingQueue.retryNow(other) : other
+          ));
+        }
+      }
+    } finally {
+      isDrainingRef.current = false;
+      scheduleNextRun();
+    }
+  };
+
+  const scheduleNextRun = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+
+    const nextDueAt = ProcessingQueue.nextDueAt(jobsRef.current);
+    if (!nextDueAt) return;
+
+    const delay = Math.min(Math.max(nextDueAt.getTime() - Date.now(), 1000), MAX_TIMER_DELAY_MS);
+    timerRef.current = setTimeout(drainQueue, delay);
+  };
+
+  const retryPendingNow = () => {
+    if (!jobsRef.current.some(job => job.status === 'pending')) return;
+
+    saveJobs(jobsRef.current.map(job => job.status === 'pending' ? ProcessingQueue.retryNow(job) : job));
+    drainQueue();
+  };
+
+  // ============================================================================
+  // PUBLIC API
+  // ============================================================================
+
+  /**
+   * Save a recording as a pending log and process it right away
+   * @returns 'processed' once the log has its transcript and summary (recommendations
+   *          follow in the background), 'queued' if it is waiting for a retry
+   */
+  const enqueueRecording = async (recording: { id: string; timestamp: Date; audioURI: string }): Promise<RecordingOutcome> => {
+    const pendingLog: SymptomLog = {
+      id: recording.id,
+      timestamp: recording.timestamp,
+      summary: '',
+      transcript: '',
+      audioURI: recording.audioURI,
+      healthDomain: 'general_wellness',
+      severity: 'mild',
+      impact: 'low',
+      processingStatus: 'pending',
+    };
+    await latest.current.symptomLogsContext.addSymptomLog(pendingLog);
+
+    const job = ProcessingQueue.createJob(recording.id, recording.audioURI);
+    saveJobs([...jobsRef.current, job]);
+
+    const processed = await runJob(job, 'recommendations');
+    drainQueue(); // Recommendations, and any other recording that was waiting
+    return processed ? 'processed' : 'queued';
+  };
+
+  /**
+   * Start a job over, e.g. after it failed for good
+   */
+  const retryJob = async (logId: string) => {
+    const job = jobsRef.current.find(candidate => candidate.id === logId);
+    if (!job) return;
+
+    updateJob(ProcessingQueue.retryNow(job, true));
+    if (job.stage !== 'recommendations') {
+      await latest.current.symptomLogsContext.updateSymptomLog(logId, { processingStatus: 'pending' });
+    }
+    drainQueue();
+  };
+
+  const getJob = (logId: string) => jobs.find(job => job.id === logId);
+
+  const value: ProcessingQueueContextType = {
+    jobs,
+    getJob,
+    enqueueRecording,
+    retryJob,
+  };
+
+  return (
+    <ProcessingQueueContext.Provider value={value}>
+      {children}
+    </ProcessingQueueContext.Provider>
+  );
+};
+
+export const useProcessingQueue = () => {
+  const context = useContext(ProcessingQueueContext);
+  if (context === undefined) {
+    throw new Error('useProcessingQueue must be used within a ProcessingQueueProvider');
+  }
+  return context;
+};
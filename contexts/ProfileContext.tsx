@@ -0,0 +1,230 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import * as Notifications from 'expo-notifications';
+import { Profile } from '../types/profiles';
+import { DEFAULT_PROFILE_ID } from '../utils/storage';
+import { AudioStore } from '../utils/audioStore';
+import { ProfileRepositories } from '../utils/repositories';
+import { NotificationProfile } from '../utils/notifications';
+import { AppLanguage, I18n } from '../utils/i18n';
+import { useRepositories } from './RepositoryContext';
+
+// ============================================================================
+// PROFILE CONTEXT - The people tracked on this device
+// ============================================================================
+//
+// PURPOSE: Let one device track symptoms for several people (e.g. a parent
+//          logging for their children) without their data ever mixing
+// ISOLATION: Every health-data context reads through useProfileRepositories(),
+//            and App.tsx remounts those contexts (and the AI agents) whenever
+//            the active profile changes, so no state carries over
+
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+// Named in the device's language, since no profile has chosen one yet
+const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: I18n.translate(I18n.resolveLanguage(), 'profiles.defaultName'),
+  createdAt: new Date(),
+});
+
+const normalizeName = (name: string, language: AppLanguage): string => {
+  const trimmed = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error(I18n.translate(language, 'profiles.nameRequired'));
+  }
+  return trimmed;
+};
+
+interface ProfileContextType {
+  profiles: Profile[];
+  activeProfile: Profile;
+  activeProfileId: string;
+  notificationProfile: NotificationProfile;
+  switchProfile: (profileId: string) => void;
+  addProfile: (name: string) => Promise<Profile>;
+  renameProfile: (profileId: string, name: string) => Promise<void>;
+  setProfileLanguage: (profileId: string, language?: AppLanguage) => Promise<void>;
+  deleteProfile: (profileId: string) => Promise<void>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfiles must be used within a ProfileProvider');
+  }
+  return context;
+};
+
+/**
+ * Repositories for the active profile's health data
+ */
+export const useProfileRepositories = (): ProfileRepositories => {
+  const repositories = useRepositories();
+  const { activeProfileId } = useProfiles();
+  return useMemo(() => repositories.forProfile(activeProfileId), [repositories, activeProfileId]);
+};
+
+interface ProfileProviderProps {
+  children: ReactNode;
+}
+
+export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) => {
+  const repositories = useRepositories();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load profiles; data from before profiles existed belongs to the default one
+  useEffect(() => {
+    const loadProfiles = async () => {
+      let loaded: Profile[] = [];
+      let storedActiveId: string | null = null;
+
+      try {
+        const stored = await repositories.profiles.load();
+        if (Array.isArray(stored)) {
+          loaded = stored
+            .filter(profile => typeof profile?.id === 'string' && typeof profile.name === 'string')
+            .map(profile => ({
+              ...profile,
+              createdAt: new Date(profile.createdAt),
+              language: I18n.isSupported(profile.language) ? profile.language : undefined,
+            }));
+        }
+        storedActiveId = await repositories.activeProfileId.load();
+      } catch (error) {
+        console.error('Error loading profiles:', error);
+      }
+
+      if (loaded.length === 0) {
+        loaded = [createDefaultProfile()];
+        repositories.profiles.save(loaded).catch(error => {
+          console.error('Error saving default profile:', error);
+        });
+      }
+
+      setProfiles(loaded);
+      setActiveProfileId(loaded.some(profile => profile.id === storedActiveId) ? storedActiveId! : loaded[0].id);
+      setIsLoaded(true);
+    };
+
+    loadProfiles();
+  }, []);
+
+  // Errors from here are shown to the user, in the active profile's language
+  const displayLanguage = I18n.resolveLanguage(profiles.find(profile => profile.id === activeProfileId)?.language);
+
+  const saveProfiles = async (updated: Profile[]) => {
+    setProfiles(updated);
+    await repositories.profiles.save(updated);
+  };
+
+  const switchProfile = (profileId: string) => {
+    if (profileId === activeProfileId || !profiles.some(profile => profile.id === profileId)) return;
+
+    console.log('👤 Switching profile');
+    setActiveProfileId(profileId);
+    repositories.activeProfileId.save(profileId).catch(error => {
+      console.error('Error saving active profile:', error);
+    });
+  };
+
+  const addProfile = async (name: string): Promise<Profile> => {
+    const profile: Profile = {
+      id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: normalizeName(name, displayLanguage),
+      createdAt: new Date(),
+    };
+    await saveProfiles([...profiles, profile]);
+    return profile;
+  };
+
+  const renameProfile = async (profileId: string, name: string) => {
+    const normalized = normalizeName(name, displayLanguage);
+    await saveProfiles(profiles.map(profile => (profile.id === profileId ? { ...profile, name: normalized } : profile)));
+  };
+
+  /**
+   * Set the language a profile records and reads in; undefined goes back to
+   * following the device and detecting the spoken language
+   */
+  const setProfileLanguage = async (profileId: string, language?: AppLanguage) => {
+    if (language !== undefined && !I18n.isSupported(language)) {
+      throw new Error(I18n.translate(displayLanguage, 'profiles.unsupportedLanguage', { language: String(language) }));
+    }
+    await saveProfiles(profiles.map(profile => {
+      if (profile.id !== profileId) return profile;
+      const { language: _previous, ...rest } = profile;
+      return language ? { ...rest, language } : rest;
+    }));
+  };
+
+  /**
+   * Delete a profile with all of its health data and recordings
+   */
+  const deleteProfile = async (profileId: string) => {
+    const remaining = profiles.filter(profile => profile.id !== profileId);
+    if (remaining.length === profiles.length) return;
+    if (remaining.length === 0) {
+      throw new Error(I18n.translate(displayLanguage, 'profiles.lastProfile'));
+    }
+
+    // Leave the profile first so its contexts unmount before the data goes
+    if (profileId === activeProfileId) {
+      setActiveProfileId(remaining[0].id);
+      await repositories.activeProfileId.save(remaining[0].id);
+    }
+    await saveProfiles(remaining);
+
+    const logs = (await repositories.forProfile(profileId).symptomLogs.loadAll()) || [];
+    const audioErrors = await AudioStore.deleteRecordings(logs.map(log => log.audioURI));
+    if (audioErrors.length > 0) {
+      console.warn('Some recordings of the deleted profile could not be removed:', audioErrors);
+    }
+    await repositories.deleteProfileData(profileId);
+    console.log('🗑️ Profile and its data deleted');
+  };
+
+  // Tapping a notification about someone else opens their profile
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const profileId = response.notification.request.content.data?.profileId;
+      if (typeof profileId === 'string') {
+        switchProfile(profileId);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [profiles, activeProfileId]);
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+
+  const notificationProfile = useMemo<NotificationProfile>(() => ({
+    id: activeProfileId,
+    // Names only add noise when the device tracks a single person
+    name: profiles.length > 1 ? activeProfile?.name : undefined,
+    language: displayLanguage,
+  }), [activeProfileId, activeProfile, profiles.length, displayLanguage]);
+
+  if (!isLoaded || !activeProfile) {
+    return null; // Data contexts must not load until the active profile is known
+  }
+
+  return (
+    <ProfileContext.Provider value={{
+      profiles,
+      activeProfile,
+      activeProfileId,
+      notificationProfile,
+      switchProfile,
+      addProfile,
+      renameProfile,
+      setProfileLanguage,
+      deleteProfile,
+    }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
@@ -1,10 +1,13 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { MedicalRecommendation, CompletedRecommendation } from '../types/recommendations';
 import { sendRecommendationNotification } from '../utils/notifications';
+import { ValidationUtils } from '../utils/validation';
+import { useProfiles, useProfileRepositories } from './ProfileContext';
 
 interface RecommendationsContextType {
   recommendations: MedicalRecommendation[];
   completedRecommendations: CompletedRecommendation[];
+  isLoaded: boolean; // False until stored recommendations have been read
   addRecommendations: (newRecommendations: MedicalRecommendation[]) => void;
   updateRecommendation: (id: string, updates: Partial<MedicalRecommendation>) => void;
   completeRecommendation: (id: string) => void;
@@ -12,6 +15,7 @@ interface RecommendationsContextType {
   toggleActionItem: (recommendationId: string, actionId: string) => void;
   clearAllRecommendations: () => void;
   clearAllCompletedRecommendations: () => void;
+  removeCompletedRecommendations: (ids: string[]) => void;
 }
 
 const RecommendationsContext = createContext<RecommendationsContextType | undefined>(undefined);
@@ -28,9 +32,92 @@ interface RecommendationsProviderProps {
   children: ReactNode;
 }
 
+const reviveDate = (value: any): Date | undefined =>
+  value ? new Date(value) : undefined;
+
+/**
+ * Convert date strings from storage back into Date objects
+ */
+const reviveRecommendation = (rec: MedicalRecommendation): MedicalRecommendation => ({
+  ...rec,
+  actionItems: (rec.actionItems || []).map(item => ({
+    ...item,
+    completedAt: reviveDate(item.completedAt),
+    dueDate: reviveDate(item.dueDate),
+  })),
+  createdAt: reviveDate(rec.createdAt),
+  completedAt: reviveDate(rec.completedAt),
+  cancelledAt: reviveDate(rec.cancelledAt),
+});
+
+const reviveCompletedRecommendation = (rec: CompletedRecommendation): CompletedRecommendation => ({
+  ...rec,
+  symptomsTriggering: rec.symptomsTriggering || [],
+  completedAt: new Date(rec.completedAt),
+});
+
 export const RecommendationsProvider: React.FC<RecommendationsProviderProps> = ({ children }) => {
   const [recommendations, setRecommendations] = useState<MedicalRecommendation[]>([]);
   const [completedRecommendations, setCompletedRecommendations] = useState<CompletedRecommendation[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const repositories = useProfileRepositories();
+  const { notificationProfile } = useProfiles();
+
+  // Load recommendations from encrypted storage
+  useEffect(() => {
+    const loadRecommendations = async () => {
+      try {
+        const stored = await repositories.recommendations.loadAll();
+        if (stored && Array.isArray(stored)) {
+          // Validate each recommendation before setting state
+          const validRecommendations = stored.filter(rec => {
+            const validation = ValidationUtils.validateRecommendation(rec);
+            if (!validation.isValid) {
+              console.warn('Invalid recommendation found:', validation.errors);
+            }
+            return validation.isValid;
+          });
+
+          setRecommendations(validRecommendations.map(reviveRecommendation));
+        }
+
+        const storedCompleted = await repositories.completedRecommendations.loadAll();
+        if (storedCompleted && Array.isArray(storedCompleted)) {
+          const validCompleted = storedCompleted.filter(rec => {
+            const validation = ValidationUtils.validateCompletedRecommendation(rec);
+            if (!validation.isValid) {
+              console.warn('Invalid completed recommendation found:', validation.errors);
+            }
+            return validation.isValid;
+          });
+
+          setCompletedRecommendations(validCompleted.map(reviveCompletedRecommendation));
+        }
+      } catch (error) {
+        console.error('Error loading encrypted recommendations:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadRecommendations();
+  }, []);
+
+  // Save to encrypted storage on change (only after the initial load, so an
+  // empty initial state never overwrites stored data)
+  useEffect(() => {
+    if (!isLoaded) return;
+    repositories.recommendations.replaceAll(recommendations).catch(error => {
+      console.error('Error saving recommendations:', error);
+    });
+  }, [recommendations, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    repositories.completedRecommendations.replaceAll(completedRecommendations).catch(error => {
+      console.error('Error saving completed recommendations:', error);
+    });
+  }, [completedRecommendations, isLoaded]);
 
   const addRecommendations = (newRecommendations: MedicalRecommendation[]) => {
     setRecommendations(prev => {
@@ -44,7 +131,8 @@ export const RecommendationsProvider: React.FC<RecommendationsProviderProps> = (
       uniqueNewRecommendations.forEach(recommendation => {
         sendRecommendationNotification(
           recommendation.title,
-          recommendation.symptomsTriggering || []
+          recommendation.symptomsTriggering || [],
+          notificationProfile
         );
       });
       
@@ -114,9 +202,15 @@ export const RecommendationsProvider: React.FC<RecommendationsProviderProps> = (
     setCompletedRecommendations([]);
   };
 
+  const removeCompletedRecommendations = (ids: string[]) => {
+    const idSet = new Set(ids);
+    setCompletedRecommendations(prev => prev.filter(rec => !idSet.has(rec.id)));
+  };
+
   const value: RecommendationsContextType = {
     recommendations,
     completedRecommendations,
+    isLoaded,
     addRecommendations,
     updateRecommendation,
     completeRecommendation,
@@ -124,6 +218,7 @@ export const RecommendationsProvider: React.FC<RecommendationsProviderProps> = (
     toggleActionItem,
     clearAllRecommendations,
     clearAllCompletedRecommendations,
+    removeCompletedRecommendations,
   };
 
   return (
@@ -0,0 +1,75 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { useRecommendations } from './RecommendationsContext';
+import { useLocale } from './LocaleContext';
+import { RedFlagTriage, RedFlagRule } from '../utils/redFlagTriage';
+import EmergencyAlertModal from '../components/EmergencyAlertModal';
+
+// ============================================================================
+// RED FLAG CONTEXT - Emergency screen for red-flag transcripts
+// ============================================================================
+//
+// PURPOSE: Check each transcript against the local red-flag rules
+//          (utils/redFlagTriage.ts) in the profile's language and, on a
+//          match, show the emergency screen and add an emergency
+//          recommendation straight away
+// NOTE: No AI call or network involved, so this also runs over the AI budget
+//       and with AI processing turned off. It needs a transcript, though, and
+//       transcription needs the network
+
+interface RedFlagContextType {
+  /**
+   * Check a transcript; on a match, show the emergency screen and add emergency recommendations
+   * @param sourceLogId - The symptom log the transcript belongs to, linked from the recommendations
+   * @returns Ids of the matched rules (empty when nothing matched)
+   */
+  screenTranscript: (transcript: string, symptomSummary: string, sourceLogId: string) => string[];
+  showEmergencyGuidance: (ruleIds: string[]) => void;
+}
+
+const RedFlagContext = createContext<RedFlagContextType | undefined>(undefined);
+
+interface RedFlagProviderProps {
+  children: ReactNode;
+}
+
+export const RedFlagProvider: React.FC<RedFlagProviderProps> = ({ children }) => {
+  const [activeRules, setActiveRules] = useState<RedFlagRule[]>([]);
+  const { addRecommendations } = useRecommendations();
+  const { language } = useLocale();
+
+  const screenTranscript = (transcript: string, symptomSummary: string, sourceLogId: string): string[] => {
+    const matches = RedFlagTriage.evaluate(transcript, language);
+    if (matches.length === 0) return [];
+
+    console.log(`🚨 Red flag: ${matches.map(match => match.rule.id).join(', ')}`);
+    setActiveRules(matches.map(match => match.rule));
+    addRecommendations(matches.map(match => RedFlagTriage.createRecommendation(match, symptomSummary, sourceLogId, language)));
+    return matches.map(match => match.rule.id);
+  };
+
+  const showEmergencyGuidance = (ruleIds: string[]) => {
+    setActiveRules(ruleIds
+      .map(id => RedFlagTriage.getRule(id))
+      .filter((rule): rule is RedFlagRule => rule !== undefined));
+  };
+
+  const value: RedFlagContextType = {
+    screenTranscript,
+    showEmergencyGuidance,
+  };
+
+  return (
+    <RedFlagContext.Provider value={value}>
+      {children}
+      <EmergencyAlertModal rules={activeRules} onClose={() => setActiveRules([])} />
+    </RedFlagContext.Provider>
+  );
+};
+
+export const useRedFlags = () => {
+  const context = useContext(RedFlagContext);
+  if (context === undefined) {
+    throw new Error('useRedFlags must be used within a RedFlagProvider');
+  }
+  return context;
+};
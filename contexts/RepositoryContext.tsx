@@ -0,0 +1,31 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { Repositories, createStorageRepositories } from '../utils/repositories';
+
+// ============================================================================
+// REPOSITORY CONTEXT - Injects persistence into every data context
+// ============================================================================
+
+const RepositoryContext = createContext<Repositories | undefined>(undefined);
+
+export const useRepositories = () => {
+  const context = useContext(RepositoryContext);
+  if (context === undefined) {
+    throw new Error('useRepositories must be used within a RepositoryProvider');
+  }
+  return context;
+};
+
+interface RepositoryProviderProps {
+  children: ReactNode;
+  repositories?: Repositories; // Override for tests and previews
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ children, repositories }) => {
+  const value = useMemo(() => repositories ?? createStorageRepositories(), [repositories]);
+
+  return (
+    <RepositoryContext.Provider value={value}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+};
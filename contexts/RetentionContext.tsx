@@ -0,0 +1,314 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { usePrivacy } from './PrivacyContext';
+import { useSymptomLogs } from './SymptomLogsContext';
+import { useFollowUpQuestions } from './FollowUpQuestionsContext';
+import { useRecommendations } from './RecommendationsContext';
+import { useAppointments } from './AppointmentsContext';
+import { useRepositories } from './RepositoryContext';
+import { useProfiles } from './ProfileContext';
+import { DEFAULT_PROFILE_ID } from '../utils/storage';
+import { AudioStore } from '../utils/audioStore';
+import { HealthMemoryStore } from '../utils/healthMemoryStore';
+import { CollectionRepository, ProfileRepositories } from '../utils/repositories';
+import {
+  RetentionPolicy,
+  RetentionData,
+  RetentionPreview,
+  DeviceRetentionPreview,
+  PurgeLogEntry,
+  RETENTION_CHECK_INTERVAL_MS,
+  MAX_PURGE_LOG_ENTRIES,
+} from '../utils/retention';
+
+// ============================================================================
+// RETENTION CONTEXT - Enforces PrivacySettings.dataRetentionDays
+// ============================================================================
+//
+// SCOPE: The retention setting is device-wide, so it applies to every profile.
+//        The active profile's data comes from its contexts; the other profiles'
+//        contexts aren't mounted, so their data is read and deleted through
+//        their repositories
+
+interface RetentionContextType {
+  retentionPreview: DeviceRetentionPreview;    // Live: what a purge would remove right now
+  pendingReview: DeviceRetentionPreview | null; // Set by a scheduled check that found expired data
+  purgeLog: PurgeLogEntry[];                   // Active profile's purges, most recent first
+  dismissReview: () => void;
+  purgeExpiredData: (preview: DeviceRetentionPreview) => Promise<PurgeLogEntry[]>;
+}
+
+const RetentionContext = createContext<RetentionContextType | undefined>(undefined);
+
+export const useRetention = () => {
+  const context = useContext(RetentionContext);
+  if (context === undefined) {
+    throw new Error('useRetention must be used within a RetentionProvider');
+  }
+  return context;
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : error);
+
+/**
+ * Read what retention applies to from a profile's repositories
+ */
+const loadStoredData = async (repositories: ProfileRepositories): Promise<RetentionData> => {
+  const [symptomLogs, followUpQuestions, completedRecommendations, appointments] = await Promise.all([
+    repositories.symptomLogs.loadAll(),
+    repositories.followUpQuestions.loadAll(),
+    repositories.completedRecommendations.loadAll(),
+    repositories.appointments.loadAll(),
+  ]);
+
+  return {
+    symptomLogs: symptomLogs ?? [],
+    followUpQuestions: followUpQuestions ?? [],
+    completedRecommendations: completedRecommendations ?? [],
+    appointments: appointments ?? [],
+  };
+};
+
+const withoutIds = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+  const idSet = new Set(ids);
+  return items.filter(item => !idSet.has(item.id));
+};
+
+const removeStored = async <T extends { id: string }>(repository: CollectionRepository<T>, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const stored = await repository.loadAll();
+  if (stored) {
+    await repository.replaceAll(withoutIds(stored, ids));
+  }
+};
+
+/**
+ * Delete what a preview listed from a profile's repositories
+ *
+ * @returns Errors, one per category that failed
+ */
+const purgeStoredData = async (repositories: ProfileRepositories, preview: RetentionPreview): Promise<string[]> => {
+  const errors: string[] = [];
+
+  try {
+    await repositories.symptomLogs.removeMany(preview.symptomLogIds);
+    errors.push(...await AudioStore.deleteRecordings(preview.audioURIs));
+  } catch (error) {
+    errors.push(`Failed to delete symptom logs: ${describeError(error)}`);
+  }
+
+  const collections: [string, () => Promise<void>][] = [
+    ['follow-up questions', () => removeStored(repositories.followUpQuestions, preview.followUpQuestionIds)],
+    ['completed recommendations', () => removeStored(repositories.completedRecommendations, preview.completedRecommendationIds)],
+    ['appointments', () => removeStored(repositories.appointments, preview.appointmentIds)],
+  ];
+  for (const [name, remove] of collections) {
+    try {
+      await remove();
+    } catch (error) {
+      errors.push(`Failed to delete ${name}: ${describeError(error)}`);
+    }
+  }
+
+  return errors;
+};
+
+interface RetentionProviderProps {
+  children: ReactNode;
+}
+
+export const RetentionProvider: React.FC<RetentionProviderProps> = ({ children }) => {
+  const { privacySettings, isLoaded: privacyLoaded } = usePrivacy();
+  const { symptomLogs, isLoaded: symptomLogsLoaded, querySymptomLogs, deleteSymptomLogs } = useSymptomLogs();
+  const { followUpQuestions, isLoaded: questionsLoaded, removeFollowUpQuestions } = useFollowUpQuestions();
+  const { completedRecommendations, isLoaded: recommendationsLoaded, removeCompletedRecommendations } = useRecommendations();
+  const { appointments, isLoaded: appointmentsLoaded, deleteAppointments } = useAppointments();
+  const repositories = useRepositories();
+  const { profiles, activeProfileId } = useProfiles();
+
+  const [checkedAt, setCheckedAt] = useState(new Date());
+  const [isReviewDue, setIsReviewDue] = useState(true); // The launch check
+  const [pendingReview, setPendingReview] = useState<DeviceRetentionPreview | null>(null);
+  const [purgeLog, setPurgeLog] = useState<PurgeLogEntry[]>([]);
+  // Other profiles' data by profile id; null until read
+  const [otherProfilesData, setOtherProfilesData] = useState<Record<string, RetentionData> | null>(null);
+
+  const isDataLoaded = privacyLoaded && symptomLogsLoaded && questionsLoaded && recommendationsLoaded
+    && appointmentsLoaded && otherProfilesData !== null;
+
+  // Load the purge log
+  useEffect(() => {
+    const loadPurgeLog = async () => {
+      try {
+        const stored = await repositories.retentionPurgeLog.load();
+        if (Array.isArray(stored)) {
+          setPurgeLog(stored);
+        }
+      } catch (error) {
+        console.error('Error loading retention purge log:', error);
+      }
+    };
+
+    loadPurgeLog();
+  }, []);
+
+  // Read the other profiles' data (they can't change while this profile is active)
+  useEffect(() => {
+    const loadOtherProfiles = async () => {
+      const loaded: Record<string, RetentionData> = {};
+      for (const profile of profiles) {
+        if (profile.id === activeProfileId) continue;
+        try {
+          loaded[profile.id] = await loadStoredData(repositories.forProfile(profile.id));
+        } catch (error) {
+          console.error(`Error loading retention data for profile ${profile.id}:`, error);
+        }
+      }
+      setOtherProfilesData(loaded);
+    };
+
+    loadOtherProfiles();
+  }, [profiles]);
+
+  // The launch check runs once everything has loaded; later checks are periodic
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setCheckedAt(new Date());
+      setIsReviewDue(true);
+    }, RETENTION_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const retentionPreview = useMemo(() => {
+    const retentionDays = privacySettings.dataRetentionDays;
+    const cutoff = RetentionPolicy.getCutoff(retentionDays, checkedAt);
+    const previews: Record<string, RetentionPreview> = {
+      [activeProfileId]: RetentionPolicy.preview(
+        {
+          symptomLogs: querySymptomLogs({ to: cutoff }).logs,
+          followUpQuestions,
+          completedRecommendations,
+          appointments,
+        },
+        retentionDays,
+        checkedAt
+      ),
+    };
+    Object.entries(otherProfilesData ?? {}).forEach(([profileId, data]) => {
+      previews[profileId] = RetentionPolicy.preview(data, retentionDays, checkedAt);
+    });
+
+    return RetentionPolicy.combine(previews, retentionDays, checkedAt);
+  }, [privacySettings.dataRetentionDays, checkedAt, symptomLogs, followUpQuestions, completedRecommendations, appointments, otherProfilesData]);
+
+  // A due check only surfaces a review when something has actually expired
+  useEffect(() => {
+    if (!isReviewDue || !isDataLoaded) return;
+    setIsReviewDue(false);
+
+    if (retentionPreview.totalItems > 0) {
+      console.log(`🗓️ Retention: ${retentionPreview.totalItems} items older than ${privacySettings.dataRetentionDays} days`);
+      setPendingReview(retentionPreview);
+    }
+  }, [isReviewDue, retentionPreview]);
+
+  const dismissReview = () => {
+    setPendingReview(null);
+  };
+
+  /**
+   * Delete the active profile's previewed data through its contexts, so the UI updates
+   */
+  const purgeActiveProfile = async (preview: RetentionPreview): Promise<string[]> => {
+    const errors: string[] = [];
+
+    try {
+      // Also deletes each log's audio recording
+      errors.push(...await deleteSymptomLogs(preview.symptomLogIds));
+    } catch (error) {
+      errors.push(`Failed to delete symptom logs: ${describeError(error)}`);
+    }
+
+    removeFollowUpQuestions(preview.followUpQuestionIds);
+    removeCompletedRecommendations(preview.completedRecommendationIds);
+    deleteAppointments(preview.appointmentIds);
+    return errors;
+  };
+
+  /**
+   * Delete exactly what the given preview listed, then record one purge per profile
+   */
+  const purgeExpiredData = async (preview: DeviceRetentionPreview): Promise<PurgeLogEntry[]> => {
+    setPendingReview(null);
+    const entries: PurgeLogEntry[] = [];
+
+    for (const { profileId, preview: profilePreview } of preview.profiles) {
+      const errors = profileId === activeProfileId
+        ? await purgeActiveProfile(profilePreview)
+        : await purgeStoredData(repositories.forProfile(profileId), profilePreview);
+
+      // The health memory keeps transcript excerpts and summaries of the expired logs
+      try {
+        await HealthMemoryStore.update(profileId, memory => HealthMemoryStore.forgetBefore(memory, preview.cutoff));
+      } catch (error) {
+        errors.push(`Failed to prune health memory: ${describeError(error)}`);
+      }
+
+      entries.push({
+        profileId,
+        purgedAt: new Date().toISOString(),
+        retentionDays: preview.retentionDays,
+        cutoff: preview.cutoff.toISOString(),
+        counts: profilePreview.counts,
+        errors,
+      });
+    }
+
+    // Keep the other profiles' previews in step with what was just deleted
+    setOtherProfilesData(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev };
+      preview.profiles.forEach(({ profileId, preview: profilePreview }) => {
+        const data = updated[profileId];
+        if (!data) return;
+        updated[profileId] = {
+          symptomLogs: withoutIds(data.symptomLogs, profilePreview.symptomLogIds),
+          followUpQuestions: withoutIds(data.followUpQuestions, profilePreview.followUpQuestionIds),
+          completedRecommendations: withoutIds(data.completedRecommendations, profilePreview.completedRecommendationIds),
+          appointments: withoutIds(data.appointments, profilePreview.appointmentIds),
+        };
+      });
+      return updated;
+    });
+
+    const updatedLog = [...entries, ...purgeLog].slice(0, MAX_PURGE_LOG_ENTRIES);
+    setPurgeLog(updatedLog);
+    try {
+      await repositories.retentionPurgeLog.save(updatedLog);
+    } catch (error) {
+      console.error('Error saving retention purge log:', error);
+    }
+
+    const errorCount = entries.reduce((total, entry) => total + entry.errors.length, 0);
+    console.log(`🗑️ Retention purge removed ${preview.totalItems} items from ${entries.length} profiles (${errorCount} errors)`);
+    return entries;
+  };
+
+  // The log is shared by the device; each profile only sees its own purges
+  const profilePurgeLog = useMemo(
+    () => purgeLog.filter(entry => (entry.profileId ?? DEFAULT_PROFILE_ID) === activeProfileId),
+    [purgeLog, activeProfileId]
+  );
+
+  return (
+    <RetentionContext.Provider value={{
+      retentionPreview,
+      pendingReview,
+      purgeLog: profilePurgeLog,
+      dismissReview,
+      purgeExpiredData,
+    }}>
+      {children}
+    </RetentionContext.Provider>
+  );
+};
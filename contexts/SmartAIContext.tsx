@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { AIService } from '../utils/aiService';
-import { SymptomLog, MedicalRecommendation } from '../types/recommendations';
+import { LLMTask } from '../utils/llm';
+import { CostLedger, CostLedgerState, createEmptyLedger } from '../utils/costLedger';
+import { AIBudget, BudgetState } from '../utils/aiBudget';
+import { SymptomLog, MedicalRecommendation, GenerationInfo, HealthDomain } from '../types/recommendations';
 import { useSymptomLogs } from './SymptomLogsContext';
 import { useRecommendations } from './RecommendationsContext';
+import { useProfiles } from './ProfileContext';
 import { sendRecommendationNotification } from '../utils/notifications';
 
 // ============================================================================
@@ -10,7 +14,9 @@ import { sendRecommendationNotification } from '../utils/notifications';
 // ============================================================================
 // 
 // PURPOSE: Manages the SmartHealthAI system and provides easy access to AI features
-// COST TRACKING: Monitors API usage and costs
+// COST TRACKING: Reports the CostLedger, where LLMClient records every call
+// BUDGET: Exposes the monthly cap's state; at the cap recommendations are
+//         skipped while recordings are still transcribed and saved
 // FREQUENCY CONTROL: Ensures background tasks run at optimal intervals
 
 interface SmartAIContextType {
@@ -18,10 +24,19 @@ interface SmartAIContextType {
   transcribeAndSummarize: (audioUri: string) => Promise<{
     transcript: string;
     summary: string;
-    healthDomain: string;
+    healthDomain: HealthDomain;
     severity: string;
     impact: string;
   }>;
+  transcribeRecording: (audioUri: string) => Promise<string>;
+  analyzeTranscript: (transcript: string) => Promise<{
+    summary: string;
+    englishSummary?: string;
+    healthDomain: HealthDomain;
+    severity: string;
+    impact: string;
+    generatedBy?: GenerationInfo;
+  }>;
   analyzeForRecommendations: (symptomLog: SymptomLog) => Promise<MedicalRecommendation[]>;
   generateAppointmentQuestions: (title: string, date: Date) => Promise<string[]>;
   getPersonalizedRecommendations: () => Promise<MedicalRecommendation[]>;
@@ -36,21 +51,30 @@ interface SmartAIContextType {
   
 
   
-  // Cost and usage tracking
+  // Cost and usage tracking (all-time, across sessions)
   getCostBreakdown: () => {
     reactiveCost: number;
     proactiveCost: number;
     totalCost: number;
-    lastUpdated: Date;
+    byTask: { [task in LLMTask]?: number };
+    lastUpdated: Date | null;
   };
   getUsageStats: () => {
     reactiveCalls: number;
     proactiveCalls: number;
     totalCalls: number;
-    lastCall: Date;
+    unpricedCalls: number; // Calls to models without a price, e.g. on a local server
+    byTask: { [task in LLMTask]?: number };
+    lastCall: Date | null;
   };
+
+  // Monthly budget (null until loaded)
+  budget: BudgetState | null;
+  setMonthlyBudget: (capUsd: number | null) => Promise<void>;
 }
 
+const roundCost = (cost: number): number => Math.round(cost * 100) / 100;
+
 const SmartAIContext = createContext<SmartAIContextType | undefined>(undefined);
 
 interface SmartAIProviderProps {
@@ -66,15 +90,50 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
   const [isProactiveActive, setIsProactiveActive] = useState(false);
   
   // Get data from other contexts
-  const { symptomLogs } = useSymptomLogs();
+  const { symptomLogs, querySymptomLogs } = useSymptomLogs();
   const { recommendations } = useRecommendations();
+  const { activeProfile, notificationProfile } = useProfiles();
   
   // Cost tracking
-  const [reactiveCost, setReactiveCost] = useState(0);
-  const [proactiveCost, setProactiveCost] = useState(0);
-  const [reactiveCalls, setReactiveCalls] = useState(0);
-  const [proactiveCalls, setProactiveCalls] = useState(0);
-  const [lastCall, setLastCall] = useState(new Date());
+  const [ledger, setLedger] = useState<CostLedgerState | null>(null);
+  const [budget, setBudget] = useState<BudgetState | null>(null);
+
+  // Keep the ledger totals current as calls are recorded
+  useEffect(() => {
+    const loadLedger = () => {
+      CostLedger.getLedger()
+        .then(setLedger)
+        .catch(error => console.error('Error loading cost ledger:', error));
+    };
+
+    loadLedger();
+    return CostLedger.subscribe(loadLedger);
+  }, []);
+
+  // Keep the budget level current as spend or the cap changes
+  useEffect(() => {
+    AIBudget.init();
+    AIBudget.getState()
+      .then(setBudget)
+      .catch(error => console.error('Error loading AI budget:', error));
+
+    return AIBudget.subscribe(setBudget);
+  }, []);
+
+  // Let the agents query symptom history instead of receiving all of it,
+  // leaving out recordings still waiting in the processing queue
+  useEffect(() => {
+    smartAI.setSymptomLogSource(query => {
+      const result = querySymptomLogs(query);
+      const logs = result.logs.filter(log => !log.processingStatus);
+      return { ...result, logs, total: result.total - (result.logs.length - logs.length) };
+    });
+  }, [smartAI, querySymptomLogs]);
+
+  // Transcribe and write summaries in the profile's language
+  useEffect(() => {
+    smartAI.setLanguage(activeProfile.language);
+  }, [smartAI, activeProfile.language]);
 
   // ============================================================================
   // REACTIVE AI FUNCTIONS (User-triggered)
@@ -82,20 +141,12 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
 
   /**
    * REACTIVE: Transcribe and summarize audio recording
-   * COST: $0.02 per call (transcription + optimized analysis)
    * FREQUENCY: Every time user records a symptom
    */
   const transcribeAndSummarize = async (audioUri: string) => {
-    console.log('💰 REACTIVE AI COST: $0.02 (transcription + optimized analysis)');
-    
     // Use the legacy processSymptom method which does transcription and basic analysis
     const result = await smartAI.processSymptom(audioUri);
     
-    // Update cost tracking
-    setReactiveCost(prev => prev + 0.02);
-    setReactiveCalls(prev => prev + 1);
-    setLastCall(new Date());
-    
     return {
       transcript: result.transcript,
       summary: result.summary, // This is the actual summary of what user said
@@ -105,16 +156,33 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
     };
   };
 
+  /**
+   * REACTIVE: Transcribe a recording (processing queue stage 1)
+   * COST: Whisper, per minute of audio
+   * FREQUENCY: Every recording, retried until it succeeds
+   */
+  const transcribeRecording = (audioUri: string) => smartAI.transcribeSymptom(audioUri);
+
+  /**
+   * REACTIVE: Summarize and classify a transcript (processing queue stage 2)
+   * FREQUENCY: Every recording, retried until it succeeds
+   */
+  const analyzeTranscript = (transcript: string) => smartAI.analyzeTranscript(transcript);
+
   /**
    * REACTIVE: Analyze symptom log for recommendations (quality-focused)
-   * COST: $0.08 per call (1-2 high-quality recommendations)
    * FREQUENCY: Background analysis after log is created
+   * BUDGET: Skipped (no recommendations) once the monthly cap is reached
    */
   const analyzeForRecommendations = async (symptomLog: SymptomLog) => {
-    console.log('💰 REACTIVE AI COST: $0.08 (quality-focused recommendations)');
-    
+    const currentBudget = await AIBudget.getState();
+    if (currentBudget.level === 'exceeded') {
+      console.log('💰 Monthly AI budget reached: skipping recommendations');
+      return [];
+    }
+
     // Get all symptom logs and recommendations for context
-    const allSymptoms: SymptomLog[] = symptomLogs || [];
+    const allSymptoms: SymptomLog[] = (symptomLogs || []).filter(log => !log.processingStatus);
     const existingRecommendations: MedicalRecommendation[] = recommendations || [];
     
     // Use simplified recommendation generation (no duplication)
@@ -127,50 +195,29 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
     // Send notification for each new recommendation
     for (const recommendation of newRecommendations) {
       const symptomsAddressed = recommendation.symptomsTriggering || [];
-      await sendRecommendationNotification(recommendation.title, symptomsAddressed);
+      await sendRecommendationNotification(recommendation.title, symptomsAddressed, notificationProfile);
     }
     
-    // Update cost tracking
-    setReactiveCost(prev => prev + 0.08);
-    setReactiveCalls(prev => prev + 1);
-    setLastCall(new Date());
-    
     return newRecommendations;
   };
 
   /**
    * REACTIVE: Generate personalized appointment questions
-   * COST: $0.02 per call (GPT-3.5-turbo)
    * FREQUENCY: When user opens appointment detail
    */
   const generateAppointmentQuestions = async (title: string, date: Date) => {
-    console.log('💰 REACTIVE AI COST: $0.02 (context analysis + questions with GPT-3.5-turbo)');
-    
     const questions = await smartAI.generateAppointmentQuestions(title, date);
     
-    // Update cost tracking
-    setReactiveCost(prev => prev + 0.02);
-    setReactiveCalls(prev => prev + 1);
-    setLastCall(new Date());
-    
     return questions;
   };
 
   /**
    * REACTIVE: Get personalized recommendations
-   * COST: $0.03 per call
    * FREQUENCY: When user views recommendations
    */
   const getPersonalizedRecommendations = async () => {
-    console.log('💰 REACTIVE AI COST: $0.03 (pattern matching + personalization)');
-    
     const recommendations = await smartAI.getPersonalizedRecommendations([]);
     
-    // Update cost tracking
-    setReactiveCost(prev => prev + 0.03);
-    setReactiveCalls(prev => prev + 1);
-    setLastCall(new Date());
-    
     return recommendations;
   };
 
@@ -180,23 +227,13 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
 
   /**
    * PROACTIVE: Start background monitoring
-   * COST: $0.25/day (distributed across background tasks)
+   * COST: Whatever background tasks actually call (recorded as proactive)
    * FREQUENCY: Every 6 hours (not continuous)
    */
   const startProactiveMonitoring = async () => {
-    console.log('🤖 PROACTIVE AI: Starting background monitoring ($0.25/day)');
+    console.log('🤖 PROACTIVE AI: Starting background monitoring');
     
     setIsProactiveActive(true);
-    
-    // Schedule cost updates for proactive monitoring
-    const updateProactiveCost = () => {
-      setProactiveCost(prev => prev + 0.04); // $0.04 every 6 hours = $0.16/day
-      setProactiveCalls(prev => prev + 1);
-      setLastCall(new Date());
-    };
-    
-    // Update cost every 6 hours
-    setInterval(updateProactiveCost, 6 * 60 * 60 * 1000);
   };
 
   /**
@@ -214,6 +251,12 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
    * COST: Varies based on tasks executed
    */
   const executeBackgroundTask = async () => {
+    const currentBudget = await AIBudget.getState();
+    if (currentBudget.level === 'exceeded') {
+      console.log('💰 Monthly AI budget reached: skipping background task');
+      return;
+    }
+
     console.log('🤖 BACKGROUND AI: Executing background task');
     // Background task logic can be added here
   };
@@ -225,23 +268,49 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
   // ============================================================================
 
   const getCostBreakdown = () => {
+    const { totalsByTrigger: { reactive, proactive }, totalsByTask, lastCall } = ledger ?? createEmptyLedger();
+    const byTask: { [task in LLMTask]?: number } = {};
+    Object.entries(totalsByTask).forEach(([task, totals]) => {
+      byTask[task as LLMTask] = roundCost(totals.cost);
+    });
+
     return {
-      reactiveCost: Math.round(reactiveCost * 100) / 100,
-      proactiveCost: Math.round(proactiveCost * 100) / 100,
-      totalCost: Math.round((reactiveCost + proactiveCost) * 100) / 100,
-      lastUpdated: lastCall
+      reactiveCost: roundCost(reactive.cost),
+      proactiveCost: roundCost(proactive.cost),
+      totalCost: roundCost(reactive.cost + proactive.cost),
+      byTask,
+      lastUpdated: lastCall ? new Date(lastCall) : null
     };
   };
 
   const getUsageStats = () => {
+    const { totalsByTrigger: { reactive, proactive }, totalsByTask, lastCall } = ledger ?? createEmptyLedger();
+    const byTask: { [task in LLMTask]?: number } = {};
+    Object.entries(totalsByTask).forEach(([task, totals]) => {
+      byTask[task as LLMTask] = totals.calls;
+    });
+
     return {
-      reactiveCalls,
-      proactiveCalls,
-      totalCalls: reactiveCalls + proactiveCalls,
-      lastCall
+      reactiveCalls: reactive.calls,
+      proactiveCalls: proactive.calls,
+      totalCalls: reactive.calls + proactive.calls,
+      unpricedCalls: reactive.unpricedCalls + proactive.unpricedCalls,
+      byTask,
+      lastCall: lastCall ? new Date(lastCall) : null
     };
   };
 
+  // ============================================================================
+  // MONTHLY BUDGET
+  // ============================================================================
+
+  /**
+   * Set or remove (null) the monthly spending cap in USD
+   */
+  const setMonthlyBudget = async (capUsd: number | null) => {
+    setBudget(await AIBudget.updateSettings({ monthlyCapUsd: capUsd }));
+  };
+
   // ============================================================================
   // CONTEXT VALUE
   // ============================================================================
@@ -249,6 +318,8 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
   const value: SmartAIContextType = {
     // Reactive AI functions
     transcribeAndSummarize,
+    transcribeRecording,
+    analyzeTranscript,
     analyzeForRecommendations,
     generateAppointmentQuestions,
     getPersonalizedRecommendations,
@@ -264,6 +335,10 @@ export const SmartAIProvider: React.FC<SmartAIProviderProps> = ({
     // Cost and usage tracking
     getCostBreakdown,
     getUsageStats,
+
+    // Monthly budget
+    budget,
+    setMonthlyBudget,
   };
 
   return (
@@ -1,15 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { SymptomLog } from '../types/recommendations';
-import { StorageManager } from '../utils/storage';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { SymptomLog, SymptomLogQuery, SymptomLogQueryResult } from '../types/recommendations';
 import { ValidationUtils } from '../utils/validation';
+import { SymptomLogIndex } from '../utils/symptomLogIndex';
+import { AudioStore } from '../utils/audioStore';
+import { HealthMemoryStore } from '../utils/healthMemoryStore';
+import { useProfiles, useProfileRepositories } from './ProfileContext';
 
 interface SymptomLogsContextType {
   symptomLogs: SymptomLog[];
+  isLoaded: boolean; // False until stored logs have been read
+  getSymptomLog: (id: string) => SymptomLog | undefined;
   addSymptomLog: (log: SymptomLog) => void;
   updateSymptomLog: (id: string, updates: Partial<SymptomLog>) => void;
   deleteSymptomLog: (id: string) => void;
+  deleteSymptomLogs: (ids: string[]) => Promise<string[]>;
   clearAllSymptomLogs: () => void;
   getRelevantSymptoms: (appointmentTitle: string) => SymptomLog[];
+  querySymptomLogs: (query?: SymptomLogQuery) => SymptomLogQueryResult;
 }
 
 const SymptomLogsContext = createContext<SymptomLogsContextType | undefined>(undefined);
@@ -20,14 +27,16 @@ interface SymptomLogsProviderProps {
 
 export const SymptomLogsProvider: React.FC<SymptomLogsProviderProps> = ({ children }) => {
   const [symptomLogs, setSymptomLogs] = useState<SymptomLog[]>([]);
-  const [userId, setUserId] = useState<string | null>(null); // Assuming userId is managed elsewhere
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { symptomLogs: repository } = useProfileRepositories();
+  const { activeProfileId } = useProfiles();
+  const indexRef = useRef(new SymptomLogIndex());
 
   // Load symptom logs from encrypted storage on mount
   useEffect(() => {
     const loadSymptomLogs = async () => {
       try {
-        const key = `symptomLogs_${userId}`;
-        const logsJson = await StorageManager.load<SymptomLog[]>(key);
+        const logsJson = await repository.loadAll();
         
         if (logsJson && Array.isArray(logsJson)) {
           // Validate each log before setting state
@@ -39,36 +48,24 @@ export const SymptomLogsProvider: React.FC<SymptomLogsProviderProps> = ({ childr
             return validation.isValid;
           });
           
-          setSymptomLogs(validLogs);
+          const revivedLogs = validLogs.map(log => ({ ...log, timestamp: new Date(log.timestamp) }));
+          indexRef.current = new SymptomLogIndex(revivedLogs);
+          setSymptomLogs(revivedLogs);
         }
       } catch (error) {
         console.error('Error loading encrypted symptom logs:', error);
+      } finally {
+        setIsLoaded(true);
       }
     };
 
-    if (userId) {
-      loadSymptomLogs();
-    }
-  }, [userId]);
-
-  const saveSymptomLogs = async (logs: SymptomLog[]) => {
-    try {
-      // Validate all logs before storage
-      const validLogs = logs.filter(log => {
-        const validation = ValidationUtils.validateSymptomLog(log);
-        if (!validation.isValid) {
-          console.warn('Invalid symptom log found:', validation.errors);
-        }
-        return validation.isValid;
-      });
+    loadSymptomLogs();
+  }, [repository]);
 
-      // Save to encrypted storage
-      const key = `symptomLogs_${userId}`;
-      await StorageManager.save(key, validLogs);
-    } catch (error) {
-      console.error('Error saving encrypted symptom logs:', error);
-    }
-  };
+  /**
+   * Current version of a log, including writes not yet rendered
+   */
+  const getSymptomLog = (id: string): SymptomLog | undefined => indexRef.current.get(id);
 
   const addSymptomLog = async (log: SymptomLog) => {
     try {
@@ -78,32 +75,89 @@ export const SymptomLogsProvider: React.FC<SymptomLogsProviderProps> = ({ childr
         throw new Error(`Invalid symptom log: ${validation.errors.join(', ')}`);
       }
 
-      const updatedLogs = [...symptomLogs, log];
-      setSymptomLogs(updatedLogs);
+      indexRef.current.upsert(log);
+      setSymptomLogs(prev => [...prev, log]);
       
-      // Save to encrypted storage
-      const key = `symptomLogs_${userId}`;
-      await StorageManager.save(key, updatedLogs);
+      // Save only the new record to encrypted storage
+      await repository.add(log);
     } catch (error) {
       console.error('Error saving encrypted symptom log:', error);
       throw error;
     }
   };
 
-  const updateSymptomLog = (id: string, updates: Partial<SymptomLog>) => {
+  const updateSymptomLog = async (id: string, updates: Partial<SymptomLog>) => {
+    // The index is current even when called from a closure of an earlier render
+    const existing = indexRef.current.get(id);
+    if (!existing) return;
+
+    const updatedLog = { ...existing, ...updates };
+    indexRef.current.upsert(updatedLog);
     setSymptomLogs(prev => 
-      prev.map(log => log.id === id ? { ...log, ...updates } : log)
+      prev.map(log => log.id === id ? updatedLog : log)
     );
+
+    try {
+      await repository.put(updatedLog);
+    } catch (error) {
+      console.error('Error updating encrypted symptom log:', error);
+    }
   };
 
-  const deleteSymptomLog = (id: string) => {
+  const deleteSymptomLog = async (id: string) => {
+    const audioURI = symptomLogs.find(log => log.id === id)?.audioURI;
+    indexRef.current.remove(id);
     setSymptomLogs(prev => prev.filter(log => log.id !== id));
+
+    try {
+      await repository.remove(id);
+      await HealthMemoryStore.update(activeProfileId, memory => HealthMemoryStore.forgetLogs(memory, [id]));
+      await AudioStore.deleteRecordings([audioURI]);
+    } catch (error) {
+      console.error('Error deleting encrypted symptom log:', error);
+    }
+  };
+
+  /**
+   * Delete several logs and their recordings
+   * @returns Audio files that could not be deleted; storage errors propagate
+   */
+  const deleteSymptomLogs = async (ids: string[]): Promise<string[]> => {
+    if (ids.length === 0) return [];
+
+    const idSet = new Set(ids);
+    const audioURIs = symptomLogs.filter(log => idSet.has(log.id)).map(log => log.audioURI);
+    ids.forEach(id => indexRef.current.remove(id));
+    setSymptomLogs(prev => prev.filter(log => !idSet.has(log.id)));
+
+    await repository.removeMany(ids);
+    await HealthMemoryStore.update(activeProfileId, memory => HealthMemoryStore.forgetLogs(memory, ids));
+    return AudioStore.deleteRecordings(audioURIs);
   };
 
-  const clearAllSymptomLogs = () => {
+  const clearAllSymptomLogs = async () => {
+    const audioURIs = symptomLogs.map(log => log.audioURI);
+    indexRef.current.clear();
     setSymptomLogs([]);
+
+    try {
+      await repository.clear();
+      await HealthMemoryStore.clear(activeProfileId);
+      await AudioStore.deleteRecordings(audioURIs);
+    } catch (error) {
+      console.error('Error clearing encrypted symptom logs:', error);
+    }
   };
 
+  /**
+   * Filter, sort and paginate logs using indexes kept in sync on every write
+   * Re-created whenever the logs change so memoized consumers re-query
+   */
+  const querySymptomLogs = useCallback(
+    (query: SymptomLogQuery = {}) => indexRef.current.query(query),
+    [symptomLogs]
+  );
+
   const getRelevantSymptoms = (appointmentTitle: string): SymptomLog[] => {
     const title = appointmentTitle.toLowerCase();
     
@@ -134,7 +188,7 @@ export const SymptomLogsProvider: React.FC<SymptomLogsProviderProps> = ({ childr
     if (relevantKeywords.length === 0) {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      return symptomLogs.filter(log => log.timestamp > thirtyDaysAgo);
+      return querySymptomLogs({ from: thirtyDaysAgo, sortOrder: 'asc' }).logs;
     }
 
     // Filter logs that contain relevant keywords
@@ -146,11 +200,15 @@ export const SymptomLogsProvider: React.FC<SymptomLogsProviderProps> = ({ childr
 
   const value: SymptomLogsContextType = {
     symptomLogs,
+    isLoaded,
+    getSymptomLog,
     addSymptomLog,
     updateSymptomLog,
     deleteSymptomLog,
+    deleteSymptomLogs,
     clearAllSymptomLogs,
     getRelevantSymptoms,
+    querySymptomLogs,
   };
 
   return (
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { StorageManager } from '../utils/storage';
 import { ValidationUtils } from '../utils/validation';
 import { useOnboarding } from './OnboardingContext';
+import { useRepositories } from './RepositoryContext';
 
 interface TutorialState {
   hasSeenOnboarding: boolean;
@@ -46,12 +46,13 @@ interface TutorialProviderProps {
 export const TutorialProvider: React.FC<TutorialProviderProps> = ({ children }) => {
   const [tutorialState, setTutorialState] = useState<TutorialState>(DEFAULT_TUTORIAL_STATE);
   const { resetOnboarding } = useOnboarding();
+  const { tutorialState: repository } = useRepositories();
 
   // Load tutorial state from encrypted storage
   useEffect(() => {
     const loadTutorialState = async () => {
       try {
-        const stored = await StorageManager.load<TutorialState>('tutorialState');
+        const stored = await repository.load();
         if (stored) {
           // Fix any corrupted data first
           const fixedState = ValidationUtils.fixCorruptedDates(stored);
@@ -86,7 +87,7 @@ export const TutorialProvider: React.FC<TutorialProviderProps> = ({ children })
       setTutorialState(state);
       
       // Save to encrypted storage
-      await StorageManager.save('tutorialState', state);
+      await repository.save(state);
     } catch (error) {
       console.error('Error saving encrypted tutorial state:', error);
       throw error;
@@ -0,0 +1,505 @@
+// ============================================================================
+// ENGLISH - The source catalog
+// ============================================================================
+//
+// PURPOSE: Every UI string, keyed by screen. The other catalogs are typed
+//          against this one, so a key missing from any locale fails to compile
+// FORMAT: {name} marks a parameter; keys ending in .one / .other are plural
+//         forms, chosen by I18n.translateCount() (see utils/i18n.ts)
+
+export const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.update': 'Update',
+  'common.ok': 'OK',
+  'common.error': 'Error',
+  'common.success': 'Success',
+  'common.tryAgain': 'Please try again.',
+  'common.notNow': 'Not Now',
+  'common.severity.mild': 'mild',
+  'common.severity.moderate': 'moderate',
+  'common.severity.severe': 'severe',
+
+  // Tabs and headers (App.tsx)
+  'tabs.symptoms': 'Symptoms',
+  'tabs.recommendations': 'Recommendations',
+  'tabs.appointments': 'Appointments',
+
+  // Notifications (utils/notifications.ts)
+  'notifications.recommendationTitle': 'New Health Recommendation',
+  'notifications.recommendationAddresses': 'Addresses: {symptoms}',
+  'notifications.followUpTitle': 'Follow-up Questions',
+  'notifications.followUpBody.one': 'You have a new follow-up question about your health.',
+  'notifications.followUpBody.other': 'You have {count} new follow-up questions about your health.',
+  'notifications.dailyReminderTitle': 'Daily Health Check-in',
+  'notifications.dailyReminderBody': 'Time to record your daily symptom log. Tap to open Nexst.',
+
+  // Onboarding (screens/OnboardingScreen.tsx)
+  'onboarding.taglineStart': 'Reimagining how you',
+  'onboarding.taglineEmphasis': 'manage your health',
+  'onboarding.voiceTitle': 'Voice Symptom Tracking',
+  'onboarding.voiceDescription': 'Record your symptoms effortlessly in just 30 seconds.',
+  'onboarding.actionsTitle': 'Personalized Action Items',
+  'onboarding.actionsDescription': 'Get immediate recommended next steps based on your symptoms.',
+  'onboarding.actionsShortDescription': 'Get immediate next steps based on your symptoms.',
+  'onboarding.appointmentsTitle': 'Appointment Prep',
+  'onboarding.appointmentsDescription': 'Walk into appointments with tailored questions and symptom history.',
+  'onboarding.closing': 'Know your nexst step.',
+  'onboarding.getStarted': 'Get Started',
+
+  // Onboarding tutorial and feature tips (utils/onboardingContent.ts)
+  'tutorial.welcome.title': 'Welcome to Nexst',
+  'tutorial.welcome.description': 'Your personal AI health companion. I\'ll help you track symptoms, get insights, and prepare for doctor visits.',
+  'tutorial.symptoms.title': 'Record Your Symptoms',
+  'tutorial.symptoms.description': 'Speak for 30 seconds or less about how you feel. I\'ll transcribe your words and create a clear summary for your health records.',
+  'tutorial.recommendations.title': 'Get Smart Insights',
+  'tutorial.recommendations.description': 'I\'ll analyze your symptoms and suggest next steps - whether it\'s home care tips, when to see a doctor, or questions to ask.',
+  'tutorial.appointments.title': 'Prepare for Doctor Visits',
+  'tutorial.appointments.description': 'Tell me about upcoming appointments and I\'ll generate relevant questions based on your symptom history.',
+  'tutorial.ready.title': 'You\'re All Set!',
+  'tutorial.ready.description': 'Ready to start? Tap the mic button to record your first symptom check-in.',
+  'tutorial.skip': 'Skip',
+  'tutorial.previous': 'Previous',
+  'tutorial.next': 'Next',
+  'tutorial.getStarted': 'Get Started',
+  'tutorial.gotIt': 'Got it!',
+  'featureTip.symptoms.title': 'Start Recording',
+  'featureTip.symptoms.description': 'Tap the mic button below and speak for 30 seconds or less about your symptoms – Nexst will transcribe and summarize everything for you.',
+  'featureTip.recommendations.title': 'Nexst Steps',
+  'featureTip.recommendations.description': 'Here you\'ll see personalized recommendations based on your symptoms to help you understand what to do nexst.',
+  'featureTip.appointments.title': 'Add Appointments',
+  'featureTip.appointments.description': 'Tap the + button below to schedule appointments – Nexst will generate relevant questions based on your symptom history to help you prepare.',
+
+  // Symptoms (screens/SymptomsScreen.tsx)
+  'symptoms.status.firstCheckIn': 'Tap to record your daily check-in',
+  'symptoms.status.anotherCheckIn': 'Tap to record another check-in',
+  'symptoms.status.processing': 'Processing audio...',
+  'symptoms.status.saved': 'Recording saved!',
+  'symptoms.status.savedOffline': 'Recording saved. It will be processed once you\'re back online.',
+  'symptoms.status.saveFailed': 'Failed to save recording.',
+  'symptoms.status.stopFailed': 'Failed to stop recording.',
+  'symptoms.status.permissionRequired': 'Microphone permission required.',
+  'symptoms.status.recording': 'Recording...',
+  'symptoms.status.startFailed': 'Failed to start recording.',
+  'symptoms.saveFailedMessage': 'Failed to save the recording. Please try again.',
+  'symptoms.queue.recommendationsFailed': 'Recommendations failed · Tap to retry',
+  'symptoms.queue.processingFailed': 'Processing failed · Tap to retry',
+  'symptoms.queue.recommendationsPending': 'Recommendations pending',
+  'symptoms.queue.waiting': 'Waiting to be processed',
+  'symptoms.queue.retryingAt': 'Retrying at {time}',
+  'symptoms.pendingSummary': 'Recording waiting to be processed',
+  'symptoms.redFlagsPendingOffline': '⚠️ Emergency warning signs are checked once the recording is transcribed, which needs a connection. If you need help now, call {emergency}.',
+  'symptoms.budgetPaused': '💰 Your recording was saved, but new recommendations are paused: this month\'s AI budget of {amount} has been reached. They resume on {date}, or raise the limit in Settings.',
+  'symptoms.processingRecording': 'Processing your recording...',
+
+  // Recording detail (screens/RecordingDetailScreen.tsx)
+  'recordingDetail.noData': 'No recording data available',
+  'recordingDetail.title': 'Symptom Recording',
+  'recordingDetail.redFlagBanner': 'This recording mentioned emergency warning signs. Tap to see what to do.',
+  'recordingDetail.keyPoints': 'Key Points',
+  'recordingDetail.inEnglish': 'In English',
+  'recordingDetail.fullRecording': 'Full Recording',
+  'recordingDetail.noAudio': 'No audio file available',
+  'recordingDetail.loadFailed': 'Failed to load audio file',
+  'recordingDetail.notLoaded': 'Audio not loaded',
+  'recordingDetail.playFailed': 'Failed to play audio',
+  'recordingDetail.playFailedMessage': 'Failed to play audio. Please try again.',
+  'recordingDetail.restartFailed': 'Failed to restart audio',
+  'recordingDetail.restartFailedMessage': 'Failed to restart audio. Please try again.',
+  'recordingDetail.audioError': 'Audio Error',
+  'recordingDetail.loading': 'Loading...',
+  'recordingDetail.playing': 'Playing...',
+  'recordingDetail.tapToPlay': 'Tap to play',
+
+  // Recommendations (screens/RecommendationsScreen.tsx)
+  'recommendations.priority.high': 'Important',
+  'recommendations.priority.medium': 'Consider',
+  'recommendations.priority.low': 'Optional',
+  'recommendations.priority.unknown': 'Priority',
+  'recommendations.completeTitle': 'Complete Recommendation',
+  'recommendations.completeMessage': 'Mark this recommendation as completed?',
+  'recommendations.complete': 'Complete',
+  'recommendations.cancelTitle': 'Cancel Recommendation',
+  'recommendations.cancelMessage': 'Why are you cancelling this recommendation?',
+  'recommendations.confirm': 'Confirm',
+  'recommendations.noReason': 'No reason provided',
+  'recommendations.actionCompleted': '✓ Completed {date}',
+  'recommendations.addressed': 'Addressed: {symptoms}',
+  'recommendations.addresses': 'Addresses: {symptoms}',
+  'recommendations.completedOn': 'Completed on {date}',
+  'recommendations.cancelledOn': 'Cancelled on {date}',
+  'recommendations.reason': 'Reason: {reason}',
+  'recommendations.whyThisHelps': 'Why this helps:',
+  'recommendations.done': 'Done',
+  'recommendations.notForMe': 'Not for me',
+  'recommendations.completedSection': 'Completed',
+  'recommendations.cancelledSection': 'Cancelled',
+  'recommendations.whyAmISeeingThis': 'Why am I seeing this?',
+  'recommendations.provenance.recordings': 'Based on these recordings',
+  'recommendations.provenance.deletedRecordings.one': '{count} recording has since been deleted',
+  'recommendations.provenance.deletedRecordings.other': '{count} recordings have since been deleted',
+  'recommendations.provenance.patterns': 'Patterns taken into account',
+  'recommendations.provenance.pattern': '{symptom} · {frequency} a week · {trend}',
+  'recommendations.provenance.trend.improving': 'improving',
+  'recommendations.provenance.trend.stable': 'stable',
+  'recommendations.provenance.trend.worsening': 'worsening',
+  'recommendations.provenance.reasoning': 'How it was decided',
+  'recommendations.provenance.generatedBy': 'Written by {model} using prompt {prompt} v{version}',
+  'recommendations.provenance.usedFallback': 'The model\'s reply couldn\'t be read, so a default answer was used.',
+  'recommendations.provenance.none': 'No details were kept for this recommendation.',
+
+  // Appointments (screens/AppointmentsScreen.tsx)
+  'appointments.enterName': 'Please enter an appointment name',
+  'appointments.fallbackQuestion.1': 'How have you been feeling since your last visit?',
+  'appointments.fallbackQuestion.2': 'Have you noticed any new symptoms?',
+  'appointments.fallbackQuestion.3': 'Are there any concerns you\'d like to discuss?',
+  'appointments.fallbackQuestion.4': 'How are your current medications working?',
+  'appointments.fallbackQuestion.5': 'Have you made any lifestyle changes recently?',
+  'appointments.upcomingSection': 'Upcoming Appointments',
+  'appointments.pastSection': 'Past Appointments',
+  'appointments.completed': 'Completed',
+  'appointments.upcoming': 'Upcoming',
+  'appointments.markComplete': 'Mark Complete',
+  'appointments.addTitle': 'Add New Appointment',
+  'appointments.namePlaceholder': 'Appointment name',
+  'appointments.date': 'Date',
+  'appointments.time': 'Time',
+  'appointments.add': 'Add',
+
+  // Appointment detail (screens/AppointmentDetailScreen.tsx)
+  'appointmentDetail.title': 'Appointment Details',
+  'appointmentDetail.noData': 'No appointment data available',
+  'appointmentDetail.scheduledAt': 'Scheduled at {time}',
+  'appointmentDetail.recentSymptoms': 'Your Recent Symptoms',
+  'appointmentDetail.symptomDate': 'Date: {date}',
+  'appointmentDetail.noSymptoms': 'No recent symptoms recorded for this appointment type.',
+  'appointmentDetail.questionsTitle': 'Questions to Ask Your Doctor',
+  'appointmentDetail.questionsSubtitle': 'Make sure to get these important answers before leaving your appointment',
+  'appointmentDetail.tipsTitle': 'Appointment Tips',
+  'appointmentDetail.tipArriveEarly': 'Arrive 15 minutes early to complete any paperwork',
+  'appointmentDetail.tipMedications': 'Know your current medications and allergies',
+  'appointmentDetail.checkupQuestion.1': 'Regarding my blood pressure and lab results, are these normal and/or better from my last visit?',
+  'appointmentDetail.checkupQuestion.2': 'What vaccinations am I due for?',
+  'appointmentDetail.checkupQuestion.3': 'Are my current prescriptions or supplements still necessary and at the right dose?',
+  'appointmentDetail.checkupQuestion.4': 'What preventive screenings should I consider based on my age and risk factors?',
+  'appointmentDetail.checkupQuestion.5': 'Are there any lifestyle changes I should make to improve my health?',
+  'appointmentDetail.symptomQuestion.1': 'Could this affect my work or daily activities, and for how long?',
+  'appointmentDetail.symptomQuestion.2': 'What side effects should I watch for with any treatments?',
+  'appointmentDetail.symptomQuestion.3': 'What exactly is causing my symptoms?',
+  'appointmentDetail.symptomQuestion.4': 'What should I do if I miss a dose of any medication?',
+  'appointmentDetail.symptomQuestion.5': 'When should I follow up if I\'m not improving?',
+  'appointmentDetail.symptomQuestion.6': 'Are there any red flags that would require immediate medical attention?',
+  'appointmentDetail.shareWithDoctor': 'Share with Doctor',
+  'appointmentDetail.shareLanguageMessage': 'Which language should the symptom summary be in?',
+  'appointmentDetail.shareFailed': 'Unable to share the symptom summary. Please try again.',
+
+  // Symptom summary shared with a doctor (utils/doctorExport.ts)
+  'doctorExport.title': 'Symptom summary: {appointment}',
+  'doctorExport.appointmentDate': 'Appointment: {date}',
+  'doctorExport.symptoms': 'Recent symptoms',
+  'doctorExport.noSymptoms': 'No recent symptoms recorded.',
+  'doctorExport.symptomLine': '{date}: {summary} ({severity})',
+  'doctorExport.footer': 'Recorded with Nexst. Summaries are generated from voice notes and are not a diagnosis.',
+
+  // Follow-up questions (screens/FollowUpQuestionsScreen.tsx)
+  'followUp.title': 'Follow-up Questions',
+  'followUp.answerSummary': 'Answer to follow-up: {question}',
+  'followUp.answerTranscript': 'User answered: {question}',
+  'followUp.answerRecorded': 'Your answer has been recorded and added to your symptom logs.',
+  'followUp.answerFailed': 'Failed to record your answer. Please try again.',
+  'followUp.deleteTitle': 'Delete Question',
+  'followUp.deleteMessage': 'Are you sure you want to delete this follow-up question?',
+  'followUp.answered': 'Answered',
+  'followUp.markAnswered': 'Mark as Answered',
+  'followUp.emptyTitle': 'No Follow-up Questions',
+  'followUp.emptyText': 'When you have follow-up questions, they\'ll appear here for you to answer.',
+
+  // Profiles and their language (components/ProfileSwitcher.tsx)
+  'profiles.title': 'Who is this for?',
+  'profiles.add': 'Add Person',
+  'profiles.addMessage': 'Who else are you tracking symptoms for? Their logs, recommendations and appointments are kept separate.',
+  'profiles.addFailed': 'Could Not Add Person',
+  'profiles.rename': 'Rename',
+  'profiles.renameFailed': 'Could Not Rename',
+  'profiles.deleteTitle': 'Delete {name}?',
+  'profiles.deleteMessage': 'This permanently deletes {name}\'s symptom logs, recordings, recommendations and appointments. This action cannot be undone.',
+  'profiles.deleteFailed': 'Could Not Delete',
+  'profiles.language': 'Language',
+  'profiles.languageCurrent': 'Language: {language}',
+  'profiles.languageMessage': 'Used to transcribe {name}\'s recordings, write their summaries and recommendations, and for the app itself.',
+  'profiles.languageAutomatic': 'Automatic',
+  'profiles.languageFailed': 'Could Not Change Language',
+  'profiles.hint': 'Press and hold a name to rename it, change its language or delete it',
+  'profiles.defaultName': 'Me',
+  'profiles.nameRequired': 'Profile name cannot be empty',
+  'profiles.unsupportedLanguage': 'Unsupported language: {language}',
+  'profiles.lastProfile': 'At least one profile is required',
+
+  // Privacy & security (screens/PrivacySettingsScreen.tsx)
+  'privacy.title': 'Privacy & Security',
+  'privacy.section.processing': 'Data Processing',
+  'privacy.section.management': 'Data Management',
+  'privacy.section.audio': 'Audio Recordings',
+  'privacy.section.damaged': 'Damaged Data',
+  'privacy.section.account': 'Account Actions',
+  'privacy.aiProcessing': 'AI Processing',
+  'privacy.aiProcessingSubtitle': 'Allow AI analysis of your symptoms for recommendations',
+  'privacy.dataSharing': 'Data Sharing',
+  'privacy.dataSharingSubtitle': 'Allow sharing data with healthcare providers',
+  'privacy.analytics': 'Analytics',
+  'privacy.analyticsSubtitle': 'Help improve the app with anonymous usage data',
+  'privacy.export': 'Export My Data',
+  'privacy.exportSubtitle': 'Download all your health data as JSON',
+  'privacy.exportMessage': 'My Nexst Health Data Export',
+  'privacy.exportTitle': 'Nexst Health Data',
+  'privacy.exportFailed': 'Export Failed',
+  'privacy.exportFailedMessage': 'Unable to export your data. Please try again.',
+  'privacy.backup': 'Back Up to File',
+  'privacy.backupSubtitle': 'Encrypted with your passphrase, including recordings',
+  'privacy.backupPassphrase': 'Choose a passphrase (at least {length} characters). You will need it to restore this backup - it cannot be recovered if lost.',
+  'privacy.backupNext': 'Next',
+  'privacy.passphraseTooShort': 'Passphrase Too Short',
+  'privacy.passphraseTooShortMessage': 'Use at least {length} characters.',
+  'privacy.confirmPassphrase': 'Confirm Passphrase',
+  'privacy.confirmPassphraseMessage': 'Enter the passphrase again.',
+  'privacy.createBackup': 'Create Backup',
+  'privacy.passphrasesDontMatch': 'Passphrases Don\'t Match',
+  'privacy.saveBackupDialog': 'Save Nexst Backup',
+  'privacy.backupFailed': 'Backup Failed',
+  'privacy.backupFailedMessage': 'Unable to create a backup. Please try again.',
+  'privacy.restore': 'Restore from Backup',
+  'privacy.restoreSubtitle': 'Merge or replace with a backup file',
+  'privacy.restoreTitle': 'Restore Backup',
+  'privacy.restorePassphrase': 'Enter the passphrase used when this backup was created.',
+  'privacy.restoreOpen': 'Open',
+  'privacy.openFailed': 'Unable to Open Backup',
+  'privacy.openFailedDecryption': 'The passphrase is wrong or the file is damaged.',
+  'privacy.readFileFailed': 'Unable to read the selected file. Please try again.',
+  'privacy.restoreRejected.one': '{count} damaged item will be skipped.',
+  'privacy.restoreRejected.other': '{count} damaged items will be skipped.',
+  'privacy.restoreComplete': 'Restore Complete',
+  'privacy.restoreAudioErrors.one': '{count} audio recording could not be restored.',
+  'privacy.restoreAudioErrors.other': '{count} audio recordings could not be restored.',
+  'privacy.restoreRestarting': 'The app will now restart to load your restored data.',
+  'privacy.restoreFailed': 'Restore Failed',
+  'privacy.restoreFailedMessage': 'Your existing data was not changed. Please try again.',
+  'privacy.restoreSummary': 'Backup from {date}:',
+  'privacy.restoreSymptomLogs': '{count} symptom logs ({recordings} recordings)',
+  'privacy.restoreRecommendations': '{count} recommendations',
+  'privacy.restoreAppointments': '{count} appointments',
+  'privacy.restoreFollowUpQuestions': '{count} follow-up questions',
+  'privacy.restoreModes': 'Merge adds anything missing from this phone. Replace makes this phone match the backup exactly.',
+  'privacy.merge': 'Merge',
+  'privacy.replace': 'Replace',
+  'privacy.replaceTitle': 'Replace All Data?',
+  'privacy.replaceMessage': 'Everything on this phone that is not in the backup will be permanently deleted.',
+  'privacy.retention': 'Data Retention',
+  'privacy.retentionSubtitle': 'Keep data for {days} days',
+  'privacy.retentionPrompt': 'How many days should we keep your data?',
+  'privacy.removeOld': 'Remove Old Data Now',
+  'privacy.removeOldSubtitle.one': '{count} item older than {days} days',
+  'privacy.removeOldSubtitle.other': '{count} items older than {days} days',
+  'privacy.removeOldNothing': 'Nothing is older than your retention period',
+  'privacy.nothingToRemove': 'Nothing to Remove',
+  'privacy.nothingToRemoveMessage': 'No data is older than {days} days.',
+  'privacy.removeOldTitle': 'Remove Old Data',
+  'privacy.removeOldMessage': 'The following from before {date} will be permanently deleted:',
+  'privacy.retentionReviewMessage': 'Your privacy settings keep data for {days} days. The following from before {date} will be permanently deleted:',
+  'privacy.retentionProfiles.one': 'This includes data from {count} profile on this device.',
+  'privacy.retentionProfiles.other': 'This includes data from {count} profiles on this device.',
+  'privacy.partiallyRemoved': 'Partially Removed',
+  'privacy.partiallyRemovedMessage': 'Some old data could not be deleted. It will be retried at the next check.',
+  'privacy.removeOldFailed': 'Failed to remove old data. Please try again.',
+  'privacy.purgeHistory': 'Purge History',
+  'privacy.purgeHistoryEmpty': 'No data has been removed by your retention setting yet.',
+  'privacy.purgeHistoryLast': 'Last removed {date}',
+  'privacy.purgeHistoryNone': 'No data removed yet',
+  'privacy.purgedNothing': 'nothing',
+  'privacy.retentionCount.symptomLogs.one': '{count} symptom log',
+  'privacy.retentionCount.symptomLogs.other': '{count} symptom logs',
+  'privacy.retentionCount.audioFiles.one': '{count} audio recording',
+  'privacy.retentionCount.audioFiles.other': '{count} audio recordings',
+  'privacy.retentionCount.followUpQuestions.one': '{count} follow-up question',
+  'privacy.retentionCount.followUpQuestions.other': '{count} follow-up questions',
+  'privacy.retentionCount.completedRecommendations.one': '{count} completed recommendation',
+  'privacy.retentionCount.completedRecommendations.other': '{count} completed recommendations',
+  'privacy.retentionCount.appointments.one': '{count} past appointment',
+  'privacy.retentionCount.appointments.other': '{count} past appointments',
+  'privacy.storageUsed': 'Storage Used',
+  'privacy.storageUsedSubtitle.one': '{count} recording · {size}. Tap to remove unused files.',
+  'privacy.storageUsedSubtitle.other': '{count} recordings · {size}. Tap to remove unused files.',
+  'privacy.calculating': 'Calculating...',
+  'privacy.storageCleaned': 'Storage Cleaned Up',
+  'privacy.storageCleanedMessage.one': 'Removed {count} unused recording ({size}).',
+  'privacy.storageCleanedMessage.other': 'Removed {count} unused recordings ({size}).',
+  'privacy.storageNothingUnused': 'No unused recordings were found.',
+  'privacy.cleanUpFailed': 'Failed to clean up recordings. Please try again.',
+  'privacy.compactRecordings': 'Compact Recordings',
+  'privacy.compactRecordingsSubtitle': 'Record new check-ins at a lower quality to save space',
+  'privacy.keepRecordings': 'Keep Recordings',
+  'privacy.keepRecordingsPrompt': 'How many days should recordings be kept? Leave empty to keep them forever. Older recordings are deleted the next time the app starts; transcripts and summaries are always kept.',
+  'privacy.keepRecordingsForever': 'Forever',
+  'privacy.keepRecordingsDays': '{days} days (transcripts are kept)',
+  'privacy.recordingSettingsFailed': 'Failed to update recording settings. Please try again.',
+  'privacy.recoverDamaged': 'Recover Damaged Data',
+  'privacy.recoverDamagedSubtitle.one': '{count} item could not be read and was set aside. Try to recover what\'s readable.',
+  'privacy.recoverDamagedSubtitle.other': '{count} items could not be read and were set aside. Try to recover what\'s readable.',
+  'privacy.recoveryComplete': 'Recovery Complete',
+  'privacy.recoveryCompleteMessage.one': '{count} item fully restored, {partial} partially recovered. Anything that could not be recovered is still quarantined.',
+  'privacy.recoveryCompleteMessage.other': '{count} items fully restored, {partial} partially recovered. Anything that could not be recovered is still quarantined.',
+  'privacy.recoverFailed': 'Failed to recover quarantined data. Please try again.',
+  'privacy.exportDamaged': 'Export Damaged Data',
+  'privacy.exportDamagedSubtitle': 'Share the raw damaged items for manual recovery',
+  'privacy.exportDamagedTitle': 'Nexst Quarantined Data',
+  'privacy.exportDamagedFailed': 'Unable to export quarantined data. Please try again.',
+  'privacy.discardDamaged': 'Discard Damaged Data',
+  'privacy.discardDamagedSubtitle': 'Permanently delete the damaged items',
+  'privacy.discardDamagedTitle': 'Discard Quarantined Data',
+  'privacy.discardDamagedMessage.one': 'This will permanently delete {count} damaged item that could not be read. Export it first if you may want it later. This action cannot be undone.',
+  'privacy.discardDamagedMessage.other': 'This will permanently delete {count} damaged items that could not be read. Export them first if you may want them later. This action cannot be undone.',
+  'privacy.discard': 'Discard',
+  'privacy.discardFailed': 'Failed to discard quarantined data. Please try again.',
+  'privacy.resetSettings': 'Reset Privacy Settings',
+  'privacy.resetSettingsSubtitle': 'Reset all privacy settings to defaults',
+  'privacy.resetSettingsMessage': 'This will reset all privacy settings to their default values. Your data will not be deleted.',
+  'privacy.reset': 'Reset',
+  'privacy.resetSettingsDone': 'Privacy settings have been reset.',
+  'privacy.resetSettingsFailed': 'Failed to reset privacy settings. Please try again.',
+  'privacy.deleteAll': 'Delete All Data',
+  'privacy.deleteAllSubtitle': 'Permanently delete all your data',
+  'privacy.deleteAllMessage': 'This will permanently delete all your symptom logs, recommendations, appointments, and settings. This action cannot be undone.',
+  'privacy.deleteAllDone': 'All data has been deleted.',
+  'privacy.deleteAllFailed': 'Failed to delete all data. Please try again.',
+  'privacy.secureTitle': '🔒 Your Data is Secure',
+  'privacy.secureLocal': 'All data is stored locally on your device',
+  'privacy.secureAudio': 'Audio recordings stay on your device and are deleted with their log',
+  'privacy.secureConsent': 'No health data is shared without your explicit consent',
+  'privacy.secureControl': 'You have complete control over your data',
+
+  // Settings (components/SettingsModal.tsx)
+  'settings.title': 'Settings',
+  'settings.reminders': 'Daily Reminders',
+  'settings.enableReminders': 'Enable Reminders',
+  'settings.enableRemindersDescription': 'Get reminded to record your symptoms',
+  'settings.reminderTime': 'Reminder Time',
+  'settings.reminderTimeDescription': 'When to send reminders',
+  'settings.frequency': 'Frequency',
+  'settings.frequencyDescription': 'How often to send reminders',
+  'settings.frequencyDaily': 'Daily',
+  'settings.frequencyWeekdays': 'Weekdays',
+  'settings.frequencyWeekly': 'Weekly',
+  'settings.aiBudget': 'AI Budget',
+  'settings.monthlyLimit': 'Monthly Limit',
+  'settings.budgetLoading': 'Loading...',
+  'settings.budgetNoLimit': 'No limit · {spent} spent this month',
+  'settings.budgetOfCap': '{spent} of {cap} this month',
+  'settings.budgetExceeded': 'Limit reached · {usage} · recommendations paused',
+  'settings.budgetNear': '{usage} · using cheaper models',
+  'settings.budgetPromptTitle': 'Monthly AI Budget',
+  'settings.budgetPromptMessage': 'Maximum to spend on AI each month, in USD. Leave empty for no limit. Near the limit, cheaper models are used; at the limit, recordings are still transcribed and saved but new recommendations pause until next month.',
+  'settings.budgetUpdateFailed': 'Failed to update the AI budget. Please try again.',
+  'settings.appSettings': 'App Settings',
+  'settings.restartApp': 'Restart App',
+  'settings.restartAppDescription': 'Reset everything and start fresh with onboarding',
+  'settings.restartAppMessage': 'This will completely reset the app to its initial state and clear ALL data including symptoms, recommendations, appointments, and settings. This action cannot be undone. Are you sure?',
+  'settings.resetComplete': 'App Reset Complete',
+  'settings.resetCompleteMessage': 'All data has been cleared and the app has been reset to its initial state. The app will now restart to complete the reset.',
+  'settings.restartFailed': 'Failed to restart the app. Please try again.',
+  'settings.deleteData': 'Delete Data',
+  'settings.deleteDataDescription': 'These actions cannot be undone',
+  'settings.clearSymptomLogs': 'Clear All Symptom Logs',
+  'settings.clearSymptomLogsDescription': 'Delete all recordings, summaries, and logs',
+  'settings.clearRecommendations': 'Clear All Recommendations',
+  'settings.clearRecommendationsDescription': 'Delete all health recommendations',
+  'settings.clearAppointments': 'Clear All Appointments',
+  'settings.clearAppointmentsDescription': 'Delete all upcoming and past appointments',
+  'settings.clearAll': 'Clear All',
+  'settings.clearSymptomLogsMessage': 'Are you sure you want to delete all your symptom recordings, summaries, transcripts, and logs? This action cannot be undone.',
+  'settings.clearAppointmentsMessage': 'Are you sure you want to delete all your upcoming and previous appointments and their recommended questions? This action cannot be undone.',
+  'settings.clearRecommendationsMessage': 'Are you sure you want to delete all your completed, current, and canceled recommendations? This action cannot be undone.',
+
+  // Diagnostics (screens/DiagnosticsScreen.tsx)
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.pipelineTraces': 'Pipeline Traces ({count})',
+  'diagnostics.noTraces': 'No pipeline runs recorded yet',
+  'diagnostics.clearTraces': 'Clear Traces',
+  'diagnostics.clearTracesMessage': 'Delete all saved pipeline traces?',
+  'diagnostics.clear': 'Clear',
+  'diagnostics.steps.one': '{count} step',
+  'diagnostics.steps.other': '{count} steps',
+  'diagnostics.tokens.one': '{count} token',
+  'diagnostics.tokens.other': '{count} tokens',
+  'diagnostics.noUsage': 'no usage reported',
+  'diagnostics.repairRetries.one': '{count} repair retry',
+  'diagnostics.repairRetries.other': '{count} repair retries',
+  'diagnostics.input': 'in: {payload}',
+  'diagnostics.output': 'out: {payload}',
+  'diagnostics.dataHealth': 'Data Health',
+  'diagnostics.status': 'Status',
+  'diagnostics.healthy': 'Healthy',
+  'diagnostics.issuesFound': 'Issues found',
+  'diagnostics.keys': 'Keys',
+  'diagnostics.corrupted': 'Corrupted',
+  'diagnostics.quarantined': 'Quarantined',
+  'diagnostics.checking': 'Checking…',
+  'diagnostics.notifications': 'Scheduled Notifications ({count})',
+  'diagnostics.nothingScheduled': 'Nothing scheduled',
+  'diagnostics.triggerImmediately': 'Immediately',
+  'diagnostics.triggerDaily': 'Daily at {time}',
+  'diagnostics.triggerWeekly': 'Weekly on day {weekday} at {time}',
+  'diagnostics.triggerInterval': 'Every {seconds}s',
+  'diagnostics.triggerRepeating': 'Every {seconds}s (repeats)',
+  'diagnostics.costLedger': 'AI Cost Ledger',
+  'diagnostics.reactive': 'Reactive',
+  'diagnostics.proactive': 'Proactive',
+  'diagnostics.calls.one': '{count} call',
+  'diagnostics.calls.other': '{count} calls',
+  'diagnostics.unpriced': '{count} unpriced',
+  'diagnostics.lastCall': 'Last call',
+  'diagnostics.never': 'Never',
+  'diagnostics.loading': 'Loading…',
+
+  // Emergency guidance (utils/redFlagTriage.ts, components/EmergencyAlertModal.tsx)
+  'redFlags.cardiac.title': 'Chest pain with trouble breathing',
+  'redFlags.cardiac.condition': 'These can be signs of a heart attack or a blood clot in the lungs.',
+  'redFlags.cardiac.step1': 'Call {emergency} now. Do not drive yourself to the hospital.',
+  'redFlags.cardiac.step2': 'Stop what you are doing and sit or lie down.',
+  'redFlags.cardiac.step3': 'Unlock the door and follow the dispatcher\'s instructions until help arrives.',
+  'redFlags.stroke.title': 'Possible stroke',
+  'redFlags.stroke.condition': 'Sudden face drooping, arm weakness or speech trouble can be signs of a stroke. Every minute matters.',
+  'redFlags.stroke.step1': 'Call {emergency} now, even if the symptoms go away.',
+  'redFlags.stroke.step2': 'Note the time the symptoms started and tell the dispatcher.',
+  'redFlags.stroke.step3': 'Do not eat, drink or take medication.',
+  'redFlags.stroke.step4': 'Lie down on your side if you feel faint.',
+  'redFlags.suicidalIdeation.title': 'Thoughts of suicide or self-harm',
+  'redFlags.suicidalIdeation.condition': 'You mentioned thoughts of ending your life or hurting yourself.',
+  'redFlags.suicidalIdeation.crisisLine': 'Call {crisis} to reach a crisis line, any time, free and confidential.',
+  'redFlags.suicidalIdeation.step1': 'If you are in immediate danger, call {emergency}.',
+  'redFlags.suicidalIdeation.step2': 'Move away from anything you could use to hurt yourself.',
+  'redFlags.suicidalIdeation.step3': 'Reach out to someone you trust and let them know how you are feeling.',
+  'redFlags.anaphylaxis.title': 'Possible severe allergic reaction',
+  'redFlags.anaphylaxis.condition': 'Swelling of the throat, tongue or lips can block your airway within minutes.',
+  'redFlags.anaphylaxis.step1': 'Use an epinephrine auto-injector (EpiPen) now if you have one.',
+  'redFlags.anaphylaxis.step2': 'Call {emergency}, even if you feel better after the injection.',
+  'redFlags.anaphylaxis.step3': 'Sit up if breathing is hard; lie down with your legs raised if you feel faint.',
+  'redFlags.severeBleeding.title': 'Serious bleeding',
+  'redFlags.severeBleeding.condition': 'Bleeding that won\'t stop, or coughing or vomiting blood, needs emergency care.',
+  'redFlags.severeBleeding.step1': 'Call {emergency} now.',
+  'redFlags.severeBleeding.step2': 'Press firmly on the wound with a clean cloth and keep pressing.',
+  'redFlags.severeBleeding.step3': 'Keep still and stay warm until help arrives.',
+  'redFlags.recommendationTitle': 'Get help now: {title}',
+  'redFlags.recommendationRationale': 'Your recording mentioned {phrases}. {condition}',
+  'redFlags.followUpTimeline': 'Immediately',
+  'redFlags.callEmergency': 'Call {number}',
+  'redFlags.callCrisisLine': 'Call crisis line {number}',
+  'redFlags.headerTitle': 'Get help now',
+  'redFlags.headerSubtitle': 'Your recording mentioned symptoms that can be a medical emergency.',
+  'redFlags.callForHelp': 'Call for Help',
+  'redFlags.dialManually': 'Please dial {number} on your phone now.',
+  'redFlags.dismiss': 'I\'m safe / I\'ve called for help',
+};
+
+export type TranslationKey = keyof typeof en;
+
+export type LocaleCatalog = { [key in TranslationKey]: string };
@@ -0,0 +1,498 @@
+import { LocaleCatalog } from './en';
+
+// ============================================================================
+// SPANISH (Español)
+// ============================================================================
+
+export const es: LocaleCatalog = {
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Eliminar',
+  'common.update': 'Actualizar',
+  'common.ok': 'Aceptar',
+  'common.error': 'Error',
+  'common.success': 'Listo',
+  'common.tryAgain': 'Inténtalo de nuevo.',
+  'common.notNow': 'Ahora no',
+  'common.severity.mild': 'leve',
+  'common.severity.moderate': 'moderado',
+  'common.severity.severe': 'grave',
+
+  // Tabs and headers (App.tsx)
+  'tabs.symptoms': 'Síntomas',
+  'tabs.recommendations': 'Recomendaciones',
+  'tabs.appointments': 'Citas',
+
+  // Notifications (utils/notifications.ts)
+  'notifications.recommendationTitle': 'Nueva recomendación de salud',
+  'notifications.recommendationAddresses': 'Trata: {symptoms}',
+  'notifications.followUpTitle': 'Preguntas de seguimiento',
+  'notifications.followUpBody.one': 'Tienes una nueva pregunta de seguimiento sobre tu salud.',
+  'notifications.followUpBody.other': 'Tienes {count} nuevas preguntas de seguimiento sobre tu salud.',
+  'notifications.dailyReminderTitle': 'Revisión diaria de salud',
+  'notifications.dailyReminderBody': 'Es hora de registrar tus síntomas de hoy. Toca para abrir Nexst.',
+
+  // Onboarding (screens/OnboardingScreen.tsx)
+  'onboarding.taglineStart': 'Reinventamos cómo',
+  'onboarding.taglineEmphasis': 'cuidas tu salud',
+  'onboarding.voiceTitle': 'Registro de síntomas por voz',
+  'onboarding.voiceDescription': 'Registra tus síntomas sin esfuerzo en solo 30 segundos.',
+  'onboarding.actionsTitle': 'Acciones personalizadas',
+  'onboarding.actionsDescription': 'Recibe al instante los próximos pasos recomendados según tus síntomas.',
+  'onboarding.actionsShortDescription': 'Recibe al instante los próximos pasos según tus síntomas.',
+  'onboarding.appointmentsTitle': 'Preparación de citas',
+  'onboarding.appointmentsDescription': 'Llega a tus citas con preguntas a tu medida y tu historial de síntomas.',
+  'onboarding.closing': 'Conoce tu nexst paso.',
+  'onboarding.getStarted': 'Comenzar',
+
+  // Onboarding tutorial and feature tips (utils/onboardingContent.ts)
+  'tutorial.welcome.title': 'Bienvenido a Nexst',
+  'tutorial.welcome.description': 'Tu compañero de salud con IA. Te ayudaré a registrar síntomas, entenderlos y prepararte para tus consultas médicas.',
+  'tutorial.symptoms.title': 'Registra tus síntomas',
+  'tutorial.symptoms.description': 'Habla 30 segundos o menos sobre cómo te sientes. Transcribiré tus palabras y crearé un resumen claro para tu historial de salud.',
+  'tutorial.recommendations.title': 'Recibe recomendaciones',
+  'tutorial.recommendations.description': 'Analizaré tus síntomas y te sugeriré próximos pasos: cuidados en casa, cuándo ver a un médico o qué preguntar.',
+  'tutorial.appointments.title': 'Prepárate para tus consultas',
+  'tutorial.appointments.description': 'Cuéntame tus próximas citas y generaré preguntas relevantes según tu historial de síntomas.',
+  'tutorial.ready.title': '¡Todo listo!',
+  'tutorial.ready.description': '¿Empezamos? Toca el micrófono para grabar tu primer registro de síntomas.',
+  'tutorial.skip': 'Omitir',
+  'tutorial.previous': 'Anterior',
+  'tutorial.next': 'Siguiente',
+  'tutorial.getStarted': 'Comenzar',
+  'tutorial.gotIt': '¡Entendido!',
+  'featureTip.symptoms.title': 'Empieza a grabar',
+  'featureTip.symptoms.description': 'Toca el micrófono y habla 30 segundos o menos sobre tus síntomas: Nexst lo transcribirá y resumirá todo por ti.',
+  'featureTip.recommendations.title': 'Nexst pasos',
+  'featureTip.recommendations.description': 'Aquí verás recomendaciones personalizadas según tus síntomas para ayudarte a saber qué hacer después.',
+  'featureTip.appointments.title': 'Agrega citas',
+  'featureTip.appointments.description': 'Toca el botón + para agendar citas: Nexst generará preguntas relevantes según tu historial de síntomas para ayudarte a prepararte.',
+
+  // Symptoms (screens/SymptomsScreen.tsx)
+  'symptoms.status.firstCheckIn': 'Toca para grabar tu registro diario',
+  'symptoms.status.anotherCheckIn': 'Toca para grabar otro registro',
+  'symptoms.status.processing': 'Procesando audio...',
+  'symptoms.status.saved': '¡Grabación guardada!',
+  'symptoms.status.savedOffline': 'Grabación guardada. Se procesará cuando vuelvas a tener conexión.',
+  'symptoms.status.saveFailed': 'No se pudo guardar la grabación.',
+  'symptoms.status.stopFailed': 'No se pudo detener la grabación.',
+  'symptoms.status.permissionRequired': 'Se necesita permiso para el micrófono.',
+  'symptoms.status.recording': 'Grabando...',
+  'symptoms.status.startFailed': 'No se pudo iniciar la grabación.',
+  'symptoms.saveFailedMessage': 'No se pudo guardar la grabación. Inténtalo de nuevo.',
+  'symptoms.queue.recommendationsFailed': 'Fallaron las recomendaciones · Toca para reintentar',
+  'symptoms.queue.processingFailed': 'Falló el procesamiento · Toca para reintentar',
+  'symptoms.queue.recommendationsPending': 'Recomendaciones pendientes',
+  'symptoms.queue.waiting': 'En espera de procesamiento',
+  'symptoms.queue.retryingAt': 'Se reintentará a las {time}',
+  'symptoms.pendingSummary': 'Grabación pendiente de procesar',
+  'symptoms.redFlagsPendingOffline': '⚠️ Las señales de alarma se revisan cuando la grabación se transcribe, y para eso se necesita conexión. Si necesitas ayuda ahora, llama al {emergency}.',
+  'symptoms.budgetPaused': '💰 Tu grabación se guardó, pero las nuevas recomendaciones están en pausa: se alcanzó el presupuesto de IA de este mes de {amount}. Se reanudan el {date}, o puedes subir el límite en Ajustes.',
+  'symptoms.processingRecording': 'Procesando tu grabación...',
+
+  // Recording detail (screens/RecordingDetailScreen.tsx)
+  'recordingDetail.noData': 'No hay datos de la grabación',
+  'recordingDetail.title': 'Grabación de síntomas',
+  'recordingDetail.redFlagBanner': 'Esta grabación mencionó señales de alarma. Toca para ver qué hacer.',
+  'recordingDetail.keyPoints': 'Puntos clave',
+  'recordingDetail.inEnglish': 'En inglés',
+  'recordingDetail.fullRecording': 'Grabación completa',
+  'recordingDetail.noAudio': 'No hay archivo de audio',
+  'recordingDetail.loadFailed': 'No se pudo cargar el audio',
+  'recordingDetail.notLoaded': 'El audio no está cargado',
+  'recordingDetail.playFailed': 'No se pudo reproducir el audio',
+  'recordingDetail.playFailedMessage': 'No se pudo reproducir el audio. Inténtalo de nuevo.',
+  'recordingDetail.restartFailed': 'No se pudo reiniciar el audio',
+  'recordingDetail.restartFailedMessage': 'No se pudo reiniciar el audio. Inténtalo de nuevo.',
+  'recordingDetail.audioError': 'Error de audio',
+  'recordingDetail.loading': 'Cargando...',
+  'recordingDetail.playing': 'Reproduciendo...',
+  'recordingDetail.tapToPlay': 'Toca para reproducir',
+
+  // Recommendations (screens/RecommendationsScreen.tsx)
+  'recommendations.priority.high': 'Importante',
+  'recommendations.priority.medium': 'A considerar',
+  'recommendations.priority.low': 'Opcional',
+  'recommendations.priority.unknown': 'Prioridad',
+  'recommendations.completeTitle': 'Completar recomendación',
+  'recommendations.completeMessage': '¿Marcar esta recomendación como completada?',
+  'recommendations.complete': 'Completar',
+  'recommendations.cancelTitle': 'Descartar recomendación',
+  'recommendations.cancelMessage': '¿Por qué descartas esta recomendación?',
+  'recommendations.confirm': 'Confirmar',
+  'recommendations.noReason': 'Sin motivo',
+  'recommendations.actionCompleted': '✓ Completado el {date}',
+  'recommendations.addressed': 'Atendió: {symptoms}',
+  'recommendations.addresses': 'Atiende: {symptoms}',
+  'recommendations.completedOn': 'Completada el {date}',
+  'recommendations.cancelledOn': 'Descartada el {date}',
+  'recommendations.reason': 'Motivo: {reason}',
+  'recommendations.whyThisHelps': 'Por qué ayuda:',
+  'recommendations.done': 'Hecho',
+  'recommendations.notForMe': 'No es para mí',
+  'recommendations.completedSection': 'Completadas',
+  'recommendations.cancelledSection': 'Descartadas',
+  'recommendations.whyAmISeeingThis': '¿Por qué veo esto?',
+  'recommendations.provenance.recordings': 'Basada en estas grabaciones',
+  'recommendations.provenance.deletedRecordings.one': '{count} grabación ya se eliminó',
+  'recommendations.provenance.deletedRecordings.other': '{count} grabaciones ya se eliminaron',
+  'recommendations.provenance.patterns': 'Patrones que se tuvieron en cuenta',
+  'recommendations.provenance.pattern': '{symptom} · {frequency} por semana · {trend}',
+  'recommendations.provenance.trend.improving': 'mejorando',
+  'recommendations.provenance.trend.stable': 'estable',
+  'recommendations.provenance.trend.worsening': 'empeorando',
+  'recommendations.provenance.reasoning': 'Cómo se decidió',
+  'recommendations.provenance.generatedBy': 'Escrita por {model} con el prompt {prompt} v{version}',
+  'recommendations.provenance.usedFallback': 'No se pudo leer la respuesta del modelo, así que se usó una respuesta predeterminada.',
+  'recommendations.provenance.none': 'No se guardaron detalles de esta recomendación.',
+
+  // Appointments (screens/AppointmentsScreen.tsx)
+  'appointments.enterName': 'Escribe un nombre para la cita',
+  'appointments.fallbackQuestion.1': '¿Cómo te has sentido desde tu última visita?',
+  'appointments.fallbackQuestion.2': '¿Has notado síntomas nuevos?',
+  'appointments.fallbackQuestion.3': '¿Hay alguna preocupación que quieras comentar?',
+  'appointments.fallbackQuestion.4': '¿Cómo te están funcionando tus medicamentos actuales?',
+  'appointments.fallbackQuestion.5': '¿Has hecho cambios en tu estilo de vida recientemente?',
+  'appointments.upcomingSection': 'Próximas citas',
+  'appointments.pastSection': 'Citas pasadas',
+  'appointments.completed': 'Completada',
+  'appointments.upcoming': 'Próxima',
+  'appointments.markComplete': 'Marcar como completada',
+  'appointments.addTitle': 'Nueva cita',
+  'appointments.namePlaceholder': 'Nombre de la cita',
+  'appointments.date': 'Fecha',
+  'appointments.time': 'Hora',
+  'appointments.add': 'Agregar',
+
+  // Appointment detail (screens/AppointmentDetailScreen.tsx)
+  'appointmentDetail.title': 'Detalles de la cita',
+  'appointmentDetail.noData': 'No hay datos de la cita',
+  'appointmentDetail.scheduledAt': 'Programada a las {time}',
+  'appointmentDetail.recentSymptoms': 'Tus síntomas recientes',
+  'appointmentDetail.symptomDate': 'Fecha: {date}',
+  'appointmentDetail.noSymptoms': 'No hay síntomas recientes registrados para este tipo de cita.',
+  'appointmentDetail.questionsTitle': 'Preguntas para tu médico',
+  'appointmentDetail.questionsSubtitle': 'Asegúrate de obtener estas respuestas importantes antes de salir de tu cita',
+  'appointmentDetail.tipsTitle': 'Consejos para la cita',
+  'appointmentDetail.tipArriveEarly': 'Llega 15 minutos antes para completar cualquier trámite',
+  'appointmentDetail.tipMedications': 'Ten a mano tus medicamentos actuales y alergias',
+  'appointmentDetail.checkupQuestion.1': 'Sobre mi presión arterial y mis análisis, ¿son normales o han mejorado desde mi última visita?',
+  'appointmentDetail.checkupQuestion.2': '¿Qué vacunas me tocan?',
+  'appointmentDetail.checkupQuestion.3': '¿Siguen siendo necesarios mis medicamentos o suplementos actuales, y en la dosis correcta?',
+  'appointmentDetail.checkupQuestion.4': '¿Qué pruebas preventivas debería considerar según mi edad y mis factores de riesgo?',
+  'appointmentDetail.checkupQuestion.5': '¿Qué cambios en mi estilo de vida me ayudarían a mejorar mi salud?',
+  'appointmentDetail.symptomQuestion.1': '¿Esto podría afectar mi trabajo o mis actividades diarias, y por cuánto tiempo?',
+  'appointmentDetail.symptomQuestion.2': '¿Qué efectos secundarios debo vigilar con los tratamientos?',
+  'appointmentDetail.symptomQuestion.3': '¿Qué está causando exactamente mis síntomas?',
+  'appointmentDetail.symptomQuestion.4': '¿Qué debo hacer si olvido una dosis de algún medicamento?',
+  'appointmentDetail.symptomQuestion.5': '¿Cuándo debo volver si no mejoro?',
+  'appointmentDetail.symptomQuestion.6': '¿Hay señales de alarma que requieran atención médica inmediata?',
+  'appointmentDetail.shareWithDoctor': 'Compartir con el médico',
+  'appointmentDetail.shareLanguageMessage': '¿En qué idioma quieres el resumen de síntomas?',
+  'appointmentDetail.shareFailed': 'No se pudo compartir el resumen de síntomas. Inténtalo de nuevo.',
+
+  // Symptom summary shared with a doctor (utils/doctorExport.ts)
+  'doctorExport.title': 'Resumen de síntomas: {appointment}',
+  'doctorExport.appointmentDate': 'Cita: {date}',
+  'doctorExport.symptoms': 'Síntomas recientes',
+  'doctorExport.noSymptoms': 'No hay síntomas recientes registrados.',
+  'doctorExport.symptomLine': '{date}: {summary} ({severity})',
+  'doctorExport.footer': 'Registrado con Nexst. Los resúmenes se generan a partir de notas de voz y no son un diagnóstico.',
+
+  // Follow-up questions (screens/FollowUpQuestionsScreen.tsx)
+  'followUp.title': 'Preguntas de seguimiento',
+  'followUp.answerSummary': 'Respuesta de seguimiento: {question}',
+  'followUp.answerTranscript': 'El usuario respondió: {question}',
+  'followUp.answerRecorded': 'Tu respuesta se guardó y se agregó a tus registros de síntomas.',
+  'followUp.answerFailed': 'No se pudo guardar tu respuesta. Inténtalo de nuevo.',
+  'followUp.deleteTitle': 'Eliminar pregunta',
+  'followUp.deleteMessage': '¿Seguro que quieres eliminar esta pregunta de seguimiento?',
+  'followUp.answered': 'Respondida',
+  'followUp.markAnswered': 'Marcar como respondida',
+  'followUp.emptyTitle': 'No hay preguntas de seguimiento',
+  'followUp.emptyText': 'Cuando tengas preguntas de seguimiento, aparecerán aquí para que las respondas.',
+
+  // Profiles and their language (components/ProfileSwitcher.tsx)
+  'profiles.title': '¿Para quién es?',
+  'profiles.add': 'Agregar persona',
+  'profiles.addMessage': '¿De quién más registras síntomas? Sus registros, recomendaciones y citas se guardan por separado.',
+  'profiles.addFailed': 'No se pudo agregar a la persona',
+  'profiles.rename': 'Cambiar nombre',
+  'profiles.renameFailed': 'No se pudo cambiar el nombre',
+  'profiles.deleteTitle': '¿Eliminar a {name}?',
+  'profiles.deleteMessage': 'Se eliminarán para siempre los registros de síntomas, grabaciones, recomendaciones y citas de {name}. Esta acción no se puede deshacer.',
+  'profiles.deleteFailed': 'No se pudo eliminar',
+  'profiles.language': 'Idioma',
+  'profiles.languageCurrent': 'Idioma: {language}',
+  'profiles.languageMessage': 'Se usa para transcribir las grabaciones de {name}, escribir sus resúmenes y recomendaciones, y para la propia app.',
+  'profiles.languageAutomatic': 'Automático',
+  'profiles.languageFailed': 'No se pudo cambiar el idioma',
+  'profiles.hint': 'Mantén pulsado un nombre para cambiarlo, elegir su idioma o eliminarlo',
+  'profiles.defaultName': 'Yo',
+  'profiles.nameRequired': 'El nombre del perfil no puede estar vacío',
+  'profiles.unsupportedLanguage': 'Idioma no admitido: {language}',
+  'profiles.lastProfile': 'Se necesita al menos un perfil',
+
+  // Privacy & security (screens/PrivacySettingsScreen.tsx)
+  'privacy.title': 'Privacidad y seguridad',
+  'privacy.section.processing': 'Procesamiento de datos',
+  'privacy.section.management': 'Gestión de datos',
+  'privacy.section.audio': 'Grabaciones de audio',
+  'privacy.section.damaged': 'Datos dañados',
+  'privacy.section.account': 'Acciones de la cuenta',
+  'privacy.aiProcessing': 'Procesamiento con IA',
+  'privacy.aiProcessingSubtitle': 'Permitir que la IA analice tus síntomas para darte recomendaciones',
+  'privacy.dataSharing': 'Compartir datos',
+  'privacy.dataSharingSubtitle': 'Permitir compartir datos con profesionales de la salud',
+  'privacy.analytics': 'Analíticas',
+  'privacy.analyticsSubtitle': 'Ayuda a mejorar la app con datos de uso anónimos',
+  'privacy.export': 'Exportar mis datos',
+  'privacy.exportSubtitle': 'Descarga todos tus datos de salud en JSON',
+  'privacy.exportMessage': 'Exportación de mis datos de salud de Nexst',
+  'privacy.exportTitle': 'Datos de salud de Nexst',
+  'privacy.exportFailed': 'Error al exportar',
+  'privacy.exportFailedMessage': 'No se pudieron exportar tus datos. Inténtalo de nuevo.',
+  'privacy.backup': 'Copia de seguridad en archivo',
+  'privacy.backupSubtitle': 'Cifrada con tu contraseña, incluye las grabaciones',
+  'privacy.backupPassphrase': 'Elige una contraseña (al menos {length} caracteres). La necesitarás para restaurar esta copia; si la pierdes no se puede recuperar.',
+  'privacy.backupNext': 'Siguiente',
+  'privacy.passphraseTooShort': 'Contraseña demasiado corta',
+  'privacy.passphraseTooShortMessage': 'Usa al menos {length} caracteres.',
+  'privacy.confirmPassphrase': 'Confirmar contraseña',
+  'privacy.confirmPassphraseMessage': 'Vuelve a escribir la contraseña.',
+  'privacy.createBackup': 'Crear copia',
+  'privacy.passphrasesDontMatch': 'Las contraseñas no coinciden',
+  'privacy.saveBackupDialog': 'Guardar copia de Nexst',
+  'privacy.backupFailed': 'Error en la copia',
+  'privacy.backupFailedMessage': 'No se pudo crear la copia de seguridad. Inténtalo de nuevo.',
+  'privacy.restore': 'Restaurar copia',
+  'privacy.restoreSubtitle': 'Combina o reemplaza con un archivo de copia',
+  'privacy.restoreTitle': 'Restaurar copia',
+  'privacy.restorePassphrase': 'Escribe la contraseña que usaste al crear esta copia.',
+  'privacy.restoreOpen': 'Abrir',
+  'privacy.openFailed': 'No se pudo abrir la copia',
+  'privacy.openFailedDecryption': 'La contraseña es incorrecta o el archivo está dañado.',
+  'privacy.readFileFailed': 'No se pudo leer el archivo seleccionado. Inténtalo de nuevo.',
+  'privacy.restoreRejected.one': 'Se omitirá {count} elemento dañado.',
+  'privacy.restoreRejected.other': 'Se omitirán {count} elementos dañados.',
+  'privacy.restoreComplete': 'Restauración completa',
+  'privacy.restoreAudioErrors.one': 'No se pudo restaurar {count} grabación de audio.',
+  'privacy.restoreAudioErrors.other': 'No se pudieron restaurar {count} grabaciones de audio.',
+  'privacy.restoreRestarting': 'La app se reiniciará para cargar los datos restaurados.',
+  'privacy.restoreFailed': 'Error al restaurar',
+  'privacy.restoreFailedMessage': 'Tus datos actuales no se modificaron. Inténtalo de nuevo.',
+  'privacy.restoreSummary': 'Copia del {date}:',
+  'privacy.restoreSymptomLogs': '{count} registros de síntomas ({recordings} grabaciones)',
+  'privacy.restoreRecommendations': '{count} recomendaciones',
+  'privacy.restoreAppointments': '{count} citas',
+  'privacy.restoreFollowUpQuestions': '{count} preguntas de seguimiento',
+  'privacy.restoreModes': 'Combinar agrega lo que falte en este teléfono. Reemplazar deja este teléfono exactamente igual que la copia.',
+  'privacy.merge': 'Combinar',
+  'privacy.replace': 'Reemplazar',
+  'privacy.replaceTitle': '¿Reemplazar todos los datos?',
+  'privacy.replaceMessage': 'Todo lo que esté en este teléfono y no en la copia se eliminará para siempre.',
+  'privacy.retention': 'Conservación de datos',
+  'privacy.retentionSubtitle': 'Conservar datos durante {days} días',
+  'privacy.retentionPrompt': '¿Cuántos días debemos conservar tus datos?',
+  'privacy.removeOld': 'Eliminar datos antiguos ahora',
+  'privacy.removeOldSubtitle.one': '{count} elemento con más de {days} días',
+  'privacy.removeOldSubtitle.other': '{count} elementos con más de {days} días',
+  'privacy.removeOldNothing': 'Nada supera tu periodo de conservación',
+  'privacy.nothingToRemove': 'Nada que eliminar',
+  'privacy.nothingToRemoveMessage': 'No hay datos con más de {days} días.',
+  'privacy.removeOldTitle': 'Eliminar datos antiguos',
+  'privacy.removeOldMessage': 'Se eliminará para siempre lo siguiente anterior al {date}:',
+  'privacy.retentionReviewMessage': 'Tus ajustes de privacidad conservan los datos durante {days} días. Se eliminará para siempre lo siguiente, anterior al {date}:',
+  'privacy.retentionProfiles.one': 'Incluye datos de {count} perfil de este dispositivo.',
+  'privacy.retentionProfiles.other': 'Incluye datos de {count} perfiles de este dispositivo.',
+  'privacy.partiallyRemoved': 'Eliminación parcial',
+  'privacy.partiallyRemovedMessage': 'Algunos datos antiguos no se pudieron eliminar. Se reintentará en la próxima revisión.',
+  'privacy.removeOldFailed': 'No se pudieron eliminar los datos antiguos. Inténtalo de nuevo.',
+  'privacy.purgeHistory': 'Historial de eliminación',
+  'privacy.purgeHistoryEmpty': 'Tu ajuste de conservación todavía no ha eliminado datos.',
+  'privacy.purgeHistoryLast': 'Última eliminación: {date}',
+  'privacy.purgeHistoryNone': 'Aún no se han eliminado datos',
+  'privacy.purgedNothing': 'nada',
+  'privacy.retentionCount.symptomLogs.one': '{count} registro de síntomas',
+  'privacy.retentionCount.symptomLogs.other': '{count} registros de síntomas',
+  'privacy.retentionCount.audioFiles.one': '{count} grabación de audio',
+  'privacy.retentionCount.audioFiles.other': '{count} grabaciones de audio',
+  'privacy.retentionCount.followUpQuestions.one': '{count} pregunta de seguimiento',
+  'privacy.retentionCount.followUpQuestions.other': '{count} preguntas de seguimiento',
+  'privacy.retentionCount.completedRecommendations.one': '{count} recomendación completada',
+  'privacy.retentionCount.completedRecommendations.other': '{count} recomendaciones completadas',
+  'privacy.retentionCount.appointments.one': '{count} cita pasada',
+  'privacy.retentionCount.appointments.other': '{count} citas pasadas',
+  'privacy.storageUsed': 'Almacenamiento usado',
+  'privacy.storageUsedSubtitle.one': '{count} grabación · {size}. Toca para quitar archivos sin usar.',
+  'privacy.storageUsedSubtitle.other': '{count} grabaciones · {size}. Toca para quitar archivos sin usar.',
+  'privacy.calculating': 'Calculando...',
+  'privacy.storageCleaned': 'Almacenamiento liberado',
+  'privacy.storageCleanedMessage.one': 'Se eliminó {count} grabación sin usar ({size}).',
+  'privacy.storageCleanedMessage.other': 'Se eliminaron {count} grabaciones sin usar ({size}).',
+  'privacy.storageNothingUnused': 'No se encontraron grabaciones sin usar.',
+  'privacy.cleanUpFailed': 'No se pudieron limpiar las grabaciones. Inténtalo de nuevo.',
+  'privacy.compactRecordings': 'Grabaciones compactas',
+  'privacy.compactRecordingsSubtitle': 'Graba los nuevos registros con menor calidad para ahorrar espacio',
+  'privacy.keepRecordings': 'Conservar grabaciones',
+  'privacy.keepRecordingsPrompt': '¿Cuántos días deben conservarse las grabaciones? Déjalo vacío para conservarlas siempre. Las más antiguas se eliminan la próxima vez que se abra la app; las transcripciones y resúmenes se conservan siempre.',
+  'privacy.keepRecordingsForever': 'Siempre',
+  'privacy.keepRecordingsDays': '{days} días (se conservan las transcripciones)',
+  'privacy.recordingSettingsFailed': 'No se pudieron actualizar los ajustes de grabación. Inténtalo de nuevo.',
+  'privacy.recoverDamaged': 'Recuperar datos dañados',
+  'privacy.recoverDamagedSubtitle.one': '{count} elemento no se pudo leer y se apartó. Intenta recuperar lo que sea legible.',
+  'privacy.recoverDamagedSubtitle.other': '{count} elementos no se pudieron leer y se apartaron. Intenta recuperar lo que sea legible.',
+  'privacy.recoveryComplete': 'Recuperación completa',
+  'privacy.recoveryCompleteMessage.one': '{count} elemento restaurado por completo, {partial} recuperados en parte. Lo que no se pudo recuperar sigue en cuarentena.',
+  'privacy.recoveryCompleteMessage.other': '{count} elementos restaurados por completo, {partial} recuperados en parte. Lo que no se pudo recuperar sigue en cuarentena.',
+  'privacy.recoverFailed': 'No se pudieron recuperar los datos en cuarentena. Inténtalo de nuevo.',
+  'privacy.exportDamaged': 'Exportar datos dañados',
+  'privacy.exportDamagedSubtitle': 'Comparte los elementos dañados sin procesar para recuperarlos a mano',
+  'privacy.exportDamagedTitle': 'Datos en cuarentena de Nexst',
+  'privacy.exportDamagedFailed': 'No se pudieron exportar los datos en cuarentena. Inténtalo de nuevo.',
+  'privacy.discardDamaged': 'Descartar datos dañados',
+  'privacy.discardDamagedSubtitle': 'Elimina para siempre los elementos dañados',
+  'privacy.discardDamagedTitle': 'Descartar datos en cuarentena',
+  'privacy.discardDamagedMessage.one': 'Se eliminará para siempre {count} elemento dañado que no se pudo leer. Expórtalo antes si podrías necesitarlo. Esta acción no se puede deshacer.',
+  'privacy.discardDamagedMessage.other': 'Se eliminarán para siempre {count} elementos dañados que no se pudieron leer. Expórtalos antes si podrías necesitarlos. Esta acción no se puede deshacer.',
+  'privacy.discard': 'Descartar',
+  'privacy.discardFailed': 'No se pudieron descartar los datos en cuarentena. Inténtalo de nuevo.',
+  'privacy.resetSettings': 'Restablecer ajustes de privacidad',
+  'privacy.resetSettingsSubtitle': 'Vuelve a los valores predeterminados',
+  'privacy.resetSettingsMessage': 'Todos los ajustes de privacidad volverán a sus valores predeterminados. Tus datos no se eliminarán.',
+  'privacy.reset': 'Restablecer',
+  'privacy.resetSettingsDone': 'Se restablecieron los ajustes de privacidad.',
+  'privacy.resetSettingsFailed': 'No se pudieron restablecer los ajustes de privacidad. Inténtalo de nuevo.',
+  'privacy.deleteAll': 'Eliminar todos los datos',
+  'privacy.deleteAllSubtitle': 'Elimina para siempre todos tus datos',
+  'privacy.deleteAllMessage': 'Se eliminarán para siempre todos tus registros de síntomas, recomendaciones, citas y ajustes. Esta acción no se puede deshacer.',
+  'privacy.deleteAllDone': 'Se eliminaron todos los datos.',
+  'privacy.deleteAllFailed': 'No se pudieron eliminar todos los datos. Inténtalo de nuevo.',
+  'privacy.secureTitle': '🔒 Tus datos están seguros',
+  'privacy.secureLocal': 'Todos los datos se guardan en tu dispositivo',
+  'privacy.secureAudio': 'Las grabaciones se quedan en tu dispositivo y se eliminan junto con su registro',
+  'privacy.secureConsent': 'Ningún dato de salud se comparte sin tu consentimiento explícito',
+  'privacy.secureControl': 'Tienes el control total de tus datos',
+
+  // Settings (components/SettingsModal.tsx)
+  'settings.title': 'Ajustes',
+  'settings.reminders': 'Recordatorios diarios',
+  'settings.enableReminders': 'Activar recordatorios',
+  'settings.enableRemindersDescription': 'Recibe avisos para registrar tus síntomas',
+  'settings.reminderTime': 'Hora del recordatorio',
+  'settings.reminderTimeDescription': 'Cuándo enviar los recordatorios',
+  'settings.frequency': 'Frecuencia',
+  'settings.frequencyDescription': 'Con qué frecuencia enviar recordatorios',
+  'settings.frequencyDaily': 'Diario',
+  'settings.frequencyWeekdays': 'Entre semana',
+  'settings.frequencyWeekly': 'Semanal',
+  'settings.aiBudget': 'Presupuesto de IA',
+  'settings.monthlyLimit': 'Límite mensual',
+  'settings.budgetLoading': 'Cargando...',
+  'settings.budgetNoLimit': 'Sin límite · {spent} gastados este mes',
+  'settings.budgetOfCap': '{spent} de {cap} este mes',
+  'settings.budgetExceeded': 'Límite alcanzado · {usage} · recomendaciones en pausa',
+  'settings.budgetNear': '{usage} · usando modelos más económicos',
+  'settings.budgetPromptTitle': 'Presupuesto mensual de IA',
+  'settings.budgetPromptMessage': 'Máximo a gastar en IA cada mes, en USD. Déjalo vacío para no poner límite. Cerca del límite se usan modelos más económicos; al llegar al límite, las grabaciones se siguen transcribiendo y guardando, pero las nuevas recomendaciones se pausan hasta el mes siguiente.',
+  'settings.budgetUpdateFailed': 'No se pudo actualizar el presupuesto de IA. Inténtalo de nuevo.',
+  'settings.appSettings': 'Ajustes de la app',
+  'settings.restartApp': 'Reiniciar la app',
+  'settings.restartAppDescription': 'Restablece todo y empieza de nuevo desde la bienvenida',
+  'settings.restartAppMessage': 'La app volverá por completo a su estado inicial y se borrarán TODOS los datos, incluidos síntomas, recomendaciones, citas y ajustes. Esta acción no se puede deshacer. ¿Seguro que quieres continuar?',
+  'settings.resetComplete': 'Se restableció la app',
+  'settings.resetCompleteMessage': 'Se borraron todos los datos y la app volvió a su estado inicial. Ahora se reiniciará para completar el proceso.',
+  'settings.restartFailed': 'No se pudo reiniciar la app. Inténtalo de nuevo.',
+  'settings.deleteData': 'Eliminar datos',
+  'settings.deleteDataDescription': 'Estas acciones no se pueden deshacer',
+  'settings.clearSymptomLogs': 'Borrar todos los registros de síntomas',
+  'settings.clearSymptomLogsDescription': 'Elimina todas las grabaciones, resúmenes y registros',
+  'settings.clearRecommendations': 'Borrar todas las recomendaciones',
+  'settings.clearRecommendationsDescription': 'Elimina todas las recomendaciones de salud',
+  'settings.clearAppointments': 'Borrar todas las citas',
+  'settings.clearAppointmentsDescription': 'Elimina todas las citas próximas y pasadas',
+  'settings.clearAll': 'Borrar todo',
+  'settings.clearSymptomLogsMessage': '¿Seguro que quieres eliminar todas tus grabaciones, resúmenes, transcripciones y registros de síntomas? Esta acción no se puede deshacer.',
+  'settings.clearAppointmentsMessage': '¿Seguro que quieres eliminar todas tus citas próximas y pasadas y sus preguntas recomendadas? Esta acción no se puede deshacer.',
+  'settings.clearRecommendationsMessage': '¿Seguro que quieres eliminar todas tus recomendaciones completadas, actuales y canceladas? Esta acción no se puede deshacer.',
+
+  // Diagnostics (screens/DiagnosticsScreen.tsx)
+  'diagnostics.title': 'Diagnóstico',
+  'diagnostics.pipelineTraces': 'Trazas del pipeline ({count})',
+  'diagnostics.noTraces': 'Todavía no hay ejecuciones registradas',
+  'diagnostics.clearTraces': 'Borrar trazas',
+  'diagnostics.clearTracesMessage': '¿Eliminar todas las trazas guardadas?',
+  'diagnostics.clear': 'Borrar',
+  'diagnostics.steps.one': '{count} paso',
+  'diagnostics.steps.other': '{count} pasos',
+  'diagnostics.tokens.one': '{count} token',
+  'diagnostics.tokens.other': '{count} tokens',
+  'diagnostics.noUsage': 'sin uso informado',
+  'diagnostics.repairRetries.one': '{count} reintento de reparación',
+  'diagnostics.repairRetries.other': '{count} reintentos de reparación',
+  'diagnostics.input': 'entrada: {payload}',
+  'diagnostics.output': 'salida: {payload}',
+  'diagnostics.dataHealth': 'Estado de los datos',
+  'diagnostics.status': 'Estado',
+  'diagnostics.healthy': 'Correcto',
+  'diagnostics.issuesFound': 'Se encontraron problemas',
+  'diagnostics.keys': 'Claves',
+  'diagnostics.corrupted': 'Dañadas',
+  'diagnostics.quarantined': 'En cuarentena',
+  'diagnostics.checking': 'Comprobando…',
+  'diagnostics.notifications': 'Notificaciones programadas ({count})',
+  'diagnostics.nothingScheduled': 'Nada programado',
+  'diagnostics.triggerImmediately': 'De inmediato',
+  'diagnostics.triggerDaily': 'Todos los días a las {time}',
+  'diagnostics.triggerWeekly': 'Cada semana, el día {weekday} a las {time}',
+  'diagnostics.triggerInterval': 'Cada {seconds} s',
+  'diagnostics.triggerRepeating': 'Cada {seconds} s (se repite)',
+  'diagnostics.costLedger': 'Registro de costos de IA',
+  'diagnostics.reactive': 'Reactivas',
+  'diagnostics.proactive': 'Proactivas',
+  'diagnostics.calls.one': '{count} llamada',
+  'diagnostics.calls.other': '{count} llamadas',
+  'diagnostics.unpriced': '{count} sin precio',
+  'diagnostics.lastCall': 'Última llamada',
+  'diagnostics.never': 'Nunca',
+  'diagnostics.loading': 'Cargando…',
+
+  // Emergency guidance (utils/redFlagTriage.ts, components/EmergencyAlertModal.tsx)
+  'redFlags.cardiac.title': 'Dolor de pecho con dificultad para respirar',
+  'redFlags.cardiac.condition': 'Pueden ser señales de un infarto o de un coágulo en los pulmones.',
+  'redFlags.cardiac.step1': 'Llama al {emergency} ahora. No conduzcas tú mismo al hospital.',
+  'redFlags.cardiac.step2': 'Deja lo que estés haciendo y siéntate o recuéstate.',
+  'redFlags.cardiac.step3': 'Quita el seguro de la puerta y sigue las instrucciones del operador hasta que llegue la ayuda.',
+  'redFlags.stroke.title': 'Posible derrame cerebral',
+  'redFlags.stroke.condition': 'La caída repentina de un lado de la cara, la debilidad en un brazo o la dificultad para hablar pueden ser señales de un derrame cerebral. Cada minuto cuenta.',
+  'redFlags.stroke.step1': 'Llama al {emergency} ahora, aunque los síntomas desaparezcan.',
+  'redFlags.stroke.step2': 'Anota la hora en que empezaron los síntomas y díselo al operador.',
+  'redFlags.stroke.step3': 'No comas, no bebas ni tomes medicamentos.',
+  'redFlags.stroke.step4': 'Recuéstate de lado si sientes que te vas a desmayar.',
+  'redFlags.suicidalIdeation.title': 'Pensamientos de suicidio o de hacerte daño',
+  'redFlags.suicidalIdeation.condition': 'Mencionaste pensamientos de quitarte la vida o de hacerte daño.',
+  'redFlags.suicidalIdeation.crisisLine': 'Llama al {crisis} para hablar con una línea de crisis, a cualquier hora, gratis y de forma confidencial.',
+  'redFlags.suicidalIdeation.step1': 'Si estás en peligro inmediato, llama al {emergency}.',
+  'redFlags.suicidalIdeation.step2': 'Aléjate de cualquier cosa con la que puedas hacerte daño.',
+  'redFlags.suicidalIdeation.step3': 'Habla con alguien de confianza y cuéntale cómo te sientes.',
+  'redFlags.anaphylaxis.title': 'Posible reacción alérgica grave',
+  'redFlags.anaphylaxis.condition': 'La hinchazón de la garganta, la lengua o los labios puede bloquear las vías respiratorias en minutos.',
+  'redFlags.anaphylaxis.step1': 'Usa ahora un autoinyector de epinefrina (EpiPen) si tienes uno.',
+  'redFlags.anaphylaxis.step2': 'Llama al {emergency}, aunque te sientas mejor después de la inyección.',
+  'redFlags.anaphylaxis.step3': 'Siéntate si te cuesta respirar; recuéstate con las piernas elevadas si sientes que te vas a desmayar.',
+  'redFlags.severeBleeding.title': 'Sangrado grave',
+  'redFlags.severeBleeding.condition': 'Un sangrado que no se detiene, o toser o vomitar sangre, necesita atención de urgencia.',
+  'redFlags.severeBleeding.step1': 'Llama al {emergency} ahora.',
+  'redFlags.severeBleeding.step2': 'Presiona con firmeza la herida con un paño limpio y no dejes de presionar.',
+  'redFlags.severeBleeding.step3': 'Quédate quieto y abrigado hasta que llegue la ayuda.',
+  'redFlags.recommendationTitle': 'Busca ayuda ahora: {title}',
+  'redFlags.recommendationRationale': 'Tu grabación mencionó {phrases}. {condition}',
+  'redFlags.followUpTimeline': 'De inmediato',
+  'redFlags.callEmergency': 'Llamar al {number}',
+  'redFlags.callCrisisLine': 'Llamar a la línea de crisis {number}',
+  'redFlags.headerTitle': 'Busca ayuda ahora',
+  'redFlags.headerSubtitle': 'Tu grabación mencionó síntomas que pueden ser una emergencia médica.',
+  'redFlags.callForHelp': 'Pide ayuda',
+  'redFlags.dialManually': 'Marca el {number} en tu teléfono ahora.',
+  'redFlags.dismiss': 'Estoy a salvo / Ya pedí ayuda',
+};
@@ -0,0 +1,498 @@
+import { LocaleCatalog } from './en';
+
+// ============================================================================
+// HINDI (हिन्दी)
+// ============================================================================
+
+export const hi: LocaleCatalog = {
+  // Shared
+  'common.cancel': 'रद्द करें',
+  'common.delete': 'हटाएँ',
+  'common.update': 'अपडेट करें',
+  'common.ok': 'ठीक है',
+  'common.error': 'त्रुटि',
+  'common.success': 'हो गया',
+  'common.tryAgain': 'कृपया फिर से कोशिश करें।',
+  'common.notNow': 'अभी नहीं',
+  'common.severity.mild': 'हल्का',
+  'common.severity.moderate': 'मध्यम',
+  'common.severity.severe': 'गंभीर',
+
+  // Tabs and headers (App.tsx)
+  'tabs.symptoms': 'लक्षण',
+  'tabs.recommendations': 'सुझाव',
+  'tabs.appointments': 'अपॉइंटमेंट',
+
+  // Notifications (utils/notifications.ts)
+  'notifications.recommendationTitle': 'नया स्वास्थ्य सुझाव',
+  'notifications.recommendationAddresses': 'इनके लिए: {symptoms}',
+  'notifications.followUpTitle': 'फ़ॉलो-अप सवाल',
+  'notifications.followUpBody.one': 'आपकी सेहत के बारे में एक नया फ़ॉलो-अप सवाल है।',
+  'notifications.followUpBody.other': 'आपकी सेहत के बारे में {count} नए फ़ॉलो-अप सवाल हैं।',
+  'notifications.dailyReminderTitle': 'रोज़ की सेहत जांच',
+  'notifications.dailyReminderBody': 'आज के लक्षण रिकॉर्ड करने का समय है। Nexst खोलने के लिए टैप करें।',
+
+  // Onboarding (screens/OnboardingScreen.tsx)
+  'onboarding.taglineStart': 'नए तरीके से',
+  'onboarding.taglineEmphasis': 'अपनी सेहत का ध्यान रखें',
+  'onboarding.voiceTitle': 'आवाज़ से लक्षण दर्ज करें',
+  'onboarding.voiceDescription': 'सिर्फ़ 30 सेकंड में आसानी से अपने लक्षण दर्ज करें।',
+  'onboarding.actionsTitle': 'आपके लिए सुझाव',
+  'onboarding.actionsDescription': 'अपने लक्षणों के आधार पर तुरंत सुझाए गए अगले कदम पाएँ।',
+  'onboarding.actionsShortDescription': 'अपने लक्षणों के आधार पर तुरंत अगले कदम पाएँ।',
+  'onboarding.appointmentsTitle': 'अपॉइंटमेंट की तैयारी',
+  'onboarding.appointmentsDescription': 'अपने लिए तैयार किए गए सवालों और लक्षणों के इतिहास के साथ अपॉइंटमेंट पर जाएँ।',
+  'onboarding.closing': 'अपना nexst कदम जानें।',
+  'onboarding.getStarted': 'शुरू करें',
+
+  // Onboarding tutorial and feature tips (utils/onboardingContent.ts)
+  'tutorial.welcome.title': 'Nexst में आपका स्वागत है',
+  'tutorial.welcome.description': 'आपका AI स्वास्थ्य साथी। मैं आपके लक्षण दर्ज करने, उन्हें समझने और डॉक्टर से मिलने की तैयारी में आपकी मदद करूँगा।',
+  'tutorial.symptoms.title': 'अपने लक्षण रिकॉर्ड करें',
+  'tutorial.symptoms.description': '30 सेकंड या उससे कम समय में बताएँ कि आप कैसा महसूस कर रहे हैं। मैं आपकी बात लिखकर आपके स्वास्थ्य रिकॉर्ड के लिए एक साफ़ सारांश बनाऊँगा।',
+  'tutorial.recommendations.title': 'सुझाव पाएँ',
+  'tutorial.recommendations.description': 'मैं आपके लक्षणों का विश्लेषण करके अगले कदम सुझाऊँगा: घर पर देखभाल, डॉक्टर से कब मिलें, या क्या पूछें।',
+  'tutorial.appointments.title': 'डॉक्टर से मिलने की तैयारी करें',
+  'tutorial.appointments.description': 'मुझे अपने आने वाले अपॉइंटमेंट बताएँ और मैं आपके लक्षणों के इतिहास के आधार पर ज़रूरी सवाल बनाऊँगा।',
+  'tutorial.ready.title': 'आप तैयार हैं!',
+  'tutorial.ready.description': 'शुरू करें? अपना पहला लक्षण रिकॉर्ड करने के लिए माइक्रोफ़ोन पर टैप करें।',
+  'tutorial.skip': 'छोड़ें',
+  'tutorial.previous': 'पिछला',
+  'tutorial.next': 'अगला',
+  'tutorial.getStarted': 'शुरू करें',
+  'tutorial.gotIt': 'समझ गया!',
+  'featureTip.symptoms.title': 'रिकॉर्डिंग शुरू करें',
+  'featureTip.symptoms.description': 'माइक्रोफ़ोन पर टैप करें और 30 सेकंड या उससे कम समय में अपने लक्षण बताएँ, Nexst सब कुछ लिखकर उसका सारांश बना देगा।',
+  'featureTip.recommendations.title': 'Nexst कदम',
+  'featureTip.recommendations.description': 'यहाँ आपको अपने लक्षणों के आधार पर निजी सुझाव मिलेंगे, ताकि आप जान सकें कि आगे क्या करना है।',
+  'featureTip.appointments.title': 'अपॉइंटमेंट जोड़ें',
+  'featureTip.appointments.description': 'अपॉइंटमेंट तय करने के लिए + बटन पर टैप करें, Nexst आपके लक्षणों के इतिहास के आधार पर तैयारी के लिए ज़रूरी सवाल बनाएगा।',
+
+  // Symptoms (screens/SymptomsScreen.tsx)
+  'symptoms.status.firstCheckIn': 'अपना रोज़ का हाल रिकॉर्ड करने के लिए टैप करें',
+  'symptoms.status.anotherCheckIn': 'एक और रिकॉर्डिंग के लिए टैप करें',
+  'symptoms.status.processing': 'ऑडियो प्रोसेस हो रहा है...',
+  'symptoms.status.saved': 'रिकॉर्डिंग सेव हो गई!',
+  'symptoms.status.savedOffline': 'रिकॉर्डिंग सेव हो गई। इंटरनेट वापस आने पर इसे प्रोसेस किया जाएगा।',
+  'symptoms.status.saveFailed': 'रिकॉर्डिंग सेव नहीं हो सकी।',
+  'symptoms.status.stopFailed': 'रिकॉर्डिंग रोकी नहीं जा सकी।',
+  'symptoms.status.permissionRequired': 'माइक्रोफ़ोन की अनुमति ज़रूरी है।',
+  'symptoms.status.recording': 'रिकॉर्डिंग हो रही है...',
+  'symptoms.status.startFailed': 'रिकॉर्डिंग शुरू नहीं हो सकी।',
+  'symptoms.saveFailedMessage': 'रिकॉर्डिंग सेव नहीं हो सकी। कृपया फिर से कोशिश करें।',
+  'symptoms.queue.recommendationsFailed': 'सुझाव नहीं बन सके · फिर से कोशिश के लिए टैप करें',
+  'symptoms.queue.processingFailed': 'प्रोसेसिंग विफल · फिर से कोशिश के लिए टैप करें',
+  'symptoms.queue.recommendationsPending': 'सुझाव बाकी हैं',
+  'symptoms.queue.waiting': 'प्रोसेसिंग की प्रतीक्षा में',
+  'symptoms.queue.retryingAt': '{time} पर फिर से कोशिश होगी',
+  'symptoms.pendingSummary': 'रिकॉर्डिंग प्रोसेस होने का इंतज़ार कर रही है',
+  'symptoms.redFlagsPendingOffline': '⚠️ आपातकालीन खतरे के संकेत रिकॉर्डिंग का ट्रांसक्रिप्शन होने पर जांचे जाते हैं, जिसके लिए इंटरनेट ज़रूरी है। अगर आपको अभी मदद चाहिए, तो {emergency} पर कॉल करें।',
+  'symptoms.budgetPaused': '💰 आपकी रिकॉर्डिंग सेव हो गई, लेकिन नए सुझाव रुके हुए हैं: इस महीने का {amount} का AI बजट पूरा हो गया है। ये {date} को फिर शुरू होंगे, या आप सेटिंग्स में सीमा बढ़ा सकते हैं।',
+  'symptoms.processingRecording': 'आपकी रिकॉर्डिंग प्रोसेस हो रही है...',
+
+  // Recording detail (screens/RecordingDetailScreen.tsx)
+  'recordingDetail.noData': 'रिकॉर्डिंग का कोई डेटा नहीं है',
+  'recordingDetail.title': 'लक्षण रिकॉर्डिंग',
+  'recordingDetail.redFlagBanner': 'इस रिकॉर्डिंग में खतरे के संकेत बताए गए हैं। क्या करना है, देखने के लिए टैप करें।',
+  'recordingDetail.keyPoints': 'मुख्य बातें',
+  'recordingDetail.inEnglish': 'अंग्रेज़ी में',
+  'recordingDetail.fullRecording': 'पूरी रिकॉर्डिंग',
+  'recordingDetail.noAudio': 'कोई ऑडियो फ़ाइल नहीं है',
+  'recordingDetail.loadFailed': 'ऑडियो लोड नहीं हो सका',
+  'recordingDetail.notLoaded': 'ऑडियो लोड नहीं हुआ है',
+  'recordingDetail.playFailed': 'ऑडियो नहीं चल सका',
+  'recordingDetail.playFailedMessage': 'ऑडियो नहीं चल सका। कृपया फिर से कोशिश करें।',
+  'recordingDetail.restartFailed': 'ऑडियो दोबारा शुरू नहीं हो सका',
+  'recordingDetail.restartFailedMessage': 'ऑडियो दोबारा शुरू नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'recordingDetail.audioError': 'ऑडियो त्रुटि',
+  'recordingDetail.loading': 'लोड हो रहा है...',
+  'recordingDetail.playing': 'चल रहा है...',
+  'recordingDetail.tapToPlay': 'चलाने के लिए टैप करें',
+
+  // Recommendations (screens/RecommendationsScreen.tsx)
+  'recommendations.priority.high': 'ज़रूरी',
+  'recommendations.priority.medium': 'विचार करें',
+  'recommendations.priority.low': 'वैकल्पिक',
+  'recommendations.priority.unknown': 'प्राथमिकता',
+  'recommendations.completeTitle': 'सुझाव पूरा करें',
+  'recommendations.completeMessage': 'क्या इस सुझाव को पूरा हुआ मानें?',
+  'recommendations.complete': 'पूरा करें',
+  'recommendations.cancelTitle': 'सुझाव हटाएँ',
+  'recommendations.cancelMessage': 'आप यह सुझाव क्यों हटा रहे हैं?',
+  'recommendations.confirm': 'पुष्टि करें',
+  'recommendations.noReason': 'कोई कारण नहीं',
+  'recommendations.actionCompleted': '✓ {date} को पूरा हुआ',
+  'recommendations.addressed': 'इनके लिए था: {symptoms}',
+  'recommendations.addresses': 'इनके लिए: {symptoms}',
+  'recommendations.completedOn': '{date} को पूरा हुआ',
+  'recommendations.cancelledOn': '{date} को हटाया गया',
+  'recommendations.reason': 'कारण: {reason}',
+  'recommendations.whyThisHelps': 'यह क्यों मदद करता है:',
+  'recommendations.done': 'हो गया',
+  'recommendations.notForMe': 'मेरे लिए नहीं',
+  'recommendations.completedSection': 'पूरे हुए',
+  'recommendations.cancelledSection': 'हटाए गए',
+  'recommendations.whyAmISeeingThis': 'मुझे यह क्यों दिख रहा है?',
+  'recommendations.provenance.recordings': 'इन रिकॉर्डिंग के आधार पर',
+  'recommendations.provenance.deletedRecordings.one': '{count} रिकॉर्डिंग अब हटा दी गई है',
+  'recommendations.provenance.deletedRecordings.other': '{count} रिकॉर्डिंग अब हटा दी गई हैं',
+  'recommendations.provenance.patterns': 'ध्यान में रखे गए पैटर्न',
+  'recommendations.provenance.pattern': '{symptom} · हफ़्ते में {frequency} बार · {trend}',
+  'recommendations.provenance.trend.improving': 'सुधर रहा है',
+  'recommendations.provenance.trend.stable': 'स्थिर',
+  'recommendations.provenance.trend.worsening': 'बिगड़ रहा है',
+  'recommendations.provenance.reasoning': 'यह कैसे तय हुआ',
+  'recommendations.provenance.generatedBy': '{model} ने प्रॉम्प्ट {prompt} v{version} से लिखा',
+  'recommendations.provenance.usedFallback': 'मॉडल का जवाब पढ़ा नहीं जा सका, इसलिए पहले से तय जवाब इस्तेमाल किया गया।',
+  'recommendations.provenance.none': 'इस सुझाव का कोई विवरण नहीं रखा गया।',
+
+  // Appointments (screens/AppointmentsScreen.tsx)
+  'appointments.enterName': 'कृपया अपॉइंटमेंट का नाम लिखें',
+  'appointments.fallbackQuestion.1': 'पिछली मुलाकात के बाद से आप कैसा महसूस कर रहे हैं?',
+  'appointments.fallbackQuestion.2': 'क्या आपने कोई नया लक्षण देखा है?',
+  'appointments.fallbackQuestion.3': 'क्या कोई चिंता है जिस पर आप बात करना चाहते हैं?',
+  'appointments.fallbackQuestion.4': 'आपकी मौजूदा दवाइयाँ कैसा असर कर रही हैं?',
+  'appointments.fallbackQuestion.5': 'क्या हाल में आपने अपनी जीवनशैली में कोई बदलाव किया है?',
+  'appointments.upcomingSection': 'आने वाले अपॉइंटमेंट',
+  'appointments.pastSection': 'पिछले अपॉइंटमेंट',
+  'appointments.completed': 'पूरा हुआ',
+  'appointments.upcoming': 'आने वाला',
+  'appointments.markComplete': 'पूरा हुआ मानें',
+  'appointments.addTitle': 'नया अपॉइंटमेंट',
+  'appointments.namePlaceholder': 'अपॉइंटमेंट का नाम',
+  'appointments.date': 'तारीख',
+  'appointments.time': 'समय',
+  'appointments.add': 'जोड़ें',
+
+  // Appointment detail (screens/AppointmentDetailScreen.tsx)
+  'appointmentDetail.title': 'अपॉइंटमेंट का विवरण',
+  'appointmentDetail.noData': 'अपॉइंटमेंट का कोई डेटा नहीं है',
+  'appointmentDetail.scheduledAt': '{time} बजे तय',
+  'appointmentDetail.recentSymptoms': 'आपके हाल के लक्षण',
+  'appointmentDetail.symptomDate': 'तारीख: {date}',
+  'appointmentDetail.noSymptoms': 'इस तरह के अपॉइंटमेंट के लिए हाल का कोई लक्षण दर्ज नहीं है।',
+  'appointmentDetail.questionsTitle': 'डॉक्टर से पूछने के सवाल',
+  'appointmentDetail.questionsSubtitle': 'अपॉइंटमेंट से निकलने से पहले इन ज़रूरी सवालों के जवाब ज़रूर लें',
+  'appointmentDetail.tipsTitle': 'अपॉइंटमेंट के लिए सुझाव',
+  'appointmentDetail.tipArriveEarly': 'कागज़ी काम पूरा करने के लिए 15 मिनट पहले पहुँचें',
+  'appointmentDetail.tipMedications': 'अपनी मौजूदा दवाइयों और एलर्जी की जानकारी तैयार रखें',
+  'appointmentDetail.checkupQuestion.1': 'मेरा ब्लड प्रेशर और जाँच के नतीजे, क्या ये सामान्य हैं या पिछली बार से बेहतर हुए हैं?',
+  'appointmentDetail.checkupQuestion.2': 'मुझे कौन से टीके लगवाने हैं?',
+  'appointmentDetail.checkupQuestion.3': 'क्या मेरी मौजूदा दवाइयाँ या सप्लीमेंट अब भी ज़रूरी हैं और सही मात्रा में हैं?',
+  'appointmentDetail.checkupQuestion.4': 'मेरी उम्र और जोखिम के आधार पर मुझे कौन सी जाँचें करवानी चाहिए?',
+  'appointmentDetail.checkupQuestion.5': 'जीवनशैली में कौन से बदलाव मेरी सेहत सुधारने में मदद करेंगे?',
+  'appointmentDetail.symptomQuestion.1': 'क्या इसका असर मेरे काम या रोज़ के कामों पर पड़ेगा, और कितने समय तक?',
+  'appointmentDetail.symptomQuestion.2': 'इलाज के किन दुष्प्रभावों पर मुझे ध्यान देना चाहिए?',
+  'appointmentDetail.symptomQuestion.3': 'मेरे लक्षणों की असली वजह क्या है?',
+  'appointmentDetail.symptomQuestion.4': 'अगर दवा की कोई खुराक छूट जाए तो मुझे क्या करना चाहिए?',
+  'appointmentDetail.symptomQuestion.5': 'अगर मैं ठीक न हो रहा हूँ तो मुझे कब वापस आना चाहिए?',
+  'appointmentDetail.symptomQuestion.6': 'क्या कोई खतरे के संकेत हैं जिनमें तुरंत डॉक्टर को दिखाना ज़रूरी है?',
+  'appointmentDetail.shareWithDoctor': 'डॉक्टर के साथ साझा करें',
+  'appointmentDetail.shareLanguageMessage': 'लक्षणों का सारांश किस भाषा में चाहिए?',
+  'appointmentDetail.shareFailed': 'लक्षणों का सारांश साझा नहीं हो सका। कृपया फिर से कोशिश करें।',
+
+  // Symptom summary shared with a doctor (utils/doctorExport.ts)
+  'doctorExport.title': 'लक्षणों का सारांश: {appointment}',
+  'doctorExport.appointmentDate': 'अपॉइंटमेंट: {date}',
+  'doctorExport.symptoms': 'हाल के लक्षण',
+  'doctorExport.noSymptoms': 'हाल का कोई लक्षण दर्ज नहीं है।',
+  'doctorExport.symptomLine': '{date}: {summary} ({severity})',
+  'doctorExport.footer': 'Nexst से दर्ज किया गया। सारांश वॉइस नोट्स से बनाए गए हैं और ये निदान नहीं हैं।',
+
+  // Follow-up questions (screens/FollowUpQuestionsScreen.tsx)
+  'followUp.title': 'फ़ॉलो-अप सवाल',
+  'followUp.answerSummary': 'फ़ॉलो-अप जवाब: {question}',
+  'followUp.answerTranscript': 'उपयोगकर्ता ने जवाब दिया: {question}',
+  'followUp.answerRecorded': 'आपका जवाब दर्ज हो गया और आपके लक्षण रिकॉर्ड में जोड़ दिया गया।',
+  'followUp.answerFailed': 'आपका जवाब दर्ज नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'followUp.deleteTitle': 'सवाल हटाएँ',
+  'followUp.deleteMessage': 'क्या आप सच में यह फ़ॉलो-अप सवाल हटाना चाहते हैं?',
+  'followUp.answered': 'जवाब दिया गया',
+  'followUp.markAnswered': 'जवाब दिया गया मानें',
+  'followUp.emptyTitle': 'कोई फ़ॉलो-अप सवाल नहीं',
+  'followUp.emptyText': 'जब आपके लिए फ़ॉलो-अप सवाल होंगे, वे जवाब देने के लिए यहाँ दिखेंगे।',
+
+  // Profiles and their language (components/ProfileSwitcher.tsx)
+  'profiles.title': 'यह किसके लिए है?',
+  'profiles.add': 'व्यक्ति जोड़ें',
+  'profiles.addMessage': 'आप और किसके लक्षण दर्ज करते हैं? उनके रिकॉर्ड, सुझाव और अपॉइंटमेंट अलग रखे जाते हैं।',
+  'profiles.addFailed': 'व्यक्ति को जोड़ा नहीं जा सका',
+  'profiles.rename': 'नाम बदलें',
+  'profiles.renameFailed': 'नाम नहीं बदला जा सका',
+  'profiles.deleteTitle': '{name} को हटाएँ?',
+  'profiles.deleteMessage': '{name} के सभी लक्षण रिकॉर्ड, रिकॉर्डिंग, सुझाव और अपॉइंटमेंट हमेशा के लिए हट जाएँगे। इसे वापस नहीं किया जा सकता।',
+  'profiles.deleteFailed': 'हटाया नहीं जा सका',
+  'profiles.language': 'भाषा',
+  'profiles.languageCurrent': 'भाषा: {language}',
+  'profiles.languageMessage': 'इसी भाषा में {name} की रिकॉर्डिंग लिखी जाती हैं, उनके सारांश और सुझाव बनते हैं, और ऐप भी दिखता है।',
+  'profiles.languageAutomatic': 'अपने आप',
+  'profiles.languageFailed': 'भाषा नहीं बदली जा सकी',
+  'profiles.hint': 'नाम बदलने, भाषा चुनने या हटाने के लिए नाम को दबाकर रखें',
+  'profiles.defaultName': 'मैं',
+  'profiles.nameRequired': 'प्रोफ़ाइल का नाम खाली नहीं हो सकता',
+  'profiles.unsupportedLanguage': 'यह भाषा समर्थित नहीं है: {language}',
+  'profiles.lastProfile': 'कम से कम एक प्रोफ़ाइल ज़रूरी है',
+
+  // Privacy & security (screens/PrivacySettingsScreen.tsx)
+  'privacy.title': 'निजता और सुरक्षा',
+  'privacy.section.processing': 'डेटा प्रोसेसिंग',
+  'privacy.section.management': 'डेटा प्रबंधन',
+  'privacy.section.audio': 'ऑडियो रिकॉर्डिंग',
+  'privacy.section.damaged': 'खराब डेटा',
+  'privacy.section.account': 'खाते से जुड़े काम',
+  'privacy.aiProcessing': 'AI प्रोसेसिंग',
+  'privacy.aiProcessingSubtitle': 'सुझावों के लिए AI को आपके लक्षणों का विश्लेषण करने दें',
+  'privacy.dataSharing': 'डेटा साझा करना',
+  'privacy.dataSharingSubtitle': 'स्वास्थ्य सेवा देने वालों के साथ डेटा साझा करने दें',
+  'privacy.analytics': 'एनालिटिक्स',
+  'privacy.analyticsSubtitle': 'बिना पहचान वाले उपयोग डेटा से ऐप बेहतर बनाने में मदद करें',
+  'privacy.export': 'मेरा डेटा निर्यात करें',
+  'privacy.exportSubtitle': 'अपना सारा स्वास्थ्य डेटा JSON में डाउनलोड करें',
+  'privacy.exportMessage': 'मेरा Nexst स्वास्थ्य डेटा निर्यात',
+  'privacy.exportTitle': 'Nexst स्वास्थ्य डेटा',
+  'privacy.exportFailed': 'निर्यात विफल',
+  'privacy.exportFailedMessage': 'आपका डेटा निर्यात नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'privacy.backup': 'फ़ाइल में बैकअप लें',
+  'privacy.backupSubtitle': 'आपके पासफ़्रेज़ से एन्क्रिप्टेड, रिकॉर्डिंग सहित',
+  'privacy.backupPassphrase': 'एक पासफ़्रेज़ चुनें (कम से कम {length} अक्षर)। इस बैकअप को वापस लाने के लिए इसकी ज़रूरत होगी, भूल जाने पर इसे वापस नहीं पाया जा सकता।',
+  'privacy.backupNext': 'अगला',
+  'privacy.passphraseTooShort': 'पासफ़्रेज़ बहुत छोटा है',
+  'privacy.passphraseTooShortMessage': 'कम से कम {length} अक्षर इस्तेमाल करें।',
+  'privacy.confirmPassphrase': 'पासफ़्रेज़ की पुष्टि करें',
+  'privacy.confirmPassphraseMessage': 'पासफ़्रेज़ फिर से लिखें।',
+  'privacy.createBackup': 'बैकअप बनाएँ',
+  'privacy.passphrasesDontMatch': 'पासफ़्रेज़ मेल नहीं खाते',
+  'privacy.saveBackupDialog': 'Nexst बैकअप सेव करें',
+  'privacy.backupFailed': 'बैकअप विफल',
+  'privacy.backupFailedMessage': 'बैकअप नहीं बन सका। कृपया फिर से कोशिश करें।',
+  'privacy.restore': 'बैकअप से वापस लाएँ',
+  'privacy.restoreSubtitle': 'बैकअप फ़ाइल से जोड़ें या बदलें',
+  'privacy.restoreTitle': 'बैकअप से वापस लाएँ',
+  'privacy.restorePassphrase': 'यह बैकअप बनाते समय इस्तेमाल किया गया पासफ़्रेज़ लिखें।',
+  'privacy.restoreOpen': 'खोलें',
+  'privacy.openFailed': 'बैकअप नहीं खुल सका',
+  'privacy.openFailedDecryption': 'पासफ़्रेज़ गलत है या फ़ाइल खराब है।',
+  'privacy.readFileFailed': 'चुनी गई फ़ाइल पढ़ी नहीं जा सकी। कृपया फिर से कोशिश करें।',
+  'privacy.restoreRejected.one': '{count} खराब चीज़ छोड़ दी जाएगी।',
+  'privacy.restoreRejected.other': '{count} खराब चीज़ें छोड़ दी जाएँगी।',
+  'privacy.restoreComplete': 'वापस लाना पूरा हुआ',
+  'privacy.restoreAudioErrors.one': '{count} ऑडियो रिकॉर्डिंग वापस नहीं लाई जा सकी।',
+  'privacy.restoreAudioErrors.other': '{count} ऑडियो रिकॉर्डिंग वापस नहीं लाई जा सकीं।',
+  'privacy.restoreRestarting': 'वापस लाया गया डेटा लोड करने के लिए ऐप फिर से शुरू होगा।',
+  'privacy.restoreFailed': 'वापस लाना विफल',
+  'privacy.restoreFailedMessage': 'आपका मौजूदा डेटा नहीं बदला गया। कृपया फिर से कोशिश करें।',
+  'privacy.restoreSummary': '{date} का बैकअप:',
+  'privacy.restoreSymptomLogs': '{count} लक्षण रिकॉर्ड ({recordings} रिकॉर्डिंग)',
+  'privacy.restoreRecommendations': '{count} सुझाव',
+  'privacy.restoreAppointments': '{count} अपॉइंटमेंट',
+  'privacy.restoreFollowUpQuestions': '{count} फ़ॉलो-अप सवाल',
+  'privacy.restoreModes': 'जोड़ें से इस फ़ोन में जो नहीं है वह जुड़ जाता है। बदलें से यह फ़ोन बिल्कुल बैकअप जैसा हो जाता है।',
+  'privacy.merge': 'जोड़ें',
+  'privacy.replace': 'बदलें',
+  'privacy.replaceTitle': 'सारा डेटा बदलें?',
+  'privacy.replaceMessage': 'इस फ़ोन पर जो कुछ बैकअप में नहीं है, वह हमेशा के लिए हट जाएगा।',
+  'privacy.retention': 'डेटा कितने समय रखें',
+  'privacy.retentionSubtitle': 'डेटा {days} दिन तक रखें',
+  'privacy.retentionPrompt': 'हम आपका डेटा कितने दिन तक रखें?',
+  'privacy.removeOld': 'पुराना डेटा अभी हटाएँ',
+  'privacy.removeOldSubtitle.one': '{count} चीज़ {days} दिन से पुरानी',
+  'privacy.removeOldSubtitle.other': '{count} चीज़ें {days} दिन से पुरानी',
+  'privacy.removeOldNothing': 'कुछ भी आपकी तय अवधि से पुराना नहीं है',
+  'privacy.nothingToRemove': 'हटाने को कुछ नहीं',
+  'privacy.nothingToRemoveMessage': '{days} दिन से पुराना कोई डेटा नहीं है।',
+  'privacy.removeOldTitle': 'पुराना डेटा हटाएँ',
+  'privacy.removeOldMessage': '{date} से पहले का यह सब हमेशा के लिए हट जाएगा:',
+  'privacy.retentionReviewMessage': 'आपकी गोपनीयता सेटिंग्स डेटा को {days} दिनों तक रखती हैं। {date} से पहले का नीचे दिया गया डेटा हमेशा के लिए हटा दिया जाएगा:',
+  'privacy.retentionProfiles.one': 'इसमें इस डिवाइस की {count} प्रोफ़ाइल का डेटा शामिल है।',
+  'privacy.retentionProfiles.other': 'इसमें इस डिवाइस की {count} प्रोफ़ाइलों का डेटा शामिल है।',
+  'privacy.partiallyRemoved': 'आंशिक रूप से हटाया गया',
+  'privacy.partiallyRemovedMessage': 'कुछ पुराना डेटा हटाया नहीं जा सका। अगली जाँच में फिर कोशिश होगी।',
+  'privacy.removeOldFailed': 'पुराना डेटा हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+  'privacy.purgeHistory': 'हटाने का इतिहास',
+  'privacy.purgeHistoryEmpty': 'आपकी अवधि सेटिंग ने अभी तक कोई डेटा नहीं हटाया है।',
+  'privacy.purgeHistoryLast': 'आखिरी बार हटाया गया: {date}',
+  'privacy.purgeHistoryNone': 'अभी तक कोई डेटा नहीं हटाया गया',
+  'privacy.purgedNothing': 'कुछ नहीं',
+  'privacy.retentionCount.symptomLogs.one': '{count} लक्षण रिकॉर्ड',
+  'privacy.retentionCount.symptomLogs.other': '{count} लक्षण रिकॉर्ड',
+  'privacy.retentionCount.audioFiles.one': '{count} ऑडियो रिकॉर्डिंग',
+  'privacy.retentionCount.audioFiles.other': '{count} ऑडियो रिकॉर्डिंग',
+  'privacy.retentionCount.followUpQuestions.one': '{count} फ़ॉलो-अप सवाल',
+  'privacy.retentionCount.followUpQuestions.other': '{count} फ़ॉलो-अप सवाल',
+  'privacy.retentionCount.completedRecommendations.one': '{count} पूरा हुआ सुझाव',
+  'privacy.retentionCount.completedRecommendations.other': '{count} पूरे हुए सुझाव',
+  'privacy.retentionCount.appointments.one': '{count} पिछला अपॉइंटमेंट',
+  'privacy.retentionCount.appointments.other': '{count} पिछले अपॉइंटमेंट',
+  'privacy.storageUsed': 'इस्तेमाल हुई जगह',
+  'privacy.storageUsedSubtitle.one': '{count} रिकॉर्डिंग · {size}। बेकार फ़ाइलें हटाने के लिए टैप करें।',
+  'privacy.storageUsedSubtitle.other': '{count} रिकॉर्डिंग · {size}। बेकार फ़ाइलें हटाने के लिए टैप करें।',
+  'privacy.calculating': 'गिनती हो रही है...',
+  'privacy.storageCleaned': 'जगह खाली की गई',
+  'privacy.storageCleanedMessage.one': '{count} बेकार रिकॉर्डिंग हटाई गई ({size})।',
+  'privacy.storageCleanedMessage.other': '{count} बेकार रिकॉर्डिंग हटाई गईं ({size})।',
+  'privacy.storageNothingUnused': 'कोई बेकार रिकॉर्डिंग नहीं मिली।',
+  'privacy.cleanUpFailed': 'रिकॉर्डिंग साफ़ नहीं हो सकीं। कृपया फिर से कोशिश करें।',
+  'privacy.compactRecordings': 'छोटी रिकॉर्डिंग',
+  'privacy.compactRecordingsSubtitle': 'जगह बचाने के लिए नई रिकॉर्डिंग कम क्वालिटी में करें',
+  'privacy.keepRecordings': 'रिकॉर्डिंग रखें',
+  'privacy.keepRecordingsPrompt': 'रिकॉर्डिंग कितने दिन तक रखी जाएँ? हमेशा रखने के लिए खाली छोड़ें। पुरानी रिकॉर्डिंग अगली बार ऐप खुलने पर हटती हैं, लिखित रूप और सारांश हमेशा रहते हैं।',
+  'privacy.keepRecordingsForever': 'हमेशा',
+  'privacy.keepRecordingsDays': '{days} दिन (लिखित रूप रखा जाता है)',
+  'privacy.recordingSettingsFailed': 'रिकॉर्डिंग सेटिंग अपडेट नहीं हो सकी। कृपया फिर से कोशिश करें।',
+  'privacy.recoverDamaged': 'खराब डेटा वापस पाएँ',
+  'privacy.recoverDamagedSubtitle.one': '{count} चीज़ पढ़ी नहीं जा सकी और अलग रखी गई है। जो पढ़ा जा सके उसे वापस पाने की कोशिश करें।',
+  'privacy.recoverDamagedSubtitle.other': '{count} चीज़ें पढ़ी नहीं जा सकीं और अलग रखी गई हैं। जो पढ़ा जा सके उसे वापस पाने की कोशिश करें।',
+  'privacy.recoveryComplete': 'वापस पाना पूरा हुआ',
+  'privacy.recoveryCompleteMessage.one': '{count} चीज़ पूरी तरह वापस आई, {partial} आंशिक रूप से। जो वापस नहीं आ सका वह अलग रखा हुआ है।',
+  'privacy.recoveryCompleteMessage.other': '{count} चीज़ें पूरी तरह वापस आईं, {partial} आंशिक रूप से। जो वापस नहीं आ सका वह अलग रखा हुआ है।',
+  'privacy.recoverFailed': 'अलग रखा डेटा वापस नहीं पाया जा सका। कृपया फिर से कोशिश करें।',
+  'privacy.exportDamaged': 'खराब डेटा निर्यात करें',
+  'privacy.exportDamagedSubtitle': 'हाथ से वापस पाने के लिए खराब चीज़ें जैसी हैं वैसी साझा करें',
+  'privacy.exportDamagedTitle': 'Nexst का अलग रखा डेटा',
+  'privacy.exportDamagedFailed': 'अलग रखा डेटा निर्यात नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'privacy.discardDamaged': 'खराब डेटा हटाएँ',
+  'privacy.discardDamagedSubtitle': 'खराब चीज़ें हमेशा के लिए हटाएँ',
+  'privacy.discardDamagedTitle': 'अलग रखा डेटा हटाएँ',
+  'privacy.discardDamagedMessage.one': 'पढ़ी न जा सकी {count} खराब चीज़ हमेशा के लिए हट जाएगी। अगर ज़रूरत पड़ सकती है तो पहले निर्यात कर लें। इसे वापस नहीं किया जा सकता।',
+  'privacy.discardDamagedMessage.other': 'पढ़ी न जा सकीं {count} खराब चीज़ें हमेशा के लिए हट जाएँगी। अगर ज़रूरत पड़ सकती है तो पहले निर्यात कर लें। इसे वापस नहीं किया जा सकता।',
+  'privacy.discard': 'हटाएँ',
+  'privacy.discardFailed': 'अलग रखा डेटा हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+  'privacy.resetSettings': 'निजता सेटिंग रीसेट करें',
+  'privacy.resetSettingsSubtitle': 'पहले जैसी सेटिंग पर लौटें',
+  'privacy.resetSettingsMessage': 'सभी निजता सेटिंग पहले जैसी हो जाएँगी। आपका डेटा नहीं हटेगा।',
+  'privacy.reset': 'रीसेट करें',
+  'privacy.resetSettingsDone': 'निजता सेटिंग रीसेट हो गईं।',
+  'privacy.resetSettingsFailed': 'निजता सेटिंग रीसेट नहीं हो सकीं। कृपया फिर से कोशिश करें।',
+  'privacy.deleteAll': 'सारा डेटा हटाएँ',
+  'privacy.deleteAllSubtitle': 'अपना सारा डेटा हमेशा के लिए हटाएँ',
+  'privacy.deleteAllMessage': 'आपके सभी लक्षण रिकॉर्ड, सुझाव, अपॉइंटमेंट और सेटिंग हमेशा के लिए हट जाएँगे। इसे वापस नहीं किया जा सकता।',
+  'privacy.deleteAllDone': 'सारा डेटा हटा दिया गया।',
+  'privacy.deleteAllFailed': 'सारा डेटा हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+  'privacy.secureTitle': '🔒 आपका डेटा सुरक्षित है',
+  'privacy.secureLocal': 'सारा डेटा आपके डिवाइस पर ही रहता है',
+  'privacy.secureAudio': 'रिकॉर्डिंग आपके डिवाइस पर रहती हैं और अपने रिकॉर्ड के साथ हटती हैं',
+  'privacy.secureConsent': 'आपकी साफ़ अनुमति के बिना कोई स्वास्थ्य डेटा साझा नहीं होता',
+  'privacy.secureControl': 'आपके डेटा पर पूरा नियंत्रण आपका है',
+
+  // Settings (components/SettingsModal.tsx)
+  'settings.title': 'सेटिंग्स',
+  'settings.reminders': 'रोज़ाना रिमाइंडर',
+  'settings.enableReminders': 'रिमाइंडर चालू करें',
+  'settings.enableRemindersDescription': 'अपने लक्षण रिकॉर्ड करने के लिए रिमाइंडर पाएं',
+  'settings.reminderTime': 'रिमाइंडर का समय',
+  'settings.reminderTimeDescription': 'रिमाइंडर कब भेजें',
+  'settings.frequency': 'आवृत्ति',
+  'settings.frequencyDescription': 'रिमाइंडर कितनी बार भेजें',
+  'settings.frequencyDaily': 'रोज़',
+  'settings.frequencyWeekdays': 'कार्यदिवस',
+  'settings.frequencyWeekly': 'साप्ताहिक',
+  'settings.aiBudget': 'AI बजट',
+  'settings.monthlyLimit': 'मासिक सीमा',
+  'settings.budgetLoading': 'लोड हो रहा है...',
+  'settings.budgetNoLimit': 'कोई सीमा नहीं · इस महीने {spent} खर्च हुए',
+  'settings.budgetOfCap': 'इस महीने {cap} में से {spent}',
+  'settings.budgetExceeded': 'सीमा पूरी हुई · {usage} · सुझाव रुके हुए हैं',
+  'settings.budgetNear': '{usage} · सस्ते मॉडल इस्तेमाल हो रहे हैं',
+  'settings.budgetPromptTitle': 'मासिक AI बजट',
+  'settings.budgetPromptMessage': 'हर महीने AI पर खर्च की अधिकतम राशि, USD में। कोई सीमा न रखने के लिए खाली छोड़ें। सीमा के पास सस्ते मॉडल इस्तेमाल होते हैं; सीमा पूरी होने पर रिकॉर्डिंग का ट्रांसक्रिप्शन और सेव होना जारी रहता है, लेकिन नए सुझाव अगले महीने तक रुक जाते हैं।',
+  'settings.budgetUpdateFailed': 'AI बजट अपडेट नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'settings.appSettings': 'ऐप सेटिंग्स',
+  'settings.restartApp': 'ऐप फिर से शुरू करें',
+  'settings.restartAppDescription': 'सब कुछ रीसेट करें और शुरुआत से फिर शुरू करें',
+  'settings.restartAppMessage': 'इससे ऐप पूरी तरह शुरुआती स्थिति में आ जाएगा और लक्षण, सुझाव, अपॉइंटमेंट और सेटिंग्स सहित सारा डेटा मिट जाएगा। यह कार्रवाई वापस नहीं ली जा सकती। क्या आप पक्का ऐसा करना चाहते हैं?',
+  'settings.resetComplete': 'ऐप रीसेट हो गया',
+  'settings.resetCompleteMessage': 'सारा डेटा मिटा दिया गया है और ऐप शुरुआती स्थिति में आ गया है। रीसेट पूरा करने के लिए ऐप अब फिर से शुरू होगा।',
+  'settings.restartFailed': 'ऐप फिर से शुरू नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'settings.deleteData': 'डेटा हटाएं',
+  'settings.deleteDataDescription': 'ये कार्रवाइयां वापस नहीं ली जा सकतीं',
+  'settings.clearSymptomLogs': 'सभी लक्षण लॉग मिटाएं',
+  'settings.clearSymptomLogsDescription': 'सभी रिकॉर्डिंग, सारांश और लॉग हटाएं',
+  'settings.clearRecommendations': 'सभी सुझाव मिटाएं',
+  'settings.clearRecommendationsDescription': 'सभी स्वास्थ्य सुझाव हटाएं',
+  'settings.clearAppointments': 'सभी अपॉइंटमेंट मिटाएं',
+  'settings.clearAppointmentsDescription': 'सभी आने वाले और पिछले अपॉइंटमेंट हटाएं',
+  'settings.clearAll': 'सब हटाएं',
+  'settings.clearSymptomLogsMessage': 'क्या आप सच में अपनी सभी लक्षण रिकॉर्डिंग, सारांश, ट्रांसक्रिप्ट और रिकॉर्ड हटाना चाहते हैं? यह वापस नहीं किया जा सकता।',
+  'settings.clearAppointmentsMessage': 'क्या आप सच में अपने सभी आने वाले और पिछले अपॉइंटमेंट और उनके सुझाए गए सवाल हटाना चाहते हैं? यह वापस नहीं किया जा सकता।',
+  'settings.clearRecommendationsMessage': 'क्या आप सच में अपने सभी पूरे हुए, मौजूदा और रद्द किए गए सुझाव हटाना चाहते हैं? यह वापस नहीं किया जा सकता।',
+
+  // Diagnostics (screens/DiagnosticsScreen.tsx)
+  'diagnostics.title': 'डायग्नोस्टिक्स',
+  'diagnostics.pipelineTraces': 'पाइपलाइन ट्रेस ({count})',
+  'diagnostics.noTraces': 'अभी तक कोई पाइपलाइन रन रिकॉर्ड नहीं हुआ',
+  'diagnostics.clearTraces': 'ट्रेस मिटाएं',
+  'diagnostics.clearTracesMessage': 'सभी सेव किए गए पाइपलाइन ट्रेस हटाएं?',
+  'diagnostics.clear': 'मिटाएं',
+  'diagnostics.steps.one': '{count} चरण',
+  'diagnostics.steps.other': '{count} चरण',
+  'diagnostics.tokens.one': '{count} टोकन',
+  'diagnostics.tokens.other': '{count} टोकन',
+  'diagnostics.noUsage': 'कोई उपयोग दर्ज नहीं',
+  'diagnostics.repairRetries.one': '{count} सुधार प्रयास',
+  'diagnostics.repairRetries.other': '{count} सुधार प्रयास',
+  'diagnostics.input': 'इनपुट: {payload}',
+  'diagnostics.output': 'आउटपुट: {payload}',
+  'diagnostics.dataHealth': 'डेटा की स्थिति',
+  'diagnostics.status': 'स्थिति',
+  'diagnostics.healthy': 'ठीक है',
+  'diagnostics.issuesFound': 'समस्याएं मिलीं',
+  'diagnostics.keys': 'कुंजियां',
+  'diagnostics.corrupted': 'खराब',
+  'diagnostics.quarantined': 'क्वारंटीन में',
+  'diagnostics.checking': 'जांच हो रही है…',
+  'diagnostics.notifications': 'शेड्यूल की गई सूचनाएं ({count})',
+  'diagnostics.nothingScheduled': 'कुछ भी शेड्यूल नहीं है',
+  'diagnostics.triggerImmediately': 'तुरंत',
+  'diagnostics.triggerDaily': 'रोज़ {time} बजे',
+  'diagnostics.triggerWeekly': 'हर हफ्ते दिन {weekday} को {time} बजे',
+  'diagnostics.triggerInterval': 'हर {seconds} सेकंड',
+  'diagnostics.triggerRepeating': 'हर {seconds} सेकंड (दोहराता है)',
+  'diagnostics.costLedger': 'AI लागत खाता',
+  'diagnostics.reactive': 'प्रतिक्रियात्मक',
+  'diagnostics.proactive': 'सक्रिय',
+  'diagnostics.calls.one': '{count} कॉल',
+  'diagnostics.calls.other': '{count} कॉल',
+  'diagnostics.unpriced': '{count} बिना कीमत',
+  'diagnostics.lastCall': 'आखिरी कॉल',
+  'diagnostics.never': 'कभी नहीं',
+  'diagnostics.loading': 'लोड हो रहा है…',
+
+  // Emergency guidance (utils/redFlagTriage.ts, components/EmergencyAlertModal.tsx)
+  'redFlags.cardiac.title': 'सांस लेने में तकलीफ के साथ सीने में दर्द',
+  'redFlags.cardiac.condition': 'ये दिल के दौरे या फेफड़ों में खून के थक्के के संकेत हो सकते हैं।',
+  'redFlags.cardiac.step1': 'अभी {emergency} पर कॉल करें। खुद गाड़ी चलाकर अस्पताल न जाएं।',
+  'redFlags.cardiac.step2': 'जो कर रहे हैं उसे रोकें और बैठ जाएं या लेट जाएं।',
+  'redFlags.cardiac.step3': 'दरवाज़ा खोल दें और मदद आने तक डिस्पैचर के निर्देशों का पालन करें।',
+  'redFlags.stroke.title': 'संभावित स्ट्रोक',
+  'redFlags.stroke.condition': 'अचानक चेहरा लटकना, बांह में कमज़ोरी या बोलने में दिक्कत स्ट्रोक के संकेत हो सकते हैं। हर मिनट मायने रखता है।',
+  'redFlags.stroke.step1': 'अभी {emergency} पर कॉल करें, भले ही लक्षण चले जाएं।',
+  'redFlags.stroke.step2': 'लक्षण शुरू होने का समय नोट करें और डिस्पैचर को बताएं।',
+  'redFlags.stroke.step3': 'कुछ न खाएं, न पिएं और कोई दवा न लें।',
+  'redFlags.stroke.step4': 'अगर बेहोशी जैसा लगे तो करवट लेकर लेट जाएं।',
+  'redFlags.suicidalIdeation.title': 'आत्महत्या या खुद को नुकसान पहुंचाने के विचार',
+  'redFlags.suicidalIdeation.condition': 'आपने अपनी जान लेने या खुद को नुकसान पहुंचाने के विचारों का ज़िक्र किया।',
+  'redFlags.suicidalIdeation.crisisLine': 'किसी भी समय, मुफ़्त और गोपनीय रूप से संकट हेल्पलाइन से बात करने के लिए {crisis} पर कॉल करें।',
+  'redFlags.suicidalIdeation.step1': 'अगर आप तुरंत खतरे में हैं, तो {emergency} पर कॉल करें।',
+  'redFlags.suicidalIdeation.step2': 'ऐसी किसी भी चीज़ से दूर हो जाएं जिससे आप खुद को नुकसान पहुंचा सकते हैं।',
+  'redFlags.suicidalIdeation.step3': 'किसी भरोसेमंद व्यक्ति से संपर्क करें और उन्हें बताएं कि आप कैसा महसूस कर रहे हैं।',
+  'redFlags.anaphylaxis.title': 'संभावित गंभीर एलर्जिक रिएक्शन',
+  'redFlags.anaphylaxis.condition': 'गले, जीभ या होंठों की सूजन कुछ ही मिनटों में सांस की नली बंद कर सकती है।',
+  'redFlags.anaphylaxis.step1': 'अगर आपके पास एपिनेफ्रिन ऑटो-इंजेक्टर (EpiPen) है, तो अभी उसका इस्तेमाल करें।',
+  'redFlags.anaphylaxis.step2': '{emergency} पर कॉल करें, भले ही इंजेक्शन के बाद बेहतर महसूस हो।',
+  'redFlags.anaphylaxis.step3': 'सांस लेने में दिक्कत हो तो बैठ जाएं; बेहोशी जैसा लगे तो पैर ऊपर करके लेट जाएं।',
+  'redFlags.severeBleeding.title': 'गंभीर रक्तस्राव',
+  'redFlags.severeBleeding.condition': 'न रुकने वाले खून, या खांसी या उल्टी में खून आने पर आपातकालीन देखभाल ज़रूरी है।',
+  'redFlags.severeBleeding.step1': 'अभी {emergency} पर कॉल करें।',
+  'redFlags.severeBleeding.step2': 'साफ़ कपड़े से घाव को ज़ोर से दबाएं और दबाए रखें।',
+  'redFlags.severeBleeding.step3': 'मदद आने तक स्थिर रहें और खुद को गर्म रखें।',
+  'redFlags.recommendationTitle': 'अभी मदद लें: {title}',
+  'redFlags.recommendationRationale': 'आपकी रिकॉर्डिंग में {phrases} का ज़िक्र था। {condition}',
+  'redFlags.followUpTimeline': 'तुरंत',
+  'redFlags.callEmergency': '{number} पर कॉल करें',
+  'redFlags.callCrisisLine': 'संकट हेल्पलाइन {number} पर कॉल करें',
+  'redFlags.headerTitle': 'अभी मदद लें',
+  'redFlags.headerSubtitle': 'आपकी रिकॉर्डिंग में ऐसे लक्षण बताए गए हैं जो मेडिकल इमरजेंसी हो सकते हैं।',
+  'redFlags.callForHelp': 'मदद के लिए कॉल करें',
+  'redFlags.dialManually': 'कृपया अभी अपने फ़ोन से {number} डायल करें।',
+  'redFlags.dismiss': 'मैं सुरक्षित हूं / मैंने मदद के लिए कॉल कर दिया है',
+};
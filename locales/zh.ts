@@ -0,0 +1,500 @@
+import { LocaleCatalog } from './en';
+
+// ============================================================================
+// MANDARIN CHINESE (中文, simplified)
+// ============================================================================
+//
+// Chinese has no plural forms, so .one and .other keys carry the same text
+
+export const zh: LocaleCatalog = {
+  // Shared
+  'common.cancel': '取消',
+  'common.delete': '删除',
+  'common.update': '更新',
+  'common.ok': '确定',
+  'common.error': '错误',
+  'common.success': '成功',
+  'common.tryAgain': '请重试。',
+  'common.notNow': '以后再说',
+  'common.severity.mild': '轻度',
+  'common.severity.moderate': '中度',
+  'common.severity.severe': '重度',
+
+  // Tabs and headers (App.tsx)
+  'tabs.symptoms': '症状',
+  'tabs.recommendations': '建议',
+  'tabs.appointments': '预约',
+
+  // Notifications (utils/notifications.ts)
+  'notifications.recommendationTitle': '新的健康建议',
+  'notifications.recommendationAddresses': '针对：{symptoms}',
+  'notifications.followUpTitle': '后续问题',
+  'notifications.followUpBody.one': '你有一个关于健康的新后续问题。',
+  'notifications.followUpBody.other': '你有 {count} 个关于健康的新后续问题。',
+  'notifications.dailyReminderTitle': '每日健康记录',
+  'notifications.dailyReminderBody': '该记录今天的症状了。点按打开 Nexst。',
+
+  // Onboarding (screens/OnboardingScreen.tsx)
+  'onboarding.taglineStart': '重新定义',
+  'onboarding.taglineEmphasis': '你照顾健康的方式',
+  'onboarding.voiceTitle': '语音记录症状',
+  'onboarding.voiceDescription': '只需 30 秒，轻松记录你的症状。',
+  'onboarding.actionsTitle': '个性化建议',
+  'onboarding.actionsDescription': '根据你的症状，立即获得推荐的下一步行动。',
+  'onboarding.actionsShortDescription': '根据你的症状，立即获得下一步行动。',
+  'onboarding.appointmentsTitle': '就诊准备',
+  'onboarding.appointmentsDescription': '带着为你定制的问题和症状记录去就诊。',
+  'onboarding.closing': '了解你的 nexst 一步。',
+  'onboarding.getStarted': '开始使用',
+
+  // Onboarding tutorial and feature tips (utils/onboardingContent.ts)
+  'tutorial.welcome.title': '欢迎使用 Nexst',
+  'tutorial.welcome.description': '你的 AI 健康助手。我会帮你记录症状、理解症状，并为看医生做好准备。',
+  'tutorial.symptoms.title': '记录你的症状',
+  'tutorial.symptoms.description': '用 30 秒或更短的时间说说你的感受。我会把你的话转成文字，并为你的健康记录生成清晰的摘要。',
+  'tutorial.recommendations.title': '获取建议',
+  'tutorial.recommendations.description': '我会分析你的症状并建议下一步：居家护理、何时就医，或该问些什么。',
+  'tutorial.appointments.title': '为就诊做准备',
+  'tutorial.appointments.description': '告诉我你即将到来的预约，我会根据你的症状记录生成相关问题。',
+  'tutorial.ready.title': '一切就绪！',
+  'tutorial.ready.description': '准备好了吗？点击麦克风录制你的第一条症状记录。',
+  'tutorial.skip': '跳过',
+  'tutorial.previous': '上一步',
+  'tutorial.next': '下一步',
+  'tutorial.getStarted': '开始使用',
+  'tutorial.gotIt': '知道了！',
+  'featureTip.symptoms.title': '开始录音',
+  'featureTip.symptoms.description': '点击麦克风，用 30 秒或更短的时间说说你的症状，Nexst 会为你转写并总结。',
+  'featureTip.recommendations.title': 'Nexst 步骤',
+  'featureTip.recommendations.description': '这里会显示根据你的症状生成的个性化建议，帮你了解接下来该做什么。',
+  'featureTip.appointments.title': '添加预约',
+  'featureTip.appointments.description': '点击 + 按钮安排预约，Nexst 会根据你的症状记录生成相关问题，帮你做好准备。',
+
+  // Symptoms (screens/SymptomsScreen.tsx)
+  'symptoms.status.firstCheckIn': '点击录制今天的健康记录',
+  'symptoms.status.anotherCheckIn': '点击再录制一条记录',
+  'symptoms.status.processing': '正在处理音频...',
+  'symptoms.status.saved': '录音已保存！',
+  'symptoms.status.savedOffline': '录音已保存，恢复联网后会进行处理。',
+  'symptoms.status.saveFailed': '无法保存录音。',
+  'symptoms.status.stopFailed': '无法停止录音。',
+  'symptoms.status.permissionRequired': '需要麦克风权限。',
+  'symptoms.status.recording': '正在录音...',
+  'symptoms.status.startFailed': '无法开始录音。',
+  'symptoms.saveFailedMessage': '无法保存录音，请重试。',
+  'symptoms.queue.recommendationsFailed': '建议生成失败 · 点击重试',
+  'symptoms.queue.processingFailed': '处理失败 · 点击重试',
+  'symptoms.queue.recommendationsPending': '建议待生成',
+  'symptoms.queue.waiting': '等待处理',
+  'symptoms.queue.retryingAt': '将于 {time} 重试',
+  'symptoms.pendingSummary': '录音正在等待处理',
+  'symptoms.redFlagsPendingOffline': '⚠️ 录音转写后才会检查紧急危险信号，转写需要联网。如果你现在需要帮助，请拨打 {emergency}。',
+  'symptoms.budgetPaused': '💰 你的录音已保存，但新建议已暂停：本月 {amount} 的 AI 预算已用完。将于 {date} 恢复，你也可以在设置中提高上限。',
+  'symptoms.processingRecording': '正在处理你的录音...',
+
+  // Recording detail (screens/RecordingDetailScreen.tsx)
+  'recordingDetail.noData': '没有录音数据',
+  'recordingDetail.title': '症状录音',
+  'recordingDetail.redFlagBanner': '这段录音提到了危险信号。点击查看该怎么做。',
+  'recordingDetail.keyPoints': '要点',
+  'recordingDetail.inEnglish': '英文版',
+  'recordingDetail.fullRecording': '完整录音',
+  'recordingDetail.noAudio': '没有音频文件',
+  'recordingDetail.loadFailed': '无法加载音频',
+  'recordingDetail.notLoaded': '音频未加载',
+  'recordingDetail.playFailed': '无法播放音频',
+  'recordingDetail.playFailedMessage': '无法播放音频，请重试。',
+  'recordingDetail.restartFailed': '无法重新播放音频',
+  'recordingDetail.restartFailedMessage': '无法重新播放音频，请重试。',
+  'recordingDetail.audioError': '音频错误',
+  'recordingDetail.loading': '加载中...',
+  'recordingDetail.playing': '播放中...',
+  'recordingDetail.tapToPlay': '点击播放',
+
+  // Recommendations (screens/RecommendationsScreen.tsx)
+  'recommendations.priority.high': '重要',
+  'recommendations.priority.medium': '建议考虑',
+  'recommendations.priority.low': '可选',
+  'recommendations.priority.unknown': '优先级',
+  'recommendations.completeTitle': '完成建议',
+  'recommendations.completeMessage': '将这条建议标记为已完成？',
+  'recommendations.complete': '完成',
+  'recommendations.cancelTitle': '忽略建议',
+  'recommendations.cancelMessage': '你为什么要忽略这条建议？',
+  'recommendations.confirm': '确认',
+  'recommendations.noReason': '无理由',
+  'recommendations.actionCompleted': '✓ 于 {date} 完成',
+  'recommendations.addressed': '已针对：{symptoms}',
+  'recommendations.addresses': '针对：{symptoms}',
+  'recommendations.completedOn': '于 {date} 完成',
+  'recommendations.cancelledOn': '于 {date} 忽略',
+  'recommendations.reason': '理由：{reason}',
+  'recommendations.whyThisHelps': '为什么有帮助：',
+  'recommendations.done': '完成',
+  'recommendations.notForMe': '不适合我',
+  'recommendations.completedSection': '已完成',
+  'recommendations.cancelledSection': '已忽略',
+  'recommendations.whyAmISeeingThis': '为什么我会看到这条？',
+  'recommendations.provenance.recordings': '依据以下录音',
+  'recommendations.provenance.deletedRecordings.one': '{count} 段录音已被删除',
+  'recommendations.provenance.deletedRecordings.other': '{count} 段录音已被删除',
+  'recommendations.provenance.patterns': '参考的规律',
+  'recommendations.provenance.pattern': '{symptom} · 每周 {frequency} 次 · {trend}',
+  'recommendations.provenance.trend.improving': '正在好转',
+  'recommendations.provenance.trend.stable': '稳定',
+  'recommendations.provenance.trend.worsening': '正在加重',
+  'recommendations.provenance.reasoning': '决策依据',
+  'recommendations.provenance.generatedBy': '由 {model} 使用提示词 {prompt} v{version} 生成',
+  'recommendations.provenance.usedFallback': '无法读取模型的回复，因此使用了默认答案。',
+  'recommendations.provenance.none': '这条建议没有保留详细信息。',
+
+  // Appointments (screens/AppointmentsScreen.tsx)
+  'appointments.enterName': '请输入预约名称',
+  'appointments.fallbackQuestion.1': '上次就诊后你感觉怎么样？',
+  'appointments.fallbackQuestion.2': '你有没有注意到新的症状？',
+  'appointments.fallbackQuestion.3': '有没有什么想讨论的担忧？',
+  'appointments.fallbackQuestion.4': '你目前的药物效果如何？',
+  'appointments.fallbackQuestion.5': '你最近有没有改变生活方式？',
+  'appointments.upcomingSection': '即将到来的预约',
+  'appointments.pastSection': '过去的预约',
+  'appointments.completed': '已完成',
+  'appointments.upcoming': '即将到来',
+  'appointments.markComplete': '标记为已完成',
+  'appointments.addTitle': '新建预约',
+  'appointments.namePlaceholder': '预约名称',
+  'appointments.date': '日期',
+  'appointments.time': '时间',
+  'appointments.add': '添加',
+
+  // Appointment detail (screens/AppointmentDetailScreen.tsx)
+  'appointmentDetail.title': '预约详情',
+  'appointmentDetail.noData': '没有预约数据',
+  'appointmentDetail.scheduledAt': '预约时间 {time}',
+  'appointmentDetail.recentSymptoms': '你最近的症状',
+  'appointmentDetail.symptomDate': '日期：{date}',
+  'appointmentDetail.noSymptoms': '这类预约没有最近记录的症状。',
+  'appointmentDetail.questionsTitle': '要问医生的问题',
+  'appointmentDetail.questionsSubtitle': '离开诊室前，确保得到这些重要问题的答案',
+  'appointmentDetail.tipsTitle': '就诊小贴士',
+  'appointmentDetail.tipArriveEarly': '提前 15 分钟到达，以便填写资料',
+  'appointmentDetail.tipMedications': '准备好你目前用药和过敏的清单',
+  'appointmentDetail.checkupQuestion.1': '我的血压和化验结果正常吗？和上次相比有改善吗？',
+  'appointmentDetail.checkupQuestion.2': '我需要接种哪些疫苗？',
+  'appointmentDetail.checkupQuestion.3': '我目前的药物或补充剂还需要吗？剂量合适吗？',
+  'appointmentDetail.checkupQuestion.4': '根据我的年龄和风险因素，我应该考虑哪些筛查？',
+  'appointmentDetail.checkupQuestion.5': '哪些生活方式的改变能帮助我改善健康？',
+  'appointmentDetail.symptomQuestion.1': '这会影响我的工作或日常活动吗？会持续多久？',
+  'appointmentDetail.symptomQuestion.2': '治疗有哪些副作用需要我留意？',
+  'appointmentDetail.symptomQuestion.3': '我的症状到底是什么原因引起的？',
+  'appointmentDetail.symptomQuestion.4': '如果漏服了药物，我该怎么办？',
+  'appointmentDetail.symptomQuestion.5': '如果一直没有好转，我什么时候该复诊？',
+  'appointmentDetail.symptomQuestion.6': '有没有需要立即就医的危险信号？',
+  'appointmentDetail.shareWithDoctor': '分享给医生',
+  'appointmentDetail.shareLanguageMessage': '症状摘要要用哪种语言？',
+  'appointmentDetail.shareFailed': '无法分享症状摘要，请重试。',
+
+  // Symptom summary shared with a doctor (utils/doctorExport.ts)
+  'doctorExport.title': '症状摘要：{appointment}',
+  'doctorExport.appointmentDate': '预约：{date}',
+  'doctorExport.symptoms': '最近的症状',
+  'doctorExport.noSymptoms': '没有最近记录的症状。',
+  'doctorExport.symptomLine': '{date}：{summary}（{severity}）',
+  'doctorExport.footer': '由 Nexst 记录。摘要根据语音笔记生成，不构成诊断。',
+
+  // Follow-up questions (screens/FollowUpQuestionsScreen.tsx)
+  'followUp.title': '后续问题',
+  'followUp.answerSummary': '后续回答：{question}',
+  'followUp.answerTranscript': '用户回答了：{question}',
+  'followUp.answerRecorded': '你的回答已记录，并添加到你的症状记录中。',
+  'followUp.answerFailed': '无法记录你的回答，请重试。',
+  'followUp.deleteTitle': '删除问题',
+  'followUp.deleteMessage': '确定要删除这个后续问题吗？',
+  'followUp.answered': '已回答',
+  'followUp.markAnswered': '标记为已回答',
+  'followUp.emptyTitle': '没有后续问题',
+  'followUp.emptyText': '有后续问题时，会显示在这里供你回答。',
+
+  // Profiles and their language (components/ProfileSwitcher.tsx)
+  'profiles.title': '这是为谁记录的？',
+  'profiles.add': '添加成员',
+  'profiles.addMessage': '你还为谁记录症状？他们的记录、建议和预约会分开保存。',
+  'profiles.addFailed': '无法添加成员',
+  'profiles.rename': '重命名',
+  'profiles.renameFailed': '无法重命名',
+  'profiles.deleteTitle': '删除 {name}？',
+  'profiles.deleteMessage': '这将永久删除 {name} 的所有症状记录、录音、建议和预约，且无法撤销。',
+  'profiles.deleteFailed': '无法删除',
+  'profiles.language': '语言',
+  'profiles.languageCurrent': '语言：{language}',
+  'profiles.languageMessage': '用于转写 {name} 的录音、撰写其摘要和建议，以及应用本身的显示语言。',
+  'profiles.languageAutomatic': '自动',
+  'profiles.languageFailed': '无法更改语言',
+  'profiles.hint': '长按名字可重命名、选择语言或删除',
+  'profiles.defaultName': '我',
+  'profiles.nameRequired': '个人资料名称不能为空',
+  'profiles.unsupportedLanguage': '不支持的语言：{language}',
+  'profiles.lastProfile': '至少需要一个个人资料',
+
+  // Privacy & security (screens/PrivacySettingsScreen.tsx)
+  'privacy.title': '隐私与安全',
+  'privacy.section.processing': '数据处理',
+  'privacy.section.management': '数据管理',
+  'privacy.section.audio': '音频录音',
+  'privacy.section.damaged': '损坏的数据',
+  'privacy.section.account': '账户操作',
+  'privacy.aiProcessing': 'AI 处理',
+  'privacy.aiProcessingSubtitle': '允许 AI 分析你的症状以提供建议',
+  'privacy.dataSharing': '数据共享',
+  'privacy.dataSharingSubtitle': '允许与医疗服务提供者共享数据',
+  'privacy.analytics': '分析',
+  'privacy.analyticsSubtitle': '通过匿名使用数据帮助改进应用',
+  'privacy.export': '导出我的数据',
+  'privacy.exportSubtitle': '以 JSON 格式下载你的所有健康数据',
+  'privacy.exportMessage': '我的 Nexst 健康数据导出',
+  'privacy.exportTitle': 'Nexst 健康数据',
+  'privacy.exportFailed': '导出失败',
+  'privacy.exportFailedMessage': '无法导出你的数据，请重试。',
+  'privacy.backup': '备份到文件',
+  'privacy.backupSubtitle': '使用你的密码短语加密，包含录音',
+  'privacy.backupPassphrase': '请设置一个密码短语（至少 {length} 个字符）。恢复此备份时需要它，忘记后无法找回。',
+  'privacy.backupNext': '下一步',
+  'privacy.passphraseTooShort': '密码短语太短',
+  'privacy.passphraseTooShortMessage': '请至少使用 {length} 个字符。',
+  'privacy.confirmPassphrase': '确认密码短语',
+  'privacy.confirmPassphraseMessage': '请再次输入密码短语。',
+  'privacy.createBackup': '创建备份',
+  'privacy.passphrasesDontMatch': '两次输入的密码短语不一致',
+  'privacy.saveBackupDialog': '保存 Nexst 备份',
+  'privacy.backupFailed': '备份失败',
+  'privacy.backupFailedMessage': '无法创建备份，请重试。',
+  'privacy.restore': '从备份恢复',
+  'privacy.restoreSubtitle': '从备份文件合并或替换',
+  'privacy.restoreTitle': '从备份恢复',
+  'privacy.restorePassphrase': '请输入创建此备份时使用的密码短语。',
+  'privacy.restoreOpen': '打开',
+  'privacy.openFailed': '无法打开备份',
+  'privacy.openFailedDecryption': '密码短语错误或文件已损坏。',
+  'privacy.readFileFailed': '无法读取所选文件，请重试。',
+  'privacy.restoreRejected.one': '将跳过 {count} 个损坏的项目。',
+  'privacy.restoreRejected.other': '将跳过 {count} 个损坏的项目。',
+  'privacy.restoreComplete': '恢复完成',
+  'privacy.restoreAudioErrors.one': '有 {count} 段音频录音无法恢复。',
+  'privacy.restoreAudioErrors.other': '有 {count} 段音频录音无法恢复。',
+  'privacy.restoreRestarting': '应用将重新启动以加载恢复的数据。',
+  'privacy.restoreFailed': '恢复失败',
+  'privacy.restoreFailedMessage': '你现有的数据没有被更改，请重试。',
+  'privacy.restoreSummary': '{date} 的备份：',
+  'privacy.restoreSymptomLogs': '{count} 条症状记录（{recordings} 段录音）',
+  'privacy.restoreRecommendations': '{count} 条建议',
+  'privacy.restoreAppointments': '{count} 个预约',
+  'privacy.restoreFollowUpQuestions': '{count} 个后续问题',
+  'privacy.restoreModes': '合并会添加这部手机上缺少的内容。替换会让这部手机与备份完全一致。',
+  'privacy.merge': '合并',
+  'privacy.replace': '替换',
+  'privacy.replaceTitle': '替换所有数据？',
+  'privacy.replaceMessage': '这部手机上不在备份中的所有内容都将被永久删除。',
+  'privacy.retention': '数据保留',
+  'privacy.retentionSubtitle': '数据保留 {days} 天',
+  'privacy.retentionPrompt': '我们应将你的数据保留多少天？',
+  'privacy.removeOld': '立即删除旧数据',
+  'privacy.removeOldSubtitle.one': '{count} 个项目超过 {days} 天',
+  'privacy.removeOldSubtitle.other': '{count} 个项目超过 {days} 天',
+  'privacy.removeOldNothing': '没有超过保留期限的数据',
+  'privacy.nothingToRemove': '没有可删除的内容',
+  'privacy.nothingToRemoveMessage': '没有超过 {days} 天的数据。',
+  'privacy.removeOldTitle': '删除旧数据',
+  'privacy.removeOldMessage': '这将永久删除 {date} 之前的以下内容：',
+  'privacy.retentionReviewMessage': '你的隐私设置会保留 {days} 天的数据。{date} 之前的以下数据将被永久删除：',
+  'privacy.retentionProfiles.one': '其中包括此设备上 {count} 个个人资料的数据。',
+  'privacy.retentionProfiles.other': '其中包括此设备上 {count} 个个人资料的数据。',
+  'privacy.partiallyRemoved': '部分已删除',
+  'privacy.partiallyRemovedMessage': '部分旧数据无法删除，将在下次检查时重试。',
+  'privacy.removeOldFailed': '无法删除旧数据，请重试。',
+  'privacy.purgeHistory': '删除记录',
+  'privacy.purgeHistoryEmpty': '你的保留设置尚未删除任何数据。',
+  'privacy.purgeHistoryLast': '上次删除：{date}',
+  'privacy.purgeHistoryNone': '尚未删除任何数据',
+  'privacy.purgedNothing': '无',
+  'privacy.retentionCount.symptomLogs.one': '{count} 条症状记录',
+  'privacy.retentionCount.symptomLogs.other': '{count} 条症状记录',
+  'privacy.retentionCount.audioFiles.one': '{count} 段音频录音',
+  'privacy.retentionCount.audioFiles.other': '{count} 段音频录音',
+  'privacy.retentionCount.followUpQuestions.one': '{count} 个后续问题',
+  'privacy.retentionCount.followUpQuestions.other': '{count} 个后续问题',
+  'privacy.retentionCount.completedRecommendations.one': '{count} 条已完成的建议',
+  'privacy.retentionCount.completedRecommendations.other': '{count} 条已完成的建议',
+  'privacy.retentionCount.appointments.one': '{count} 个过去的预约',
+  'privacy.retentionCount.appointments.other': '{count} 个过去的预约',
+  'privacy.storageUsed': '已用存储空间',
+  'privacy.storageUsedSubtitle.one': '{count} 段录音 · {size}。点击清除未使用的文件。',
+  'privacy.storageUsedSubtitle.other': '{count} 段录音 · {size}。点击清除未使用的文件。',
+  'privacy.calculating': '正在计算...',
+  'privacy.storageCleaned': '存储空间已清理',
+  'privacy.storageCleanedMessage.one': '已删除 {count} 段未使用的录音（{size}）。',
+  'privacy.storageCleanedMessage.other': '已删除 {count} 段未使用的录音（{size}）。',
+  'privacy.storageNothingUnused': '没有发现未使用的录音。',
+  'privacy.cleanUpFailed': '无法清理录音，请重试。',
+  'privacy.compactRecordings': '压缩录音',
+  'privacy.compactRecordingsSubtitle': '以较低音质录制新的记录以节省空间',
+  'privacy.keepRecordings': '保留录音',
+  'privacy.keepRecordingsPrompt': '录音应保留多少天？留空表示永久保留。较旧的录音会在下次打开应用时删除，转写文字和摘要会一直保留。',
+  'privacy.keepRecordingsForever': '永久',
+  'privacy.keepRecordingsDays': '{days} 天（保留转写文字）',
+  'privacy.recordingSettingsFailed': '无法更新录音设置，请重试。',
+  'privacy.recoverDamaged': '恢复损坏的数据',
+  'privacy.recoverDamagedSubtitle.one': '有 {count} 个项目无法读取，已被隔离。尝试恢复其中可读取的部分。',
+  'privacy.recoverDamagedSubtitle.other': '有 {count} 个项目无法读取，已被隔离。尝试恢复其中可读取的部分。',
+  'privacy.recoveryComplete': '恢复完成',
+  'privacy.recoveryCompleteMessage.one': '{count} 个项目已完全恢复，{partial} 个部分恢复。无法恢复的内容仍在隔离中。',
+  'privacy.recoveryCompleteMessage.other': '{count} 个项目已完全恢复，{partial} 个部分恢复。无法恢复的内容仍在隔离中。',
+  'privacy.recoverFailed': '无法恢复隔离的数据，请重试。',
+  'privacy.exportDamaged': '导出损坏的数据',
+  'privacy.exportDamagedSubtitle': '分享损坏项目的原始内容，以便手动恢复',
+  'privacy.exportDamagedTitle': 'Nexst 隔离数据',
+  'privacy.exportDamagedFailed': '无法导出隔离的数据，请重试。',
+  'privacy.discardDamaged': '丢弃损坏的数据',
+  'privacy.discardDamagedSubtitle': '永久删除损坏的项目',
+  'privacy.discardDamagedTitle': '丢弃隔离的数据',
+  'privacy.discardDamagedMessage.one': '这将永久删除 {count} 个无法读取的损坏项目。如果以后可能需要，请先导出。此操作无法撤销。',
+  'privacy.discardDamagedMessage.other': '这将永久删除 {count} 个无法读取的损坏项目。如果以后可能需要，请先导出。此操作无法撤销。',
+  'privacy.discard': '丢弃',
+  'privacy.discardFailed': '无法丢弃隔离的数据，请重试。',
+  'privacy.resetSettings': '重置隐私设置',
+  'privacy.resetSettingsSubtitle': '恢复为默认设置',
+  'privacy.resetSettingsMessage': '所有隐私设置都将恢复为默认值，你的数据不会被删除。',
+  'privacy.reset': '重置',
+  'privacy.resetSettingsDone': '隐私设置已重置。',
+  'privacy.resetSettingsFailed': '无法重置隐私设置，请重试。',
+  'privacy.deleteAll': '删除所有数据',
+  'privacy.deleteAllSubtitle': '永久删除你的所有数据',
+  'privacy.deleteAllMessage': '这将永久删除你所有的症状记录、建议、预约和设置，且无法撤销。',
+  'privacy.deleteAllDone': '所有数据已删除。',
+  'privacy.deleteAllFailed': '无法删除所有数据，请重试。',
+  'privacy.secureTitle': '🔒 你的数据是安全的',
+  'privacy.secureLocal': '所有数据都保存在你的设备上',
+  'privacy.secureAudio': '录音保存在你的设备上，并随对应记录一起删除',
+  'privacy.secureConsent': '未经你明确同意，不会共享任何健康数据',
+  'privacy.secureControl': '你完全掌控自己的数据',
+
+  // Settings (components/SettingsModal.tsx)
+  'settings.title': '设置',
+  'settings.reminders': '每日提醒',
+  'settings.enableReminders': '开启提醒',
+  'settings.enableRemindersDescription': '提醒你记录症状',
+  'settings.reminderTime': '提醒时间',
+  'settings.reminderTimeDescription': '何时发送提醒',
+  'settings.frequency': '频率',
+  'settings.frequencyDescription': '多久发送一次提醒',
+  'settings.frequencyDaily': '每天',
+  'settings.frequencyWeekdays': '工作日',
+  'settings.frequencyWeekly': '每周',
+  'settings.aiBudget': 'AI 预算',
+  'settings.monthlyLimit': '每月上限',
+  'settings.budgetLoading': '加载中...',
+  'settings.budgetNoLimit': '无上限 · 本月已花费 {spent}',
+  'settings.budgetOfCap': '本月 {spent} / {cap}',
+  'settings.budgetExceeded': '已达上限 · {usage} · 建议已暂停',
+  'settings.budgetNear': '{usage} · 正在使用更便宜的模型',
+  'settings.budgetPromptTitle': '每月 AI 预算',
+  'settings.budgetPromptMessage': '每月在 AI 上的最高花费（美元）。留空表示不设上限。接近上限时会使用更便宜的模型；达到上限后，录音仍会转写和保存，但新建议会暂停到下个月。',
+  'settings.budgetUpdateFailed': '无法更新 AI 预算，请重试。',
+  'settings.appSettings': '应用设置',
+  'settings.restartApp': '重启应用',
+  'settings.restartAppDescription': '重置所有内容并从引导页重新开始',
+  'settings.restartAppMessage': '这会将应用完全重置为初始状态，并清除所有数据，包括症状、建议、预约和设置。此操作无法撤销。确定要继续吗？',
+  'settings.resetComplete': '应用已重置',
+  'settings.resetCompleteMessage': '所有数据已清除，应用已恢复到初始状态。应用现在将重启以完成重置。',
+  'settings.restartFailed': '无法重启应用，请重试。',
+  'settings.deleteData': '删除数据',
+  'settings.deleteDataDescription': '这些操作无法撤销',
+  'settings.clearSymptomLogs': '清除所有症状记录',
+  'settings.clearSymptomLogsDescription': '删除所有录音、摘要和记录',
+  'settings.clearRecommendations': '清除所有建议',
+  'settings.clearRecommendationsDescription': '删除所有健康建议',
+  'settings.clearAppointments': '清除所有预约',
+  'settings.clearAppointmentsDescription': '删除所有即将到来和过去的预约',
+  'settings.clearAll': '全部清除',
+  'settings.clearSymptomLogsMessage': '确定要删除你所有的症状录音、摘要、转录文字和记录吗？此操作无法撤销。',
+  'settings.clearAppointmentsMessage': '确定要删除你所有即将到来和过去的预约及其推荐问题吗？此操作无法撤销。',
+  'settings.clearRecommendationsMessage': '确定要删除你所有已完成、当前和已取消的建议吗？此操作无法撤销。',
+
+  // Diagnostics (screens/DiagnosticsScreen.tsx)
+  'diagnostics.title': '诊断',
+  'diagnostics.pipelineTraces': '流水线追踪（{count}）',
+  'diagnostics.noTraces': '还没有记录任何流水线运行',
+  'diagnostics.clearTraces': '清除追踪',
+  'diagnostics.clearTracesMessage': '删除所有已保存的流水线追踪？',
+  'diagnostics.clear': '清除',
+  'diagnostics.steps.one': '{count} 步',
+  'diagnostics.steps.other': '{count} 步',
+  'diagnostics.tokens.one': '{count} 个 token',
+  'diagnostics.tokens.other': '{count} 个 token',
+  'diagnostics.noUsage': '未报告用量',
+  'diagnostics.repairRetries.one': '{count} 次修复重试',
+  'diagnostics.repairRetries.other': '{count} 次修复重试',
+  'diagnostics.input': '输入：{payload}',
+  'diagnostics.output': '输出：{payload}',
+  'diagnostics.dataHealth': '数据健康',
+  'diagnostics.status': '状态',
+  'diagnostics.healthy': '正常',
+  'diagnostics.issuesFound': '发现问题',
+  'diagnostics.keys': '键',
+  'diagnostics.corrupted': '已损坏',
+  'diagnostics.quarantined': '已隔离',
+  'diagnostics.checking': '检查中…',
+  'diagnostics.notifications': '已安排的通知（{count}）',
+  'diagnostics.nothingScheduled': '没有安排任何通知',
+  'diagnostics.triggerImmediately': '立即',
+  'diagnostics.triggerDaily': '每天 {time}',
+  'diagnostics.triggerWeekly': '每周第 {weekday} 天 {time}',
+  'diagnostics.triggerInterval': '每 {seconds} 秒',
+  'diagnostics.triggerRepeating': '每 {seconds} 秒（重复）',
+  'diagnostics.costLedger': 'AI 费用账本',
+  'diagnostics.reactive': '响应式',
+  'diagnostics.proactive': '主动式',
+  'diagnostics.calls.one': '{count} 次调用',
+  'diagnostics.calls.other': '{count} 次调用',
+  'diagnostics.unpriced': '{count} 次未计价',
+  'diagnostics.lastCall': '最近一次调用',
+  'diagnostics.never': '从未',
+  'diagnostics.loading': '加载中…',
+
+  // Emergency guidance (utils/redFlagTriage.ts, components/EmergencyAlertModal.tsx)
+  'redFlags.cardiac.title': '胸痛伴呼吸困难',
+  'redFlags.cardiac.condition': '这可能是心脏病发作或肺部血栓的征兆。',
+  'redFlags.cardiac.step1': '立即拨打 {emergency}。不要自己开车去医院。',
+  'redFlags.cardiac.step2': '停下正在做的事，坐下或躺下。',
+  'redFlags.cardiac.step3': '打开门锁，按照调度员的指示等待救援到达。',
+  'redFlags.stroke.title': '可能是中风',
+  'redFlags.stroke.condition': '突然出现面部下垂、手臂无力或说话困难，可能是中风的征兆。每一分钟都很关键。',
+  'redFlags.stroke.step1': '立即拨打 {emergency}，即使症状已经消失。',
+  'redFlags.stroke.step2': '记下症状开始的时间并告诉调度员。',
+  'redFlags.stroke.step3': '不要进食、喝水或服药。',
+  'redFlags.stroke.step4': '如果感觉快要晕倒，请侧躺。',
+  'redFlags.suicidalIdeation.title': '自杀或自我伤害的念头',
+  'redFlags.suicidalIdeation.condition': '你提到了结束生命或伤害自己的念头。',
+  'redFlags.suicidalIdeation.crisisLine': '拨打 {crisis} 联系心理危机热线，随时免费且保密。',
+  'redFlags.suicidalIdeation.step1': '如果你正处于紧急危险中，请拨打 {emergency}。',
+  'redFlags.suicidalIdeation.step2': '远离任何可能用来伤害自己的东西。',
+  'redFlags.suicidalIdeation.step3': '联系你信任的人，告诉他们你的感受。',
+  'redFlags.anaphylaxis.title': '可能是严重过敏反应',
+  'redFlags.anaphylaxis.condition': '喉咙、舌头或嘴唇肿胀可能在几分钟内堵塞气道。',
+  'redFlags.anaphylaxis.step1': '如果你有肾上腺素自动注射器（EpiPen），请立即使用。',
+  'redFlags.anaphylaxis.step2': '拨打 {emergency}，即使注射后感觉好转。',
+  'redFlags.anaphylaxis.step3': '呼吸困难时请坐起；感觉快要晕倒时请躺下并抬高双腿。',
+  'redFlags.severeBleeding.title': '严重出血',
+  'redFlags.severeBleeding.condition': '血流不止，或咳血、吐血，需要紧急救治。',
+  'redFlags.severeBleeding.step1': '立即拨打 {emergency}。',
+  'redFlags.severeBleeding.step2': '用干净的布用力按压伤口，并持续按压。',
+  'redFlags.severeBleeding.step3': '保持不动并注意保暖，直到救援到达。',
+  'redFlags.recommendationTitle': '立即求助：{title}',
+  'redFlags.recommendationRationale': '你的录音提到了 {phrases}。{condition}',
+  'redFlags.followUpTimeline': '立即',
+  'redFlags.callEmergency': '拨打 {number}',
+  'redFlags.callCrisisLine': '拨打危机热线 {number}',
+  'redFlags.headerTitle': '立即求助',
+  'redFlags.headerSubtitle': '你的录音提到了可能属于医疗急症的症状。',
+  'redFlags.callForHelp': '呼叫求助',
+  'redFlags.dialManually': '请立即用手机拨打 {number}。',
+  'redFlags.dismiss': '我很安全 / 我已经求助',
+};
@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Animated } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Animated, Alert, Share } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { fontStyles } from '../utils/fonts';
 import { useSymptomLogs } from '../contexts/SymptomLogsContext';
 import { useSmartAI } from '../contexts/SmartAIContext';
 import { colors, gradients } from '../utils/colors';
+import { useLocale } from '../contexts/LocaleContext';
+import { DoctorExport } from '../utils/doctorExport';
+import { AppLanguage, SUPPORTED_LANGUAGES } from '../utils/i18n';
+import { SymptomLog } from '../types/recommendations';
 
 interface AppointmentDetailScreenProps {
   route?: {
@@ -25,7 +29,8 @@ interface AppointmentDetailScreenProps {
 export default function AppointmentDetailScreen({ route, navigation }: AppointmentDetailScreenProps) {
   const { appointment } = route?.params || {};
   const { getRelevantSymptoms } = useSymptomLogs();
-  const [relevantSymptoms, setRelevantSymptoms] = useState<any[]>([]);
+  const { t, language, locale } = useLocale();
+  const [relevantSymptoms, setRelevantSymptoms] = useState<SymptomLog[]>([]);
   const [importantQuestions, setImportantQuestions] = useState<string[]>([]);
   const spinAnim = useRef(new Animated.Value(0)).current;
 
@@ -48,10 +53,10 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
           >
             <Ionicons name="arrow-back" size={24} color="#1e293b" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Appointment Details</Text>
+          <Text style={styles.headerTitle}>{t('appointmentDetail.title')}</Text>
         </View>
         <View style={styles.content}>
-          <Text style={styles.errorText}>No appointment data available</Text>
+          <Text style={styles.errorText}>{t('appointmentDetail.noData')}</Text>
         </View>
       </View>
     );
@@ -79,23 +84,12 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
       setImportantQuestions(appointmentWithDates.questions);
     } else {
       // Fallback questions if none were generated
-      const fallbackQuestions = symptoms.length === 0 ? [
-        "Regarding my blood pressure and lab results, are these normal and/or better from my last visit?",
-        "What vaccinations am I due for?",
-        "Are my current prescriptions or supplements still necessary and at the right dose?",
-        "What preventive screenings should I consider based on my age and risk factors?",
-        "Are there any lifestyle changes I should make to improve my health?"
-      ] : [
-        "Could this affect my work or daily activities, and for how long?",
-        "What side effects should I watch for with any treatments?",
-        "What exactly is causing my symptoms?",
-        "What should I do if I miss a dose of any medication?",
-        "When should I follow up if I'm not improving?",
-        "Are there any red flags that would require immediate medical attention?"
-      ];
+      const fallbackQuestions = symptoms.length === 0
+        ? ([1, 2, 3, 4, 5] as const).map(n => t(`appointmentDetail.checkupQuestion.${n}`))
+        : ([1, 2, 3, 4, 5, 6] as const).map(n => t(`appointmentDetail.symptomQuestion.${n}`));
       setImportantQuestions(fallbackQuestions);
     }
-  }, [appointmentWithDates.title, getRelevantSymptoms]);
+  }, [appointmentWithDates.title, getRelevantSymptoms, t]);
 
 
 
@@ -106,7 +100,7 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
 
 
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(locale, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -115,12 +109,46 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
   };
 
   const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
+    return date.toLocaleTimeString(locale, {
       hour: '2-digit',
       minute: '2-digit'
     });
   };
 
+  const shareSymptomSummary = async (exportLanguage: AppLanguage) => {
+    try {
+      await Share.share({
+        message: DoctorExport.buildSymptomSummary(
+          { title: appointmentWithDates.title, date: appointmentWithDates.date },
+          relevantSymptoms,
+          exportLanguage
+        ),
+        title: t('appointmentDetail.shareWithDoctor'),
+      });
+    } catch (error) {
+      console.error('Error sharing symptom summary:', error);
+      Alert.alert(t('common.error'), t('appointmentDetail.shareFailed'));
+    }
+  };
+
+  // Doctors may not read the patient's language, so offer the English copy too
+  const handleShareWithDoctor = () => {
+    if (language === 'en') {
+      shareSymptomSummary('en');
+      return;
+    }
+
+    Alert.alert(
+      t('appointmentDetail.shareWithDoctor'),
+      t('appointmentDetail.shareLanguageMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: SUPPORTED_LANGUAGES.en.nativeName, onPress: () => shareSymptomSummary('en') },
+        { text: SUPPORTED_LANGUAGES[language].nativeName, onPress: () => shareSymptomSummary(language) },
+      ]
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -130,7 +158,14 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
         >
           <Ionicons name="arrow-back" size={24} color="#1e293b" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Appointment Details</Text>
+        <Text style={styles.headerTitle}>{t('appointmentDetail.title')}</Text>
+        <TouchableOpacity
+          style={styles.shareButton}
+          onPress={handleShareWithDoctor}
+          accessibilityLabel={t('appointmentDetail.shareWithDoctor')}
+        >
+          <Ionicons name="share-outline" size={24} color={colors.accent} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -144,13 +179,13 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
           {formatDate(appointmentWithDates.date)}
         </Text>
         <Text style={styles.appointmentTime}>
-          Scheduled at {formatTime(appointmentWithDates.timestamp)}
+          {t('appointmentDetail.scheduledAt', { time: formatTime(appointmentWithDates.timestamp) })}
         </Text>
         </View>
 
         {/* Relevant Symptoms */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Your Recent Symptoms</Text>
+          <Text style={styles.sectionTitle}>{t('appointmentDetail.recentSymptoms')}</Text>
           {relevantSymptoms.length > 0 ? (
             relevantSymptoms.map((symptom, index) => (
               <View key={symptom.id} style={styles.symptomCard}>
@@ -160,9 +195,9 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
                     {formatDate(symptom.timestamp)}
                   </Text>
                 </View>
-                <Text style={styles.symptomSummary}>{symptom.summary}</Text>
+                <Text style={styles.symptomSummary}>{symptom.processingStatus ? t('symptoms.pendingSummary') : symptom.summary}</Text>
                 <Text style={styles.symptomDetails}>
-                  <Text style={styles.symptomDateInline}>Date: {formatDate(symptom.timestamp)}</Text>
+                  <Text style={styles.symptomDateInline}>{t('appointmentDetail.symptomDate', { date: formatDate(symptom.timestamp) })}</Text>
                   {'\n'}{symptom.transcript}
                 </Text>
               </View>
@@ -171,7 +206,7 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
             <View style={styles.emptyState}>
               <Ionicons name="medical" size={48} color="#cbd5e1" />
               <Text style={styles.emptyStateText}>
-                No recent symptoms recorded for this appointment type.
+                {t('appointmentDetail.noSymptoms')}
               </Text>
             </View>
           )}
@@ -179,9 +214,9 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
 
         {/* Important Questions */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Questions to Ask Your Doctor</Text>
+          <Text style={styles.sectionTitle}>{t('appointmentDetail.questionsTitle')}</Text>
           <Text style={styles.sectionSubtitle}>
-            Make sure to get these important answers before leaving your appointment
+            {t('appointmentDetail.questionsSubtitle')}
           </Text>
           <View style={styles.questionsCard}>
             {importantQuestions.map((question, index) => (
@@ -199,15 +234,15 @@ export default function AppointmentDetailScreen({ route, navigation }: Appointme
 
         {/* Tips */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Appointment Tips</Text>
+          <Text style={styles.sectionTitle}>{t('appointmentDetail.tipsTitle')}</Text>
           <View style={styles.tipsCard}>
             <View style={styles.tipItem}>
               <Ionicons name="time" size={20} color="#f59e0b" />
-              <Text style={styles.tipText}>Arrive 15 minutes early to complete any paperwork</Text>
+              <Text style={styles.tipText}>{t('appointmentDetail.tipArriveEarly')}</Text>
             </View>
             <View style={styles.tipItem}>
               <Ionicons name="list" size={20} color="#10b981" />
-              <Text style={styles.tipText}>Know your current medications and allergies</Text>
+              <Text style={styles.tipText}>{t('appointmentDetail.tipMedications')}</Text>
             </View>
           </View>
         </View>
@@ -238,6 +273,10 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...fontStyles.h3,
     color: '#1e293b',
+    flex: 1,
+  },
+  shareButton: {
+    padding: 8,
   },
   content: {
     flex: 1,
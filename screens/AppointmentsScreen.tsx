@@ -12,6 +12,7 @@ import { featureTutorials } from '../utils/onboardingContent';
 import SharedBackground from '../components/SharedBackground';
 import { colors, gradients } from '../utils/colors';
 import { DateUtils } from '../utils/dateUtils';
+import { useLocale } from '../contexts/LocaleContext';
 import { Appointment } from '../types/recommendations';
 
 interface Appointment {
@@ -25,6 +26,7 @@ export default function AppointmentsScreen({ navigation }: any) {
   const { appointments, addAppointment: addAppointmentToContext } = useAppointments();
   const { tutorialState, completeAppointmentTutorial } = useTutorial();
   const { generateAppointmentQuestions } = useSmartAI();
+  const { t, locale } = useLocale();
   const [showModal, setShowModal] = useState(false);
   const [titleInput, setTitleInput] = useState('');
   const [selectedDate, setSelectedDate] = useState(new Date());
@@ -33,7 +35,7 @@ export default function AppointmentsScreen({ navigation }: any) {
 
   const addAppointment = async () => {
     if (!titleInput.trim()) {
-      Alert.alert('Error', 'Please enter an appointment name');
+      Alert.alert(t('common.error'), t('appointments.enterName'));
       return;
     }
     
@@ -46,13 +48,7 @@ export default function AppointmentsScreen({ navigation }: any) {
     } catch (error) {
       console.error('Error generating appointment questions:', error);
       // Fallback questions if AI fails
-      questions = [
-        "How have you been feeling since your last visit?",
-        "Have you noticed any new symptoms?",
-        "Are there any concerns you'd like to discuss?",
-        "How are your current medications working?",
-        "Have you made any lifestyle changes recently?"
-      ];
+      questions = ([1, 2, 3, 4, 5] as const).map(n => t(`appointments.fallbackQuestion.${n}`));
     }
     
     const newAppointment = {
@@ -95,7 +91,7 @@ export default function AppointmentsScreen({ navigation }: any) {
   };
 
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(locale, {
       month: 'short',
       day: 'numeric',
       year: 'numeric'
@@ -174,7 +170,7 @@ export default function AppointmentsScreen({ navigation }: any) {
       </View>
       <Text numberOfLines={1} style={styles.appTitle}>{item.title}</Text>
       <Text style={styles.appScheduledDate}>
-        {item.date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        {DateUtils.formatTime(item.date, locale)}
       </Text>
     </TouchableOpacity>
   );
@@ -188,13 +184,13 @@ export default function AppointmentsScreen({ navigation }: any) {
         <Text style={styles.appointmentTitle}>{item.title}</Text>
         <View style={styles.appointmentStatus}>
           <Text style={styles.appointmentStatusText}>
-            {item.isCompleted ? 'Completed' : 'Upcoming'}
+            {t(item.isCompleted ? 'appointments.completed' : 'appointments.upcoming')}
           </Text>
         </View>
       </View>
       
       <Text style={styles.appointmentDate}>
-        {DateUtils.formatDate(item.date)}
+        {DateUtils.formatDate(item.date, locale)}
       </Text>
       
       <Text style={styles.appointmentDescription}>{item.description}</Text>
@@ -204,14 +200,14 @@ export default function AppointmentsScreen({ navigation }: any) {
           style={styles.actionButton}
           onPress={() => handleCompleteAppointment(item.id)}
         >
-          <Text style={styles.actionButtonText}>Mark Complete</Text>
+          <Text style={styles.actionButtonText}>{t('appointments.markComplete')}</Text>
         </TouchableOpacity>
         
         <TouchableOpacity
           style={[styles.actionButton, styles.deleteButton]}
           onPress={() => handleDeleteAppointment(item.id)}
         >
-          <Text style={styles.deleteButtonText}>Delete</Text>
+          <Text style={styles.deleteButtonText}>{t('common.delete')}</Text>
         </TouchableOpacity>
       </View>
     </TouchableOpacity>
@@ -222,8 +218,8 @@ export default function AppointmentsScreen({ navigation }: any) {
       <View style={styles.container}>
       <FeatureTutorial
         visible={!tutorialState.hasSeenAppointmentTutorial && appointments.length === 0}
-        title={featureTutorials.appointments.title}
-        description={featureTutorials.appointments.description}
+        title={t(featureTutorials.appointments.title)}
+        description={t(featureTutorials.appointments.description)}
         position="center"
         onComplete={completeAppointmentTutorial}
         showSkip={false}
@@ -239,7 +235,7 @@ export default function AppointmentsScreen({ navigation }: any) {
             {/* Upcoming Appointments */}
             {sortedUpcoming.length > 0 && (
               <CollapsibleSection
-                title="Upcoming Appointments"
+                title={t('appointments.upcomingSection')}
                 isCollapsed={upcomingCollapsed}
                 onToggle={() => setUpcomingCollapsed(!upcomingCollapsed)}
                 count={sortedUpcoming.length}
@@ -255,7 +251,7 @@ export default function AppointmentsScreen({ navigation }: any) {
             {/* Past Appointments */}
             {sortedPast.length > 0 && (
               <CollapsibleSection
-                title="Past Appointments"
+                title={t('appointments.pastSection')}
                 isCollapsed={pastCollapsed}
                 onToggle={() => setPastCollapsed(!pastCollapsed)}
                 count={sortedPast.length}
@@ -283,7 +279,7 @@ export default function AppointmentsScreen({ navigation }: any) {
           <View style={styles.modalOverlay}>
             <View style={styles.modalContent}>
               <View style={styles.modalHeader}>
-                <Text style={styles.modalTitle}>Add New Appointment</Text>
+                <Text style={styles.modalTitle}>{t('appointments.addTitle')}</Text>
                 <TouchableOpacity onPress={() => setShowModal(false)}>
                   <Ionicons name="close" size={24} color="#64748b" />
                 </TouchableOpacity>
@@ -291,7 +287,7 @@ export default function AppointmentsScreen({ navigation }: any) {
 
               <TextInput
                 style={styles.titleInput}
-                placeholder="Appointment name"
+                placeholder={t('appointments.namePlaceholder')}
                 value={titleInput}
                 onChangeText={setTitleInput}
                 placeholderTextColor="#64748b"
@@ -300,7 +296,7 @@ export default function AppointmentsScreen({ navigation }: any) {
 
               <View style={styles.dateTimeContainer}>
                 <View style={styles.dateTimeSection}>
-                  <Text style={styles.dateTimeLabel}>Date</Text>
+                  <Text style={styles.dateTimeLabel}>{t('appointments.date')}</Text>
                   <View style={styles.pickerWrapper}>
                     <DateTimePicker
                       value={selectedDate}
@@ -308,6 +304,7 @@ export default function AppointmentsScreen({ navigation }: any) {
                       display="default"
                       onChange={handleDateChange}
                       minimumDate={new Date()}
+                      locale={locale}
                       style={styles.inlinePicker}
                       textColor="#1e293b"
                     />
@@ -315,13 +312,14 @@ export default function AppointmentsScreen({ navigation }: any) {
                 </View>
                 
                 <View style={styles.dateTimeSection}>
-                  <Text style={styles.dateTimeLabel}>Time</Text>
+                  <Text style={styles.dateTimeLabel}>{t('appointments.time')}</Text>
                   <View style={styles.pickerWrapper}>
                     <DateTimePicker
                       value={selectedDate}
                       mode="time"
                       display="default"
                       onChange={handleTimeChange}
+                      locale={locale}
                       style={styles.inlinePicker}
                       textColor="#1e293b"
                     />
@@ -331,10 +329,10 @@ export default function AppointmentsScreen({ navigation }: any) {
 
               <View style={styles.pickerButtons}>
                 <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
-                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
                 </TouchableOpacity>
                 <TouchableOpacity style={styles.addButtonStyle} onPress={addAppointment}>
-                  <Text style={styles.addButtonText}>Add</Text>
+                  <Text style={styles.addButtonText}>{t('appointments.add')}</Text>
                 </TouchableOpacity>
               </View>
             </View>
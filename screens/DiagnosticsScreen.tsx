@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { fontStyles } from '../utils/fonts';
+import { StorageManager } from '../utils/storage';
+import { CostLedger, CostLedgerState, CostTotals } from '../utils/costLedger';
+import { PipelineTrace, PipelineTraceRecord, TraceStep } from '../utils/pipelineTrace';
+import { useNotificationSettings } from '../contexts/NotificationSettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+// ============================================================================
+// DIAGNOSTICS SCREEN - Developer view of the agent pipeline and local data
+// ============================================================================
+//
+// PURPOSE: Browse pipeline traces (see PipelineTrace) next to the storage
+//          health check, the scheduled notifications and the AI cost ledger
+// ACCESS: Hidden; long-press the title of the Settings sheet. Pipeline,
+//         step and task names are shown as recorded
+
+type DataHealth = Awaited<ReturnType<typeof StorageManager.checkDataHealth>>;
+type Localization = ReturnType<typeof useLocale>;
+
+const STATUS_COLORS: { [status in PipelineTraceRecord['status']]: string } = {
+  ok: '#10b981',
+  fallback: '#f59e0b',
+  error: '#ef4444',
+};
+
+const formatCost = (cost: number): string => `$${cost.toFixed(4)}`;
+
+const formatTokens = (usage: { totalTokens: number } | null | undefined, { t, tCount, locale }: Localization): string =>
+  usage
+    ? tCount('diagnostics.tokens', usage.totalTokens, { count: usage.totalTokens.toLocaleString(locale) })
+    : t('diagnostics.noUsage');
+
+const describeTrigger = (trigger: any, { t, locale }: Localization): string => {
+  if (!trigger) return t('diagnostics.triggerImmediately');
+  const time = `${trigger.hour}:${String(trigger.minute).padStart(2, '0')}`;
+  if (trigger.type === 'date' || trigger.date) return new Date(trigger.value ?? trigger.date).toLocaleString(locale);
+  if (trigger.type === 'daily') return t('diagnostics.triggerDaily', { time });
+  if (trigger.type === 'weekly') return t('diagnostics.triggerWeekly', { weekday: trigger.weekday, time });
+  if (trigger.type === 'timeInterval') {
+    return t(trigger.repeats ? 'diagnostics.triggerRepeating' : 'diagnostics.triggerInterval', { seconds: trigger.seconds });
+  }
+  return JSON.stringify(trigger);
+};
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {children}
+    </View>
+  );
+}
+
+function TraceStepRow({ step }: { step: TraceStep }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const localization = useLocale();
+  const { t, tCount } = localization;
+  const color = step.error ? '#ef4444' : step.usedFallback ? '#f59e0b' : '#64748b';
+
+  return (
+    <TouchableOpacity
+      style={[styles.stepRow, { marginLeft: step.depth * 16 }]}
+      onPress={() => setIsExpanded(!isExpanded)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.stepHeader}>
+        <Text style={[styles.stepKind, { color }]}>{step.kind}</Text>
+        <Text style={styles.stepName} numberOfLines={1}>{step.name}</Text>
+        <Text style={styles.stepMeta}>{step.latencyMs}ms</Text>
+      </View>
+      {(step.model || step.usage !== undefined || step.retries > 0) && (
+        <Text style={styles.stepMeta}>
+          {[
+            step.model,
+            step.usage !== undefined && formatTokens(step.usage, localization),
+            step.retries > 0 && tCount('diagnostics.repairRetries', step.retries),
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </Text>
+      )}
+      {step.error && <Text style={styles.errorText}>{step.error}</Text>}
+      {isExpanded && (
+        <>
+          {step.input !== undefined && <Text style={styles.payload}>{t('diagnostics.input', { payload: step.input })}</Text>}
+          {step.output !== undefined && <Text style={styles.payload}>{t('diagnostics.output', { payload: step.output })}</Text>}
+        </>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+function TraceCard({ trace }: { trace: PipelineTraceRecord }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const localization = useLocale();
+  const { t, tCount, locale } = localization;
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.cardHeader} onPress={() => setIsExpanded(!isExpanded)} activeOpacity={0.7}>
+        <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[trace.status] }]} />
+        <View style={styles.cardHeaderText}>
+          <Text style={styles.cardTitle}>{trace.pipeline} · {trace.status}</Text>
+          <Text style={styles.cardSubtitle}>
+            {new Date(trace.startedAt).toLocaleString(locale)} · {trace.latencyMs}ms · {tCount('diagnostics.steps', trace.steps.length)} · {formatTokens(trace.usage, localization)}
+          </Text>
+        </View>
+        <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color="#64748b" />
+      </TouchableOpacity>
+      {trace.error && <Text style={styles.errorText}>{trace.error}</Text>}
+      {isExpanded && (
+        <View style={styles.cardBody}>
+          {trace.input !== undefined && <Text style={styles.payload}>{t('diagnostics.input', { payload: trace.input })}</Text>}
+          {trace.output !== undefined && <Text style={styles.payload}>{t('diagnostics.output', { payload: trace.output })}</Text>}
+          {trace.steps.map((step, index) => (
+            <TraceStepRow key={index} step={step} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function TotalsRow({ label, totals }: { label: string; totals: CostTotals }) {
+  const { t, tCount } = useLocale();
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue}>
+        {tCount('diagnostics.calls', totals.calls)} · {formatCost(totals.cost)}
+        {totals.unpricedCalls > 0 ? ` · ${t('diagnostics.unpriced', { count: totals.unpricedCalls })}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+export default function DiagnosticsScreen({ navigation }: any) {
+  const { getScheduledNotifications } = useNotificationSettings();
+  const [traces, setTraces] = useState<PipelineTraceRecord[]>([]);
+  const [health, setHealth] = useState<DataHealth | null>(null);
+  const [notifications, setNotifications] = useState<any[]>([]);
+  const [ledger, setLedger] = useState<CostLedgerState | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const localization = useLocale();
+  const { t, locale } = localization;
+
+  const load = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      const [loadedTraces, loadedHealth, loadedNotifications, loadedLedger] = await Promise.all([
+        PipelineTrace.getTraces(),
+        StorageManager.checkDataHealth(),
+        getScheduledNotifications(),
+        CostLedger.getLedger(),
+      ]);
+      setTraces(loadedTraces);
+      setHealth(loadedHealth);
+      setNotifications(loadedNotifications);
+      setLedger(loadedLedger);
+    } catch (error) {
+      console.error('Error loading diagnostics:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [getScheduledNotifications]);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleClearTraces = () => {
+    Alert.alert(t('diagnostics.clearTraces'), t('diagnostics.clearTracesMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('diagnostics.clear'),
+        style: 'destructive',
+        onPress: async () => {
+          await PipelineTrace.clear();
+          setTraces([]);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#1e293b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('diagnostics.title')}</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={load} />}
+      >
+        <Section title={t('diagnostics.pipelineTraces', { count: traces.length })}>
+          {traces.length === 0 ? (
+            <Text style={styles.emptyText}>{t('diagnostics.noTraces')}</Text>
+          ) : (
+            <>
+              {traces.map(trace => (
+                <TraceCard key={trace.id} trace={trace} />
+              ))}
+              <TouchableOpacity style={styles.clearButton} onPress={handleClearTraces}>
+                <Text style={styles.clearButtonText}>{t('diagnostics.clearTraces')}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </Section>
+
+        <Section title={t('diagnostics.dataHealth')}>
+          {health ? (
+            <View style={styles.card}>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{t('diagnostics.status')}</Text>
+                <Text style={[styles.rowValue, { color: health.healthy ? '#10b981' : '#ef4444' }]}>
+                  {t(health.healthy ? 'diagnostics.healthy' : 'diagnostics.issuesFound')}
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{t('diagnostics.keys')}</Text>
+                <Text style={styles.rowValue}>{health.totalKeys}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{t('diagnostics.corrupted')}</Text>
+                <Text style={styles.rowValue}>{health.corruptedKeys}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{t('diagnostics.quarantined')}</Text>
+                <Text style={styles.rowValue}>{health.quarantinedKeys.length}</Text>
+              </View>
+              {health.errors.map((error, index) => (
+                <Text key={index} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>{t('diagnostics.checking')}</Text>
+          )}
+        </Section>
+
+        <Section title={t('diagnostics.notifications', { count: notifications.length })}>
+          {notifications.length === 0 ? (
+            <Text style={styles.emptyText}>{t('diagnostics.nothingScheduled')}</Text>
+          ) : (
+            notifications.map(notification => (
+              <View key={notification.identifier} style={styles.card}>
+                <Text style={styles.cardTitle}>{notification.content?.title || notification.identifier}</Text>
+                {notification.content?.body ? <Text style={styles.cardSubtitle}>{notification.content.body}</Text> : null}
+                <Text style={styles.stepMeta}>{describeTrigger(notification.trigger, localization)}</Text>
+              </View>
+            ))
+          )}
+        </Section>
+
+        <Section title={t('diagnostics.costLedger')}>
+          {ledger ? (
+            <View style={styles.card}>
+              <TotalsRow label={t('diagnostics.reactive')} totals={ledger.totalsByTrigger.reactive} />
+              <TotalsRow label={t('diagnostics.proactive')} totals={ledger.totalsByTrigger.proactive} />
+              {Object.entries(ledger.totalsByTask).map(([task, totals]) =>
+                totals ? <TotalsRow key={task} label={task} totals={totals} /> : null
+              )}
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{t('diagnostics.lastCall')}</Text>
+                <Text style={styles.rowValue}>{ledger.lastCall ? new Date(ledger.lastCall).toLocaleString(locale) : t('diagnostics.never')}</Text>
+              </View>
+              {ledger.entries.slice(-10).reverse().map((entry, index) => (
+                <Text key={index} style={styles.stepMeta}>
+                  {new Date(entry.at).toLocaleTimeString(locale)} · {entry.task} · {entry.model} · {formatCost(entry.cost)}
+                </Text>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>{t('diagnostics.loading')}</Text>
+          )}
+        </Section>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  headerTitle: {
+    ...fontStyles.h1,
+    color: '#1e293b',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    ...fontStyles.h3,
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardHeaderText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  cardTitle: {
+    ...fontStyles.body,
+    color: '#1e293b',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  cardSubtitle: {
+    ...fontStyles.caption,
+    color: '#64748b',
+    lineHeight: 16,
+  },
+  cardBody: {
+    marginTop: 12,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  stepRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepKind: {
+    ...fontStyles.caption,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  stepName: {
+    ...fontStyles.body,
+    color: '#1e293b',
+    flex: 1,
+  },
+  stepMeta: {
+    ...fontStyles.caption,
+    color: '#888888',
+  },
+  payload: {
+    ...fontStyles.caption,
+    color: '#374151',
+    marginTop: 4,
+  },
+  errorText: {
+    ...fontStyles.caption,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    ...fontStyles.body,
+    color: '#64748b',
+  },
+  rowValue: {
+    ...fontStyles.body,
+    color: '#1e293b',
+    flexShrink: 1,
+    textAlign: 'right',
+  },
+  emptyText: {
+    ...fontStyles.body,
+    color: '#64748b',
+    fontStyle: 'italic',
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  clearButtonText: {
+    ...fontStyles.bodyMedium,
+    color: '#ef4444',
+  },
+});
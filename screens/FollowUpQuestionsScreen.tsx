@@ -7,6 +7,7 @@ import { useFollowUpQuestions } from '../contexts/FollowUpQuestionsContext';
 import { useSymptomLogs } from '../contexts/SymptomLogsContext';
 import { DateUtils } from '../utils/dateUtils';
 import { FollowUpQuestion } from '../types/recommendations';
+import { useLocale } from '../contexts/LocaleContext';
 
 interface FollowUpQuestionsScreenProps {
   navigation?: any;
@@ -15,6 +16,7 @@ interface FollowUpQuestionsScreenProps {
 export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestionsScreenProps) {
   const { followUpQuestions, removeFollowUpQuestion, markAsAnswered } = useFollowUpQuestions();
   const { addSymptomLog } = useSymptomLogs();
+  const { t, locale } = useLocale();
   const [recordingQuestionId, setRecordingQuestionId] = useState<string | null>(null);
 
   const handleRecordAnswer = async (question: any) => {
@@ -25,12 +27,12 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
       // For now, we'll simulate recording and add a placeholder log
       const answerLog = {
         id: Date.now().toString(),
-        summary: `Answer to follow-up: ${question.question}`,
-        healthDomain: 'GENERAL_WELLNESS' as any,
+        summary: t('followUp.answerSummary', { question: question.question }),
+        healthDomain: 'general_wellness' as const,
         severity: 'mild' as 'mild',
         impact: 'low' as 'low',
         timestamp: new Date(),
-        transcript: `User answered: ${question.question}`,
+        transcript: t('followUp.answerTranscript', { question: question.question }),
         isFollowUpAnswer: true,
         followUpQuestionId: question.id,
       };
@@ -39,10 +41,10 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
       markAsAnswered(question.id);
       removeFollowUpQuestion(question.id);
       
-      Alert.alert('Success', 'Your answer has been recorded and added to your symptom logs.');
+      Alert.alert(t('common.success'), t('followUp.answerRecorded'));
     } catch (error) {
       console.error('Error recording answer:', error);
-      Alert.alert('Error', 'Failed to record your answer. Please try again.');
+      Alert.alert(t('common.error'), t('followUp.answerFailed'));
     } finally {
       setRecordingQuestionId(null);
     }
@@ -50,12 +52,12 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
 
   const handleDeleteQuestion = (questionId: string) => {
     Alert.alert(
-      'Delete Question',
-      'Are you sure you want to delete this follow-up question?',
+      t('followUp.deleteTitle'),
+      t('followUp.deleteMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Delete', 
+          text: t('common.delete'), 
           style: 'destructive',
           onPress: () => removeFollowUpQuestion(questionId)
         }
@@ -64,7 +66,7 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
   };
 
   const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(locale, {
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
@@ -76,7 +78,7 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
     <View style={styles.questionContainer}>
       <Text style={styles.questionText}>{item.question}</Text>
       <Text style={styles.questionMeta}>
-        {DateUtils.formatDate(item.timestamp)} • {item.questionType}
+        {DateUtils.formatDate(item.timestamp, locale)} • {item.questionType}
       </Text>
       <View style={styles.questionActions}>
         <TouchableOpacity
@@ -84,14 +86,14 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
           onPress={() => markAsAnswered(item.id)}
         >
           <Text style={[styles.actionButtonText, item.isAnswered && styles.answeredButtonText]}>
-            {item.isAnswered ? 'Answered' : 'Mark as Answered'}
+            {t(item.isAnswered ? 'followUp.answered' : 'followUp.markAnswered')}
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.actionButton, styles.deleteButton]}
           onPress={() => handleDeleteQuestion(item.id)}
         >
-          <Text style={styles.deleteButtonText}>Delete</Text>
+          <Text style={styles.deleteButtonText}>{t('common.delete')}</Text>
         </TouchableOpacity>
       </View>
     </View>
@@ -106,7 +108,7 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
         >
           <Ionicons name="arrow-back" size={24} color="#1e293b" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Follow-up Questions</Text>
+        <Text style={styles.headerTitle}>{t('followUp.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -114,9 +116,9 @@ export default function FollowUpQuestionsScreen({ navigation }: FollowUpQuestion
         {followUpQuestions.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons name="chatbubble-ellipses" size={64} color="#cbd5e1" />
-            <Text style={styles.emptyStateTitle}>No Follow-up Questions</Text>
+            <Text style={styles.emptyStateTitle}>{t('followUp.emptyTitle')}</Text>
             <Text style={styles.emptyStateText}>
-              When you have follow-up questions, they'll appear here for you to answer.
+              {t('followUp.emptyText')}
             </Text>
           </View>
         ) : (
@@ -13,6 +13,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { useOnboarding } from '../contexts/OnboardingContext';
+import { useLocale } from '../contexts/LocaleContext';
 import SharedBackground from '../components/SharedBackground';
 import { colors, gradients } from '../utils/colors';
 
@@ -24,6 +25,7 @@ interface OnboardingScreenProps {
 
 export default function OnboardingScreen({ navigation }: OnboardingScreenProps) {
   const { markOnboardingComplete } = useOnboarding();
+  const { t } = useLocale();
   const underlineAnim = useRef(new Animated.Value(0)).current;
 
 
@@ -169,7 +171,7 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
           </View>
           <View style={styles.taglineContainer}>
             <Text style={styles.tagline}>
-              <Text></Text> Reimagining how you{'\n'}<Text style={styles.underlinedText}>manage your health</Text>.
+              <Text></Text> {t('onboarding.taglineStart')}{'\n'}<Text style={styles.underlinedText}>{t('onboarding.taglineEmphasis')}</Text>.
             </Text>
             <Animated.View 
               style={[
@@ -204,9 +206,9 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
               </View>
             </Animated.View>
             <View style={styles.featureText}>
-              <Text style={styles.featureTitle}>Voice Symptom Tracking</Text>
+              <Text style={styles.featureTitle}>{t('onboarding.voiceTitle')}</Text>
               <Text style={styles.featureDescription}>
-                Record your symptoms effortlessly in just 30 seconds.
+                {t('onboarding.voiceDescription')}
               </Text>
             </View>
           </View>
@@ -228,9 +230,9 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
               </View>
             </Animated.View>
             <View style={styles.featureText}>
-              <Text style={styles.featureTitle}>Personalized Action Items</Text>
+              <Text style={styles.featureTitle}>{t('onboarding.actionsTitle')}</Text>
               <Text style={styles.featureDescription}>
-                Get immediate recommended next steps based on your symptoms.
+                {t('onboarding.actionsDescription')}
               </Text>
             </View>
           </View>
@@ -252,9 +254,9 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
               </View>
             </Animated.View>
             <View style={styles.featureText}>
-              <Text style={styles.featureTitle}>Appointment Prep</Text>
+              <Text style={styles.featureTitle}>{t('onboarding.appointmentsTitle')}</Text>
               <Text style={styles.featureDescription}>
-                Walk into appointments with tailored questions and symptom history.
+                {t('onboarding.appointmentsDescription')}
               </Text>
             </View>
           </View>
@@ -306,21 +308,21 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
         {/* Independent Text Section */}
         <View style={styles.independentTextContainer}>
           <Animated.View style={[styles.independentTextItem, { opacity: textOpacities[0] }]}>
-            <Text style={styles.featureTitle}>Voice Symptom Tracking</Text>
+            <Text style={styles.featureTitle}>{t('onboarding.voiceTitle')}</Text>
             <Text style={styles.featureDescription}>
-              Record your symptoms effortlessly in just 30 seconds.
+              {t('onboarding.voiceDescription')}
             </Text>
           </Animated.View>
           <Animated.View style={[styles.independentTextItem, { opacity: textOpacities[1] }]}>
-            <Text style={styles.featureTitle}>Personalized Action Items</Text>
+            <Text style={styles.featureTitle}>{t('onboarding.actionsTitle')}</Text>
             <Text style={styles.featureDescription}>
-              Get immediate next steps based on your symptoms.
+              {t('onboarding.actionsShortDescription')}
             </Text>
           </Animated.View>
           <Animated.View style={[styles.independentTextItem, { opacity: textOpacities[2] }]}>
-            <Text style={styles.featureTitle}>Appointment Prep</Text>
+            <Text style={styles.featureTitle}>{t('onboarding.appointmentsTitle')}</Text>
             <Text style={styles.featureDescription}>
-              Walk into appointments with tailored questions and symptom history.
+              {t('onboarding.appointmentsDescription')}
             </Text>
           </Animated.View>
         </View>
@@ -333,7 +335,7 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
           </Animated.View>
           <Animated.View style={{ opacity: closing2Opacity }}>
             <Text style={styles.bottomText}>
-              Know your nexst step.
+              {t('onboarding.closing')}
             </Text>
           </Animated.View>
         </View>
@@ -349,7 +351,7 @@ export default function OnboardingScreen({ navigation }: OnboardingScreenProps)
                   end={{ x: 1, y: 0 }}
                   style={styles.getStartedButton}
                 >
-                  <Text style={styles.getStartedText}>Get Started</Text>
+                  <Text style={styles.getStartedText}>{t('onboarding.getStarted')}</Text>
                   <Ionicons name="arrow-forward" size={20} color="#ffffff" />
                 </LinearGradient>
               </TouchableOpacity>
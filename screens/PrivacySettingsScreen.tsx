@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,18 +10,76 @@ import {
   Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import * as Updates from 'expo-updates';
 import { fontStyles } from '../utils/fonts';
 import { usePrivacy } from '../contexts/PrivacyContext';
 import { useSymptomLogs } from '../contexts/SymptomLogsContext';
 import { useRecommendations } from '../contexts/RecommendationsContext';
 import { useAppointments } from '../contexts/AppointmentsContext';
+import { useRetention } from '../contexts/RetentionContext';
+import { RetentionPolicy } from '../utils/retention';
+import { DateUtils } from '../utils/dateUtils';
+import { DecryptionError } from '../utils/encryption';
+import { OpenedBackup, RestoreMode, MIN_PASSPHRASE_LENGTH } from '../utils/backup';
+import { AudioStore, AudioUsage } from '../utils/audioStore';
+import { useLocale } from '../contexts/LocaleContext';
 
 export default function PrivacySettingsScreen({ navigation }: any) {
-  const { privacySettings, toggleAIProcessing, toggleDataSharing, toggleAnalytics, updateDataRetention, exportUserData, deleteAllData, resetPrivacySettings } = usePrivacy();
+  const { privacySettings, toggleAIProcessing, toggleDataSharing, toggleAnalytics, updateDataRetention, exportUserData, createBackup, openBackup, restoreBackup, deleteAllData, resetPrivacySettings, audioSettings, updateAudioSettings, getAudioUsage, cleanUpAudio, quarantinedRecords, recoverQuarantinedData, exportQuarantinedData, discardQuarantinedData } = usePrivacy();
   const { clearAllSymptomLogs } = useSymptomLogs();
   const { clearAllRecommendations } = useRecommendations();
   const { clearAllAppointments } = useAppointments();
+  const { retentionPreview, purgeLog, purgeExpiredData } = useRetention();
   const [isExporting, setIsExporting] = useState(false);
+  const [audioUsage, setAudioUsage] = useState<AudioUsage | null>(null);
+  const { t, tCount, locale, language } = useLocale();
+
+  useEffect(() => {
+    getAudioUsage().then(setAudioUsage);
+  }, []);
+
+  const handleCleanUpAudio = async () => {
+    try {
+      const { deleted, freedBytes } = await cleanUpAudio();
+      setAudioUsage(await getAudioUsage());
+      Alert.alert(
+        t('privacy.storageCleaned'),
+        deleted > 0
+          ? tCount('privacy.storageCleanedMessage', deleted, { size: AudioStore.formatBytes(freedBytes) })
+          : t('privacy.storageNothingUnused')
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('privacy.cleanUpFailed'));
+    }
+  };
+
+  const handleAudioExpiry = () => {
+    Alert.prompt(
+      t('privacy.keepRecordings'),
+      t('privacy.keepRecordingsPrompt'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.update'),
+          onPress: async (value) => {
+            const trimmed = (value || '').trim();
+            const days = parseInt(trimmed);
+            if (trimmed && !(days > 0 && days <= 3650)) return; // Max 10 years
+
+            try {
+              await updateAudioSettings({ expireAfterDays: trimmed ? days : null });
+            } catch (error) {
+              Alert.alert(t('common.error'), t('privacy.recordingSettingsFailed'));
+            }
+          }
+        }
+      ],
+      'plain-text',
+      audioSettings.expireAfterDays?.toString() ?? ''
+    );
+  };
 
   const handleExportData = async () => {
     try {
@@ -29,25 +87,168 @@ export default function PrivacySettingsScreen({ navigation }: any) {
       const data = await exportUserData();
       
       await Share.share({
-        message: 'My Nexst Health Data Export',
-        title: 'Nexst Health Data',
+        message: t('privacy.exportMessage'),
+        title: t('privacy.exportTitle'),
         url: `data:application/json;base64,${Buffer.from(data).toString('base64')}`,
       });
     } catch (error) {
-      Alert.alert('Export Failed', 'Unable to export your data. Please try again.');
+      Alert.alert(t('privacy.exportFailed'), t('privacy.exportFailedMessage'));
     } finally {
       setIsExporting(false);
     }
   };
 
+  const handleCreateBackup = () => {
+    Alert.prompt(
+      t('privacy.backup'),
+      t('privacy.backupPassphrase', { length: MIN_PASSPHRASE_LENGTH }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('privacy.backupNext'),
+          onPress: (passphrase) => {
+            if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+              Alert.alert(t('privacy.passphraseTooShort'), t('privacy.passphraseTooShortMessage', { length: MIN_PASSPHRASE_LENGTH }));
+              return;
+            }
+            Alert.prompt(
+              t('privacy.confirmPassphrase'),
+              t('privacy.confirmPassphraseMessage'),
+              [
+                { text: t('common.cancel'), style: 'cancel' },
+                {
+                  text: t('privacy.createBackup'),
+                  onPress: async (confirmation) => {
+                    if (confirmation !== passphrase) {
+                      Alert.alert(t('privacy.passphrasesDontMatch'), t('common.tryAgain'));
+                      return;
+                    }
+                    try {
+                      setIsExporting(true);
+                      const fileUri = await createBackup(passphrase);
+                      await Sharing.shareAsync(fileUri, {
+                        mimeType: 'application/octet-stream',
+                        dialogTitle: t('privacy.saveBackupDialog'),
+                      });
+                    } catch (error) {
+                      Alert.alert(t('privacy.backupFailed'), t('privacy.backupFailedMessage'));
+                    } finally {
+                      setIsExporting(false);
+                    }
+                  }
+                }
+              ],
+              'secure-text'
+            );
+          }
+        }
+      ],
+      'secure-text'
+    );
+  };
+
+  const handleRestoreBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || result.assets.length === 0) return;
+      const fileUri = result.assets[0].uri;
+
+      Alert.prompt(
+        t('privacy.restoreTitle'),
+        t('privacy.restorePassphrase'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('privacy.restoreOpen'),
+            onPress: async (passphrase) => {
+              try {
+                const backup = await openBackup(fileUri, passphrase || '');
+                confirmRestore(backup);
+              } catch (error) {
+                Alert.alert(
+                  t('privacy.openFailed'),
+                  error instanceof DecryptionError
+                    ? t('privacy.openFailedDecryption')
+                    : error instanceof Error ? error.message : t('common.tryAgain')
+                );
+              }
+            }
+          }
+        ],
+        'secure-text'
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('privacy.readFileFailed'));
+    }
+  };
+
+  // Show what the backup contains, then let the user choose how to apply it
+  const confirmRestore = (backup: OpenedBackup) => {
+    const { counts } = backup;
+    const rejected = backup.rejectedRecords > 0
+      ? `\n\n${tCount('privacy.restoreRejected', backup.rejectedRecords)}`
+      : '';
+
+    const applyRestore = async (mode: RestoreMode) => {
+      try {
+        const report = await restoreBackup(backup, mode);
+        Alert.alert(
+          t('privacy.restoreComplete'),
+          (report.errors.length > 0 ? `${tCount('privacy.restoreAudioErrors', report.errors.length)} ` : '') +
+          t('privacy.restoreRestarting'),
+          [{
+            text: t('common.ok'),
+            onPress: async () => {
+              try {
+                await Updates.reloadAsync();
+              } catch (error) {
+                console.error('❌ Error restarting app:', error);
+              }
+            }
+          }]
+        );
+      } catch (error) {
+        Alert.alert(t('privacy.restoreFailed'), t('privacy.restoreFailedMessage'));
+      }
+    };
+
+    Alert.alert(
+      t('privacy.restoreTitle'),
+      `${t('privacy.restoreSummary', { date: DateUtils.formatDateTime(new Date(backup.createdAt), locale) })}\n\n` +
+      `• ${t('privacy.restoreSymptomLogs', { count: counts.symptomLogs, recordings: backup.audioFiles })}\n` +
+      `• ${t('privacy.restoreRecommendations', { count: counts.recommendations })}\n` +
+      `• ${t('privacy.restoreAppointments', { count: counts.appointments })}\n` +
+      `• ${t('privacy.restoreFollowUpQuestions', { count: counts.followUpQuestions })}${rejected}\n\n` +
+      t('privacy.restoreModes'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('privacy.merge'), onPress: () => applyRestore('merge') },
+        {
+          text: t('privacy.replace'),
+          style: 'destructive',
+          onPress: () => {
+            Alert.alert(
+              t('privacy.replaceTitle'),
+              t('privacy.replaceMessage'),
+              [
+                { text: t('common.cancel'), style: 'cancel' },
+                { text: t('privacy.replace'), style: 'destructive', onPress: () => applyRestore('replace') }
+              ]
+            );
+          }
+        }
+      ]
+    );
+  };
+
   const handleDeleteAllData = () => {
     Alert.alert(
-      'Delete All Data',
-      'This will permanently delete all your symptom logs, recommendations, appointments, and settings. This action cannot be undone.',
+      t('privacy.deleteAll'),
+      t('privacy.deleteAllMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete All Data',
+          text: t('privacy.deleteAll'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -55,9 +256,104 @@ export default function PrivacySettingsScreen({ navigation }: any) {
               await clearAllSymptomLogs();
               await clearAllRecommendations();
               await clearAllAppointments();
-              Alert.alert('Success', 'All data has been deleted.');
+              Alert.alert(t('common.success'), t('privacy.deleteAllDone'));
             } catch (error) {
-              Alert.alert('Error', 'Failed to delete all data. Please try again.');
+              Alert.alert(t('common.error'), t('privacy.deleteAllFailed'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRemoveExpiredData = () => {
+    if (retentionPreview.totalItems === 0) {
+      Alert.alert(t('privacy.nothingToRemove'), t('privacy.nothingToRemoveMessage', { days: privacySettings.dataRetentionDays }));
+      return;
+    }
+
+    // Capture the preview shown so the purge deletes exactly what was listed
+    const preview = retentionPreview;
+    Alert.alert(
+      t('privacy.removeOldTitle'),
+      [
+        t('privacy.removeOldMessage', { date: DateUtils.formatDate(preview.cutoff, locale) }),
+        `• ${RetentionPolicy.describe(preview.counts, language).join('\n• ')}`,
+        ...(preview.profiles.length > 1 ? [tCount('privacy.retentionProfiles', preview.profiles.length)] : []),
+      ].join('\n\n'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const entries = await purgeExpiredData(preview);
+              if (entries.some(entry => entry.errors.length > 0)) {
+                Alert.alert(t('privacy.partiallyRemoved'), t('privacy.partiallyRemovedMessage'));
+              }
+            } catch (error) {
+              Alert.alert(t('common.error'), t('privacy.removeOldFailed'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleShowPurgeHistory = () => {
+    if (purgeLog.length === 0) {
+      Alert.alert(t('privacy.purgeHistory'), t('privacy.purgeHistoryEmpty'));
+      return;
+    }
+
+    const lines = purgeLog.slice(0, 10).map(entry => {
+      const removed = RetentionPolicy.describe(entry.counts, language).join(', ') || t('privacy.purgedNothing');
+      return `${DateUtils.formatDateTime(new Date(entry.purgedAt), locale)}: ${removed}`;
+    });
+    Alert.alert(t('privacy.purgeHistory'), lines.join('\n\n'));
+  };
+
+  const handleRecoverQuarantined = async () => {
+    try {
+      const results = await recoverQuarantinedData();
+      const restored = results.filter(r => r.status === 'restored').length;
+      const partial = results.filter(r => r.status === 'partial').length;
+      Alert.alert(
+        t('privacy.recoveryComplete'),
+        tCount('privacy.recoveryCompleteMessage', restored, { partial })
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('privacy.recoverFailed'));
+    }
+  };
+
+  const handleExportQuarantined = async () => {
+    try {
+      const data = await exportQuarantinedData();
+      await Share.share({
+        message: data,
+        title: t('privacy.exportDamagedTitle'),
+      });
+    } catch (error) {
+      Alert.alert(t('privacy.exportFailed'), t('privacy.exportDamagedFailed'));
+    }
+  };
+
+  const handleDiscardQuarantined = () => {
+    Alert.alert(
+      t('privacy.discardDamagedTitle'),
+      tCount('privacy.discardDamagedMessage', quarantinedRecords.length),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('privacy.discard'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discardQuarantinedData();
+            } catch (error) {
+              Alert.alert(t('common.error'), t('privacy.discardFailed'));
             }
           }
         }
@@ -67,18 +363,18 @@ export default function PrivacySettingsScreen({ navigation }: any) {
 
   const handleResetPrivacySettings = () => {
     Alert.alert(
-      'Reset Privacy Settings',
-      'This will reset all privacy settings to their default values. Your data will not be deleted.',
+      t('privacy.resetSettings'),
+      t('privacy.resetSettingsMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Reset',
+          text: t('privacy.reset'),
           onPress: async () => {
             try {
               await resetPrivacySettings();
-              Alert.alert('Success', 'Privacy settings have been reset.');
+              Alert.alert(t('common.success'), t('privacy.resetSettingsDone'));
             } catch (error) {
-              Alert.alert('Error', 'Failed to reset privacy settings. Please try again.');
+              Alert.alert(t('common.error'), t('privacy.resetSettingsFailed'));
             }
           }
         }
@@ -157,14 +453,14 @@ export default function PrivacySettingsScreen({ navigation }: any) {
         >
           <Ionicons name="arrow-back" size={24} color="#1e293b" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Privacy & Security</Text>
+        <Text style={styles.headerTitle}>{t('privacy.title')}</Text>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        <PrivacySection title="Data Processing">
+        <PrivacySection title={t('privacy.section.processing')}>
           <PrivacyItem
-            title="AI Processing"
-            subtitle="Allow AI analysis of your symptoms for recommendations"
+            title={t('privacy.aiProcessing')}
+            subtitle={t('privacy.aiProcessingSubtitle')}
             icon="brain"
             showSwitch={true}
             switchValue={privacySettings.aiProcessingEnabled}
@@ -172,8 +468,8 @@ export default function PrivacySettingsScreen({ navigation }: any) {
             showArrow={false}
           />
           <PrivacyItem
-            title="Data Sharing"
-            subtitle="Allow sharing data with healthcare providers"
+            title={t('privacy.dataSharing')}
+            subtitle={t('privacy.dataSharingSubtitle')}
             icon="share"
             showSwitch={true}
             switchValue={privacySettings.dataSharingEnabled}
@@ -181,8 +477,8 @@ export default function PrivacySettingsScreen({ navigation }: any) {
             showArrow={false}
           />
           <PrivacyItem
-            title="Analytics"
-            subtitle="Help improve the app with anonymous usage data"
+            title={t('privacy.analytics')}
+            subtitle={t('privacy.analyticsSubtitle')}
             icon="analytics"
             showSwitch={true}
             switchValue={privacySettings.analyticsEnabled}
@@ -191,25 +487,37 @@ export default function PrivacySettingsScreen({ navigation }: any) {
           />
         </PrivacySection>
 
-        <PrivacySection title="Data Management">
+        <PrivacySection title={t('privacy.section.management')}>
           <PrivacyItem
-            title="Export My Data"
-            subtitle="Download all your health data as JSON"
+            title={t('privacy.export')}
+            subtitle={t('privacy.exportSubtitle')}
             icon="download"
             onPress={handleExportData}
           />
           <PrivacyItem
-            title="Data Retention"
-            subtitle={`Keep data for ${privacySettings.dataRetentionDays} days`}
+            title={t('privacy.backup')}
+            subtitle={t('privacy.backupSubtitle')}
+            icon="cloud-upload"
+            onPress={handleCreateBackup}
+          />
+          <PrivacyItem
+            title={t('privacy.restore')}
+            subtitle={t('privacy.restoreSubtitle')}
+            icon="cloud-download"
+            onPress={handleRestoreBackup}
+          />
+          <PrivacyItem
+            title={t('privacy.retention')}
+            subtitle={t('privacy.retentionSubtitle', { days: privacySettings.dataRetentionDays })}
             icon="time"
             onPress={() => {
               Alert.prompt(
-                'Data Retention',
-                'How many days should we keep your data?',
+                t('privacy.retention'),
+                t('privacy.retentionPrompt'),
                 [
-                  { text: 'Cancel', style: 'cancel' },
+                  { text: t('common.cancel'), style: 'cancel' },
                   {
-                    text: 'Update',
+                    text: t('common.update'),
                     onPress: (value) => {
                       const days = parseInt(value || '365');
                       if (days > 0 && days <= 3650) { // Max 10 years
@@ -223,20 +531,90 @@ export default function PrivacySettingsScreen({ navigation }: any) {
               );
             }}
           />
+          <PrivacyItem
+            title={t('privacy.removeOld')}
+            subtitle={retentionPreview.totalItems > 0
+              ? tCount('privacy.removeOldSubtitle', retentionPreview.totalItems, { days: privacySettings.dataRetentionDays })
+              : t('privacy.removeOldNothing')}
+            icon="trash-bin"
+            onPress={handleRemoveExpiredData}
+          />
+          <PrivacyItem
+            title={t('privacy.purgeHistory')}
+            subtitle={purgeLog.length > 0
+              ? t('privacy.purgeHistoryLast', { date: DateUtils.formatDate(new Date(purgeLog[0].purgedAt), locale) })
+              : t('privacy.purgeHistoryNone')}
+            icon="list"
+            onPress={handleShowPurgeHistory}
+          />
         </PrivacySection>
 
+        <PrivacySection title={t('privacy.section.audio')}>
+          <PrivacyItem
+            title={t('privacy.storageUsed')}
+            subtitle={audioUsage
+              ? tCount('privacy.storageUsedSubtitle', audioUsage.fileCount, { size: AudioStore.formatBytes(audioUsage.totalBytes) })
+              : t('privacy.calculating')}
+            icon="folder"
+            onPress={handleCleanUpAudio}
+          />
+          <PrivacyItem
+            title={t('privacy.compactRecordings')}
+            subtitle={t('privacy.compactRecordingsSubtitle')}
+            icon="contract"
+            showSwitch={true}
+            switchValue={audioSettings.recordingQuality === 'compact'}
+            onSwitchChange={(value) => {
+              updateAudioSettings({ recordingQuality: value ? 'compact' : 'high' }).catch(() => {
+                Alert.alert(t('common.error'), t('privacy.recordingSettingsFailed'));
+              });
+            }}
+            showArrow={false}
+          />
+          <PrivacyItem
+            title={t('privacy.keepRecordings')}
+            subtitle={audioSettings.expireAfterDays === null
+              ? t('privacy.keepRecordingsForever')
+              : t('privacy.keepRecordingsDays', { days: audioSettings.expireAfterDays })}
+            icon="hourglass"
+            onPress={handleAudioExpiry}
+          />
+        </PrivacySection>
 
+        {quarantinedRecords.length > 0 && (
+          <PrivacySection title={t('privacy.section.damaged')}>
+            <PrivacyItem
+              title={t('privacy.recoverDamaged')}
+              subtitle={tCount('privacy.recoverDamagedSubtitle', quarantinedRecords.length)}
+              icon="medkit"
+              onPress={handleRecoverQuarantined}
+            />
+            <PrivacyItem
+              title={t('privacy.exportDamaged')}
+              subtitle={t('privacy.exportDamagedSubtitle')}
+              icon="download"
+              onPress={handleExportQuarantined}
+            />
+            <PrivacyItem
+              title={t('privacy.discardDamaged')}
+              subtitle={t('privacy.discardDamagedSubtitle')}
+              icon="trash"
+              onPress={handleDiscardQuarantined}
+              destructive={true}
+            />
+          </PrivacySection>
+        )}
 
-        <PrivacySection title="Account Actions">
+        <PrivacySection title={t('privacy.section.account')}>
           <PrivacyItem
-            title="Reset Privacy Settings"
-            subtitle="Reset all privacy settings to defaults"
+            title={t('privacy.resetSettings')}
+            subtitle={t('privacy.resetSettingsSubtitle')}
             icon="refresh"
             onPress={handleResetPrivacySettings}
           />
           <PrivacyItem
-            title="Delete All Data"
-            subtitle="Permanently delete all your data"
+            title={t('privacy.deleteAll')}
+            subtitle={t('privacy.deleteAllSubtitle')}
             icon="trash"
             onPress={handleDeleteAllData}
             destructive={true}
@@ -244,12 +622,12 @@ export default function PrivacySettingsScreen({ navigation }: any) {
         </PrivacySection>
 
         <View style={styles.infoSection}>
-          <Text style={styles.infoTitle}>🔒 Your Data is Secure</Text>
+          <Text style={styles.infoTitle}>{t('privacy.secureTitle')}</Text>
           <Text style={styles.infoText}>
-            • All data is stored locally on your device{'\n'}
-            • Audio recordings are processed securely and immediately deleted{'\n'}
-            • No health data is shared without your explicit consent{'\n'}
-            • You have complete control over your data
+            • {t('privacy.secureLocal')}{'\n'}
+            • {t('privacy.secureAudio')}{'\n'}
+            • {t('privacy.secureConsent')}{'\n'}
+            • {t('privacy.secureControl')}
           </Text>
         </View>
       </ScrollView>
@@ -2,18 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { fontStyles } from '../utils/fonts';
-import { MedicalRecommendation, ActionItem, CompletedRecommendation } from '../types/recommendations';
+import { MedicalRecommendation, ActionItem, CompletedRecommendation, SymptomLog } from '../types/recommendations';
 import { useRecommendations } from '../contexts/RecommendationsContext';
 import { useTutorial } from '../contexts/TutorialContext';
 import FeatureTutorial from '../components/FeatureTutorial';
+import RecommendationProvenance from '../components/RecommendationProvenance';
 import { featureTutorials } from '../utils/onboardingContent';
 import SharedBackground from '../components/SharedBackground';
 import { colors, gradients, getPriorityColor as getPriorityColorUtil } from '../utils/colors';
+import { useLocale } from '../contexts/LocaleContext';
 
 export default function RecommendationsScreen({ route, navigation }: any) {
   // Get recommendations from global context
   const { recommendations, completedRecommendations, completeRecommendation, cancelRecommendation, toggleActionItem } = useRecommendations();
   const { tutorialState, completeRecommendationTutorial } = useTutorial();
+  const { t, locale } = useLocale();
   const activeAlert = route?.params?.activeAlert;
   const [completedCollapsed, setCompletedCollapsed] = useState(false);
   const [cancelledCollapsed, setCancelledCollapsed] = useState(false);
@@ -24,10 +27,10 @@ export default function RecommendationsScreen({ route, navigation }: any) {
 
   const getPriorityLabel = (priority: string) => {
     switch (priority) {
-      case 'HIGH': return 'Important';
-      case 'MEDIUM': return 'Consider';
-      case 'LOW': return 'Optional';
-      default: return 'Priority';
+      case 'HIGH': return t('recommendations.priority.high');
+      case 'MEDIUM': return t('recommendations.priority.medium');
+      case 'LOW': return t('recommendations.priority.low');
+      default: return t('recommendations.priority.unknown');
     }
   };
 
@@ -59,12 +62,12 @@ export default function RecommendationsScreen({ route, navigation }: any) {
 
   const handleCompleteRecommendation = (recommendationId: string) => {
     Alert.alert(
-      'Complete Recommendation',
-      'Mark this recommendation as completed?',
+      t('recommendations.completeTitle'),
+      t('recommendations.completeMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Complete',
+          text: t('recommendations.complete'),
           onPress: () => {
             completeRecommendation(recommendationId);
           }
@@ -75,14 +78,14 @@ export default function RecommendationsScreen({ route, navigation }: any) {
 
   const handleCancelRecommendation = (recommendationId: string) => {
     Alert.prompt(
-      'Cancel Recommendation',
-      'Why are you cancelling this recommendation?',
+      t('recommendations.cancelTitle'),
+      t('recommendations.cancelMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Confirm',
+          text: t('recommendations.confirm'),
           onPress: (reason) => {
-            cancelRecommendation(recommendationId, reason || 'No reason provided');
+            cancelRecommendation(recommendationId, reason || t('recommendations.noReason'));
           }
         }
       ],
@@ -105,6 +108,15 @@ export default function RecommendationsScreen({ route, navigation }: any) {
     handleToggleActionItem(recommendationId, action.id);
   };
 
+  const handleOpenRecording = (log: SymptomLog) => {
+    navigation.navigate('RecordingDetail', {
+      log: {
+        ...log,
+        timestamp: log.timestamp.toISOString() // Convert Date to string for navigation
+      }
+    });
+  };
+
   const CollapsibleSection = ({ 
     title, 
     isCollapsed, 
@@ -178,7 +190,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
       )}
       {action.isCompleted && action.completedAt && (
         <Text style={styles.completedDate}>
-          ✓ Completed {action.completedAt.toLocaleDateString()}
+          {t('recommendations.actionCompleted', { date: action.completedAt.toLocaleDateString(locale) })}
         </Text>
       )}
     </TouchableOpacity>
@@ -196,7 +208,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
         <View style={styles.symptomCorrelation}>
           <Ionicons name="link" size={16} color="#666" />
           <Text style={styles.symptomCorrelationText}>
-            Addressed: {recommendation.symptomsTriggering.join(', ')}
+            {t('recommendations.addressed', { symptoms: recommendation.symptomsTriggering.join(', ') })}
           </Text>
         </View>
       )}
@@ -205,7 +217,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
       <View style={styles.completedInfo}>
         <Ionicons name="checkmark-circle" size={16} color={colors.accent} />
         <Text style={styles.completedText}>
-          Completed on {recommendation.completedAt.toLocaleDateString()}
+          {t('recommendations.completedOn', { date: recommendation.completedAt.toLocaleDateString(locale) })}
         </Text>
       </View>
     </View>
@@ -252,18 +264,21 @@ export default function RecommendationsScreen({ route, navigation }: any) {
         <View style={styles.symptomCorrelation}>
           <Ionicons name="link" size={16} color="#666" />
           <Text style={styles.symptomCorrelationText}>
-            Addresses: {recommendation.symptomsTriggering.join(', ')}
+            {t('recommendations.addresses', { symptoms: recommendation.symptomsTriggering.join(', ') })}
           </Text>
         </View>
       )}
 
       {/* 5. Reasoning */}
       <View style={styles.reasoningSection}>
-        <Text style={styles.reasoningTitle}>Why this helps:</Text>
+        <Text style={styles.reasoningTitle}>{t('recommendations.whyThisHelps')}</Text>
         <Text style={styles.reasoningText}>{recommendation.medicalRationale}</Text>
       </View>
 
-      {/* 6. Action Buttons - Done, Not for me */}
+      {/* 6. Provenance - Source recordings, patterns, reasoning and model */}
+      <RecommendationProvenance recommendation={recommendation} onOpenRecording={handleOpenRecording} />
+
+      {/* 7. Action Buttons - Done, Not for me */}
       {!recommendation.isCompleted && !recommendation.isCancelled && (
         <View style={styles.recommendationActions}>
           <TouchableOpacity
@@ -271,14 +286,14 @@ export default function RecommendationsScreen({ route, navigation }: any) {
             onPress={() => handleCompleteRecommendation(recommendation.id!)}
           >
             <Ionicons name="checkmark" size={20} color="#ffffff" />
-            <Text style={styles.doneButtonText}>Done</Text>
+            <Text style={styles.doneButtonText}>{t('recommendations.done')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.notForMeButton}
             onPress={() => handleCancelRecommendation(recommendation.id!)}
           >
             <Ionicons name="close" size={20} color="#ef4444" />
-            <Text style={styles.notForMeButtonText}>Not for me</Text>
+            <Text style={styles.notForMeButtonText}>{t('recommendations.notForMe')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -288,7 +303,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
         <View style={styles.completedInfo}>
           <Ionicons name="checkmark-circle" size={16} color={colors.accent} />
           <Text style={styles.completedText}>
-            Completed on {recommendation.completedAt.toLocaleDateString()}
+            {t('recommendations.completedOn', { date: recommendation.completedAt.toLocaleDateString(locale) })}
           </Text>
         </View>
       )}
@@ -297,11 +312,11 @@ export default function RecommendationsScreen({ route, navigation }: any) {
         <View style={styles.cancelledInfo}>
           <Ionicons name="close-circle" size={16} color={colors.accentElectric} />
           <Text style={styles.cancelledText}>
-            Cancelled on {recommendation.cancelledAt.toLocaleDateString()}
+            {t('recommendations.cancelledOn', { date: recommendation.cancelledAt.toLocaleDateString(locale) })}
           </Text>
           {recommendation.cancelledReason && (
             <Text style={styles.cancelledReason}>
-              Reason: {recommendation.cancelledReason}
+              {t('recommendations.reason', { reason: recommendation.cancelledReason })}
             </Text>
           )}
         </View>
@@ -317,8 +332,8 @@ export default function RecommendationsScreen({ route, navigation }: any) {
       <View style={styles.container}>
       <FeatureTutorial
         visible={!tutorialState.hasSeenRecommendationTutorial && recommendations.length === 0}
-        title={featureTutorials.recommendations.title}
-        description={featureTutorials.recommendations.description}
+        title={t(featureTutorials.recommendations.title)}
+        description={t(featureTutorials.recommendations.description)}
         position="center"
         onComplete={completeRecommendationTutorial}
         showSkip={false}
@@ -333,7 +348,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
 
         {completedRecommendations.length > 0 && (
           <CollapsibleSection
-            title="Completed"
+            title={t('recommendations.completedSection')}
             isCollapsed={completedCollapsed}
             onToggle={() => setCompletedCollapsed(!completedCollapsed)}
             count={completedRecommendations.length}
@@ -344,7 +359,7 @@ export default function RecommendationsScreen({ route, navigation }: any) {
 
         {cancelledRecommendations.length > 0 && (
           <CollapsibleSection
-            title="Cancelled"
+            title={t('recommendations.cancelledSection')}
             isCollapsed={cancelledCollapsed}
             onToggle={() => setCancelledCollapsed(!cancelledCollapsed)}
             count={cancelledRecommendations.length}
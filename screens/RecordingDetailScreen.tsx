@@ -5,9 +5,13 @@ import { Audio } from 'expo-av';
 import { useFocusEffect } from '@react-navigation/native';
 import { fontStyles } from '../utils/fonts';
 import { colors } from '../utils/colors';
+import { useRedFlags } from '../contexts/RedFlagContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { TranslationKey } from '../locales/en';
 
 export default function RecordingDetailScreen({ route, navigation }: any) {
   const { log } = route.params;
+  const { t, locale } = useLocale();
   
   // Early return if no log data
   if (!log) {
@@ -22,7 +26,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
           </TouchableOpacity>
         </View>
         <View style={styles.content}>
-          <Text style={styles.errorText}>No recording data available</Text>
+          <Text style={styles.errorText}>{t('recordingDetail.noData')}</Text>
         </View>
       </View>
     );
@@ -40,7 +44,8 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
   const [position, setPosition] = useState(0);
   const [isLoaded, setIsLoaded] = useState(false);
   const [isSeeking, setIsSeeking] = useState(false);
-  const [audioError, setAudioError] = useState<string | null>(null);
+  const [audioError, setAudioError] = useState<TranslationKey | null>(null);
+  const { showEmergencyGuidance } = useRedFlags();
   
   const positionIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -64,7 +69,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
   const loadAudio = async () => {
     try {
       if (!logWithDate.audioURI) {
-        setAudioError('No audio file available');
+        setAudioError('recordingDetail.noAudio');
         return;
       }
 
@@ -93,7 +98,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
       setIsLoaded(true);
     } catch (error) {
       console.error('Failed to load audio:', error);
-      setAudioError('Failed to load audio file');
+      setAudioError('recordingDetail.loadFailed');
     }
   };
 
@@ -119,7 +124,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
 
   const playSound = async () => {
     if (!sound) {
-      Alert.alert('Error', 'Audio not loaded');
+      Alert.alert(t('common.error'), t('recordingDetail.notLoaded'));
       return;
     }
 
@@ -140,14 +145,14 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
       }
     } catch (error) {
       console.error('Audio playback error:', error);
-      setAudioError('Failed to play audio');
-      Alert.alert('Error', 'Failed to play audio. Please try again.');
+      setAudioError('recordingDetail.playFailed');
+      Alert.alert(t('common.error'), t('recordingDetail.playFailedMessage'));
     }
   };
 
   const restartPlayback = async () => {
     if (!sound) {
-      Alert.alert('Error', 'Audio not loaded');
+      Alert.alert(t('common.error'), t('recordingDetail.notLoaded'));
       return;
     }
 
@@ -160,8 +165,8 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
       await sound.playAsync();
     } catch (error) {
       console.error('Restart error:', error);
-      setAudioError('Failed to restart audio');
-      Alert.alert('Error', 'Failed to restart audio. Please try again.');
+      setAudioError('recordingDetail.restartFailed');
+      Alert.alert(t('common.error'), t('recordingDetail.restartFailedMessage'));
     }
   };
 
@@ -202,22 +207,43 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
         <View style={styles.recordingCard}>
           <View style={styles.recordingHeader}>
             <Ionicons name="mic" size={32} color="#00B39F" />
-            <Text style={styles.recordingTitle}>Symptom Recording</Text>
+            <Text style={styles.recordingTitle}>{t('recordingDetail.title')}</Text>
           </View>
           
           <Text style={styles.timestamp}>
-            {logWithDate.timestamp.toLocaleString()}
+            {logWithDate.timestamp.toLocaleString(locale)}
           </Text>
           
+          {logWithDate.redFlags?.length > 0 && (
+            <TouchableOpacity
+              style={styles.redFlagBanner}
+              onPress={() => showEmergencyGuidance(logWithDate.redFlags)}
+            >
+              <Ionicons name="warning" size={20} color="#dc2626" />
+              <Text style={styles.redFlagText}>
+                {t('recordingDetail.redFlagBanner')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           <View style={styles.summarySection}>
-            <Text style={styles.sectionLabel}>Key Points</Text>
+            <Text style={styles.sectionLabel}>{t('recordingDetail.keyPoints')}</Text>
             <Text style={styles.summary}>
-              {logWithDate.summary}
+              {logWithDate.processingStatus ? t('symptoms.pendingSummary') : logWithDate.summary}
             </Text>
           </View>
+
+          {logWithDate.englishSummary && (
+            <View style={styles.summarySection}>
+              <Text style={styles.sectionLabel}>{t('recordingDetail.inEnglish')}</Text>
+              <Text style={styles.summary}>
+                {logWithDate.englishSummary}
+              </Text>
+            </View>
+          )}
           
           <View style={styles.transcriptSection}>
-            <Text style={styles.sectionLabel}>Full Recording</Text>
+            <Text style={styles.sectionLabel}>{t('recordingDetail.fullRecording')}</Text>
             <Text style={styles.transcript}>
               "{logWithDate.transcript}"
             </Text>
@@ -228,7 +254,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
               {audioError && (
                 <View style={styles.errorContainer}>
                   <Ionicons name="warning" size={16} color="#ef4444" />
-                  <Text style={styles.errorText}>{audioError}</Text>
+                  <Text style={styles.errorText}>{t(audioError)}</Text>
                 </View>
               )}
               
@@ -246,7 +272,7 @@ export default function RecordingDetailScreen({ route, navigation }: any) {
               
               <View style={styles.audioInfo}>
                 <Text style={styles.audioStatus}>
-                  {audioError ? 'Audio Error' : !isLoaded ? 'Loading...' : isPlaying ? 'Playing...' : 'Tap to play'}
+                  {t(audioError ? 'recordingDetail.audioError' : !isLoaded ? 'recordingDetail.loading' : isPlaying ? 'recordingDetail.playing' : 'recordingDetail.tapToPlay')}
                 </Text>
                 
                 <Text style={styles.audioDuration}>
@@ -321,6 +347,24 @@ const styles = StyleSheet.create({
     color: '#64748b',
     marginBottom: 16,
   },
+  redFlagBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  redFlagText: {
+    ...fontStyles.body,
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#991b1b',
+    marginLeft: 8,
+  },
   summarySection: {
     marginBottom: 20,
   },
@@ -5,15 +5,22 @@ import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSmartAI } from '../contexts/SmartAIContext';
-import { SymptomLog, MedicalRecommendation, RecommendationAlert, HealthDomain } from '../types/recommendations';
+import { SymptomLog, MedicalRecommendation, RecommendationAlert } from '../types/recommendations';
 import { useRecommendations } from '../contexts/RecommendationsContext';
 import { useSymptomLogs } from '../contexts/SymptomLogsContext';
+import { useProcessingQueue } from '../contexts/ProcessingQueueContext';
 import { useOnboarding } from '../contexts/OnboardingContext';
 import { useTutorial } from '../contexts/TutorialContext';
+import { usePrivacy } from '../contexts/PrivacyContext';
 import FeatureTutorial from '../components/FeatureTutorial';
 import { featureTutorials } from '../utils/onboardingContent';
 import SharedBackground from '../components/SharedBackground';
 import { colors, gradients } from '../utils/colors';
+import { AudioStore } from '../utils/audioStore';
+import { DateUtils } from '../utils/dateUtils';
+import { RedFlagTriage } from '../utils/redFlagTriage';
+import { useLocale } from '../contexts/LocaleContext';
+import { TranslationKey } from '../locales/en';
 
 export default function SymptomScreen({ navigation }: any) {
     const [audioURI, setAudioURI] = useState<string | null>(null);
@@ -22,23 +29,27 @@ export default function SymptomScreen({ navigation }: any) {
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
     const [activeAlert, setActiveAlert] = useState<RecommendationAlert | null>(null);
     const [hasRecordedToday, setHasRecordedToday] = useState<boolean>(false);
-    const [status, setStatus] = useState('Tap to record your daily check-in');
+    const [status, setStatus] = useState<TranslationKey>('symptoms.status.firstCheckIn');
     const [followUpQuestion, setFollowUpQuestion] = useState<string | null>(null);
     const [missedPeriodQuestion, setMissedPeriodQuestion] = useState<string | null>(null);
+    const [budgetNoticeVisible, setBudgetNoticeVisible] = useState<boolean>(false);
+    const [offlineNoticeVisible, setOfflineNoticeVisible] = useState<boolean>(false);
     
     const pulseAnim = useRef(new Animated.Value(1)).current;
     const spinAnim = useRef(new Animated.Value(0)).current;
 
     // Use the global recommendations context
     const { recommendations, addRecommendations } = useRecommendations();
-    const { symptomLogs, addSymptomLog } = useSymptomLogs();
+    const { symptomLogs, querySymptomLogs } = useSymptomLogs();
+    const { enqueueRecording, getJob, retryJob } = useProcessingQueue();
     const { markOnboardingComplete } = useOnboarding();
     const { tutorialState, completeSymptomTutorial } = useTutorial();
+    const { audioSettings } = usePrivacy();
+    const { t, locale, language } = useLocale();
     const { 
-        transcribeAndSummarize,
-        analyzeForRecommendations,
         startProactiveMonitoring, 
-        isProactiveActive 
+        isProactiveActive,
+        budget
     } = useSmartAI();
 
     // Audio recording state
@@ -51,10 +62,7 @@ export default function SymptomScreen({ navigation }: any) {
         const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
         const todayEnd = new Date(todayStart.getTime() + 24 * 60 * 60 * 1000);
         
-        return symptomLogs.some(log => {
-            const logDate = new Date(log.timestamp);
-            return logDate >= todayStart && logDate < todayEnd;
-        });
+        return querySymptomLogs({ from: todayStart, to: todayEnd, limit: 1 }).total > 0;
     };
 
     // Update hasRecordedToday when symptomLogs change
@@ -65,7 +73,7 @@ export default function SymptomScreen({ navigation }: any) {
     // Update status text based on whether user has recorded today
     useEffect(() => {
         if (!isProcessing && !isRecording) {
-            setStatus(hasRecordedToday ? 'Tap to record another check-in' : 'Tap to record your daily check-in');
+            setStatus(hasRecordedToday ? 'symptoms.status.anotherCheckIn' : 'symptoms.status.firstCheckIn');
         }
     }, [hasRecordedToday, isProcessing, isRecording]);
 
@@ -137,67 +145,39 @@ export default function SymptomScreen({ navigation }: any) {
                     setIsRecording(false);
                     
                     if (uri) {
-                        setAudioURI(uri);
                         setIsProcessing(true);
-                        setStatus("Processing audio...");
+                        setStatus('symptoms.status.processing');
                         
                         try {
-                            // Create symptom log object for processing
+                            // Move the recording out of the cache into app storage, linked to its log
                             const now = new Date();
-                            const symptomLog: SymptomLog = { 
-                                id: now.toISOString(), 
-                                timestamp: now, 
-                                summary: '', 
-                                transcript: '',
-                                audioURI: uri,
-                                healthDomain: 'general_wellness' as HealthDomain, // Will be updated by AI
-                                severity: 'mild', // Will be updated by AI
-                                impact: 'low' // Will be updated by AI
-                            };
-                            
-                            // Step 1: Transcribe and summarize the audio
-                            console.log("🎤 TRANSCRIBING: Converting audio to text and summary");
-                            const transcription = await transcribeAndSummarize(uri);
-                            
-                            // Step 2: Create the symptom log with transcription data
-                            const newLog = {
-                                ...symptomLog,
-                                summary: transcription.summary,
-                                transcript: transcription.transcript,
-                                healthDomain: transcription.healthDomain as HealthDomain,
-                                severity: transcription.severity as 'mild' | 'moderate' | 'severe',
-                                impact: transcription.impact as 'low' | 'medium' | 'high'
-                            };
-                            
-                            // Step 3: Add to global symptom logs immediately
-                            addSymptomLog(newLog);
-                            
-                            // Stop processing and show microphone immediately after log is added
+                            const logId = now.toISOString();
+                            const storedURI = await AudioStore.importRecording(uri, logId);
+                            setAudioURI(storedURI);
+
+                            // Saved as a pending log right away; the processing queue transcribes,
+                            // analyzes and generates recommendations, retrying until it gets through
+                            console.log("🎤 PROCESSING: Saving recording and queueing transcription");
+                            const outcome = await enqueueRecording({ id: logId, timestamp: now, audioURI: storedURI });
+
+                            // Recommendations follow in the background (at the monthly budget cap
+                            // there are none; the notice explains why)
                             setIsProcessing(false);
-                            setStatus("Recording saved!");
-                            
-                            // Step 4: Analyze for recommendations in background (separate process)
-                            console.log("🤖 AI ANALYSIS: Analyzing for recommendations in background");
-                            try {
-                                const recommendations = await analyzeForRecommendations(newLog);
-                                if (recommendations.length > 0) {
-                                    addRecommendations(recommendations);
-                                }
-                            } catch (error) {
-                                console.error("Background AI analysis error:", error);
-                                // Don't fail the recording if AI analysis fails
-                            }
+                            setStatus(outcome === 'processed' ? 'symptoms.status.saved' : 'symptoms.status.savedOffline');
+                            setBudgetNoticeVisible(true);
+                            // Red flags are checked on the transcript, which needs the network
+                            setOfflineNoticeVisible(outcome === 'queued');
                         } catch (error) {
-                            console.error("SmartHealthAI processing error:", error);
-                            setStatus("Failed to process audio.");
-                            Alert.alert("Error", "Failed to process audio. Please try again.");
+                            console.error("Error saving recording:", error);
+                            setStatus('symptoms.status.saveFailed');
+                            Alert.alert(t('common.error'), t('symptoms.saveFailedMessage'));
                             setIsProcessing(false);
                         }
                     }
                     console.log("Audio saved at: ", uri);
                 }
             } catch (error) {
-                setStatus("Failed to stop recording.");
+                setStatus('symptoms.status.stopFailed');
                 console.error("Error saving audio: ", error);
                 setIsProcessing(false);
                 setIsRecording(false);
@@ -207,7 +187,7 @@ export default function SymptomScreen({ navigation }: any) {
                 console.log('Requesting permissions...');
                 const permission = await Audio.requestPermissionsAsync();
                 if (!permission.granted) {
-                    setStatus("Microphone permission required.");
+                    setStatus('symptoms.status.permissionRequired');
                     console.log("Permission for recording was denied.");
                     return;
                 }
@@ -219,19 +199,47 @@ export default function SymptomScreen({ navigation }: any) {
                 });
                 
                 const { recording: newRecording } = await Audio.Recording.createAsync(
-                    Audio.RecordingOptionsPresets.HIGH_QUALITY
+                    AudioStore.getRecordingOptions(audioSettings.recordingQuality)
                 );
                 
                 setRecording(newRecording);
                 setIsRecording(true);
-                setStatus("Recording...");
+                setStatus('symptoms.status.recording');
             } catch (error) {
-                setStatus("Failed to start recording.");
+                setStatus('symptoms.status.startFailed');
                 console.error("Error starting recording: ", error);
             }
         }
     };
 
+    // Where a log's recording stands in the processing queue, if it is still there
+    const renderProcessingState = (log: SymptomLog) => {
+        const job = getJob(log.id);
+        if (!job) return null;
+
+        if (job.status === 'failed') {
+            return (
+                <TouchableOpacity style={styles.processingState} onPress={() => retryJob(log.id)}>
+                    <Ionicons name="alert-circle" size={14} color="#ef4444" />
+                    <Text style={[styles.processingStateText, styles.processingStateFailed]}>
+                        {t(job.stage === 'recommendations' ? 'symptoms.queue.recommendationsFailed' : 'symptoms.queue.processingFailed')}
+                    </Text>
+                </TouchableOpacity>
+            );
+        }
+
+        const retryAt = DateUtils.formatTime(new Date(job.nextAttemptAt), locale);
+        return (
+            <View style={styles.processingState}>
+                <Ionicons name="time-outline" size={14} color="#64748b" />
+                <Text style={styles.processingStateText}>
+                    {t(job.stage === 'recommendations' ? 'symptoms.queue.recommendationsPending' : 'symptoms.queue.waiting')}
+                    {job.attempts > 0 ? ` · ${t('symptoms.queue.retryingAt', { time: retryAt })}` : ''}
+                </Text>
+            </View>
+        );
+    };
+
     const renderLog = (log: SymptomLog) => (
         <TouchableOpacity key={log.id} style={styles.logCard} onPress={() => navigation.navigate('RecordingDetail', { 
           log: {
@@ -239,9 +247,12 @@ export default function SymptomScreen({ navigation }: any) {
             timestamp: log.timestamp.toISOString() // Convert Date to string for navigation
           }
         })}>
-          <Text style={styles.logTitle}>{log.summary}</Text>
+          <Text style={[styles.logTitle, log.processingStatus && styles.logTitlePending]}>
+            {log.processingStatus ? t('symptoms.pendingSummary') : log.summary}
+          </Text>
+          {renderProcessingState(log)}
           <View style={styles.logHeader}>
-            <Text style={styles.logDate}>{log.timestamp.toLocaleString()}</Text>
+            <Text style={styles.logDate}>{log.timestamp.toLocaleString(locale)}</Text>
             <Ionicons name="chevron-forward" size={20} color="#888" />
           </View>
         </TouchableOpacity>
@@ -255,8 +266,8 @@ export default function SymptomScreen({ navigation }: any) {
           
           <FeatureTutorial
             visible={!tutorialState.hasSeenSymptomTutorial && symptomLogs.length === 0}
-            title={featureTutorials.symptoms.title}
-            description={featureTutorials.symptoms.description}
+            title={t(featureTutorials.symptoms.title)}
+            description={t(featureTutorials.symptoms.description)}
             position="center"
             onComplete={completeSymptomTutorial}
             showSkip={false}
@@ -305,6 +316,31 @@ export default function SymptomScreen({ navigation }: any) {
               <Ionicons name="close" size={16} color="#64748b" />
             </TouchableOpacity>
           )}
+          {budgetNoticeVisible && budget?.level === 'exceeded' && (
+            <TouchableOpacity 
+              style={styles.followUpAlert} 
+              onPress={() => setBudgetNoticeVisible(false)}
+            >
+              <Text style={styles.followUpText}>
+                {t('symptoms.budgetPaused', {
+                  amount: `$${budget.monthlyCapUsd?.toFixed(2)}`,
+                  date: new Date(budget.resetsAt).toLocaleDateString(locale),
+                })}
+              </Text>
+              <Ionicons name="close" size={16} color="#64748b" />
+            </TouchableOpacity>
+          )}
+          {offlineNoticeVisible && (
+            <TouchableOpacity 
+              style={styles.followUpAlert} 
+              onPress={() => setOfflineNoticeVisible(false)}
+            >
+              <Text style={styles.followUpText}>
+                {t('symptoms.redFlagsPendingOffline', { emergency: RedFlagTriage.getEmergencyContacts(language).emergency })}
+              </Text>
+              <Ionicons name="close" size={16} color="#64748b" />
+            </TouchableOpacity>
+          )}
           <ScrollView contentContainerStyle={styles.logsContainer}>
             {symptomLogs.map(renderLog)}
           </ScrollView>
@@ -325,7 +361,7 @@ export default function SymptomScreen({ navigation }: any) {
               >
                 <Ionicons name="sync" size={32} color={colors.accent} />
               </Animated.View>
-              <Text style={styles.processingText}>Processing your recording...</Text>
+              <Text style={styles.processingText}>{t('symptoms.processingRecording')}</Text>
             </View>
           ) : (
             <Animated.View
@@ -379,6 +415,10 @@ export default function SymptomScreen({ navigation }: any) {
       logHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 8 },
       logDate: { color: '#64748b', fontSize: 12, fontWeight: '500' },
       logTitle: { fontSize: 18, color: '#1e293b', fontWeight: '600' },
+      logTitlePending: { color: '#64748b', fontStyle: 'italic' },
+      processingState: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 6 },
+      processingStateText: { color: '#64748b', fontSize: 12 },
+      processingStateFailed: { color: '#ef4444' },
       recordButton: {
         position: 'absolute', bottom: 24, alignSelf: 'center',
         backgroundColor: colors.accent, width: 100, height: 100, borderRadius: 50,
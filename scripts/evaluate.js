@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// EVALUATE - Score symptom classification and recommendations offline
+// ============================================================================
+//
+// PURPOSE: Compare models and prompt versions on the golden dataset before
+//          shipping a change (scoring lives in utils/evaluation.ts)
+// USAGE:
+//   npm run eval                                       # Replay fixtures/llm/eval.json
+//   npm run eval -- --live                             # Call the configured endpoint, e.g. a
+//                                                      # local model via LLM_BASE_URL / LLM_MODEL
+//   OPENAI_API_KEY=... npm run eval -- --record        # Call it and save the replies for replay
+//   npm run eval -- --analysis-only --json report.json
+// OPTIONS:
+//   --dataset <file>   Golden dataset (default fixtures/eval/symptoms.json)
+//   --fixture <file>   Replies to replay or record (default fixtures/llm/eval.json)
+//   --live / --record  Call the model instead of replaying; --record also saves the fixture
+//   --analysis-only    Skip generateRecommendationsFromSymptom
+//   --json <file>      Also write the full report, including every case
+//   --verbose          Keep the app's own console output
+// NOTE: Replayed replies match on model + exact prompt text, so re-record after
+//       editing a prompt (utils/agents/prompts.ts) or changing LLM_MODEL(S)
+// FIXTURE: The committed fixtures/llm/eval.json holds reference replies written
+//          from the golden labels (see its "note"), so a clean checkout runs;
+//          it scores the runner and the red-flag rules, not a model
+
+const fs = require('fs');
+const path = require('path');
+const { install, ROOT } = require('./node-runtime');
+
+const parseArgs = (argv) => {
+  const options = {
+    dataset: 'fixtures/eval/symptoms.json',
+    fixture: 'fixtures/llm/eval.json',
+    mode: 'replay',
+    recommendations: true,
+    json: null,
+    verbose: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--dataset': options.dataset = argv[++i]; break;
+      case '--fixture': options.fixture = argv[++i]; break;
+      case '--live': options.mode = 'live'; break;
+      case '--record': options.mode = 'record'; break;
+      case '--analysis-only': options.recommendations = false; break;
+      case '--json': options.json = argv[++i]; break;
+      case '--verbose': options.verbose = true; break;
+      default:
+        console.error(`Unknown option: ${argv[i]}`);
+        process.exit(1);
+    }
+  }
+  return options;
+};
+
+const readJson = (file) => JSON.parse(fs.readFileSync(path.resolve(ROOT, file), 'utf8'));
+
+const writeJson = (file, data) => {
+  const target = path.resolve(ROOT, file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, `${JSON.stringify(data, null, 2)}\n`);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  install();
+
+  const { LLMClient, OpenAICompatibleProvider } = require('../utils/llm');
+  const { ReplayProvider, RecordingProvider } = require('../utils/llmFixtures');
+  const { StorageManager } = require('../utils/storage');
+  const { MemoryStorageBackend } = require('../utils/storageBackends');
+  const { AIService } = require('../utils/aiService');
+  const { Evaluation } = require('../utils/evaluation');
+
+  const dataset = Evaluation.validateDataset(readJson(options.dataset));
+  StorageManager.configure(new MemoryStorageBackend());
+
+  let recorder = null;
+  let fixtureNote = null;
+  if (options.mode === 'replay') {
+    if (!fs.existsSync(path.resolve(ROOT, options.fixture))) {
+      console.error(`No fixture at ${options.fixture}. Record one with --record, or run against a model with --live.`);
+      process.exit(1);
+    }
+    const fixture = readJson(options.fixture);
+    fixtureNote = fixture.note || null;
+    LLMClient.setProviders({ chat: new ReplayProvider(fixture) });
+  } else {
+    const live = new OpenAICompatibleProvider(LLMClient.getConfig().chat);
+    recorder = options.mode === 'record' ? new RecordingProvider(live) : null;
+    LLMClient.setProviders({ chat: recorder || live });
+  }
+
+  const ai = new AIService('eval');
+  const target = {
+    analyze: (transcript) => ai.analyzeTranscript(transcript),
+    ...(options.recommendations && {
+      recommend: (log) => ai.generateRecommendationsFromSymptom(log, [log], []),
+    }),
+  };
+
+  const { log, warn } = console;
+  if (!options.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  let report;
+  try {
+    report = await Evaluation.run(dataset, target, (result, index) => {
+      const status = result.analysisError ? 'error' : result.recommendationsError ? 'recommendations error' : 'ok';
+      process.stderr.write(`[${index + 1}/${dataset.cases.length}] ${result.id}: ${status}\n`);
+    });
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  if (recorder) {
+    writeJson(options.fixture, recorder.toFixture());
+    console.log(`Recorded ${recorder.toFixture().chat.length} replies to ${options.fixture}`);
+  }
+  if (options.json) {
+    writeJson(options.json, report);
+  }
+
+  if (fixtureNote) {
+    console.log(`\nNote on ${options.fixture}: ${fixtureNote}`);
+  }
+  console.log(`\n${Evaluation.formatReport(report)}`);
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// LLM STAND-IN SERVER - A local stand-in for the OpenAI chat and audio endpoints
+// ============================================================================
+//
+// PURPOSE: Run the app or the agent pipeline against recorded model replies,
+//          with no network and no API key
+// USAGE:
+//   npm run llm:stand-in                                   # Replay fixtures/llm/recorded.json
+//   npm run llm:stand-in -- --fixture fixtures/llm/knee.json --port 8787
+//   OPENAI_API_KEY=... npm run llm:stand-in -- --record    # Proxy to OpenAI and record
+// Then point the app at it: LLM_BASE_URL=http://<this machine>:8787/v1
+//
+// FIXTURES: Same format and matching rules as utils/llmFixtures.ts (chat by
+//           model + messages, transcriptions by audio file name), so files
+//           recorded here replay in-process with ReplayProvider and vice versa
+// DEPENDENCIES: None - plain Node.js (18+ for fetch)
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const FIXTURE_VERSION = 1;
+
+const parseArgs = (argv) => {
+  const options = {
+    fixture: 'fixtures/llm/recorded.json',
+    port: 8787,
+    record: false,
+    upstream: process.env.UPSTREAM_BASE_URL || 'https://api.openai.com/v1',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--fixture': options.fixture = argv[++i]; break;
+      case '--port': options.port = Number(argv[++i]); break;
+      case '--record': options.record = true; break;
+      case '--upstream': options.upstream = argv[++i]; break;
+      default:
+        console.error(`Unknown option: ${argv[i]}`);
+        process.exit(1);
+    }
+  }
+  options.upstream = options.upstream.replace(/\/+$/, '');
+  return options;
+};
+
+const options = parseArgs(process.argv.slice(2));
+const apiKey = process.env.UPSTREAM_API_KEY || process.env.OPENAI_API_KEY;
+
+// ============================================================================
+// FIXTURE STORE
+// ============================================================================
+
+/**
+ * Must match chatFixtureKey() in utils/llmFixtures.ts
+ */
+const chatFixtureKey = (request) =>
+  JSON.stringify([request.model, request.messages.map(message => [message.role, message.content])]);
+
+const loadFixture = () => {
+  if (!fs.existsSync(options.fixture)) {
+    return { version: FIXTURE_VERSION, chat: [], transcriptions: [] };
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(options.fixture, 'utf8'));
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported LLM fixture version: ${fixture.version}`);
+  }
+  return fixture;
+};
+
+const fixture = loadFixture();
+const served = new Map(); // Replies for a repeated request come back in order, then the last repeats
+
+const nextReply = (key, replies) => {
+  const index = served.get(key) || 0;
+  served.set(key, index + 1);
+  return replies[Math.min(index, replies.length - 1)];
+};
+
+const saveFixture = () => {
+  fs.mkdirSync(path.dirname(options.fixture), { recursive: true });
+  fs.writeFileSync(options.fixture, JSON.stringify(fixture, null, 2));
+};
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, message, type) => {
+  sendJson(res, status, { error: { message, type, code: null } });
+};
+
+/**
+ * The model and file name fields of a transcription upload (enough to match fixtures)
+ */
+const parseTranscriptionForm = (body) => {
+  const text = body.toString('latin1');
+  const model = text.match(/name="model"\r\n\r\n([^\r]*)\r\n/);
+  const file = text.match(/name="file"; filename="([^"]*)"/);
+  return { model: model ? model[1] : '', audio: file ? path.basename(file[1]) : '' };
+};
+
+const forward = async (route, req, body) => {
+  const response = await fetch(`${options.upstream}${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': req.headers['content-type'],
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body,
+  });
+  return { status: response.status, data: await response.json().catch(() => ({})) };
+};
+
+// ============================================================================
+// ENDPOINTS
+// ============================================================================
+
+const handleChat = async (req, res) => {
+  const body = await readBody(req);
+  const request = JSON.parse(body.toString('utf8'));
+  const key = chatFixtureKey(request);
+
+  if (options.record) {
+    const { status, data } = await forward('/chat/completions', req, body);
+    if (status === 200) {
+      fixture.chat.push({
+        request: { model: request.model, messages: request.messages },
+        response: {
+          content: data.choices?.[0]?.message?.content ?? '',
+          model: data.model || request.model,
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.prompt_tokens ?? 0,
+                completionTokens: data.usage.completion_tokens ?? 0,
+                totalTokens: data.usage.total_tokens ?? 0,
+              }
+            : null,
+        },
+      });
+      saveFixture();
+      console.log(`📼 Recorded ${request.model} reply (${fixture.chat.length} total)`);
+    }
+    return sendJson(res, status, data);
+  }
+
+  const replies = fixture.chat.filter(entry => chatFixtureKey(entry.request) === key).map(entry => entry.response);
+  if (replies.length === 0) {
+    const lastMessage = request.messages[request.messages.length - 1]?.content ?? '';
+    console.warn(`⚠️ No recorded reply for ${request.model}: ${lastMessage.slice(0, 120)}`);
+    return sendError(res, 404, `No recorded reply for this ${request.model} request`, 'fixture_not_found');
+  }
+
+  const reply = nextReply(`chat:${key}`, replies);
+  console.log(`▶️ Replayed ${request.model} reply`);
+  sendJson(res, 200, {
+    id: `chatcmpl-replay-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: reply.model,
+    choices: [{ index: 0, message: { role: 'assistant', content: reply.content }, finish_reason: 'stop' }],
+    ...(reply.usage && {
+      usage: {
+        prompt_tokens: reply.usage.promptTokens,
+        completion_tokens: reply.usage.completionTokens,
+        total_tokens: reply.usage.totalTokens,
+      },
+    }),
+  });
+};
+
+const handleTranscription = async (req, res) => {
+  const body = await readBody(req);
+  const { model, audio } = parseTranscriptionForm(body);
+
+  if (options.record) {
+    const { status, data } = await forward('/audio/transcriptions', req, body);
+    if (status === 200) {
+      fixture.transcriptions.push({ audio, model, text: data.text ?? '' });
+      saveFixture();
+      console.log(`📼 Recorded transcription of ${audio}`);
+    }
+    return sendJson(res, status, data);
+  }
+
+  const replies = fixture.transcriptions
+    .filter(entry => entry.model === model && entry.audio === audio)
+    .map(entry => entry.text);
+  if (replies.length === 0) {
+    console.warn(`⚠️ No recorded transcription for ${audio} with ${model}`);
+    return sendError(res, 404, `No recorded transcription for ${audio}`, 'fixture_not_found');
+  }
+
+  console.log(`▶️ Replayed transcription of ${audio}`);
+  sendJson(res, 200, { text: nextReply(`transcription:${model}:${audio}`, replies) });
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = (req.url || '').split('?')[0].replace(/^\/v1/, '');
+
+  try {
+    if (req.method === 'POST' && route === '/chat/completions') {
+      return await handleChat(req, res);
+    }
+    if (req.method === 'POST' && route === '/audio/transcriptions') {
+      return await handleTranscription(req, res);
+    }
+    if (req.method === 'GET' && route === '/models') {
+      const models = new Set([
+        ...fixture.chat.map(entry => entry.request.model),
+        ...fixture.transcriptions.map(entry => entry.model),
+      ]);
+      return sendJson(res, 200, { object: 'list', data: [...models].map(id => ({ id, object: 'model', owned_by: 'stand-in' })) });
+    }
+    sendError(res, 404, `Unknown endpoint: ${req.method} ${req.url}`, 'invalid_request_error');
+  } catch (error) {
+    console.error('Stand-in server error:', error);
+    sendError(res, 500, error instanceof Error ? error.message : 'Internal error', 'server_error');
+  }
+});
+
+if (options.record && !apiKey) {
+  console.warn('⚠️ Recording without OPENAI_API_KEY / UPSTREAM_API_KEY; upstream requests will be unauthenticated');
+}
+
+server.listen(options.port, () => {
+  console.log(`🤖 LLM stand-in ${options.record ? `recording from ${options.upstream}` : 'replaying'} ${options.fixture}`);
+  console.log(`   ${fixture.chat.length} chat replies, ${fixture.transcriptions.length} transcriptions`);
+  console.log(`   Set LLM_BASE_URL=http://<this machine>:${options.port}/v1`);
+});
@@ -0,0 +1,133 @@
+// ============================================================================
+// NODE RUNTIME - Load the app's TypeScript modules in plain Node.js
+// ============================================================================
+//
+// PURPOSE: Let scripts (e.g. scripts/evaluate.js) run utils/ and the agents
+//          outside Expo, with no bundler
+// USAGE: require('./node-runtime').install(); then require('../utils/aiService')
+// HOW:
+// - .ts files are transpiled on load with the project's TypeScript (no type check)
+// - '@env' reads .env and process.env, like react-native-dotenv does at build time
+// - Native modules the utils import are replaced with in-memory versions:
+//   nothing touches the device keychain, file system or audio
+// LIMITS: Enough for the AI pipeline and storage. Audio files cannot be read,
+//         so transcription only works with replayed fixtures.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const Module = require('module');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+
+/**
+ * .env as react-native-dotenv would see it; process.env wins
+ */
+const loadEnv = () => {
+  const env = {};
+  const file = path.join(ROOT, '.env');
+  if (fs.existsSync(file)) {
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+      if (match) env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return { ...env, ...process.env };
+};
+
+const createMemoryKeyValueStore = () => {
+  const items = new Map();
+  return {
+    getItem: async (key) => (items.has(key) ? items.get(key) : null),
+    setItem: async (key, value) => { items.set(key, value); },
+    removeItem: async (key) => { items.delete(key); },
+    multiGet: async (keys) => keys.map(key => [key, items.has(key) ? items.get(key) : null]),
+    multiSet: async (entries) => { entries.forEach(([key, value]) => items.set(key, value)); },
+    multiRemove: async (keys) => { keys.forEach(key => items.delete(key)); },
+    getAllKeys: async () => Array.from(items.keys()),
+    clear: async () => { items.clear(); },
+  };
+};
+
+const unavailable = (name) => async () => {
+  throw new Error(`${name} is not available in the Node runtime`);
+};
+
+const createNativeModules = () => {
+  const secureItems = new Map();
+
+  return {
+    '@env': loadEnv(),
+    'react-native': {
+      AppState: { currentState: 'active', addEventListener: () => ({ remove: () => {} }) },
+      Platform: { OS: 'node', select: (options) => options.default },
+    },
+    '@react-native-async-storage/async-storage': createMemoryKeyValueStore(),
+    'expo-secure-store': {
+      AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 0,
+      getItemAsync: async (key) => (secureItems.has(key) ? secureItems.get(key) : null),
+      setItemAsync: async (key, value) => { secureItems.set(key, value); },
+      deleteItemAsync: async (key) => { secureItems.delete(key); },
+    },
+    'expo-crypto': {
+      getRandomBytes: (length) => new Uint8Array(crypto.randomBytes(length)),
+    },
+    'expo-sqlite': {
+      openDatabaseAsync: unavailable('expo-sqlite'),
+    },
+    'expo-file-system': {
+      documentDirectory: 'file:///node-runtime/',
+      EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+      getInfoAsync: async () => ({ exists: false }),
+      makeDirectoryAsync: async () => {},
+      readDirectoryAsync: async () => [],
+      deleteAsync: async () => {},
+      moveAsync: unavailable('expo-file-system'),
+      writeAsStringAsync: unavailable('expo-file-system'),
+    },
+    'expo-av': {
+      Audio: {
+        RecordingOptionsPresets: { HIGH_QUALITY: { android: {}, ios: {}, web: {} } },
+        IOSAudioQuality: { MIN: 0, LOW: 32, MEDIUM: 64, HIGH: 96, MAX: 127 },
+        Sound: { createAsync: unavailable('expo-av') },
+      },
+    },
+  };
+};
+
+let installed = false;
+
+/**
+ * Register the .ts loader and the native module replacements (idempotent)
+ */
+const install = () => {
+  if (installed) return;
+  installed = true;
+
+  const nativeModules = createNativeModules();
+  const originalLoad = Module._load;
+  Module._load = function (request, parent, isMain) {
+    if (Object.prototype.hasOwnProperty.call(nativeModules, request)) {
+      return nativeModules[request];
+    }
+    return originalLoad.call(this, request, parent, isMain);
+  };
+
+  const compilerOptions = {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+    jsx: ts.JsxEmit.React,
+    esModuleInterop: true,
+    sourceMap: false,
+  };
+  const compile = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = ts.transpileModule(source, { compilerOptions, fileName: filename });
+    module._compile(outputText, filename);
+  };
+  require.extensions['.ts'] = compile;
+  require.extensions['.tsx'] = compile;
+};
+
+module.exports = { install, ROOT };
@@ -0,0 +1,77 @@
+// ============================================================================
+// AI BUDGET TEST - Monthly spend survives ledger trimming
+// ============================================================================
+//
+// PURPOSE: The ledger keeps only the newest MAX_LEDGER_ENTRIES calls, so the
+//          month's spend must come from its running total, not the entries
+// USAGE: npm test
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { install } = require('../scripts/node-runtime');
+
+install();
+
+const { StorageManager, STORAGE_KEYS } = require('../utils/storage');
+const { MemoryStorageBackend } = require('../utils/storageBackends');
+const { CostLedger, createEmptyLedger, monthKey } = require('../utils/costLedger');
+const { AIBudget } = require('../utils/aiBudget');
+
+const NOW = new Date(2025, 2, 14, 12);
+
+const entry = (at, cost) => ({
+  at: at.toISOString(),
+  task: 'recommendations',
+  model: 'gpt-4o',
+  trigger: 'reactive',
+  promptTokens: 1000,
+  completionTokens: 500,
+  audioSeconds: 0,
+  cost,
+  priced: true,
+});
+
+const totals = (calls, cost) => ({ calls, cost, promptTokens: 0, completionTokens: 0, audioSeconds: 0, unpricedCalls: 0 });
+
+const quietly = async (run) => {
+  const { log } = console;
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('spend this month counts calls already trimmed from the ledger', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  await quietly(async () => {
+    await StorageManager.save(STORAGE_KEYS.costLedger, {
+      ...createEmptyLedger(),
+      entries: [entry(NOW, 0.5)], // The only call left after trimming
+      totalsByMonth: { [monthKey(NOW)]: totals(2500, 9.5), '2025-02': totals(10, 40) },
+    });
+    await AIBudget.updateSettings({ monthlyCapUsd: 10 });
+  });
+
+  const state = await AIBudget.getState(NOW);
+
+  assert.equal(state.spentThisMonth, 9.5);
+  assert.equal(state.level, 'near');
+});
+
+test('a ledger from before monthly totals starts from the calls it holds', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  const { totalsByMonth, ...legacy } = {
+    ...createEmptyLedger(),
+    entries: [entry(new Date(2025, 1, 27), 2), entry(new Date(2025, 2, 1), 1), entry(NOW, 0.25)],
+  };
+  await quietly(() => StorageManager.save(STORAGE_KEYS.costLedger, legacy));
+
+  assert.equal((await CostLedger.getMonthTotals(NOW)).cost, 1.25);
+  assert.equal((await CostLedger.getMonthTotals(new Date(2025, 1, 10))).calls, 1);
+});
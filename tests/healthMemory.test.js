@@ -0,0 +1,96 @@
+// ============================================================================
+// HEALTH MEMORY TEST - Deleted and expired logs leave the persisted memory
+// ============================================================================
+//
+// PURPOSE: The memory holds transcript excerpts and summaries that go into
+//          agent prompts, so it must forget what the user deleted: everything
+//          on clear-all, what a retention purge removed, and deleted logs
+//          even when no logs remain
+// USAGE: npm test
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { install } = require('../scripts/node-runtime');
+
+install();
+
+const { StorageManager } = require('../utils/storage');
+const { MemoryStorageBackend } = require('../utils/storageBackends');
+const { HealthMemoryStore, createEmptyHealthMemory } = require('../utils/healthMemoryStore');
+
+const NOW = new Date('2025-03-14T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days) => new Date(NOW.getTime() - days * DAY_MS);
+
+const log = (id, days) => ({
+  id,
+  timestamp: daysAgo(days),
+  summary: `Summary of ${id}`,
+  transcript: `Transcript of ${id}`,
+  healthDomain: 'general',
+  severity: 'mild',
+  impact: 'low',
+});
+
+const summary = (period, days, logCount) => ({
+  period,
+  start: daysAgo(days).toISOString(),
+  end: daysAgo(days - (period === 'week' ? 7 : 30)).toISOString(),
+  logCount,
+  severityCounts: { mild: logCount, moderate: 0, severe: 0 },
+  domainCounts: { general: logCount },
+  summary: `${logCount} logs`,
+});
+
+const memoryWith = (logs, weeks = [], months = []) => ({
+  ...HealthMemoryStore.ingest(createEmptyHealthMemory(), logs),
+  weeklySummaries: weeks,
+  monthlySummaries: months,
+  totalLogs: logs.length + [...weeks, ...months].reduce((total, period) => total + period.logCount, 0),
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('clear-all removes the persisted memory', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  await HealthMemoryStore.save('default', memoryWith([log('log-1', 2)], [summary('week', 30, 3)]));
+
+  await HealthMemoryStore.clear('default');
+
+  assert.deepEqual(await HealthMemoryStore.load('default'), createEmptyHealthMemory());
+});
+
+test('a retention purge drops recent logs and summaries from before the cutoff', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  const memory = memoryWith(
+    [log('log-old', 40), log('log-new', 3)],
+    [summary('week', 60, 2), summary('week', 20, 4)],
+    [summary('month', 400, 10)]
+  );
+  await HealthMemoryStore.save('default', memory);
+
+  await HealthMemoryStore.update('default', stored => HealthMemoryStore.forgetBefore(stored, daysAgo(30)));
+
+  const pruned = await HealthMemoryStore.load('default');
+  assert.deepEqual(pruned.recentLogs.map(entry => entry.id), ['log-new']);
+  assert.deepEqual(pruned.unanalyzedLogIds, ['log-new']);
+  assert.deepEqual(pruned.weeklySummaries.map(week => week.logCount), [4]);
+  assert.deepEqual(pruned.monthlySummaries, []);
+  assert.equal(pruned.totalLogs, 5);
+});
+
+test('deleted logs are forgotten even when no logs remain', () => {
+  const memory = memoryWith([log('log-1', 3), log('log-2', 1)]);
+
+  const forgotten = HealthMemoryStore.forgetMissing(memory, []);
+  assert.deepEqual(forgotten.recentLogs, []);
+  assert.deepEqual(forgotten.unanalyzedLogIds, []);
+  assert.equal(forgotten.totalLogs, 0);
+
+  const oneDeleted = HealthMemoryStore.forgetLogs(memory, ['log-1']);
+  assert.deepEqual(oneDeleted.recentLogs.map(entry => entry.id), ['log-2']);
+  assert.equal(oneDeleted.totalLogs, 1);
+});
@@ -0,0 +1,226 @@
+// ============================================================================
+// PIPELINE TEST - AIService.processSymptomAutonomously on recorded model replies
+// ============================================================================
+//
+// PURPOSE: Run the whole agent pipeline (SymptomAnalyzer, HealthMemoryAgent,
+//          DecisionEngineAgent, ActionCoordinatorAgent) offline and deterministically
+//          and check what AIService records about the recommendations it makes
+// USAGE:
+//   npm test
+//   RECORD=1 OPENAI_API_KEY=... npm test   # Re-record fixtures/llm/pipeline.json
+// NOTE: Replies match on the exact prompt text, so re-record after editing a
+//       prompt (utils/agents/prompts.ts). The clock is fixed and the time zone
+//       is UTC so dates in prompts are the same on every run. Audio can't be
+//       read in Node, so recording keeps the committed transcription.
+// FIXTURE: The committed replies are hand-written in the models' reply format
+//          so the test runs from a clean checkout; RECORD=1 replaces them.
+
+process.env.TZ = 'UTC';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { install, ROOT } = require('../scripts/node-runtime');
+
+install();
+
+const { LLMClient, OpenAICompatibleProvider, DEFAULT_TASK_MODELS } = require('../utils/llm');
+const { ReplayProvider, RecordingProvider } = require('../utils/llmFixtures');
+const { StorageManager } = require('../utils/storage');
+const { MemoryStorageBackend } = require('../utils/storageBackends');
+const { PipelineTrace } = require('../utils/pipelineTrace');
+const { AIService } = require('../utils/aiService');
+
+const FIXTURE = path.join(ROOT, 'fixtures/llm/pipeline.json');
+const RECORD = process.env.RECORD === '1';
+const NOW = Date.parse('2025-03-14T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// FIXED CLOCK
+// ============================================================================
+
+const RealDate = Date;
+class FixedDate extends RealDate {
+  constructor(...args) {
+    super(...(args.length > 0 ? args : [NOW]));
+  }
+
+  static now() {
+    return NOW;
+  }
+}
+global.Date = FixedDate;
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+const daysAgo = (days) => new Date(NOW - days * DAY_MS);
+
+const HISTORY = [
+  {
+    id: 'log-knee-1',
+    timestamp: daysAgo(9),
+    summary: 'Right knee pain after running',
+    transcript: 'My right knee has a dull ache after my run this morning, about a 3 out of 10.',
+    healthDomain: 'exercise',
+    severity: 'mild',
+    impact: 'low',
+  },
+  {
+    id: 'log-knee-2',
+    timestamp: daysAgo(5),
+    summary: 'Right knee pain on the stairs',
+    transcript: 'The knee again. It hurts going down the stairs at work, maybe a 5 out of 10.',
+    healthDomain: 'exercise',
+    severity: 'moderate',
+    impact: 'medium',
+  },
+  {
+    id: 'log-knee-3',
+    timestamp: daysAgo(2),
+    summary: 'Right knee pain at night',
+    transcript: 'Woke up twice last night because my knee was throbbing.',
+    healthDomain: 'exercise',
+    severity: 'moderate',
+    impact: 'medium',
+  },
+];
+
+const recommendation = (id, title, category) => ({
+  id,
+  title,
+  description: title,
+  priority: 'MEDIUM',
+  actionItems: [],
+  urgency: 'within days',
+  category,
+  healthDomain: 'exercise',
+  medicalRationale: '',
+  symptomsTriggering: ['Right knee pain'],
+  severityIndicators: [],
+  followUpRequired: false,
+  riskLevel: 'low',
+  interventionType: 'self_care',
+  createdAt: daysAgo(4),
+  isCompleted: false,
+  isCancelled: false,
+});
+
+const EXISTING_RECOMMENDATIONS = [
+  recommendation('rec-rest', 'Rest the knee and pause running', 'lifestyle'),
+  recommendation('rec-strength', 'Start daily leg strengthening exercises', 'lifestyle'),
+];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('processSymptomAutonomously runs the four agents on recorded replies', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  // Recorded replies are keyed by model, so .env overrides must not apply
+  LLMClient.configure({ models: DEFAULT_TASK_MODELS });
+
+  const fixture = JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+  const replay = new ReplayProvider(fixture);
+  const recorder = RECORD ? new RecordingProvider(new OpenAICompatibleProvider(LLMClient.getConfig().chat)) : null;
+  LLMClient.setProviders({ chat: recorder || replay, transcription: replay });
+
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  let response;
+  try {
+    response = await new AIService('test').processSymptomAutonomously(
+      'file:///recordings/knee-swelling.m4a',
+      HISTORY,
+      EXISTING_RECOMMENDATIONS
+    );
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  if (recorder) {
+    const recorded = { ...recorder.toFixture(), transcriptions: fixture.transcriptions };
+    fs.writeFileSync(FIXTURE, `${JSON.stringify(recorded, null, 2)}\n`);
+    log(`Recorded ${recorded.chat.length} replies to ${path.relative(ROOT, FIXTURE)}`);
+  } else {
+    // Every recorded reply was used, and nothing unrecorded was asked for
+    assert.equal(replay.requestCount, fixture.chat.length + fixture.transcriptions.length);
+  }
+
+  const { decision, strategy, memoryContext } = response;
+
+  // Health memory statistics are computed locally from the history
+  assert.deepEqual(memoryContext.patterns.map(pattern => pattern.symptom), ['Right knee pain at night']);
+  assert.equal(memoryContext.trends.severity, 'moderate');
+
+  // The decision came from the model, not from getFallbackDecision
+  assert.ok(decision.generatedBy, 'decision has no generatedBy, so a fallback was used');
+  assert.equal(decision.generatedBy.usedFallback, undefined);
+  assert.deepEqual(decision.provenance.sourceLogIds, ['log-knee-3', 'log-knee-2', 'log-knee-1']);
+  assert.ok(decision.resolvedActions.length > 0);
+  assert.ok(strategy.subStrategies.length > 0);
+  assert.ok(strategy.providerRecommendations.length > 0);
+
+  // The run was traced without any fallback
+  const [trace] = await PipelineTrace.getTraces();
+  assert.equal(trace.pipeline, 'process_symptom');
+  assert.equal(trace.status, 'ok');
+  assert.deepEqual(
+    trace.steps.filter(step => step.kind === 'agent').map(step => step.name),
+    [
+      'SymptomAnalyzer.analyzeSymptom',
+      'HealthMemoryAgent.analyzeHealthMemory',
+      'DecisionEngineAgent.makeHealthDecision',
+      'ActionCoordinatorAgent.createHealthStrategy',
+    ]
+  );
+
+  if (!RECORD) {
+    assert.equal(decision.priority, 'high');
+    assert.equal(decision.primaryAction, 'Book an appointment with a sports medicine doctor to examine the right knee');
+    assert.deepEqual(decision.conflicts, ['Pausing running conflicts with starting daily leg strengthening']);
+    assert.equal(strategy.providerRecommendations[0].type, 'Sports medicine physician');
+  }
+});
+
+test('generateRecommendationsFromSymptom records the model\'s reasoning in the provenance', async () => {
+  StorageManager.configure(new MemoryStorageBackend());
+  LLMClient.configure({ models: DEFAULT_TASK_MODELS });
+
+  const reply = {
+    recommendations: [{
+      title: 'See a sports medicine doctor',
+      description: 'Have the right knee examined this week.',
+      priority: 'HIGH',
+      urgency: 'within days',
+      category: 'appointment',
+      medicalRationale: 'Knee pain that now wakes you at night and keeps recurring needs an examination.',
+      riskLevel: 'medium',
+      symptomCorrelation: 'Right knee pain at night',
+    }],
+  };
+  const model = {
+    name: 'canned',
+    complete: async (request) => ({ content: JSON.stringify(reply), model: request.model, usage: null }),
+    transcribe: async () => '',
+  };
+  LLMClient.setProviders({ chat: model, transcription: model });
+
+  const { log } = console;
+  console.log = () => {};
+  let recommendations;
+  try {
+    recommendations = await new AIService('test').generateRecommendationsFromSymptom(HISTORY[2], HISTORY, EXISTING_RECOMMENDATIONS);
+  } finally {
+    console.log = log;
+  }
+
+  assert.equal(recommendations.length, 1);
+  assert.equal(recommendations[0].provenance.decisionReasoning, reply.recommendations[0].medicalRationale);
+  assert.deepEqual(recommendations[0].provenance.sourceLogIds, ['log-knee-3', 'log-knee-2', 'log-knee-1']);
+});
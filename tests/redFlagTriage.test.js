@@ -0,0 +1,91 @@
+// ============================================================================
+// RED-FLAG TRIAGE TEST - Local emergency rules on the golden set and edge cases
+// ============================================================================
+//
+// PURPOSE: The rules run before any model call, so a false positive opens the
+//          emergency screen and a false negative misses an emergency
+// USAGE: npm test
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { install, ROOT } = require('../scripts/node-runtime');
+
+install();
+
+const { RedFlagTriage } = require('../utils/redFlagTriage');
+
+const GOLDEN_SET = path.join(ROOT, 'fixtures/eval/symptoms.json');
+
+const ruleIds = (text) => RedFlagTriage.evaluate(text).map(match => match.rule.id);
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('every golden-set case matches exactly its expected red flags', () => {
+  const { cases } = JSON.parse(fs.readFileSync(GOLDEN_SET, 'utf8'));
+  for (const evalCase of cases) {
+    assert.deepEqual(ruleIds(evalCase.transcript).sort(), [...evalCase.expected.redFlags].sort(), evalCase.id);
+  }
+});
+
+test('arm weakness from an injury is not a stroke', () => {
+  assert.deepEqual(ruleIds("Now I can't lift my arm above my head without sharp pain."), []);
+  assert.deepEqual(ruleIds('My arm went weak after the last set of curls.'), []);
+});
+
+test('hurting yourself by accident is not suicidal ideation', () => {
+  assert.deepEqual(ruleIds('I hurt myself lifting boxes at work, my back is sore.'), []);
+  assert.deepEqual(ruleIds('I think I hurt myself at the gym yesterday.'), []);
+});
+
+test('wanting to hurt yourself is suicidal ideation', () => {
+  assert.deepEqual(ruleIds("I keep thinking about hurting myself."), ['suicidal_ideation']);
+  assert.deepEqual(ruleIds('Sometimes I want to hurt myself.'), ['suicidal_ideation']);
+});
+
+test('sudden or one-sided arm weakness is a stroke', () => {
+  assert.deepEqual(ruleIds("I suddenly can't lift my arm and my hand feels numb."), ['stroke']);
+  assert.deepEqual(ruleIds('One arm went weak while I was watching TV.'), ['stroke']);
+});
+
+test('negated phrases do not match', () => {
+  assert.deepEqual(ruleIds('No chest pain and no shortness of breath, just a cough.'), []);
+  assert.deepEqual(ruleIds("I'm sad but I don't want to die."), []);
+  assert.deepEqual(ruleIds("I don't have chest pain, but I'm short of breath."), []);
+  assert.deepEqual(ruleIds('Short of breath without chest pain.'), []);
+});
+
+test('a negation that does not govern the phrase does not cancel it', () => {
+  assert.deepEqual(ruleIds("I've never had chest pain this bad and I can't breathe"), ['cardiac']);
+});
+
+test('Spanish, Hindi and Mandarin transcripts match in their own language', () => {
+  const languageRuleIds = (text, language) => RedFlagTriage.evaluate(text, language).map(match => match.rule.id);
+
+  assert.deepEqual(languageRuleIds('quiero suicidarme', 'es'), ['suicidal_ideation']);
+  assert.deepEqual(languageRuleIds('Me duele el pecho y no puedo respirar', 'es'), ['cardiac']);
+  assert.deepEqual(languageRuleIds('No quiero morir, solo estoy cansada.', 'es'), []);
+  assert.deepEqual(languageRuleIds('मेरे सीने में दर्द है और सांस लेने में तकलीफ हो रही है', 'hi'), ['cardiac']);
+  assert.deepEqual(languageRuleIds('सीने में दर्द नहीं है, बस खांसी है', 'hi'), []);
+  assert.deepEqual(languageRuleIds('我胸口痛，喘不过气', 'zh'), ['cardiac']);
+  assert.deepEqual(languageRuleIds('我不想死，只是很累', 'zh'), []);
+  assert.deepEqual(languageRuleIds('我有时候想自杀', 'zh'), ['suicidal_ideation']);
+});
+
+test('"ending it all" is suicidal ideation', () => {
+  assert.deepEqual(ruleIds("Some days I think about ending it all."), ['suicidal_ideation']);
+});
+
+test('guidance uses the numbers for the region', () => {
+  const rule = RedFlagTriage.getRule('suicidal_ideation');
+  const us = RedFlagTriage.describe(rule, 'en', { emergency: '911', crisis: '988' });
+  const cn = RedFlagTriage.describe(rule, 'zh', { emergency: '120' });
+
+  assert.match(us.steps[0], /988/);
+  assert.match(us.steps[1], /911/);
+  assert.equal(cn.steps.length, rule.guidance.length);
+  assert.match(cn.steps[0], /120/);
+});
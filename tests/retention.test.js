@@ -0,0 +1,61 @@
+// ============================================================================
+// RETENTION TEST - RetentionPolicy previews across profiles
+// ============================================================================
+//
+// PURPOSE: The combined preview is what the user confirms before a purge, so
+//          it must list every profile's expired data and nothing newer
+// USAGE: npm test
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { install } = require('../scripts/node-runtime');
+
+install();
+
+const { RetentionPolicy } = require('../utils/retention');
+
+const NOW = new Date('2025-03-14T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days) => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+const data = (logs, appointments = []) => ({
+  symptomLogs: logs.map(([id, days]) => ({ id, timestamp: daysAgo(days), audioURI: `file:///audio/${id}.m4a` })),
+  followUpQuestions: [],
+  completedRecommendations: [],
+  appointments: appointments.map(([id, days]) => ({ id, date: daysAgo(days) })),
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('combine sums every profile with expired data and skips the rest', () => {
+  const previews = {
+    me: RetentionPolicy.preview(data([['log-old', 40], ['log-new', 5]]), 30, NOW),
+    child: RetentionPolicy.preview(data([['child-old', 31]], [['appt-old', 60]]), 30, NOW),
+    partner: RetentionPolicy.preview(data([['partner-new', 1]]), 30, NOW),
+  };
+
+  const combined = RetentionPolicy.combine(previews, 30, NOW);
+
+  assert.deepEqual(combined.profiles.map(entry => entry.profileId), ['me', 'child']);
+  assert.deepEqual(combined.profiles[0].preview.symptomLogIds, ['log-old']);
+  assert.deepEqual(combined.profiles[1].preview.appointmentIds, ['appt-old']);
+  assert.equal(combined.counts.symptomLogs, 2);
+  assert.equal(combined.counts.audioFiles, 2);
+  assert.equal(combined.counts.appointments, 1);
+  assert.equal(combined.totalItems, 3);
+  assert.equal(combined.cutoff.toISOString(), daysAgo(30));
+});
+
+test('combine of profiles with nothing expired is empty', () => {
+  const combined = RetentionPolicy.combine(
+    { me: RetentionPolicy.preview(data([['log-new', 2]]), 30, NOW) },
+    30,
+    NOW
+  );
+
+  assert.deepEqual(combined.profiles, []);
+  assert.equal(combined.totalItems, 0);
+});
@@ -0,0 +1,141 @@
+// ============================================================================
+// STORAGE TEST - StorageManager backend migration and data key failures
+// ============================================================================
+//
+// PURPOSE: App.tsx moves every key from AsyncStorage into SQLite at startup;
+//          nothing may be lost, and a re-run must not overwrite newer data.
+//          A keystore that can't be read must not cost the user their data.
+// USAGE: npm test
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { install } = require('../scripts/node-runtime');
+
+install();
+
+const { StorageManager, STORAGE_KEYS } = require('../utils/storage');
+const { MemoryStorageBackend } = require('../utils/storageBackends');
+const { DataEncryption, KeyUnavailableError } = require('../utils/encryption');
+const SecureStore = require('expo-secure-store');
+
+// A backend that can't be opened, like SQLite failing at startup
+class UnavailableBackend extends MemoryStorageBackend {
+  async getAllKeys() {
+    throw new Error('database is locked');
+  }
+}
+
+const quietly = async (run) => {
+  const { log, error } = console;
+  console.log = () => {};
+  console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+test('migrateTo copies every key as stored, switches backend and empties the old one', async () => {
+  const source = new MemoryStorageBackend({ '@nexst_profiles': 'cipher-1', '@nexst_privacy_settings': 'cipher-2' });
+  const target = new MemoryStorageBackend();
+  StorageManager.configure(source);
+
+  const moved = await quietly(() => StorageManager.migrateTo(target));
+
+  assert.equal(moved, 2);
+  assert.equal(StorageManager.getBackend(), target);
+  assert.equal(await target.getItem('@nexst_profiles'), 'cipher-1');
+  assert.equal(await target.getItem('@nexst_privacy_settings'), 'cipher-2');
+  assert.deepEqual(await source.getAllKeys(), []);
+});
+
+test('migrateTo keeps keys the target already holds', async () => {
+  // A previous run copied the data, the app wrote newer values, but the old backend was never emptied
+  const source = new MemoryStorageBackend({ '@nexst_profiles': 'old', '@nexst_onboarding_complete': 'true' });
+  const target = new MemoryStorageBackend({ '@nexst_profiles': 'new' });
+  StorageManager.configure(source);
+
+  const moved = await quietly(() => StorageManager.migrateTo(target));
+
+  assert.equal(moved, 1);
+  assert.equal(await target.getItem('@nexst_profiles'), 'new');
+  assert.equal(await target.getItem('@nexst_onboarding_complete'), 'true');
+});
+
+test('after a fallback, what the app wrote to the old backend wins over stale copies', async () => {
+  const indexKey = 'symptomLogIndex:default';
+  const source = new MemoryStorageBackend();
+  StorageManager.configure(source);
+  await quietly(() => StorageManager.save(indexKey, ['log-1']));
+
+  // A run copied the index but couldn't empty the old backend
+  const target = new MemoryStorageBackend({ [indexKey]: await source.getItem(indexKey) });
+
+  // The target fails to open, so the app falls back and keeps writing to the old backend
+  await assert.rejects(() => StorageManager.migrateTo(new UnavailableBackend()));
+  await quietly(() => StorageManager.recordFallback());
+  await quietly(() => StorageManager.save(indexKey, ['log-1', 'log-2']));
+  await quietly(() => StorageManager.save('symptomLog:default:log-2', { id: 'log-2' }));
+
+  const moved = await quietly(() => StorageManager.migrateTo(target));
+
+  assert.equal(moved, 2);
+  assert.equal(StorageManager.getBackend(), target);
+  assert.deepEqual(await quietly(() => StorageManager.load(indexKey)), ['log-1', 'log-2']);
+  assert.deepEqual(await quietly(() => StorageManager.load('symptomLog:default:log-2')), { id: 'log-2' });
+  assert.equal(await target.getItem(STORAGE_KEYS.storageFallback), null);
+  assert.deepEqual(await source.getAllKeys(), []);
+});
+
+/**
+ * Run with the keystore misbehaving, as if the app had just started (no cached key)
+ */
+const withKeystore = async (getItemAsync, run) => {
+  const original = SecureStore.getItemAsync;
+  DataEncryption.cachedKey = null;
+  SecureStore.getItemAsync = getItemAsync;
+  try {
+    return await run();
+  } finally {
+    SecureStore.getItemAsync = original;
+    DataEncryption.cachedKey = null;
+  }
+};
+
+test('a keystore read failure leaves encrypted data in place', async () => {
+  const backend = new MemoryStorageBackend();
+  StorageManager.configure(backend);
+  await quietly(() => StorageManager.save('profiles', [{ id: 'default' }]));
+  const stored = await backend.getItem('profiles');
+
+  await withKeystore(
+    async () => { throw new Error('User interaction is not allowed'); },
+    () => assert.rejects(() => StorageManager.load('profiles'), KeyUnavailableError)
+  );
+
+  assert.equal(await backend.getItem('profiles'), stored);
+  assert.deepEqual(await backend.getAllKeys(), ['profiles']);
+  assert.deepEqual(await quietly(() => StorageManager.load('profiles')), [{ id: 'default' }]);
+});
+
+test('a missing key is never replaced while encrypted data exists', async () => {
+  const backend = new MemoryStorageBackend();
+  StorageManager.configure(backend);
+  await quietly(() => StorageManager.save('profiles', [{ id: 'default' }]));
+  const storedKey = await SecureStore.getItemAsync('nexst_data_encryption_key');
+
+  await withKeystore(async () => null, async () => {
+    await assert.rejects(() => quietly(() => StorageManager.save('activeProfileId', 'default')), KeyUnavailableError);
+    await assert.rejects(() => StorageManager.load('profiles'), KeyUnavailableError);
+  });
+
+  assert.equal(await SecureStore.getItemAsync('nexst_data_encryption_key'), storedKey);
+  assert.deepEqual(await backend.getAllKeys(), ['profiles']);
+  assert.deepEqual(await quietly(() => StorageManager.load('profiles')), [{ id: 'default' }]);
+});
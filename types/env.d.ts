@@ -1,3 +1,12 @@
 declare module '@env' {
   export const OPENAI_API_KEY: string;
-} 
\ No newline at end of file
+  export const LLM_BASE_URL: string | undefined;
+  export const LLM_API_KEY: string | undefined;
+  export const LLM_MODEL: string | undefined;
+  export const LLM_MODELS: string | undefined;
+  export const TRANSCRIPTION_BASE_URL: string | undefined;
+  export const TRANSCRIPTION_API_KEY: string | undefined;
+  export const LLM_JSON_MODE: string | undefined;
+  export const LLM_PRICES: string | undefined;
+  export const LLM_BUDGET_MODELS: string | undefined;
+} 
@@ -0,0 +1,8 @@
+import { AppLanguage } from '../utils/i18n';
+
+export interface Profile {
+  id: string;
+  name: string;        // Shown in the header switcher and on notifications
+  createdAt: Date;
+  language?: AppLanguage; // Recording, summaries and UI; unset follows the device and detects speech
+}
@@ -2,6 +2,7 @@ export interface SymptomLog {
   id: string;
   timestamp: Date;
   summary: string;
+  englishSummary?: string; // English copy for doctors, when the summary is in another language
   transcript: string;
   audioURI?: string;
   healthDomain: HealthDomain;
@@ -9,6 +10,20 @@ export interface SymptomLog {
   duration?: number; // in days
   impact: 'low' | 'medium' | 'high';
   relatedFactors?: string[]; // triggers, activities, foods, etc.
+  processingStatus?: 'pending' | 'failed'; // Set while the recording waits in the processing queue
+  redFlags?: string[]; // Ids of the red-flag rules the transcript matched (utils/redFlagTriage.ts)
+  generatedBy?: GenerationInfo; // Prompt and model behind the summary and classification
+}
+
+/**
+ * Which prompt template and model produced a piece of generated content
+ * (see utils/promptRegistry.ts)
+ */
+export interface GenerationInfo {
+  prompt: string;          // Template name, e.g. 'symptom_analysis'
+  promptVersion: number;
+  model: string;           // As reported by the server
+  usedFallback?: boolean;  // The reply never validated, so the schema fallback was used
 }
 
 export type HealthDomain = 
@@ -25,6 +40,25 @@ export type HealthDomain =
   | 'preventive'           // Vaccinations, screenings, check-ups
   | 'general_wellness';    // Energy, fatigue, general health
 
+export interface SymptomLogQuery {
+  from?: Date;                       // Inclusive lower bound on timestamp
+  to?: Date;                         // Exclusive upper bound on timestamp
+  healthDomains?: HealthDomain[];
+  severities?: SymptomLog['severity'][];
+  impacts?: SymptomLog['impact'][];
+  text?: string;                     // Every word must prefix-match the summary or transcript
+  sortBy?: 'timestamp' | 'severity';
+  sortOrder?: 'asc' | 'desc';        // Default: 'desc' (newest / most severe first)
+  limit?: number;
+  cursor?: string;                   // nextCursor from a previous page
+}
+
+export interface SymptomLogQueryResult {
+  logs: SymptomLog[];
+  total: number;                     // Matches across all pages
+  nextCursor: string | null;         // null on the last page
+}
+
 export interface CompletedRecommendation {
   id: string;
   title: string;
@@ -56,8 +90,24 @@ export interface MedicalRecommendation {
   isCancelled?: boolean;
   cancelledAt?: Date;
   cancelledReason?: string;
+  generatedBy?: GenerationInfo; // Unset for recommendations created by local rules
+  provenance?: RecommendationProvenance; // Unset for recommendations from before it was recorded
+}
+
+/**
+ * What a recommendation was based on, shown under "Why am I seeing this?"
+ */
+export interface RecommendationProvenance {
+  sourceLogIds: string[];              // SymptomLogs it came from; may outlive them (retention, deletion)
+  patterns: RecommendationPattern[];   // Recurring symptoms the model was told about
+  decisionReasoning?: string;          // The model's reasoning: DecisionEngineAgent's, or the recommendation's medical rationale
 }
 
+/**
+ * Snapshot of a SymptomPattern as it stood when the recommendation was made
+ */
+export type RecommendationPattern = Pick<SymptomPattern, 'symptom' | 'healthDomain' | 'frequency' | 'severity' | 'trend'>;
+
 export interface ActionItem {
   id: string;
   title: string;
@@ -1,6 +1,24 @@
-import { makeOpenAIRequest } from '../openai';
+import { PromptRegistry } from '../promptRegistry';
+import type { TraceRun } from '../pipelineTrace';
 import { SymptomLog, MedicalRecommendation, HealthDomain } from '../../types/recommendations';
 import { HealthDecision } from './DecisionEngineAgent';
+import { PromptBudget } from '../promptBudget';
+import {
+  QUESTIONS_OUTPUT,
+  SUB_STRATEGIES_OUTPUT,
+  TIMELINE_OUTPUT,
+  PROVIDER_RECOMMENDATIONS_OUTPUT,
+  COMMUNICATION_PLAN_OUTPUT,
+} from './outputSchemas';
+import {
+  APPOINTMENT_PREP_QUESTIONS_PROMPT,
+  FOLLOW_UP_QUESTION_PROMPT,
+  PRIMARY_STRATEGY_PROMPT,
+  SUB_STRATEGIES_PROMPT,
+  ACTION_TIMELINE_PROMPT,
+  PROVIDER_RECOMMENDATIONS_PROMPT,
+  COMMUNICATION_PLAN_PROMPT,
+} from './prompts';
 
 // ============================================================================
 // ACTION COORDINATOR AGENT - Health Strategy Execution and Communication Optimization
@@ -40,6 +58,9 @@ export interface ActionContext {
   userInput: string;
 }
 
+// Most recent symptom summaries listed in a prompt (estimated tokens)
+const SYMPTOM_SUMMARY_TOKENS = 300;
+
 /**
  * Action Coordinator Agent - Handles health strategy execution and communication optimization
  * 
@@ -108,26 +129,12 @@ export class ActionCoordinatorAgent {
     console.log('🎯 ActionCoordinatorAgent: Generating appointment questions');
     
     try {
-      const response = await makeOpenAIRequest({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `Generate 5 relevant questions for a medical appointment about "${appointmentTitle}". 
-            Focus on symptoms, concerns, and preparation. Return as JSON array.`
-          },
-          { 
-            role: 'user', 
-            content: `Generate questions for appointment: ${appointmentTitle}
-            Relevant symptoms: ${symptoms.map(s => s.summary).join(', ')}`
-          }
-        ],
-        max_tokens: 400,
-        temperature: 0.2
-      });
-      
-      const content = response.choices[0]?.message?.content || '[]';
-      return this.parseQuestions(content);
+      const { value: { questions } } = await PromptRegistry.complete(APPOINTMENT_PREP_QUESTIONS_PROMPT, {
+        appointmentTitle,
+        symptoms: symptoms.map(s => s.summary).join(', '),
+      }, QUESTIONS_OUTPUT);
+
+      return questions;
     } catch (error) {
       console.error('Appointment question generation error:', error);
       // Fallback questions if AI fails
@@ -185,26 +192,27 @@ export class ActionCoordinatorAgent {
    * Used for complex health scenarios requiring detailed planning
    * 
    * @param context - Action context with decision and symptoms
+   * @param trace - Pipeline run to record the calls and any fallback in
    * @returns Complete health strategy with timeline and communication plan
    */
-  async createHealthStrategy(context: ActionContext): Promise<HealthStrategy> {
+  async createHealthStrategy(context: ActionContext, trace?: TraceRun): Promise<HealthStrategy> {
     console.log('🎯 ActionCoordinatorAgent: Creating comprehensive health strategy');
     
     try {
       // Create primary strategy
-      const primaryStrategy = await this.createPrimaryStrategy(context);
+      const primaryStrategy = await this.createPrimaryStrategy(context, trace);
       
       // Create sub-strategies
-      const subStrategies = await this.createSubStrategies(context);
+      const subStrategies = await this.createSubStrategies(context, trace);
       
       // Create timeline
-      const timeline = await this.createTimeline(context);
+      const timeline = await this.createTimeline(context, trace);
       
       // Create provider recommendations
-      const providerRecommendations = await this.createProviderRecommendations(context);
+      const providerRecommendations = await this.createProviderRecommendations(context, trace);
       
       // Create communication plan
-      const communicationPlan = await this.createCommunicationPlan(context);
+      const communicationPlan = await this.createCommunicationPlan(context, trace);
       
       return {
         primaryStrategy,
@@ -215,7 +223,9 @@ export class ActionCoordinatorAgent {
       };
     } catch (error) {
       console.error('ActionCoordinatorAgent strategy error:', error);
-      return this.getFallbackStrategy(context);
+      const fallback = this.getFallbackStrategy(context);
+      trace?.fallback('getFallbackStrategy', error, fallback);
+      return fallback;
     }
   }
 
@@ -262,7 +272,9 @@ export class ActionCoordinatorAgent {
       interventionType: 'self_care' as 'self_care' | 'professional_care' | 'emergency_care',
       createdAt: new Date(),
       isCompleted: false,
-      isCancelled: false
+      isCancelled: false,
+      generatedBy: decision.generatedBy,
+      provenance: decision.provenance
     };
   }
 
@@ -277,40 +289,12 @@ export class ActionCoordinatorAgent {
     description: string;
     priority: 'high' | 'medium' | 'low';
   }): Promise<string> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Generate a follow-up question based on the missing update. 
-          Make it conversational and specific to the situation.`
-        },
-        { 
-          role: 'user', 
-          content: `Generate follow-up question for: ${update.description} (${update.type})`
-        }
-      ],
-      max_tokens: 100,
-      temperature: 0.3
+    const response = await PromptRegistry.completeText(FOLLOW_UP_QUESTION_PROMPT, {
+      description: update.description,
+      type: update.type,
     });
     
-    return response.choices[0]?.message?.content || `Can you provide an update on ${update.description}?`;
-  }
-
-  /**
-   * Parse questions from AI response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Array of questions
-   */
-  private parseQuestions(content: string): string[] {
-    try {
-      const questions = JSON.parse(content);
-      return Array.isArray(questions) ? questions : [];
-    } catch (error) {
-      console.error('Error parsing questions:', error);
-      return [];
-    }
+    return response.content || `Can you provide an update on ${update.description}?`;
   }
 
   // ============================================================================
@@ -320,231 +304,80 @@ export class ActionCoordinatorAgent {
   /**
    * Create primary health strategy
    */
-  private async createPrimaryStrategy(context: ActionContext): Promise<string> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create a primary health strategy based on the decision and return as a single sentence`
-        },
-        { 
-          role: 'user', 
-          content: `Create strategy for:
-          Decision: ${context.decision.primaryAction}
-          Reasoning: ${context.decision.reasoning}
-          User input: ${context.userInput}
-          Priority: ${context.decision.priority}`
-        }
-      ],
-      max_tokens: 100,
-      temperature: 0.2
-    });
+  private async createPrimaryStrategy(context: ActionContext, trace?: TraceRun): Promise<string> {
+    const response = await PromptRegistry.completeText(PRIMARY_STRATEGY_PROMPT, {
+      primaryAction: context.decision.primaryAction,
+      reasoning: context.decision.reasoning,
+      userInput: context.userInput,
+      priority: context.decision.priority,
+    }, trace);
     
-    return response.choices[0]?.message?.content || 'Monitor symptoms and consult healthcare provider if needed';
+    return response.content || 'Monitor symptoms and consult healthcare provider if needed';
   }
 
   /**
    * Create sub-strategies
    */
-  private async createSubStrategies(context: ActionContext): Promise<string[]> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create 3-5 sub-strategies and return as JSON array of strings`
-        },
-        { 
-          role: 'user', 
-          content: `Create sub-strategies for:
-          Primary action: ${context.decision.primaryAction}
-          Resolved actions: ${context.decision.resolvedActions.join(', ')}
-          User input: ${context.userInput}`
-        }
-      ],
-      max_tokens: 300,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '[]';
-    return this.parseQuestions(content);
+  private async createSubStrategies(context: ActionContext, trace?: TraceRun): Promise<string[]> {
+    const { value: { strategies } } = await PromptRegistry.complete(SUB_STRATEGIES_PROMPT, {
+      primaryAction: context.decision.primaryAction,
+      resolvedActions: context.decision.resolvedActions.join(', '),
+      userInput: context.userInput,
+    }, SUB_STRATEGIES_OUTPUT, trace);
+
+    return strategies;
   }
 
   /**
    * Create timeline for actions
    */
-  private async createTimeline(context: ActionContext): Promise<{
+  private async createTimeline(context: ActionContext, trace?: TraceRun): Promise<{
     immediate: string[];
     shortTerm: string[];
     longTerm: string[];
   }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create timeline and return JSON with:
-          - immediate: array of actions to take within 24 hours
-          - shortTerm: array of actions to take within 1 week
-          - longTerm: array of actions to take within 1 month`
-        },
-        { 
-          role: 'user', 
-          content: `Create timeline for:
-          Decision: ${context.decision.primaryAction}
-          Timeline: ${context.decision.timeline}
-          Priority: ${context.decision.priority}
-          Resolved actions: ${context.decision.resolvedActions.join(', ')}`
-        }
-      ],
-      max_tokens: 400,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseTimeline(content);
+    const { value } = await PromptRegistry.complete(ACTION_TIMELINE_PROMPT, {
+      primaryAction: context.decision.primaryAction,
+      timeline: context.decision.timeline,
+      priority: context.decision.priority,
+      resolvedActions: context.decision.resolvedActions.join(', '),
+    }, TIMELINE_OUTPUT, trace);
+    return value;
   }
 
   /**
    * Create provider recommendations
    */
-  private async createProviderRecommendations(context: ActionContext): Promise<{
+  private async createProviderRecommendations(context: ActionContext, trace?: TraceRun): Promise<{
     type: string;
     reason: string;
     urgency: 'urgent' | 'high' | 'medium' | 'low';
   }[]> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create provider recommendations and return JSON array with:
-          - type: type of healthcare provider
-          - reason: why this provider is recommended
-          - urgency: one of [urgent, high, medium, low]`
-        },
-        { 
-          role: 'user', 
-          content: `Create provider recommendations for:
-          Decision: ${context.decision.primaryAction}
-          Priority: ${context.decision.priority}
-          Risk assessment: ${JSON.stringify(context.decision.riskAssessment)}
-          Current symptoms: ${context.currentSymptoms.map(s => s.summary).join(', ')}`
-        }
-      ],
-      max_tokens: 400,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '[]';
-    return this.parseProviderRecommendations(content);
+    const { value: { providers } } = await PromptRegistry.complete(PROVIDER_RECOMMENDATIONS_PROMPT, {
+      primaryAction: context.decision.primaryAction,
+      priority: context.decision.priority,
+      riskAssessment: JSON.stringify(context.decision.riskAssessment),
+      symptoms: PromptBudget.symptomSummaries(context.currentSymptoms, SYMPTOM_SUMMARY_TOKENS),
+    }, PROVIDER_RECOMMENDATIONS_OUTPUT, trace);
+
+    return providers;
   }
 
   /**
    * Create communication plan
    */
-  private async createCommunicationPlan(context: ActionContext): Promise<{
+  private async createCommunicationPlan(context: ActionContext, trace?: TraceRun): Promise<{
     providerQuestions: string[];
     medicalSummary: string;
     followUpPlan: string;
   }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create communication plan and return JSON with:
-          - providerQuestions: array of 5 questions to ask healthcare provider
-          - medicalSummary: brief medical summary for provider
-          - followUpPlan: plan for follow-up care`
-        },
-        { 
-          role: 'user', 
-          content: `Create communication plan for:
-          Decision: ${context.decision.primaryAction}
-          Current symptoms: ${context.currentSymptoms.map(s => s.summary).join(', ')}
-          Priority: ${context.decision.priority}
-          Provider recommendations: ${context.decision.resolvedActions.join(', ')}`
-        }
-      ],
-      max_tokens: 600,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseCommunicationPlan(content);
-  }
-
-  // ============================================================================
-  // PARSING METHODS
-  // ============================================================================
-
-  /**
-   * Parse timeline response
-   */
-  private parseTimeline(content: string): {
-    immediate: string[];
-    shortTerm: string[];
-    longTerm: string[];
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        immediate: data.immediate || [],
-        shortTerm: data.shortTerm || [],
-        longTerm: data.longTerm || []
-      };
-    } catch (error) {
-      console.error('Error parsing timeline:', error);
-      return {
-        immediate: [],
-        shortTerm: [],
-        longTerm: []
-      };
-    }
-  }
-
-  /**
-   * Parse provider recommendations response
-   */
-  private parseProviderRecommendations(content: string): {
-    type: string;
-    reason: string;
-    urgency: 'urgent' | 'high' | 'medium' | 'low';
-  }[] {
-    try {
-      const data = JSON.parse(content);
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error('Error parsing provider recommendations:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Parse communication plan response
-   */
-  private parseCommunicationPlan(content: string): {
-    providerQuestions: string[];
-    medicalSummary: string;
-    followUpPlan: string;
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        providerQuestions: data.providerQuestions || [],
-        medicalSummary: data.medicalSummary || 'General health consultation needed',
-        followUpPlan: data.followUpPlan || 'Monitor symptoms and follow up as needed'
-      };
-    } catch (error) {
-      console.error('Error parsing communication plan:', error);
-      return {
-        providerQuestions: [],
-        medicalSummary: 'General health consultation needed',
-        followUpPlan: 'Monitor symptoms and follow up as needed'
-      };
-    }
+    const { value } = await PromptRegistry.complete(COMMUNICATION_PLAN_PROMPT, {
+      primaryAction: context.decision.primaryAction,
+      symptoms: PromptBudget.symptomSummaries(context.currentSymptoms, SYMPTOM_SUMMARY_TOKENS),
+      priority: context.decision.priority,
+      resolvedActions: context.decision.resolvedActions.join(', '),
+    }, COMMUNICATION_PLAN_OUTPUT, trace);
+    return value;
   }
 
   /**
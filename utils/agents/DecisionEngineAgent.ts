@@ -1,6 +1,11 @@
-import { makeOpenAIRequest } from '../openai';
-import { SymptomLog, MedicalRecommendation, HealthDomain } from '../../types/recommendations';
+import { PromptRegistry } from '../promptRegistry';
+import { SymptomLog, MedicalRecommendation, HealthDomain, GenerationInfo, RecommendationProvenance } from '../../types/recommendations';
+import { SymptomAnalytics } from '../symptomAnalytics';
 import { HealthMemoryContext } from './HealthMemoryAgent';
+import { PromptBudget } from '../promptBudget';
+import { PipelineTrace, TraceRun } from '../pipelineTrace';
+import { SITUATION_ANALYSIS_OUTPUT, CONFLICTS_OUTPUT, DECISION_OUTPUT, RESOLVED_ACTIONS_OUTPUT } from './outputSchemas';
+import { SITUATION_ANALYSIS_PROMPT, CONFLICTS_PROMPT, DECISION_PROMPT, RESOLVE_CONFLICTS_PROMPT } from './prompts';
 
 // ============================================================================
 // DECISION ENGINE AGENT - Autonomous Health Decision-Making and Conflict Resolution
@@ -21,6 +26,8 @@ export interface HealthDecision {
     level: 'low' | 'medium' | 'high';
     factors: string[];
   };
+  generatedBy?: GenerationInfo; // Prompt and model behind resolvedActions; unset for monitoring and fallback decisions
+  provenance?: RecommendationProvenance; // What the decision was based on, for recommendations made from it
 }
 
 /**
@@ -34,6 +41,12 @@ export interface DecisionContext {
   userInput: string;
 }
 
+// Most recent symptom summaries listed in a prompt (estimated tokens); older history comes from the health memory
+const SYMPTOM_SUMMARY_TOKENS = 300;
+
+// Health memory patterns kept as a decision's provenance, most frequent first
+const MAX_PROVENANCE_PATTERNS = 3;
+
 /**
  * Decision Engine Agent - Makes autonomous health decisions and resolves conflicts
  * 
@@ -66,41 +79,86 @@ export class DecisionEngineAgent {
    * 5. Resolve conflicts and create action plan
    * 
    * @param context - Decision context with symptoms, recommendations, and memory
+   * @param trace - Run of the calling pipeline; without one the decision is traced on its own
    * @returns Complete health decision with reasoning and action plan
    */
-  async makeHealthDecision(context: DecisionContext): Promise<HealthDecision> {
+  async makeHealthDecision(context: DecisionContext, trace?: TraceRun): Promise<HealthDecision> {
     console.log('🧠 DecisionEngineAgent: Making autonomous health decision');
+    const run = trace ?? PipelineTrace.start('health_decision', this.userId, {
+      userInput: context.userInput,
+      symptoms: context.currentSymptoms.length,
+      existingRecommendations: context.existingRecommendations.length
+    });
+    let result: HealthDecision;
     
     try {
       // Step 1: Analyze current health situation
-      const situationAnalysis = await this.analyzeCurrentSituation(context);
+      const situationAnalysis = await this.analyzeCurrentSituation(context, run);
       
       // Step 2: Identify conflicts between recommendations
-      const conflicts = await this.identifyConflicts(context);
+      const conflicts = await this.identifyConflicts(context, run);
       
       // Step 3: Assess whether action is actually needed
-      const actionNeeded = await this.assessActionNeeded(situationAnalysis, context.existingRecommendations);
+      const actionNeeded = await run.step('assessActionNeeded', 'rule', {
+        urgency: situationAnalysis.urgency,
+        primaryConcern: situationAnalysis.primaryConcern
+      }, () => this.assessActionNeeded(situationAnalysis, context.existingRecommendations));
       
       // Step 4: Make autonomous decision if action is needed
       if (actionNeeded) {
-        const decision = await this.makeAutonomousDecision(situationAnalysis, conflicts, context);
+        const decision = await this.makeAutonomousDecision(situationAnalysis, conflicts, context, run);
         
         // Step 5: Resolve conflicts and create action plan
-        const resolvedActions = await this.resolveConflicts(decision, conflicts, context);
+        const { actions: resolvedActions, generatedBy } = await this.resolveConflicts(decision, conflicts, context, run);
         
-        return {
+        result = {
           ...decision,
           conflicts: conflicts.map(c => c.description),
-          resolvedActions
+          resolvedActions,
+          generatedBy,
+          provenance: this.getProvenance(context, decision.reasoning)
         };
       } else {
         // No action needed - return monitoring decision
-        return this.getMonitoringDecision(context);
+        const monitoring = this.getMonitoringDecision(context);
+        result = { ...monitoring, provenance: this.getProvenance(context, monitoring.reasoning) };
       }
     } catch (error) {
       console.error('DecisionEngineAgent error:', error);
-      return this.getFallbackDecision(context);
+      const fallback = this.getFallbackDecision(context);
+      run.fallback('getFallbackDecision', error, fallback);
+      result = { ...fallback, provenance: this.getProvenance(context, fallback.reasoning) };
+    }
+
+    if (!trace) {
+      run.finish({ output: { primaryAction: result.primaryAction, priority: result.priority } });
     }
+    return result;
+  }
+
+  // ============================================================================
+  // PROVENANCE
+  // ============================================================================
+
+  /**
+   * What a decision was based on: the symptom logs listed in its prompts and
+   * the health memory's patterns
+   * 
+   * @param context - Decision context
+   * @param reasoning - The decision's reasoning
+   * @returns Provenance for recommendations made from the decision
+   */
+  private getProvenance(context: DecisionContext, reasoning: string): RecommendationProvenance {
+    const newestFirst = [...context.currentSymptoms].sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+    const { lines } = PromptBudget.fitLines(newestFirst.map(s => s.summary), SYMPTOM_SUMMARY_TOKENS);
+
+    return {
+      sourceLogIds: newestFirst.slice(0, lines.length).map(s => s.id),
+      patterns: context.memoryContext.patterns.slice(0, MAX_PROVENANCE_PATTERNS).map(pattern => SymptomAnalytics.snapshot(pattern)),
+      decisionReasoning: reasoning
+    };
   }
 
   // ============================================================================
@@ -111,39 +169,22 @@ export class DecisionEngineAgent {
    * Analyze current health situation to determine urgency and primary concerns
    * 
    * @param context - Decision context
+   * @param trace - Pipeline run to record the call in
    * @returns Analysis of current situation including urgency and risk level
    */
-  private async analyzeCurrentSituation(context: DecisionContext): Promise<{
+  private async analyzeCurrentSituation(context: DecisionContext, trace: TraceRun): Promise<{
     urgency: 'urgent' | 'high' | 'medium' | 'low';
     primaryConcern: string;
     contributingFactors: string[];
     riskLevel: 'low' | 'medium' | 'high';
   }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze current health situation and return JSON with:
-          - urgency: one of [urgent, high, medium, low]
-          - primaryConcern: main health issue to address
-          - contributingFactors: array of contributing factors
-          - riskLevel: one of [low, medium, high]`
-        },
-        { 
-          role: 'user', 
-          content: `Analyze current situation:
-          User input: ${context.userInput}
-          Current symptoms: ${context.currentSymptoms.map(s => s.summary).join(', ')}
-          Memory context: ${JSON.stringify(context.memoryContext.trends)}`
-        }
-      ],
-      max_tokens: 400,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseSituationAnalysis(content);
+    const { value } = await PromptRegistry.complete(SITUATION_ANALYSIS_PROMPT, {
+      userInput: context.userInput,
+      symptoms: PromptBudget.symptomSummaries(context.currentSymptoms, SYMPTOM_SUMMARY_TOKENS),
+      trends: JSON.stringify(context.memoryContext.trends),
+      timeline: context.memoryContext.timeline,
+    }, SITUATION_ANALYSIS_OUTPUT, trace);
+    return value;
   }
 
   // ============================================================================
@@ -154,9 +195,10 @@ export class DecisionEngineAgent {
    * Identify conflicts between existing health recommendations
    * 
    * @param context - Decision context
+   * @param trace - Pipeline run to record the call in
    * @returns Array of identified conflicts with descriptions and resolutions
    */
-  private async identifyConflicts(context: DecisionContext): Promise<{
+  private async identifyConflicts(context: DecisionContext, trace: TraceRun): Promise<{
     description: string;
     priority1: string;
     priority2: string;
@@ -167,30 +209,12 @@ export class DecisionEngineAgent {
       return [];
     }
 
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Identify conflicts between health recommendations and return JSON array with:
-          - description: description of the conflict
-          - priority1: first conflicting recommendation
-          - priority2: second conflicting recommendation
-          - resolution: how to resolve the conflict`
-        },
-        { 
-          role: 'user', 
-          content: `Identify conflicts between:
-          User input: ${context.userInput}
-          Existing recommendations: ${context.existingRecommendations.map(r => r.title).join(', ')}`
-        }
-      ],
-      max_tokens: 600,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '[]';
-    return this.parseConflicts(content);
+    const { value: { conflicts } } = await PromptRegistry.complete(CONFLICTS_PROMPT, {
+      userInput: context.userInput,
+      recommendations: context.existingRecommendations.map(r => r.title).join(', '),
+    }, CONFLICTS_OUTPUT, trace);
+
+    return conflicts;
   }
 
   // ============================================================================
@@ -236,46 +260,30 @@ export class DecisionEngineAgent {
    * @param situationAnalysis - Analysis of current health situation
    * @param conflicts - Identified conflicts between recommendations
    * @param context - Decision context
+   * @param trace - Pipeline run to record the call in
    * @returns Autonomous health decision
    */
   private async makeAutonomousDecision(
     situationAnalysis: any, 
     conflicts: any[], 
-    context: DecisionContext
+    context: DecisionContext,
+    trace: TraceRun
   ): Promise<{
     primaryAction: string;
     priority: 'urgent' | 'high' | 'medium' | 'low';
     reasoning: string;
     timeline: string;
     riskAssessment: { level: 'low' | 'medium' | 'high'; factors: string[]; };
+    generatedBy: GenerationInfo;
   }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Make autonomous health decision and return JSON with:
-          - primaryAction: main action to take
-          - priority: one of [urgent, high, medium, low]
-          - reasoning: explanation for the decision
-          - timeline: when to take action
-          - riskAssessment: object with level (low/medium/high) and factors (array)`
-        },
-        { 
-          role: 'user', 
-          content: `Make decision based on:
-          Situation: ${JSON.stringify(situationAnalysis)}
-          Conflicts: ${JSON.stringify(conflicts)}
-          User input: ${context.userInput}
-          Memory context: ${JSON.stringify(context.memoryContext.historicalContext)}`
-        }
-      ],
-      max_tokens: 500,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseDecision(content);
+    const { value, generatedBy } = await PromptRegistry.complete(DECISION_PROMPT, {
+      situation: JSON.stringify(situationAnalysis),
+      conflicts: JSON.stringify(conflicts),
+      userInput: context.userInput,
+      historicalContext: JSON.stringify(context.memoryContext.historicalContext),
+      timeline: context.memoryContext.timeline,
+    }, DECISION_OUTPUT, trace);
+    return { ...value, generatedBy };
   }
 
   // ============================================================================
@@ -288,39 +296,29 @@ export class DecisionEngineAgent {
    * @param decision - Autonomous health decision
    * @param conflicts - Identified conflicts
    * @param context - Decision context
-   * @returns Array of resolved actions
+   * @param trace - Pipeline run to record the call in
+   * @returns Resolved actions and the prompt and model that produced them
    */
   private async resolveConflicts(
     decision: any, 
     conflicts: any[], 
-    context: DecisionContext
-  ): Promise<string[]> {
+    context: DecisionContext,
+    trace: TraceRun
+  ): Promise<{ actions: string[]; generatedBy: GenerationInfo }> {
+    const { generatedBy: decisionGeneratedBy, ...decisionFields } = decision;
+
     // No conflicts to resolve
     if (conflicts.length === 0) {
-      return [decision.primaryAction];
+      return { actions: [decision.primaryAction], generatedBy: decisionGeneratedBy };
     }
 
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Resolve health conflicts and return JSON array of resolved actions`
-        },
-        { 
-          role: 'user', 
-          content: `Resolve conflicts:
-          Decision: ${JSON.stringify(decision)}
-          Conflicts: ${JSON.stringify(conflicts)}
-          User input: ${context.userInput}`
-        }
-      ],
-      max_tokens: 400,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '[]';
-    return this.parseResolvedActions(content);
+    const { value: { actions }, generatedBy } = await PromptRegistry.complete(RESOLVE_CONFLICTS_PROMPT, {
+      decision: JSON.stringify(decisionFields),
+      conflicts: JSON.stringify(conflicts),
+      userInput: context.userInput,
+    }, RESOLVED_ACTIONS_OUTPUT, trace);
+
+    return { actions, generatedBy };
   }
 
   // ============================================================================
@@ -368,113 +366,4 @@ export class DecisionEngineAgent {
       }
     };
   }
-
-  // ============================================================================
-  // PARSING METHODS
-  // ============================================================================
-
-  /**
-   * Parse situation analysis response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Parsed situation analysis
-   */
-  private parseSituationAnalysis(content: string): {
-    urgency: 'urgent' | 'high' | 'medium' | 'low';
-    primaryConcern: string;
-    contributingFactors: string[];
-    riskLevel: 'low' | 'medium' | 'high';
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        urgency: data.urgency || 'medium',
-        primaryConcern: data.primaryConcern || 'General health concern',
-        contributingFactors: data.contributingFactors || [],
-        riskLevel: data.riskLevel || 'low'
-      };
-    } catch (error) {
-      console.error('Error parsing situation analysis:', error);
-      return {
-        urgency: 'medium',
-        primaryConcern: 'General health concern',
-        contributingFactors: [],
-        riskLevel: 'low'
-      };
-    }
-  }
-
-  /**
-   * Parse conflicts response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Array of parsed conflicts
-   */
-  private parseConflicts(content: string): {
-    description: string;
-    priority1: string;
-    priority2: string;
-    resolution: string;
-  }[] {
-    try {
-      const data = JSON.parse(content);
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error('Error parsing conflicts:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Parse decision response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Parsed health decision
-   */
-  private parseDecision(content: string): {
-    primaryAction: string;
-    priority: 'urgent' | 'high' | 'medium' | 'low';
-    reasoning: string;
-    timeline: string;
-    riskAssessment: { level: 'low' | 'medium' | 'high'; factors: string[]; };
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        primaryAction: data.primaryAction || 'Monitor symptoms',
-        priority: data.priority || 'medium',
-        reasoning: data.reasoning || 'Based on current symptoms',
-        timeline: data.timeline || 'Within 24 hours',
-        riskAssessment: {
-          level: data.riskAssessment?.level || 'low',
-          factors: data.riskAssessment?.factors || []
-        }
-      };
-    } catch (error) {
-      console.error('Error parsing decision:', error);
-      return {
-        primaryAction: 'Monitor symptoms',
-        priority: 'medium',
-        reasoning: 'Based on current symptoms',
-        timeline: 'Within 24 hours',
-        riskAssessment: { level: 'low', factors: [] }
-      };
-    }
-  }
-
-  /**
-   * Parse resolved actions response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Array of resolved actions
-   */
-  private parseResolvedActions(content: string): string[] {
-    try {
-      const data = JSON.parse(content);
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error('Error parsing resolved actions:', error);
-      return [];
-    }
-  }
-} 
\ No newline at end of file
+}
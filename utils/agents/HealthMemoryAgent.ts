@@ -1,5 +1,16 @@
-import { makeOpenAIRequest } from '../openai';
-import { SymptomLog, SymptomPattern, HealthDomain } from '../../types/recommendations';
+import { PromptRegistry } from '../promptRegistry';
+import { SymptomLog, SymptomPattern, HealthDomain, SymptomLogQuery, SymptomLogQueryResult } from '../../types/recommendations';
+import { HEALTH_MEMORY_OUTPUT, PERIOD_SUMMARY_OUTPUT } from './outputSchemas';
+import { HEALTH_MEMORY_UPDATE_PROMPT, PERIOD_SUMMARY_PROMPT } from './prompts';
+import { PromptBudget } from '../promptBudget';
+import { SymptomAnalytics } from '../symptomAnalytics';
+import type { TraceRun } from '../pipelineTrace';
+import {
+  HealthMemoryStore,
+  PersistedHealthMemory,
+  MemoryLogDigest,
+  createEmptyHealthMemory,
+} from '../healthMemoryStore';
 
 // ============================================================================
 // HEALTH MEMORY AGENT - Long-term Pattern Recognition and Context Management
@@ -27,8 +38,26 @@ export interface HealthMemoryContext {
     improvementAreas: string[];
     stableAreas: string[];
   };
+  timeline: string; // Recent logs and older period summaries, already cut to a prompt budget
 }
 
+/**
+ * Query function over the user's symptom logs (SymptomLogsContext.querySymptomLogs)
+ * Lets the agent fetch just the window it needs instead of the full history
+ */
+export type SymptomLogSource = (query: SymptomLogQuery) => SymptomLogQueryResult;
+
+// Prompt budgets (estimated tokens)
+const TIMELINE_PROMPT_TOKENS = 1500;   // History shown when updating the memory
+const NEW_LOGS_PROMPT_TOKENS = 1500;   // New logs shown when updating the memory
+const PERIOD_PROMPT_TOKENS = 1500;     // Logs or weeks shown when summarizing a period
+const CONTEXT_TIMELINE_TOKENS = 800;   // Timeline handed to the other agents
+
+const MIN_LOGS_FOR_ANALYSIS = 2;
+const MAX_PATTERNS = 10;
+const MAX_LIST_ITEMS = 8;
+const MAX_PERIOD_SUMMARIES_PER_RUN = 6; // Further periods (e.g. a first run over a long history) get count-based summaries
+
 /**
  * Health Memory Agent - Analyzes long-term health patterns and provides historical context
  * 
@@ -39,364 +68,355 @@ export interface HealthMemoryContext {
  * 4. Provide historical context for decision-making
  * 5. Track health trends and improvements
  * 
+ * The memory is persisted per profile (see utils/healthMemoryStore.ts): each
+ * run sends the model only the logs it has not seen, together with the
+ * previous memory and a token-budgeted timeline of the older history.
+ * 
  * Called during:
  * - Daily symptom processing (provides context for decisions)
  * - Background processing (weekly/monthly pattern analysis)
  * - Complex health scenario analysis
  */
 export class HealthMemoryAgent {
-  private userId: string;
+  private userId: string; // The profile id; the memory is stored under it
+  private symptomLogSource: SymptomLogSource | null = null;
+  private updateQueue: Promise<unknown> = Promise.resolve();
 
   constructor(userId: string) {
     this.userId = userId;
   }
 
   /**
-   * Analyze health memory and provide comprehensive context
+   * Connect the agent to the user's symptom log query API
+   */
+  setSymptomLogSource(source: SymptomLogSource): void {
+    this.symptomLogSource = source;
+  }
+
+  /**
+   * Analyze health memory over a recent window, e.g. the last 30 days of sleep logs
    * 
-   * Workflow:
-   * 1. Detect patterns in symptom history
-   * 2. Analyze health trends over time
-   * 3. Identify recurring issues and seasonal patterns
-   * 4. Analyze lifestyle factors and triggers
-   * 5. Create health summary and context
+   * A one-off analysis of just that window: a single model call, nothing persisted
    * 
-   * @param symptoms - Complete symptom history to analyze
-   * @returns Comprehensive health memory context for other agents
+   * @param days - How many days back to include
+   * @param healthDomains - Restrict to these domains (all domains when omitted)
+   * @returns Health memory context for the matching logs only
    */
-  async analyzeHealthMemory(symptoms: SymptomLog[]): Promise<HealthMemoryContext> {
-    console.log('🧠 HealthMemoryAgent: Analyzing health memory and patterns');
-    
+  async analyzeRecentHealthMemory(days: number, healthDomains?: HealthDomain[]): Promise<HealthMemoryContext> {
+    if (!this.symptomLogSource) {
+      console.warn('🧠 HealthMemoryAgent: No symptom log source connected');
+      return this.getFallbackContext([]);
+    }
+
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    const { logs } = this.symptomLogSource({ from, healthDomains, sortOrder: 'asc' });
+
+    const memory = HealthMemoryStore.ingest(createEmptyHealthMemory(), logs.filter(log => !log.processingStatus));
+    if (memory.totalLogs < MIN_LOGS_FOR_ANALYSIS) {
+      return this.getFallbackContext(logs);
+    }
+
     try {
-      // Step 1: Detect patterns in symptom history
-      const patterns = await this.detectPatterns(symptoms);
-      
-      // Step 2: Analyze health trends over time
-      const trends = await this.analyzeTrends(symptoms);
-      
-      // Step 3: Identify recurring issues and seasonal patterns
-      const historicalContext = await this.analyzeHistoricalContext(symptoms);
-      
-      // Step 4: Create health summary
-      const healthSummary = await this.createHealthSummary(symptoms, patterns, trends);
-      
-      return {
-        patterns,
-        trends,
-        historicalContext,
-        healthSummary
-      };
+      const statistics = this.computeStatistics(logs, null);
+      return this.toContext({ ...memory, context: await this.updateContext(memory, statistics) });
     } catch (error) {
       console.error('HealthMemoryAgent error:', error);
-      return this.getFallbackContext(symptoms);
+      return this.getFallbackContext(logs);
     }
   }
 
-  // ============================================================================
-  // PATTERN DETECTION
-  // ============================================================================
-
   /**
-   * Detect complex patterns in symptom history
+   * Update the stored health memory with any new logs and return it
    * 
-   * @param symptoms - Array of symptom logs to analyze
-   * @returns Array of detected symptom patterns
+   * Workflow:
+   * 1. Load the stored memory and add the logs it has not seen
+   * 2. Compact weeks and months that have aged out into summaries
+   * 3. Compute pattern statistics and trends from the logs (utils/symptomAnalytics.ts)
+   * 4. Update triggers, historical context and summary from the new logs in a
+   *    single call (skipped when nothing is new)
+   * 5. Save the memory for the next run
+   * 
+   * @param symptoms - The profile's symptom history (only unseen logs are sent to the model)
+   * @param trace - Pipeline run to record the calls and any fallback in
+   * @returns Comprehensive health memory context for other agents
    */
-  private async detectPatterns(symptoms: SymptomLog[]): Promise<SymptomPattern[]> {
-    // Need at least 3 symptoms to detect patterns
-    if (symptoms.length < 3) {
-      return [];
-    }
-
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze symptom patterns and return JSON array with:
-          - symptom: symptom name
-          - healthDomain: health domain
-          - frequency: how often it occurs
-          - averageDuration: typical duration
-          - severity: typical severity level
-          - trend: improving/stable/worsening
-          - triggers: potential triggers
-          - impact: impact on daily life`
-        },
-        { 
-          role: 'user', 
-          content: `Detect patterns in symptoms:
-          ${symptoms.map(s => `${s.summary}: ${s.transcript} (${s.severity} severity, ${s.healthDomain})`).join('\n')}`
-        }
-      ],
-      max_tokens: 800,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '[]';
-    return this.parsePatterns(content);
+  async analyzeHealthMemory(symptoms: SymptomLog[], trace?: TraceRun): Promise<HealthMemoryContext> {
+    // One update at a time, so concurrent callers don't ingest the same logs twice
+    const run = this.updateQueue.then(() => this.updateMemory(symptoms, trace));
+    this.updateQueue = run.catch(() => undefined);
+    return run;
   }
 
   // ============================================================================
-  // TREND ANALYSIS
+  // MEMORY UPDATE
   // ============================================================================
 
-  /**
-   * Analyze health trends over time
-   * 
-   * @param symptoms - Array of symptom logs to analyze
-   * @returns Health trends including overall direction, frequency, and severity
-   */
-  private async analyzeTrends(symptoms: SymptomLog[]): Promise<{
-    overall: 'improving' | 'stable' | 'worsening';
-    frequency: number;
-    severity: 'mild' | 'moderate' | 'severe';
-  }> {
-    // Need at least 2 symptoms to analyze trends
-    if (symptoms.length < 2) {
-      return { overall: 'stable', frequency: 0, severity: 'mild' };
+  private async updateMemory(symptoms: SymptomLog[], trace?: TraceRun): Promise<HealthMemoryContext> {
+    console.log('🧠 HealthMemoryAgent: Updating health memory');
+
+    let memory: PersistedHealthMemory;
+    try {
+      memory = await HealthMemoryStore.load(this.userId);
+    } catch (error) {
+      console.error('HealthMemoryAgent error loading memory:', error);
+      const fallback = this.getFallbackContext(symptoms);
+      trace?.fallback('getFallbackContext', error, fallback);
+      return fallback;
     }
 
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze health trends and return JSON with:
-          - overall: one of [improving, stable, worsening]
-          - frequency: number of symptoms per week (average)
-          - severity: one of [mild, moderate, severe]`
-        },
-        { 
-          role: 'user', 
-          content: `Analyze trends in symptoms:
-          ${symptoms.map(s => `${s.summary} (${s.severity})`).join('\n')}`
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseTrends(content);
-  }
+    // Step 1: Add the logs the memory has not seen
+    memory = HealthMemoryStore.forgetMissing(memory, symptoms);
+    const newLogs = HealthMemoryStore.selectNewLogs(memory, symptoms);
+    memory = HealthMemoryStore.ingest(memory, newLogs);
 
-  // ============================================================================
-  // HISTORICAL CONTEXT ANALYSIS
-  // ============================================================================
+    // Step 2: Fold aged-out weeks and months into summaries
+    memory = await this.compact(memory, trace);
 
-  /**
-   * Analyze historical context including recurring issues and seasonal patterns
-   * 
-   * @param symptoms - Array of symptom logs to analyze
-   * @returns Historical context with recurring issues, seasonal patterns, and lifestyle factors
-   */
-  private async analyzeHistoricalContext(symptoms: SymptomLog[]): Promise<{
-    recurringIssues: string[];
-    seasonalPatterns: string[];
-    lifestyleFactors: string[];
-    triggerPatterns: string[];
-  }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze historical context and return JSON with:
-          - recurringIssues: array of recurring health issues
-          - seasonalPatterns: array of seasonal patterns
-          - lifestyleFactors: array of lifestyle factors affecting health
-          - triggerPatterns: array of trigger patterns`
-        },
-        { 
-          role: 'user', 
-          content: `Analyze historical context:
-          ${symptoms.map(s => `${s.summary}: ${s.transcript}`).join('\n')}`
-        }
-      ],
-      max_tokens: 600,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseHistoricalContext(content);
-  }
+    // Step 3: Recompute pattern statistics and trends locally (no model call)
+    const statistics = this.computeStatistics(symptoms, memory.context);
+    if (memory.context) {
+      memory = { ...memory, context: { ...memory.context, ...statistics } };
+    }
 
-  // ============================================================================
-  // HEALTH SUMMARY
-  // ============================================================================
+    // Step 4: Update triggers and narrative context from the new logs
+    if (memory.unanalyzedLogIds.length > 0 && memory.totalLogs >= MIN_LOGS_FOR_ANALYSIS) {
+      try {
+        memory = { ...memory, context: await this.updateContext(memory, statistics, trace), unanalyzedLogIds: [] };
+        console.log(`🧠 HealthMemoryAgent: Memory updated with ${newLogs.length} new logs`);
+      } catch (error) {
+        // The logs stay marked unanalyzed and are sent again next time
+        console.error('HealthMemoryAgent error:', error);
+        trace?.fallback('updateContext', error, 'Previous memory context kept');
+      }
+    }
+
+    // Step 5: Save for the next run
+    memory = { ...memory, updatedAt: new Date().toISOString() };
+    try {
+      await HealthMemoryStore.save(this.userId, memory);
+    } catch (error) {
+      console.error('HealthMemoryAgent error saving memory:', error);
+    }
+
+    return memory.context ? this.toContext(memory) : this.getFallbackContext(symptoms, memory);
+  }
 
   /**
-   * Create comprehensive health summary
-   * 
-   * @param symptoms - Array of symptom logs
-   * @param patterns - Detected symptom patterns
-   * @param trends - Health trends
-   * @returns Health summary with primary concerns and improvement areas
+   * Patterns and trends computed from the logs, keeping the triggers already
+   * known for each pattern. Without logs (a caller passing none) the stored
+   * values stand.
    */
-  private async createHealthSummary(
-    symptoms: SymptomLog[], 
-    patterns: SymptomPattern[], 
-    trends: any
-  ): Promise<{
-    primaryConcerns: string[];
-    improvementAreas: string[];
-    stableAreas: string[];
-  }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `Create health summary and return JSON with:
-          - primaryConcerns: array of main health concerns
-          - improvementAreas: array of areas showing improvement
-          - stableAreas: array of stable health areas`
-        },
-        { 
-          role: 'user', 
-          content: `Create health summary:
-          Symptoms: ${symptoms.map(s => s.summary).join(', ')}
-          Patterns: ${patterns.map(p => p.symptom).join(', ')}
-          Trends: ${JSON.stringify(trends)}`
-        }
-      ],
-      max_tokens: 400,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    return this.parseHealthSummary(content);
-  }
+  private computeStatistics(
+    symptoms: SymptomLog[],
+    previous: PersistedHealthMemory['context']
+  ): Pick<HealthMemoryContext, 'patterns' | 'trends'> {
+    if (symptoms.length === 0) {
+      return {
+        patterns: previous?.patterns ?? [],
+        trends: previous?.trends ?? this.getFallbackContext([]).trends,
+      };
+    }
 
-  // ============================================================================
-  // FALLBACK METHODS
-  // ============================================================================
+    const patterns = SymptomAnalytics.detectPatterns(symptoms)
+      .slice(0, MAX_PATTERNS)
+      .map((cluster): SymptomPattern => ({
+        symptom: cluster.symptom,
+        healthDomain: cluster.healthDomain,
+        frequency: cluster.frequency,
+        averageDuration: cluster.averageDuration,
+        severity: cluster.severity,
+        trend: cluster.trend,
+        lastOccurrence: cluster.lastOccurrence,
+        firstOccurrence: cluster.firstOccurrence,
+        triggers: this.findPattern(previous?.patterns ?? [], cluster.symptom)?.triggers ?? [],
+        impact: cluster.impact,
+        seasonalPattern: cluster.seasonalPattern,
+        timeOfDayPattern: cluster.timeOfDayPattern,
+      }));
+
+    return { patterns, trends: SymptomAnalytics.overallTrends(symptoms) };
+  }
 
   /**
-   * Get fallback context when AI analysis fails
+   * Update triggers and narrative context with the unanalyzed logs in one call
    * 
-   * @param symptoms - Array of symptom logs
-   * @returns Basic fallback health memory context
+   * @param memory - Memory with its new logs already ingested
+   * @param statistics - Locally computed patterns and trends, given to the model as facts
+   * @param trace - Pipeline run to record the call in
+   * @returns The updated analysis (the previous narrative if the reply is unusable)
    */
-  private getFallbackContext(symptoms: SymptomLog[]): HealthMemoryContext {
+  private async updateContext(
+    memory: PersistedHealthMemory,
+    statistics: Pick<HealthMemoryContext, 'patterns' | 'trends'>,
+    trace?: TraceRun
+  ): Promise<NonNullable<PersistedHealthMemory['context']>> {
+    const previous = memory.context;
+    const unanalyzed = new Set(memory.unanalyzedLogIds);
+    const newLogs = memory.recentLogs.filter(log => unanalyzed.has(log.id));
+
+    const newLogLines = PromptBudget.fitLines(
+      [...newLogs].reverse().map(log => this.formatLog(log)),
+      NEW_LOGS_PROMPT_TOKENS
+    );
+    const omittedNote = newLogLines.omitted > 0 ? `\n(${newLogLines.omitted} older new logs omitted)` : '';
+
+    const previousNarrative = previous && {
+      patternTriggers: previous.patterns.map(pattern => ({ symptom: pattern.symptom, triggers: pattern.triggers })),
+      historicalContext: previous.historicalContext,
+      healthSummary: previous.healthSummary,
+    };
+
+    const { value: result } = await PromptRegistry.complete(HEALTH_MEMORY_UPDATE_PROMPT, {
+      patterns: statistics.patterns.length > 0 ? statistics.patterns.map(pattern => this.formatPattern(pattern)).join('\n') : 'None yet',
+      trends: JSON.stringify(statistics.trends),
+      currentMemory: previousNarrative ? JSON.stringify(previousNarrative) : 'None yet',
+      totalLogs: memory.totalLogs,
+      timeline: HealthMemoryStore.formatTimeline(memory, TIMELINE_PROMPT_TOKENS),
+      newLogs: `${newLogLines.lines.join('\n')}${omittedNote}`,
+      maxListItems: MAX_LIST_ITEMS,
+    }, previousNarrative ? { ...HEALTH_MEMORY_OUTPUT, fallback: previousNarrative } : HEALTH_MEMORY_OUTPUT, trace);
+
+    const cap = <T>(items: T[]) => items.slice(0, MAX_LIST_ITEMS);
+    const triggersFor = (symptom: string) =>
+      result.patternTriggers.find(item => item.symptom.toLowerCase() === symptom.toLowerCase())?.triggers;
+
     return {
-      patterns: [],
-      trends: { overall: 'stable', frequency: 0, severity: 'mild' },
+      patterns: statistics.patterns.map(pattern => ({
+        ...pattern,
+        triggers: cap(triggersFor(pattern.symptom) ?? pattern.triggers),
+      })),
+      trends: statistics.trends,
       historicalContext: {
-        recurringIssues: [],
-        seasonalPatterns: [],
-        lifestyleFactors: [],
-        triggerPatterns: []
+        recurringIssues: cap(result.historicalContext.recurringIssues),
+        seasonalPatterns: cap(result.historicalContext.seasonalPatterns),
+        lifestyleFactors: cap(result.historicalContext.lifestyleFactors),
+        triggerPatterns: cap(result.historicalContext.triggerPatterns),
       },
       healthSummary: {
-        primaryConcerns: symptoms.length > 0 ? [symptoms[symptoms.length - 1].summary] : [],
-        improvementAreas: [],
-        stableAreas: []
-      }
+        primaryConcerns: cap(result.healthSummary.primaryConcerns),
+        improvementAreas: cap(result.healthSummary.improvementAreas),
+        stableAreas: cap(result.healthSummary.stableAreas),
+      },
     };
   }
 
   // ============================================================================
-  // PARSING METHODS
+  // COMPACTION
   // ============================================================================
 
   /**
-   * Parse patterns from AI response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Array of parsed symptom patterns
+   * Summarize weeks that left the recent window and months that left the weekly window
    */
-  private parsePatterns(content: string): SymptomPattern[] {
-    try {
-      const data = JSON.parse(content);
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error('Error parsing patterns:', error);
-      return [];
+  private async compact(initial: PersistedHealthMemory, trace?: TraceRun): Promise<PersistedHealthMemory> {
+    let memory = initial;
+    let summariesLeft = MAX_PERIOD_SUMMARIES_PER_RUN;
+
+    for (const week of HealthMemoryStore.weeksToCompact(memory)) {
+      const fallback = HealthMemoryStore.describePeriod(week, week.length);
+      const summary = summariesLeft-- > 0
+        ? await this.summarizePeriod(`the week of ${week[0].timestamp.slice(0, 10)}`, week.map(log => this.formatLog(log)), fallback, trace)
+        : fallback;
+      memory = HealthMemoryStore.applyWeeklySummary(memory, week, summary);
     }
+
+    for (const month of HealthMemoryStore.monthsToCompact(memory)) {
+      const logCount = month.reduce((total, week) => total + week.logCount, 0);
+      const fallback = HealthMemoryStore.describePeriod(month, logCount);
+      const summary = summariesLeft-- > 0
+        ? await this.summarizePeriod(
+            `the month of ${month[0].start.slice(0, 7)}`,
+            month.map(week => `- Week of ${week.start.slice(0, 10)} (${week.logCount} logs): ${week.summary}`),
+            fallback,
+            trace
+          )
+        : fallback;
+      memory = HealthMemoryStore.applyMonthlySummary(memory, month, summary);
+    }
+
+    return memory;
   }
 
   /**
-   * Parse trends from AI response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Parsed health trends
+   * Compact a period into a few sentences, or the count-based fallback if the call fails
    */
-  private parseTrends(content: string): {
-    overall: 'improving' | 'stable' | 'worsening';
-    frequency: number;
-    severity: 'mild' | 'moderate' | 'severe';
-  } {
+  private async summarizePeriod(label: string, lines: string[], fallback: string, trace?: TraceRun): Promise<string> {
     try {
-      const data = JSON.parse(content);
-      return {
-        overall: data.overall || 'stable',
-        frequency: data.frequency || 0,
-        severity: data.severity || 'mild'
-      };
+      const { value: { summary } } = await PromptRegistry.complete(PERIOD_SUMMARY_PROMPT, {
+        label,
+        entries: PromptBudget.fitLines(lines, PERIOD_PROMPT_TOKENS).lines.join('\n'),
+      }, PERIOD_SUMMARY_OUTPUT, trace);
+
+      return summary.trim() || fallback;
     } catch (error) {
-      console.error('Error parsing trends:', error);
-      return { overall: 'stable', frequency: 0, severity: 'mild' };
+      console.warn(`🧠 HealthMemoryAgent: Could not summarize ${label}, keeping counts only:`, error);
+      trace?.fallback('summarizePeriod', error, fallback);
+      return fallback;
     }
   }
 
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private findPattern(patterns: SymptomPattern[], symptom: string): SymptomPattern | undefined {
+    return patterns.find(pattern => pattern.symptom.toLowerCase() === symptom.toLowerCase());
+  }
+
+  private formatPattern(pattern: SymptomPattern): string {
+    const details = [
+      pattern.healthDomain,
+      `${pattern.frequency}/week`,
+      `lasts ~${pattern.averageDuration} days`,
+      pattern.severity,
+      pattern.trend,
+      pattern.timeOfDayPattern && `usually ${pattern.timeOfDayPattern}`,
+      pattern.seasonalPattern && 'seasonal',
+      `since ${pattern.firstOccurrence.toISOString().slice(0, 10)}`,
+    ].filter(Boolean);
+    return `- ${pattern.symptom} (${details.join(', ')})`;
+  }
+
+  private formatLog(log: MemoryLogDigest): string {
+    return `- ${log.timestamp.slice(0, 10)}: ${log.summary}: ${log.transcript} (${log.severity} severity, ${log.healthDomain})`;
+  }
+
+  private toContext(memory: PersistedHealthMemory): HealthMemoryContext {
+    return {
+      ...(memory.context ?? this.getFallbackContext([])),
+      timeline: HealthMemoryStore.formatTimeline(memory, CONTEXT_TIMELINE_TOKENS),
+    };
+  }
+
+  // ============================================================================
+  // FALLBACK METHODS
+  // ============================================================================
+
   /**
-   * Parse historical context from AI response
+   * Get fallback context when AI analysis fails or there is too little history
    * 
-   * @param content - JSON string from AI response
-   * @returns Parsed historical context
+   * @param symptoms - Array of symptom logs
+   * @param memory - Stored memory, for its timeline
+   * @returns Basic fallback health memory context
    */
-  private parseHistoricalContext(content: string): {
-    recurringIssues: string[];
-    seasonalPatterns: string[];
-    lifestyleFactors: string[];
-    triggerPatterns: string[];
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        recurringIssues: data.recurringIssues || [],
-        seasonalPatterns: data.seasonalPatterns || [],
-        lifestyleFactors: data.lifestyleFactors || [],
-        triggerPatterns: data.triggerPatterns || []
-      };
-    } catch (error) {
-      console.error('Error parsing historical context:', error);
-      return {
+  private getFallbackContext(symptoms: SymptomLog[], memory?: PersistedHealthMemory): HealthMemoryContext {
+    return {
+      patterns: [],
+      trends: { overall: 'stable', frequency: 0, severity: 'mild' },
+      historicalContext: {
         recurringIssues: [],
         seasonalPatterns: [],
         lifestyleFactors: [],
         triggerPatterns: []
-      };
-    }
-  }
-
-  /**
-   * Parse health summary from AI response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Parsed health summary
-   */
-  private parseHealthSummary(content: string): {
-    primaryConcerns: string[];
-    improvementAreas: string[];
-    stableAreas: string[];
-  } {
-    try {
-      const data = JSON.parse(content);
-      return {
-        primaryConcerns: data.primaryConcerns || [],
-        improvementAreas: data.improvementAreas || [],
-        stableAreas: data.stableAreas || []
-      };
-    } catch (error) {
-      console.error('Error parsing health summary:', error);
-      return {
-        primaryConcerns: [],
+      },
+      healthSummary: {
+        primaryConcerns: symptoms.length > 0 ? [symptoms[symptoms.length - 1].summary] : [],
         improvementAreas: [],
         stableAreas: []
-      };
-    }
+      },
+      timeline: memory
+        ? HealthMemoryStore.formatTimeline(memory, CONTEXT_TIMELINE_TOKENS)
+        : PromptBudget.symptomSummaries(symptoms, CONTEXT_TIMELINE_TOKENS)
+    };
   }
-} 
\ No newline at end of file
+}
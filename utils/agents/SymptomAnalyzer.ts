@@ -1,5 +1,10 @@
-import { transcribeAudio, makeOpenAIRequest } from '../openai';
-import { MedicalRecommendation, HealthDomain } from '../../types/recommendations';
+import { LLMClient } from '../llm';
+import { AppLanguage, SUPPORTED_LANGUAGES } from '../i18n';
+import { PromptRegistry } from '../promptRegistry';
+import type { TraceRun } from '../pipelineTrace';
+import { MedicalRecommendation, HealthDomain, GenerationInfo } from '../../types/recommendations';
+import { SYMPTOM_ANALYSIS_OUTPUT } from './outputSchemas';
+import { SYMPTOM_ANALYSIS_PROMPT } from './prompts';
 
 // ============================================================================
 // SYMPTOM ANALYZER AGENT
@@ -7,29 +12,41 @@ import { MedicalRecommendation, HealthDomain } from '../../types/recommendations
 // 
 // PURPOSE: Analyzes individual symptom recordings using AI
 // RESPONSIBILITIES: 
-// 1. Transcribe audio to text
+// 1. Transcribe audio to text (in the profile's language, or detected)
 // 2. Generate comprehensive analysis (summary, classification, severity, impact)
 // 3. Provide fallback results if analysis fails
 // 
 // OPTIMIZATION: Single comprehensive AI call instead of multiple separate calls
-// COST: $0.05 per symptom (1 Whisper + 1 GPT-3.5-turbo)
+// COST: One transcription + one chat call, recorded in the CostLedger
 
 export interface SymptomAnalysisResult {
   transcript: string;
   summary: string;
+  englishSummary?: string;      // Set only when the summary is in another language
   recommendations: MedicalRecommendation[];
   healthDomain: HealthDomain;
   severity: 'mild' | 'moderate' | 'severe';
   impact: 'low' | 'medium' | 'high';
+  generatedBy?: GenerationInfo; // Unset for the fallback result
 }
 
 export class SymptomAnalyzer {
   private userId: string;
+  private language?: AppLanguage; // Unset: detect the spoken language and answer in it
 
   constructor(userId: string) {
     this.userId = userId;
   }
 
+  /**
+   * Set the language recordings are transcribed and summarized in
+   * 
+   * @param language - The profile's language, or undefined to detect it
+   */
+  setLanguage(language?: AppLanguage): void {
+    this.language = language;
+  }
+
   // ============================================================================
   // MAIN ANALYSIS METHOD
   // ============================================================================
@@ -42,32 +59,62 @@ export class SymptomAnalyzer {
    * 2. Single comprehensive analysis call (combines summary, classification, severity, impact)
    * 
    * @param audioUri - URI of the recorded symptom audio
+   * @param trace - Pipeline run to record the calls and any fallback in
    * @returns Complete analysis of the symptom recording
    */
-  async analyzeSymptom(audioUri: string): Promise<SymptomAnalysisResult> {
+  async analyzeSymptom(audioUri: string, trace?: TraceRun): Promise<SymptomAnalysisResult> {
     console.log('🔍 SymptomAnalyzer: Analyzing symptom recording (optimized)');
     
     try {
       // Step 1: Transcribe audio to text
-      const transcript = await this.transcribeAudio(audioUri);
+      const transcript = await this.transcribeAudio(audioUri, trace);
       
       // Step 2: Single comprehensive analysis call (combines summary, classification, impact)
-      const analysis = await this.comprehensiveAnalysis(transcript);
+      const analysis = await this.comprehensiveAnalysis(transcript, trace);
       
       return {
         transcript,
         summary: analysis.summary,
+        englishSummary: analysis.englishSummary,
         recommendations: [], // Recommendations now generated separately
         healthDomain: analysis.healthDomain,
         severity: analysis.severity,
-        impact: analysis.impact
+        impact: analysis.impact,
+        generatedBy: analysis.generatedBy
       };
     } catch (error) {
       console.error('SymptomAnalyzer error:', error);
-      return this.getFallbackResult(audioUri);
+      const fallback = this.getFallbackResult(audioUri);
+      trace?.fallback('getFallbackResult', error, fallback);
+      return fallback;
     }
   }
 
+  // ============================================================================
+  // STAGED ANALYSIS (used by the processing queue)
+  // ============================================================================
+
+  /**
+   * Transcribe a recording, throwing on failure so the caller can retry
+   * 
+   * @param audioUri - URI of the recorded audio
+   * @returns Transcribed text
+   */
+  async transcribe(audioUri: string): Promise<string> {
+    const transcript = await LLMClient.transcribe(audioUri, this.language);
+    return transcript || 'Unable to transcribe audio';
+  }
+
+  /**
+   * Summarize and classify a transcript, throwing when the model cannot be reached
+   * 
+   * @param transcript - Transcribed audio text
+   * @returns Summary (plus an English copy), health domain, severity, impact and the prompt and model behind them
+   */
+  async analyzeTranscript(transcript: string): Promise<Omit<SymptomAnalysisResult, 'transcript' | 'recommendations'>> {
+    return this.comprehensiveAnalysis(transcript);
+  }
+
   // ============================================================================
   // COMPREHENSIVE ANALYSIS (Optimized - single call)
   // ============================================================================
@@ -76,43 +123,27 @@ export class SymptomAnalyzer {
    * Comprehensive analysis combining summary, classification, and impact assessment
    * 
    * @param transcript - Transcribed audio text
+   * @param trace - Pipeline run to record the call in
    * @returns Combined analysis result
    */
-  private async comprehensiveAnalysis(transcript: string): Promise<{
+  private async comprehensiveAnalysis(transcript: string, trace?: TraceRun): Promise<{
     summary: string;
+    englishSummary?: string;
     healthDomain: HealthDomain;
     severity: 'mild' | 'moderate' | 'severe';
     impact: 'low' | 'medium' | 'high';
+    generatedBy: GenerationInfo;
   }> {
-    const response = await makeOpenAIRequest({
-      model: 'gpt-3.5-turbo', // Less critical - basic analysis
-      messages: [
-        {
-          role: 'system',
-          content: `Analyze the symptom and return JSON with:
-          - summary: 5-word summary of the health concern
-          - healthDomain: one of [general_wellness, cardiovascular, respiratory, digestive, musculoskeletal, neurological, mental_health, skin, sleep, energy, pain_management, stress_management]
-          - severity: one of [mild, moderate, severe]
-          - impact: one of [low, medium, high] (impact on daily life)`
-        },
-        { 
-          role: 'user', 
-          content: `Analyze symptom: ${transcript}`
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.2
-    });
-    
-    const content = response.choices[0]?.message?.content || '{}';
-    const analysis = JSON.parse(content);
-    
-    return {
-      summary: analysis.summary || 'General health concern',
-      healthDomain: analysis.healthDomain || 'general_wellness',
-      severity: analysis.severity || 'mild',
-      impact: analysis.impact || 'low'
-    };
+    const { value: { englishSummary, ...value }, generatedBy } = await PromptRegistry.complete(
+      SYMPTOM_ANALYSIS_PROMPT,
+      { transcript, language: this.language && SUPPORTED_LANGUAGES[this.language].name },
+      SYMPTOM_ANALYSIS_OUTPUT,
+      trace
+    );
+
+    // An English copy is only worth keeping when the summary isn't already English
+    const hasEnglishCopy = englishSummary && englishSummary.toLowerCase() !== value.summary.toLowerCase();
+    return { ...value, ...(hasEnglishCopy && { englishSummary }), generatedBy };
   }
 
   // ============================================================================
@@ -123,14 +154,18 @@ export class SymptomAnalyzer {
    * Transcribe audio recording to text
    * 
    * @param audioUri - URI of the recorded audio
+   * @param trace - Pipeline run to record the transcription and any fallback in
    * @returns Transcribed text
    */
-  private async transcribeAudio(audioUri: string): Promise<string> {
+  private async transcribeAudio(audioUri: string, trace?: TraceRun): Promise<string> {
     try {
-      const transcript = await transcribeAudio(audioUri);
+      const transcript = trace
+        ? await trace.step('transcribe', 'transcription', { audioUri, language: this.language }, () => LLMClient.transcribe(audioUri, this.language))
+        : await LLMClient.transcribe(audioUri, this.language);
       return transcript || 'Unable to transcribe audio';
     } catch (error) {
       console.error('Audio transcription error:', error);
+      trace?.fallback('transcribeAudio', error, 'Unable to transcribe audio');
       return 'Unable to transcribe audio';
     }
   }
@@ -0,0 +1,233 @@
+import { OutputSchema, defineOutput } from '../structuredOutput';
+import { MedicalRecommendation } from '../../types/recommendations';
+import { HEALTH_DOMAINS, HealthTaxonomy } from '../healthTaxonomy';
+
+// ============================================================================
+// AGENT OUTPUT SCHEMAS - The shape of every structured model reply
+// ============================================================================
+//
+// PURPOSE: One typed schema per agent output, validated by StructuredOutput
+// CONVENTION: Every reply is a JSON object (JSON mode requires one), so list
+//             outputs are wrapped in a single field, e.g. { "questions": [...] }
+// FALLBACKS: Each fallback is what the agent used before validation existed,
+//            so a model that never complies degrades exactly as it did then
+
+// Shared with the prompt templates (prompts.ts), so prompts list exactly the values the schemas accept
+export const SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+export const IMPACTS = ['low', 'medium', 'high'] as const;
+export const URGENCIES = ['urgent', 'high', 'medium', 'low'] as const;
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+export const RECOMMENDATION_PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'] as const;
+export const RECOMMENDATION_URGENCIES = ['immediate', 'within days', 'within weeks'] as const;
+export const RECOMMENDATION_CATEGORIES = [
+  'lifestyle',
+  'medication',
+  'appointment',
+  'monitoring',
+  'emergency',
+  'preventive',
+] as const satisfies readonly MedicalRecommendation['category'][];
+
+// Models answer with body systems and symptoms ("cardiovascular", "pain_management");
+// the taxonomy maps those onto a domain before anything falls back to general_wellness
+const healthDomain = () => OutputSchema.enumOf(HEALTH_DOMAINS, {
+  default: 'general_wellness',
+  normalize: value => HealthTaxonomy.matchDomain(value)?.domain,
+  fallback: 'general_wellness',
+});
+const stringList = () => OutputSchema.array(OutputSchema.string(), { default: [] });
+
+// ============================================================================
+// SYMPTOM ANALYZER
+// ============================================================================
+
+export const SYMPTOM_ANALYSIS_OUTPUT = defineOutput(
+  'symptom_analysis',
+  OutputSchema.object({
+    summary: OutputSchema.string({ default: 'General health concern' }),
+    englishSummary: OutputSchema.string({ default: '' }),
+    healthDomain: healthDomain(),
+    severity: OutputSchema.enumOf(SEVERITIES, { default: 'mild' }),
+    impact: OutputSchema.enumOf(IMPACTS, { default: 'low' }),
+  }),
+  { summary: 'General health concern', englishSummary: '', healthDomain: 'general_wellness', severity: 'mild', impact: 'low' }
+);
+
+// ============================================================================
+// HEALTH MEMORY AGENT
+// ============================================================================
+
+const patternTriggersSchema = OutputSchema.object({
+  symptom: OutputSchema.string(),
+  triggers: stringList(),
+});
+
+const historicalContextSchema = OutputSchema.object({
+  recurringIssues: stringList(),
+  seasonalPatterns: stringList(),
+  lifestyleFactors: stringList(),
+  triggerPatterns: stringList(),
+}, { default: { recurringIssues: [], seasonalPatterns: [], lifestyleFactors: [], triggerPatterns: [] } });
+
+const healthSummarySchema = OutputSchema.object({
+  primaryConcerns: stringList(),
+  improvementAreas: stringList(),
+  stableAreas: stringList(),
+}, { default: { primaryConcerns: [], improvementAreas: [], stableAreas: [] } });
+
+/**
+ * The model's part of the memory in one reply; pattern statistics and trends are
+ * computed locally (utils/symptomAnalytics.ts). The agent passes the previous
+ * memory as the fallback.
+ */
+export const HEALTH_MEMORY_OUTPUT = defineOutput(
+  'health_memory',
+  OutputSchema.object({
+    patternTriggers: OutputSchema.array(patternTriggersSchema, { default: [] }),
+    historicalContext: historicalContextSchema,
+    healthSummary: healthSummarySchema,
+  }),
+  {
+    patternTriggers: [],
+    historicalContext: { recurringIssues: [], seasonalPatterns: [], lifestyleFactors: [], triggerPatterns: [] },
+    healthSummary: { primaryConcerns: [], improvementAreas: [], stableAreas: [] },
+  }
+);
+
+/**
+ * A week or month of logs compacted into a few sentences
+ */
+export const PERIOD_SUMMARY_OUTPUT = defineOutput(
+  'period_summary',
+  OutputSchema.object({
+    summary: OutputSchema.string({ default: '' }),
+  }),
+  { summary: '' }
+);
+
+// ============================================================================
+// DECISION ENGINE AGENT
+// ============================================================================
+
+export const SITUATION_ANALYSIS_OUTPUT = defineOutput(
+  'situation_analysis',
+  OutputSchema.object({
+    urgency: OutputSchema.enumOf(URGENCIES, { default: 'medium' }),
+    primaryConcern: OutputSchema.string({ default: 'General health concern' }),
+    contributingFactors: stringList(),
+    riskLevel: OutputSchema.enumOf(RISK_LEVELS, { default: 'low' }),
+  }),
+  { urgency: 'medium', primaryConcern: 'General health concern', contributingFactors: [], riskLevel: 'low' }
+);
+
+export const CONFLICTS_OUTPUT = defineOutput(
+  'recommendation_conflicts',
+  OutputSchema.object({
+    conflicts: OutputSchema.array(OutputSchema.object({
+      description: OutputSchema.string(),
+      priority1: OutputSchema.string(),
+      priority2: OutputSchema.string(),
+      resolution: OutputSchema.string(),
+    })),
+  }),
+  { conflicts: [] }
+);
+
+export const DECISION_OUTPUT = defineOutput(
+  'health_decision',
+  OutputSchema.object({
+    primaryAction: OutputSchema.string(),
+    priority: OutputSchema.enumOf(URGENCIES, { default: 'medium' }),
+    reasoning: OutputSchema.string({ default: 'Based on current symptoms' }),
+    timeline: OutputSchema.string({ default: 'Within 24 hours' }),
+    riskAssessment: OutputSchema.object(
+      {
+        level: OutputSchema.enumOf(RISK_LEVELS, { default: 'low' }),
+        factors: stringList(),
+      },
+      { default: { level: 'low', factors: [] } }
+    ),
+  }),
+  {
+    primaryAction: 'Monitor symptoms',
+    priority: 'medium',
+    reasoning: 'Based on current symptoms',
+    timeline: 'Within 24 hours',
+    riskAssessment: { level: 'low', factors: [] },
+  }
+);
+
+export const RESOLVED_ACTIONS_OUTPUT = defineOutput(
+  'resolved_actions',
+  OutputSchema.object({ actions: OutputSchema.array(OutputSchema.string()) }),
+  { actions: [] }
+);
+
+// ============================================================================
+// ACTION COORDINATOR AGENT AND AI SERVICE
+// ============================================================================
+
+export const QUESTIONS_OUTPUT = defineOutput(
+  'appointment_questions',
+  OutputSchema.object({ questions: OutputSchema.array(OutputSchema.string()) }),
+  { questions: [] }
+);
+
+export const SUB_STRATEGIES_OUTPUT = defineOutput(
+  'sub_strategies',
+  OutputSchema.object({ strategies: OutputSchema.array(OutputSchema.string()) }),
+  { strategies: [] }
+);
+
+export const TIMELINE_OUTPUT = defineOutput(
+  'action_timeline',
+  OutputSchema.object({
+    immediate: stringList(),
+    shortTerm: stringList(),
+    longTerm: stringList(),
+  }),
+  { immediate: [], shortTerm: [], longTerm: [] }
+);
+
+export const PROVIDER_RECOMMENDATIONS_OUTPUT = defineOutput(
+  'provider_recommendations',
+  OutputSchema.object({
+    providers: OutputSchema.array(OutputSchema.object({
+      type: OutputSchema.string(),
+      reason: OutputSchema.string({ default: '' }),
+      urgency: OutputSchema.enumOf(URGENCIES, { default: 'medium' }),
+    })),
+  }),
+  { providers: [] }
+);
+
+export const COMMUNICATION_PLAN_OUTPUT = defineOutput(
+  'communication_plan',
+  OutputSchema.object({
+    providerQuestions: stringList(),
+    medicalSummary: OutputSchema.string({ default: 'General health consultation needed' }),
+    followUpPlan: OutputSchema.string({ default: 'Monitor symptoms and follow up as needed' }),
+  }),
+  {
+    providerQuestions: [],
+    medicalSummary: 'General health consultation needed',
+    followUpPlan: 'Monitor symptoms and follow up as needed',
+  }
+);
+
+export const RECOMMENDATIONS_OUTPUT = defineOutput(
+  'symptom_recommendations',
+  OutputSchema.object({
+    recommendations: OutputSchema.array(OutputSchema.object({
+      title: OutputSchema.string(),
+      description: OutputSchema.string(),
+      priority: OutputSchema.enumOf(RECOMMENDATION_PRIORITIES, { default: 'MEDIUM' }),
+      urgency: OutputSchema.enumOf(RECOMMENDATION_URGENCIES, { default: 'within days' }),
+      category: OutputSchema.enumOf(RECOMMENDATION_CATEGORIES, { default: 'lifestyle', fallback: 'lifestyle' }),
+      medicalRationale: OutputSchema.string({ default: '' }),
+      riskLevel: OutputSchema.enumOf(RISK_LEVELS, { default: 'low' }),
+      symptomCorrelation: OutputSchema.string({ default: '' }),
+    })),
+  }),
+  { recommendations: [] }
+);
@@ -0,0 +1,394 @@
+import { definePrompt } from '../promptRegistry';
+import { HEALTH_DOMAINS, HEALTH_DOMAIN_INFO } from '../healthTaxonomy';
+import {
+  SEVERITIES,
+  IMPACTS,
+  URGENCIES,
+  RISK_LEVELS,
+  RECOMMENDATION_PRIORITIES,
+  RECOMMENDATION_URGENCIES,
+  RECOMMENDATION_CATEGORIES,
+} from './outputSchemas';
+
+// ============================================================================
+// AGENT PROMPTS - Every prompt template the agents and AI service send
+// ============================================================================
+//
+// PURPOSE: One registered, versioned template per prompt (see utils/promptRegistry.ts)
+// VERSIONING: Bump `version` on any change to a template's text, maxTokens or
+//             temperature - including changes to the shared value lists below
+// VALUE LISTS: Enumerations come from outputSchemas.ts and the health taxonomy
+//              (healthTaxonomy.ts), so a prompt can't offer the model a value
+//              its output schema rejects
+
+const oneOf = (values: readonly string[]) => `one of [${values.join(', ')}]`;
+
+// Profiles without a language setting get replies in the language they spoke
+const writtenIn = (language: string | undefined, source: string) => language ?? `the same language as ${source}`;
+
+const domainList = () => HEALTH_DOMAINS
+  .map(domain => `${domain} (${HEALTH_DOMAIN_INFO[domain].description})`)
+  .join(', ');
+
+// ============================================================================
+// SYMPTOM ANALYZER
+// ============================================================================
+
+export const SYMPTOM_ANALYSIS_PROMPT = definePrompt<{
+  transcript: string;
+  language?: string; // English name of the profile's language; unset follows the transcript
+}>({
+  name: 'symptom_analysis',
+  version: 3,
+  task: 'symptomAnalysis',
+  system: ({ language }) => `Analyze the symptom and return JSON with:
+          - summary: 5-word summary of the health concern, written in ${writtenIn(language, 'the transcript')}
+          - englishSummary: the same summary in English, for doctors
+          - healthDomain: exactly one of these ids, never a body system or symptom: ${domainList()}
+          - severity: ${oneOf(SEVERITIES)}
+          - impact: ${oneOf(IMPACTS)} (impact on daily life)`,
+  user: ({ transcript }) => `Analyze symptom: ${transcript}`,
+  maxTokens: 200,
+  temperature: 0.2,
+});
+
+// ============================================================================
+// HEALTH MEMORY AGENT
+// ============================================================================
+
+export const HEALTH_MEMORY_UPDATE_PROMPT = definePrompt<{
+  patterns: string;       // One line per pattern, or 'None yet'
+  trends: string;         // JSON
+  currentMemory: string;  // JSON, or 'None yet'
+  totalLogs: number;
+  timeline: string;
+  newLogs: string;
+  maxListItems: number;
+}>({
+  name: 'health_memory_update',
+  version: 1,
+  task: 'healthMemory',
+  system: ({ maxListItems }) => `You maintain a person's long-term health memory. The pattern statistics and trends are computed from their logs; treat them as facts. Update the memory with their new symptom logs and return the complete updated memory as JSON with:
+          - patternTriggers: array with one item per listed pattern: symptom (exactly as listed) and triggers (array of potential triggers mentioned in the logs)
+          - historicalContext: object with arrays recurringIssues, seasonalPatterns, lifestyleFactors and triggerPatterns
+          - healthSummary: object with arrays primaryConcerns, improvementAreas and stableAreas
+          Keep whatever the new logs do not change, and at most ${maxListItems} items per list.`,
+  user: (vars) => `Patterns:
+          ${vars.patterns}
+
+          Overall trends: ${vars.trends}
+
+          Current memory:
+          ${vars.currentMemory}
+
+          History (${vars.totalLogs} logs in total):
+          ${vars.timeline}
+
+          New logs:
+          ${vars.newLogs}`,
+  maxTokens: 1000,
+  temperature: 0.2,
+});
+
+export const PERIOD_SUMMARY_PROMPT = definePrompt<{ label: string; entries: string }>({
+  name: 'period_summary',
+  version: 1,
+  task: 'healthMemory',
+  system: () => `Summarize a period of a person's symptom logs for their long-term health record and return JSON with:
+          - summary: 2-3 sentences naming the symptoms, how often and how severe they were, and any triggers or changes mentioned`,
+  user: ({ label, entries }) => `Summarize ${label}:
+          ${entries}`,
+  maxTokens: 200,
+  temperature: 0.2,
+});
+
+// ============================================================================
+// DECISION ENGINE AGENT
+// ============================================================================
+
+export const SITUATION_ANALYSIS_PROMPT = definePrompt<{
+  userInput: string;
+  symptoms: string;
+  trends: string; // JSON
+  timeline: string;
+}>({
+  name: 'situation_analysis',
+  version: 1,
+  task: 'healthDecision',
+  system: () => `Analyze current health situation and return JSON with:
+          - urgency: ${oneOf(URGENCIES)}
+          - primaryConcern: main health issue to address
+          - contributingFactors: array of contributing factors
+          - riskLevel: ${oneOf(RISK_LEVELS)}`,
+  user: (vars) => `Analyze current situation:
+          User input: ${vars.userInput}
+          Current symptoms: ${vars.symptoms}
+          Memory context: ${vars.trends}
+          History:
+          ${vars.timeline}`,
+  maxTokens: 400,
+  temperature: 0.2,
+});
+
+export const CONFLICTS_PROMPT = definePrompt<{ userInput: string; recommendations: string }>({
+  name: 'recommendation_conflicts',
+  version: 1,
+  task: 'healthDecision',
+  system: () => `Identify conflicts between health recommendations and return JSON with a "conflicts" array (empty if there are none), each item with:
+          - description: description of the conflict
+          - priority1: first conflicting recommendation
+          - priority2: second conflicting recommendation
+          - resolution: how to resolve the conflict`,
+  user: (vars) => `Identify conflicts between:
+          User input: ${vars.userInput}
+          Existing recommendations: ${vars.recommendations}`,
+  maxTokens: 600,
+  temperature: 0.2,
+});
+
+export const DECISION_PROMPT = definePrompt<{
+  situation: string;         // JSON
+  conflicts: string;         // JSON
+  userInput: string;
+  historicalContext: string; // JSON
+  timeline: string;
+}>({
+  name: 'health_decision',
+  version: 1,
+  task: 'healthDecision',
+  system: () => `Make autonomous health decision and return JSON with:
+          - primaryAction: main action to take
+          - priority: ${oneOf(URGENCIES)}
+          - reasoning: explanation for the decision
+          - timeline: when to take action
+          - riskAssessment: object with level (${RISK_LEVELS.join('/')}) and factors (array)`,
+  user: (vars) => `Make decision based on:
+          Situation: ${vars.situation}
+          Conflicts: ${vars.conflicts}
+          User input: ${vars.userInput}
+          Memory context: ${vars.historicalContext}
+          History:
+          ${vars.timeline}`,
+  maxTokens: 500,
+  temperature: 0.2,
+});
+
+export const RESOLVE_CONFLICTS_PROMPT = definePrompt<{
+  decision: string;  // JSON
+  conflicts: string; // JSON
+  userInput: string;
+}>({
+  name: 'resolve_conflicts',
+  version: 1,
+  task: 'healthDecision',
+  system: () => `Resolve health conflicts and return JSON with an "actions" array of resolved actions (strings)`,
+  user: (vars) => `Resolve conflicts:
+          Decision: ${vars.decision}
+          Conflicts: ${vars.conflicts}
+          User input: ${vars.userInput}`,
+  maxTokens: 400,
+  temperature: 0.2,
+});
+
+// ============================================================================
+// ACTION COORDINATOR AGENT
+// ============================================================================
+
+export const APPOINTMENT_PREP_QUESTIONS_PROMPT = definePrompt<{ appointmentTitle: string; symptoms: string }>({
+  name: 'appointment_prep_questions',
+  version: 1,
+  task: 'actionPlanning',
+  system: ({ appointmentTitle }) => `Generate 5 relevant questions for a medical appointment about "${appointmentTitle}".
+            Focus on symptoms, concerns, and preparation. Return JSON with a "questions" array of strings.`,
+  user: (vars) => `Generate questions for appointment: ${vars.appointmentTitle}
+            Relevant symptoms: ${vars.symptoms}`,
+  maxTokens: 400,
+  temperature: 0.2,
+});
+
+export const FOLLOW_UP_QUESTION_PROMPT = definePrompt<{ description: string; type: string }>({
+  name: 'follow_up_question',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Generate a follow-up question based on the missing update.
+          Make it conversational and specific to the situation.`,
+  user: ({ description, type }) => `Generate follow-up question for: ${description} (${type})`,
+  maxTokens: 100,
+  temperature: 0.3,
+});
+
+export const PRIMARY_STRATEGY_PROMPT = definePrompt<{
+  primaryAction: string;
+  reasoning: string;
+  userInput: string;
+  priority: string;
+}>({
+  name: 'primary_strategy',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Create a primary health strategy based on the decision and return as a single sentence`,
+  user: (vars) => `Create strategy for:
+          Decision: ${vars.primaryAction}
+          Reasoning: ${vars.reasoning}
+          User input: ${vars.userInput}
+          Priority: ${vars.priority}`,
+  maxTokens: 100,
+  temperature: 0.2,
+});
+
+export const SUB_STRATEGIES_PROMPT = definePrompt<{
+  primaryAction: string;
+  resolvedActions: string;
+  userInput: string;
+}>({
+  name: 'sub_strategies',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Create 3-5 sub-strategies and return JSON with a "strategies" array of strings`,
+  user: (vars) => `Create sub-strategies for:
+          Primary action: ${vars.primaryAction}
+          Resolved actions: ${vars.resolvedActions}
+          User input: ${vars.userInput}`,
+  maxTokens: 300,
+  temperature: 0.2,
+});
+
+export const ACTION_TIMELINE_PROMPT = definePrompt<{
+  primaryAction: string;
+  timeline: string;
+  priority: string;
+  resolvedActions: string;
+}>({
+  name: 'action_timeline',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Create timeline and return JSON with:
+          - immediate: array of actions to take within 24 hours
+          - shortTerm: array of actions to take within 1 week
+          - longTerm: array of actions to take within 1 month`,
+  user: (vars) => `Create timeline for:
+          Decision: ${vars.primaryAction}
+          Timeline: ${vars.timeline}
+          Priority: ${vars.priority}
+          Resolved actions: ${vars.resolvedActions}`,
+  maxTokens: 400,
+  temperature: 0.2,
+});
+
+export const PROVIDER_RECOMMENDATIONS_PROMPT = definePrompt<{
+  primaryAction: string;
+  priority: string;
+  riskAssessment: string; // JSON
+  symptoms: string;
+}>({
+  name: 'provider_recommendations',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Create provider recommendations and return JSON with a "providers" array, each item with:
+          - type: type of healthcare provider
+          - reason: why this provider is recommended
+          - urgency: ${oneOf(URGENCIES)}`,
+  user: (vars) => `Create provider recommendations for:
+          Decision: ${vars.primaryAction}
+          Priority: ${vars.priority}
+          Risk assessment: ${vars.riskAssessment}
+          Current symptoms: ${vars.symptoms}`,
+  maxTokens: 400,
+  temperature: 0.2,
+});
+
+export const COMMUNICATION_PLAN_PROMPT = definePrompt<{
+  primaryAction: string;
+  symptoms: string;
+  priority: string;
+  resolvedActions: string;
+}>({
+  name: 'communication_plan',
+  version: 1,
+  task: 'actionPlanning',
+  system: () => `Create communication plan and return JSON with:
+          - providerQuestions: array of 5 questions to ask healthcare provider
+          - medicalSummary: brief medical summary for provider
+          - followUpPlan: plan for follow-up care`,
+  user: (vars) => `Create communication plan for:
+          Decision: ${vars.primaryAction}
+          Current symptoms: ${vars.symptoms}
+          Priority: ${vars.priority}
+          Provider recommendations: ${vars.resolvedActions}`,
+  maxTokens: 600,
+  temperature: 0.2,
+});
+
+// ============================================================================
+// AI SERVICE
+// ============================================================================
+
+export const APPOINTMENT_QUESTIONS_PROMPT = definePrompt<{ title: string; date: string; language: string }>({
+  name: 'appointment_questions',
+  version: 2,
+  task: 'appointmentQuestions',
+  system: () => 'You are a health assistant helping patients prepare for doctor visits.',
+  user: ({ title, date, language }) => `Generate 5 relevant questions for a medical appointment about "${title}" scheduled for ${date}.
+      Focus on symptoms, concerns, and preparation. Write the questions in ${language}. Return JSON with a "questions" array of strings.`,
+  maxTokens: 300,
+  temperature: 0.3,
+});
+
+export const SYMPTOM_RECOMMENDATIONS_PROMPT = definePrompt<{
+  summary: string;
+  transcript: string;
+  healthDomain: string;
+  severity: string;
+  impact: string;
+  existingRecommendations: string; // One "- title" line each
+  history?: string;                // The symptom's recurring pattern; unset for a first occurrence
+  language?: string;               // Unset follows the symptom summary
+}>({
+  name: 'symptom_recommendations',
+  version: 3,
+  task: 'recommendations',
+  system: ({ language }) => `You are a health AI assistant. Generate the RIGHT NUMBER of HIGH-QUALITY recommendations that are SPECIFICALLY tied to the new symptom.
+
+            IMPORTANT: Generate exactly the right number of recommendations for this specific problem - not too few, not too many. Focus on the most important next steps that directly address the symptom.
+
+            Return JSON with a "recommendations" array, each item with:
+            - title: specific recommendation title
+            - description: clear, actionable description
+            - priority: ${oneOf(RECOMMENDATION_PRIORITIES)} (be conservative - only HIGH if urgent)
+            - urgency: ${oneOf(RECOMMENDATION_URGENCIES)}
+            - category: ${oneOf(RECOMMENDATION_CATEGORIES)}
+            - medicalRationale: specific explanation of how this addresses the symptom
+            - riskLevel: ${oneOf(RISK_LEVELS)}
+            - symptomCorrelation: specific symptom this addresses (use exact symptom summary)
+
+            CRITERIA:
+            - Must directly address the new symptom
+            - Must be actionable and specific
+            - Generate the appropriate number of recommendations for this specific problem
+            - Include all important next steps, but avoid overwhelming the user
+            - Avoid generic "general wellness" recommendations unless directly relevant
+            - Only recommend if there's a clear, direct benefit for the specific symptom
+
+            Write title, description and medicalRationale in ${writtenIn(language, 'the symptom summary')}; keep the enumerated values in English.`,
+  user: (vars) => `Generate recommendations for this SPECIFIC symptom:
+
+            SYMPTOM TO ADDRESS:
+            - Summary: "${vars.summary}"
+            - Details: ${vars.transcript}
+            - Health Domain: ${vars.healthDomain}
+            - Severity: ${vars.severity}
+            - Impact: ${vars.impact}
+            - History: ${vars.history ?? 'First time this symptom was recorded'}
+
+            REQUIREMENTS:
+            - Generate the RIGHT NUMBER of recommendations that DIRECTLY address this specific symptom
+            - Each recommendation must have a clear, direct connection to the symptom
+            - Focus on actionable steps that will help with this specific issue
+            - Include all important next steps, but avoid overwhelming the user
+            - Avoid generic wellness advice unless directly relevant to this symptom
+
+            EXISTING RECOMMENDATIONS (avoid duplicates):
+            ${vars.existingRecommendations}`,
+  maxTokens: 1200,
+  temperature: 0.3,
+});
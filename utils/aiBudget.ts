@@ -0,0 +1,219 @@
+import { LLM_BUDGET_MODELS } from '@env';
+import type { LLMTask } from './llm';
+import { CostLedger } from './costLedger';
+import { StorageManager, STORAGE_KEYS } from './storage';
+
+// ============================================================================
+// AI BUDGET - Monthly spending cap with graceful degradation
+// ============================================================================
+//
+// PURPOSE: Keep AI spend under a cap the user sets in Settings, measured from
+//          the CostLedger for the current calendar month
+// LEVELS:
+// - ok: below the warning threshold, every task runs on its configured model
+// - near: past the threshold (80% by default), non-critical tasks switch to a
+//   cheaper model
+// - exceeded: only transcription and symptom analysis run, so recordings are
+//   still transcribed and saved; recommendations and background analysis are skipped
+// ENFORCEMENT: LLMClient asks getPolicy() before every call; callers that can
+//              explain a skip (SmartAIContext) check getState() first
+// SETUP: AIBudget.init() once at startup, so the cached state follows the CostLedger
+// CHEAPER MODELS (.env, optional): LLM_BUDGET_MODELS="gpt-4=gpt-4o-mini" -
+//          model=cheaper model pairs; models without one keep running as configured
+
+export interface BudgetSettings {
+  monthlyCapUsd: number | null; // null: no cap
+  nearCapFraction: number;      // Share of the cap at which cheaper models kick in
+}
+
+export const defaultBudgetSettings: BudgetSettings = {
+  monthlyCapUsd: null,
+  nearCapFraction: 0.8,
+};
+
+export type BudgetLevel = 'unlimited' | 'ok' | 'near' | 'exceeded';
+
+export interface BudgetState {
+  level: BudgetLevel;
+  monthlyCapUsd: number | null;
+  spentThisMonth: number;  // USD
+  remaining: number | null; // USD, null without a cap
+  periodStart: string;
+  resetsAt: string;        // Start of next month, when the cap lifts
+}
+
+export interface BudgetPolicy {
+  allowed: boolean;
+  model: string; // The model to call, downgraded when near the cap
+}
+
+/**
+ * Tasks that still run at the cap: without them a recording cannot be saved
+ */
+export const ESSENTIAL_TASKS: LLMTask[] = ['transcription', 'symptomAnalysis'];
+
+/**
+ * Tasks moved to a cheaper model near the cap. healthDecision keeps its model
+ * because it assesses risk; the essential tasks already use cheap models.
+ */
+export const DOWNGRADABLE_TASKS: LLMTask[] = ['recommendations', 'healthMemory', 'actionPlanning', 'appointmentQuestions'];
+
+export const DEFAULT_CHEAPER_MODELS: { [model: string]: string } = {
+  'gpt-4': 'gpt-4o-mini',
+  'gpt-4-turbo': 'gpt-4o-mini',
+  'gpt-4o': 'gpt-4o-mini',
+  'gpt-3.5-turbo': 'gpt-4o-mini',
+};
+
+/**
+ * Thrown by LLMClient for a non-essential call once the monthly cap is reached
+ */
+export class BudgetExceededError extends Error {
+  constructor(task: LLMTask) {
+    super(`Monthly AI budget reached; skipped ${task}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Parse "model=cheaper,model=cheaper"
+ */
+const parseCheaperModels = (value: string | undefined): { [model: string]: string } => {
+  const models: { [model: string]: string } = {};
+  if (!value) return models;
+
+  for (const pair of value.split(',')) {
+    const [model, cheaper] = pair.split('=').map(part => part?.trim());
+    if (model && cheaper) {
+      models[model] = cheaper;
+    } else {
+      console.warn(`Ignoring invalid budget model "${pair}"`);
+    }
+  }
+  return models;
+};
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+const startOfNextMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth() + 1, 1);
+
+type Listener = (state: BudgetState) => void;
+
+export class AIBudget {
+  private static cheaperModels = { ...DEFAULT_CHEAPER_MODELS, ...parseCheaperModels(LLM_BUDGET_MODELS) };
+  private static cached: { state: Promise<BudgetState>; periodStart: number } | null = null;
+  private static listeners = new Set<Listener>();
+  private static followingLedger = false;
+
+  /**
+   * Recompute spend after every recorded call. SmartAIProvider calls this on
+   * mount; calling it again does nothing
+   */
+  static init(): void {
+    if (this.followingLedger) return;
+    this.followingLedger = true;
+    CostLedger.subscribe(() => this.refresh());
+  }
+
+  // ============================================================================
+  // SETTINGS
+  // ============================================================================
+
+  static async getSettings(): Promise<BudgetSettings> {
+    const stored = await StorageManager.safeLoad<BudgetSettings>(STORAGE_KEYS.aiBudgetSettings, defaultBudgetSettings);
+    return { ...defaultBudgetSettings, ...stored };
+  }
+
+  static async updateSettings(updates: Partial<BudgetSettings>): Promise<BudgetState> {
+    const settings = { ...(await this.getSettings()), ...updates };
+    if (settings.monthlyCapUsd !== null && !(settings.monthlyCapUsd >= 0)) {
+      throw new Error(`Invalid monthly AI budget: ${settings.monthlyCapUsd}`);
+    }
+
+    await StorageManager.save(STORAGE_KEYS.aiBudgetSettings, settings);
+    console.log(`💰 Monthly AI budget: ${settings.monthlyCapUsd === null ? 'none' : `$${settings.monthlyCapUsd.toFixed(2)}`}`);
+    return this.refresh();
+  }
+
+  // ============================================================================
+  // STATE AND POLICY
+  // ============================================================================
+
+  /**
+   * Spend so far this month against the cap (cached until the next recorded call)
+   */
+  static getState(now: Date = new Date()): Promise<BudgetState> {
+    const periodStart = startOfMonth(now).getTime();
+    if (!this.cached || this.cached.periodStart !== periodStart) {
+      this.cached = { state: this.computeState(now), periodStart };
+    }
+    return this.cached.state;
+  }
+
+  /**
+   * Whether a task may run at the current level, and on which model
+   */
+  static async getPolicy(task: LLMTask, model: string): Promise<BudgetPolicy> {
+    let level: BudgetLevel;
+    try {
+      ({ level } = await this.getState());
+    } catch (error) {
+      // An unreadable budget must not take the AI features down with it
+      console.error('Error reading AI budget:', error);
+      this.cached = null;
+      return { allowed: true, model };
+    }
+
+    if (level === 'exceeded' && !ESSENTIAL_TASKS.includes(task)) {
+      return { allowed: false, model };
+    }
+    if ((level === 'near' || level === 'exceeded') && DOWNGRADABLE_TASKS.includes(task)) {
+      return { allowed: true, model: this.cheaperModels[model] ?? model };
+    }
+    return { allowed: true, model };
+  }
+
+  /**
+   * Be told whenever spend or the cap changes
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static refresh(): Promise<BudgetState> {
+    this.cached = null;
+    const state = this.getState();
+    state
+      .then(current => this.listeners.forEach(listener => listener(current)))
+      .catch(error => console.error('Error refreshing AI budget:', error));
+    return state;
+  }
+
+  private static async computeState(now: Date): Promise<BudgetState> {
+    const settings = await this.getSettings();
+    const periodStart = startOfMonth(now);
+    const { cost: spentThisMonth } = await CostLedger.getMonthTotals(now);
+    const cap = settings.monthlyCapUsd;
+
+    let level: BudgetLevel = 'unlimited';
+    if (cap !== null) {
+      level = spentThisMonth >= cap ? 'exceeded' : spentThisMonth >= cap * settings.nearCapFraction ? 'near' : 'ok';
+    }
+
+    return {
+      level,
+      monthlyCapUsd: cap,
+      spentThisMonth,
+      remaining: cap === null ? null : Math.max(0, cap - spentThisMonth),
+      periodStart: periodStart.toISOString(),
+      resetsAt: startOfNextMonth(now).toISOString(),
+    };
+  }
+}
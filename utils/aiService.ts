@@ -1,9 +1,14 @@
-import { transcribeAudio, generateSummary, makeOpenAIRequest } from './openai';
-import { SymptomLog, MedicalRecommendation, HealthDomain, SymptomPattern } from '../types/recommendations';
+import { PromptRegistry } from './promptRegistry';
+import { SymptomLog, MedicalRecommendation, HealthDomain, SymptomPattern, GenerationInfo } from '../types/recommendations';
 import { SymptomAnalyzer } from './agents/SymptomAnalyzer';
-import { HealthMemoryAgent, HealthMemoryContext } from './agents/HealthMemoryAgent';
+import { HealthMemoryAgent, HealthMemoryContext, SymptomLogSource } from './agents/HealthMemoryAgent';
 import { DecisionEngineAgent, HealthDecision, DecisionContext } from './agents/DecisionEngineAgent';
 import { ActionCoordinatorAgent, HealthStrategy, ActionContext } from './agents/ActionCoordinatorAgent';
+import { QUESTIONS_OUTPUT, RECOMMENDATIONS_OUTPUT } from './agents/outputSchemas';
+import { APPOINTMENT_QUESTIONS_PROMPT, SYMPTOM_RECOMMENDATIONS_PROMPT } from './agents/prompts';
+import { AppLanguage, I18n, SUPPORTED_LANGUAGES } from './i18n';
+import { SymptomAnalytics } from './symptomAnalytics';
+import { PipelineTrace } from './pipelineTrace';
 
 // ============================================================================
 // AUTONOMOUS HEALTH MANAGEMENT SYSTEM - 3-Agent Framework
@@ -15,10 +20,12 @@ import { ActionCoordinatorAgent, HealthStrategy, ActionContext } from './agents/
 export interface SymptomAnalysis {
   transcript: string;
   summary: string;
+  englishSummary?: string;      // English copy for doctors when the summary is in another language
   quickRecommendations: MedicalRecommendation[];
-  healthDomain: string;
+  healthDomain: HealthDomain;
   severity: string;
   impact: string;
+  generatedBy?: GenerationInfo; // Prompt and model behind the summary and classification
 }
 
 /**
@@ -38,6 +45,9 @@ export interface AutonomousHealthResponse {
  * - HealthMemoryAgent: Long-term pattern recognition and context management
  * - DecisionEngineAgent: Autonomous health decision-making and conflict resolution  
  * - ActionCoordinatorAgent: Health strategy execution and communication optimization
+ * 
+ * Cost depends on the models and tokens used; LLMClient records every call in
+ * the CostLedger (utils/costLedger.ts)
  */
 export class AIService {
   private userId: string;
@@ -45,6 +55,7 @@ export class AIService {
   private healthMemoryAgent: HealthMemoryAgent;
   private decisionEngineAgent: DecisionEngineAgent;
   private actionCoordinatorAgent: ActionCoordinatorAgent;
+  private language?: AppLanguage;
 
   constructor(userId: string) {
     this.userId = userId;
@@ -54,6 +65,22 @@ export class AIService {
     this.actionCoordinatorAgent = new ActionCoordinatorAgent(userId);
   }
 
+  /**
+   * Give the agents query access to symptom history (date ranges, domains, severity)
+   */
+  setSymptomLogSource(source: SymptomLogSource): void {
+    this.healthMemoryAgent.setSymptomLogSource(source);
+  }
+
+  /**
+   * Set the profile's language for transcription, summaries, recommendations
+   * and appointment questions; undefined detects it from each recording
+   */
+  setLanguage(language?: AppLanguage): void {
+    this.language = language;
+    this.symptomAnalyzer.setLanguage(language);
+  }
+
   // ============================================================================
   // AUTONOMOUS HEALTH MANAGEMENT (Primary Function)
   // ============================================================================
@@ -72,7 +99,7 @@ export class AIService {
    * @param existingRecommendations - Current recommendations to avoid duplicates
    * @returns Complete autonomous health response with decision, strategy, and context
    * 
-   * COST: $0.15 per call (3 agents working together)
+   * Each run is traced step by step for the Diagnostics screen (see PipelineTrace)
    */
   async processSymptomAutonomously(
     audioUri: string, 
@@ -80,13 +107,22 @@ export class AIService {
     existingRecommendations: MedicalRecommendation[]
   ): Promise<AutonomousHealthResponse> {
     console.log('🤖 AIService: Processing symptom autonomously with 3-agent framework');
+    const trace = PipelineTrace.start('process_symptom', this.userId, {
+      audioUri,
+      symptoms: allSymptoms.length,
+      existingRecommendations: existingRecommendations.length
+    });
     
     try {
       // Step 1: Analyze current symptom recording
-      const symptomAnalysis = await this.symptomAnalyzer.analyzeSymptom(audioUri);
+      const symptomAnalysis = await trace.step('SymptomAnalyzer.analyzeSymptom', 'agent', { audioUri }, () =>
+        this.symptomAnalyzer.analyzeSymptom(audioUri, trace)
+      );
       
       // Step 2: Health Memory Agent - Analyze patterns and provide historical context
-      const memoryContext = await this.healthMemoryAgent.analyzeHealthMemory(allSymptoms);
+      const memoryContext = await trace.step('HealthMemoryAgent.analyzeHealthMemory', 'agent', { symptoms: allSymptoms.length }, () =>
+        this.healthMemoryAgent.analyzeHealthMemory(allSymptoms, trace)
+      );
       
       // Step 3: Decision Engine Agent - Make autonomous decision based on context
       const decisionContext: DecisionContext = {
@@ -95,7 +131,9 @@ export class AIService {
         memoryContext,
         userInput: symptomAnalysis.summary
       };
-      const decision = await this.decisionEngineAgent.makeHealthDecision(decisionContext);
+      const decision = await trace.step('DecisionEngineAgent.makeHealthDecision', 'agent', { userInput: decisionContext.userInput }, () =>
+        this.decisionEngineAgent.makeHealthDecision(decisionContext, trace)
+      );
       
       // Step 4: Action Coordinator Agent - Create strategy and communication plan
       const actionContext: ActionContext = {
@@ -104,8 +142,11 @@ export class AIService {
         existingRecommendations,
         userInput: symptomAnalysis.summary
       };
-      const strategy = await this.actionCoordinatorAgent.createHealthStrategy(actionContext);
+      const strategy = await trace.step('ActionCoordinatorAgent.createHealthStrategy', 'agent', { primaryAction: decision.primaryAction }, () =>
+        this.actionCoordinatorAgent.createHealthStrategy(actionContext, trace)
+      );
       
+      trace.finish({ output: { primaryAction: decision.primaryAction, priority: decision.priority } });
       return {
         decision,
         strategy,
@@ -113,6 +154,7 @@ export class AIService {
       };
     } catch (error) {
       console.error('Autonomous health management error:', error);
+      trace.finish({ error });
       throw error;
     }
   }
@@ -126,8 +168,6 @@ export class AIService {
    * 
    * @param audioUri - URI of the recorded symptom audio
    * @returns Basic symptom analysis with quick recommendations
-   * 
-   * COST: $0.05 per call
    */
   async processSymptom(audioUri: string): Promise<SymptomAnalysis> {
     console.log('🤖 AI: Processing symptom recording (Legacy)');
@@ -138,10 +178,12 @@ export class AIService {
       return {
         transcript: result.transcript,
         summary: result.summary,
+        englishSummary: result.englishSummary,
         quickRecommendations: result.recommendations,
         healthDomain: result.healthDomain,
         severity: result.severity,
-        impact: result.impact
+        impact: result.impact,
+        generatedBy: result.generatedBy
       };
     } catch (error) {
       console.error('AI processing error:', error);
@@ -149,44 +191,48 @@ export class AIService {
     }
   }
 
+  /**
+   * Transcribe a recording (processing queue stage 1)
+   * Throws on failure so the queue can retry later
+   * 
+   * COST: Whisper, per minute of audio
+   */
+  async transcribeSymptom(audioUri: string): Promise<string> {
+    return this.symptomAnalyzer.transcribe(audioUri);
+  }
+
+  /**
+   * Summarize and classify a transcript (processing queue stage 2)
+   * Throws when the model cannot be reached so the queue can retry later
+   */
+  async analyzeTranscript(transcript: string): Promise<Omit<SymptomAnalysis, 'transcript' | 'quickRecommendations'>> {
+    return this.symptomAnalyzer.analyzeTranscript(transcript);
+  }
+
   /**
    * Generate appointment questions (Legacy - used when user creates appointment)
    * 
    * @param title - Appointment title/type
    * @param date - Appointment date
    * @returns Array of questions to ask the healthcare provider
-   * 
-   * COST: $0.05 per call
    */
   async generateAppointmentQuestions(title: string, date: Date): Promise<string[]> {
     console.log('🤖 AI: Generating appointment questions (Legacy)');
+    // No recording to detect from, so questions follow the language the app is shown in
+    const language = I18n.resolveLanguage(this.language);
     
     try {
-      const prompt = `Generate 5 relevant questions for a medical appointment about "${title}" scheduled for ${date.toDateString()}. 
-      Focus on symptoms, concerns, and preparation. Return as JSON array.`;
-      
-      const response = await makeOpenAIRequest({
-        model: 'gpt-3.5-turbo', // Less critical - appointment questions
-        messages: [
-          { role: 'system', content: 'You are a health assistant helping patients prepare for doctor visits.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 300,
-        temperature: 0.3
-      });
-      
-      const content = response.choices[0]?.message?.content || '[]';
-      return this.parseQuestions(content);
+      const { value: { questions } } = await PromptRegistry.complete(APPOINTMENT_QUESTIONS_PROMPT, {
+        title,
+        date: date.toDateString(),
+        language: SUPPORTED_LANGUAGES[language].name,
+      }, QUESTIONS_OUTPUT);
+
+      return questions;
     } catch (error) {
       console.error('Question generation error:', error);
       // Fallback questions if AI fails
-      return [
-        "How have you been feeling since your last visit?",
-        "Have you noticed any new symptoms?",
-        "Are there any concerns you'd like to discuss?",
-        "How are your current medications working?",
-        "Have you made any lifestyle changes recently?"
-      ];
+      return ([1, 2, 3, 4, 5] as const).map(n => I18n.translate(language, `appointments.fallbackQuestion.${n}`));
     }
   }
 
@@ -195,8 +241,6 @@ export class AIService {
    * 
    * @param symptoms - Array of symptom logs to analyze
    * @returns Pattern analysis with trends and recommendations
-   * 
-   * COST: $0.03 per call
    */
   async analyzePatterns(symptoms: SymptomLog[]): Promise<{
     patterns: SymptomPattern[];
@@ -231,8 +275,7 @@ export class AIService {
    * @param allSymptoms - All user's symptom history
    * @param existingRecommendations - Current recommendations to avoid duplicates
    * @returns Array of personalized health recommendations
-   * 
-   * COST: $0.08 per call (single GPT-4 call with comprehensive analysis)
+   * @throws When the model cannot be reached, so the processing queue can retry
    */
   async generateRecommendationsFromSymptom(
     symptomLog: SymptomLog, 
@@ -242,89 +285,59 @@ export class AIService {
     console.log('🤖 AI: Generating optimized recommendations from symptom');
     
     try {
+      // A recurring symptom gets its pattern in the prompt, and its earlier
+      // recordings become part of the recommendations' provenance
+      const history = allSymptoms.some(log => log.id === symptomLog.id) ? allSymptoms : [...allSymptoms, symptomLog];
+      const pattern = SymptomAnalytics.detectPatterns(history).find(cluster => cluster.logIds.includes(symptomLog.id));
+
       // Single comprehensive AI call that analyzes everything at once
-      const response = await makeOpenAIRequest({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a health AI assistant. Generate the RIGHT NUMBER of HIGH-QUALITY recommendations that are SPECIFICALLY tied to the new symptom.
-            
-            IMPORTANT: Generate exactly the right number of recommendations for this specific problem - not too few, not too many. Focus on the most important next steps that directly address the symptom.
-            
-            Return JSON array with:
-            - title: specific recommendation title
-            - description: clear, actionable description
-            - priority: one of [HIGH, MEDIUM, LOW] (be conservative - only HIGH if urgent)
-            - urgency: one of [immediate, within days, within weeks]
-            - category: one of [lifestyle, medication, appointment, monitoring, emergency]
-            - medicalRationale: specific explanation of how this addresses the symptom
-            - riskLevel: one of [low, medium, high]
-            - symptomCorrelation: specific symptom this addresses (use exact symptom summary)
-            
-            CRITERIA:
-            - Must directly address the new symptom
-            - Must be actionable and specific
-            - Generate the appropriate number of recommendations for this specific problem
-            - Include all important next steps, but avoid overwhelming the user
-            - Avoid generic "general wellness" recommendations unless directly relevant
-            - Only recommend if there's a clear, direct benefit for the specific symptom`
-          },
-          {
-            role: 'user',
-            content: `Generate recommendations for this SPECIFIC symptom:
-            
-            SYMPTOM TO ADDRESS:
-            - Summary: "${symptomLog.summary}"
-            - Details: ${symptomLog.transcript}
-            - Health Domain: ${symptomLog.healthDomain}
-            - Severity: ${symptomLog.severity}
-            - Impact: ${symptomLog.impact}
-            
-            REQUIREMENTS:
-            - Generate the RIGHT NUMBER of recommendations that DIRECTLY address this specific symptom
-            - Each recommendation must have a clear, direct connection to the symptom
-            - Focus on actionable steps that will help with this specific issue
-            - Include all important next steps, but avoid overwhelming the user
-            - Avoid generic wellness advice unless directly relevant to this symptom
-            
-            EXISTING RECOMMENDATIONS (avoid duplicates):
-            ${existingRecommendations.map(r => `- ${r.title}`).join('\n')}`
-          }
-        ],
-        max_tokens: 1200,
-        temperature: 0.3
-      });
-      
-      const content = response.choices[0]?.message?.content || '[]';
-      const recommendationsData = JSON.parse(content);
+      const { value: { recommendations: recommendationsData }, generatedBy } = await PromptRegistry.complete(
+        SYMPTOM_RECOMMENDATIONS_PROMPT,
+        {
+          summary: symptomLog.summary,
+          transcript: symptomLog.transcript,
+          healthDomain: symptomLog.healthDomain,
+          severity: symptomLog.severity,
+          impact: symptomLog.impact,
+          existingRecommendations: existingRecommendations.map(r => `- ${r.title}`).join('\n'),
+          history: pattern && `Recorded ${pattern.occurrences} times since ${pattern.firstOccurrence.toDateString()}, about ${pattern.frequency} a week, ${pattern.trend}`,
+          language: this.language && SUPPORTED_LANGUAGES[this.language].name,
+        },
+        RECOMMENDATIONS_OUTPUT
+      );
       
       // Convert to MedicalRecommendation format
-      const recommendations: MedicalRecommendation[] = recommendationsData.map((rec: any, index: number) => ({
+      const recommendations: MedicalRecommendation[] = recommendationsData.map((rec, index) => ({
         id: `rec-${Date.now()}-${index}`,
         title: rec.title,
         description: rec.description,
-        category: rec.category || 'lifestyle',
-        priority: rec.priority || 'MEDIUM',
+        category: rec.category,
+        priority: rec.priority,
         actionItems: [],
-        urgency: rec.urgency || 'within days',
+        urgency: rec.urgency,
         healthDomain: symptomLog.healthDomain,
         medicalRationale: rec.medicalRationale || rec.description,
         symptomsTriggering: [rec.symptomCorrelation || symptomLog.summary], // Use specific symptom correlation
         severityIndicators: [],
         followUpRequired: false,
-        riskLevel: rec.riskLevel || 'low',
+        riskLevel: rec.riskLevel,
         interventionType: rec.category === 'emergency' ? 'emergency_care' : 
                          rec.category === 'appointment' ? 'professional_care' : 'self_care',
         createdAt: new Date(),
         isCompleted: false,
-        isCancelled: false
+        isCancelled: false,
+        generatedBy,
+        provenance: {
+          sourceLogIds: pattern ? [...pattern.logIds].reverse() : [symptomLog.id],
+          patterns: pattern ? [SymptomAnalytics.snapshot(pattern)] : [],
+          decisionReasoning: rec.medicalRationale || undefined,
+        }
       }));
       
       return recommendations;
     } catch (error) {
       console.error('Optimized recommendations error:', error);
-      return [];
+      throw error;
     }
   }
 
@@ -333,8 +346,6 @@ export class AIService {
    * 
    * @param symptoms - Array of symptom logs to analyze
    * @returns Array of personalized health recommendations
-   * 
-   * COST: $0.03 per call
    */
   async getPersonalizedRecommendations(symptoms: SymptomLog[]): Promise<MedicalRecommendation[]> {
     console.log('🤖 AI: Generating personalized recommendations (Legacy)');
@@ -370,7 +381,9 @@ export class AIService {
         interventionType: 'self_care' as 'self_care' | 'professional_care' | 'emergency_care',
         createdAt: new Date(),
         isCompleted: false,
-        isCancelled: false
+        isCancelled: false,
+        generatedBy: decision.generatedBy,
+        provenance: decision.provenance
       }));
       
       return recommendations;
@@ -384,22 +397,6 @@ export class AIService {
   // PRIVATE HELPER METHODS
   // ============================================================================
 
-  /**
-   * Parse questions from AI response
-   * 
-   * @param content - JSON string from AI response
-   * @returns Array of questions
-   */
-  private parseQuestions(content: string): string[] {
-    try {
-      const questions = JSON.parse(content);
-      return Array.isArray(questions) ? questions : [];
-    } catch (error) {
-      console.error('Error parsing questions:', error);
-      return [];
-    }
-  }
-
   /**
    * Remove duplicate recommendations based on title
    * 
@@ -0,0 +1,307 @@
+import * as FileSystem from 'expo-file-system';
+import { Audio } from 'expo-av';
+import { StorageManager, STORAGE_KEYS } from './storage';
+import { SchemaMigrations, StoredEntities } from './schemaMigrations';
+
+// ============================================================================
+// AUDIO STORE - App-owned storage for symptom recordings
+// ============================================================================
+//
+// PURPOSE: expo-av leaves recordings in the cache directory, where the OS may
+//          evict them and nothing deletes them. Every recording is moved into
+//          documentDirectory/audio/, named after its symptom log id, so files
+//          can be deleted with their log and orphans can be found.
+// LIFECYCLE:
+// - SymptomsScreen: importRecording() right after a recording stops
+// - SymptomLogsContext: deletes the file whenever its log is deleted
+// - App startup: runMaintenance() adopts stray files, expires old audio
+//   (transcripts are kept) and garbage-collects orphans
+
+export const AUDIO_DIRECTORY = `${FileSystem.documentDirectory}audio/`;
+
+export type RecordingQuality = 'high' | 'compact';
+
+export interface AudioSettings {
+  recordingQuality: RecordingQuality;
+  expireAfterDays: number | null; // null: keep recordings as long as their log
+}
+
+export const defaultAudioSettings: AudioSettings = {
+  recordingQuality: 'high',
+  expireAfterDays: null,
+};
+
+export interface AudioUsage {
+  fileCount: number;
+  totalBytes: number;
+}
+
+export interface AudioMaintenanceReport {
+  adopted: number;      // Recordings moved into app storage
+  expired: number;      // Recordings deleted for age (log and transcript kept)
+  orphansDeleted: number;
+  freedBytes: number;
+  errors: string[];
+}
+
+/**
+ * Mono AAC at speech bitrate: roughly a quarter of HIGH_QUALITY's size and
+ * still in a format the transcription API accepts (unlike LOW_QUALITY's .3gp/.caf)
+ */
+const COMPACT_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+  android: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
+    sampleRate: 22050,
+    numberOfChannels: 1,
+    bitRate: 32000,
+  },
+  ios: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
+    audioQuality: Audio.IOSAudioQuality.MEDIUM,
+    sampleRate: 22050,
+    numberOfChannels: 1,
+    bitRate: 32000,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 32000,
+  },
+};
+
+const fileExtension = (uri: string): string => {
+  const match = uri.match(/\.[a-z0-9]+$/i);
+  return match ? match[0] : '.m4a';
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export class AudioStore {
+  /**
+   * expo-av recording options for the chosen quality
+   */
+  static getRecordingOptions(quality: RecordingQuality): Audio.RecordingOptions {
+    return quality === 'compact' ? COMPACT_RECORDING_OPTIONS : Audio.RecordingOptionsPresets.HIGH_QUALITY;
+  }
+
+  /**
+   * File name for a log's recording (log ids are ISO timestamps, which
+   * contain characters some file systems reject)
+   */
+  static fileNameForLog(logId: string, extension: string = '.m4a'): string {
+    return `${logId.replace(/[^a-zA-Z0-9_-]/g, '_')}${extension}`;
+  }
+
+  /**
+   * Length of a recording in seconds, or null if it cannot be read
+   */
+  static async getDurationSeconds(uri: string): Promise<number | null> {
+    try {
+      const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+      await sound.unloadAsync();
+      return status.isLoaded && status.durationMillis !== undefined ? status.durationMillis / 1000 : null;
+    } catch (error) {
+      console.warn('Could not read recording duration:', errorMessage(error));
+      return null;
+    }
+  }
+
+  static isManaged(uri: string | undefined): boolean {
+    return typeof uri === 'string' && uri.startsWith(AUDIO_DIRECTORY);
+  }
+
+  /**
+   * Move a fresh recording into app storage, linked to its log id
+   * @returns The new URI to store on the symptom log
+   */
+  static async importRecording(sourceUri: string, logId: string): Promise<string> {
+    if (this.isManaged(sourceUri)) return sourceUri;
+
+    await this.ensureDirectory();
+    const destination = `${AUDIO_DIRECTORY}${this.fileNameForLog(logId, fileExtension(sourceUri))}`;
+    await FileSystem.moveAsync({ from: sourceUri, to: destination });
+    return destination;
+  }
+
+  /**
+   * Write base64 audio (e.g. from a backup) into app storage for a log
+   */
+  static async writeRecording(logId: string, fileName: string, base64Data: string): Promise<string> {
+    await this.ensureDirectory();
+    const uri = `${AUDIO_DIRECTORY}${this.fileNameForLog(logId, fileExtension(fileName))}`;
+    await FileSystem.writeAsStringAsync(uri, base64Data, { encoding: FileSystem.EncodingType.Base64 });
+    return uri;
+  }
+
+  /**
+   * Delete recordings; missing files are not an error
+   * @returns Error messages for files that could not be deleted
+   */
+  static async deleteRecordings(uris: (string | undefined)[]): Promise<string[]> {
+    const errors: string[] = [];
+    for (const uri of uris) {
+      if (!uri) continue;
+      try {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      } catch (error) {
+        errors.push(`Failed to delete audio file: ${errorMessage(error)}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Delete every managed recording
+   */
+  static async deleteAll(): Promise<void> {
+    await FileSystem.deleteAsync(AUDIO_DIRECTORY, { idempotent: true });
+    console.log('🗑️ All audio recordings deleted');
+  }
+
+  /**
+   * Disk space used by managed recordings
+   */
+  static async getUsage(): Promise<AudioUsage> {
+    const files = await this.listFiles();
+    let totalBytes = 0;
+    for (const uri of files) {
+      totalBytes += await this.fileSize(uri);
+    }
+    return { fileCount: files.length, totalBytes };
+  }
+
+  /**
+   * Delete managed files no symptom log points at
+   */
+  static async collectGarbage(referencedUris: Set<string>): Promise<{ deleted: number; freedBytes: number; errors: string[] }> {
+    const orphans = (await this.listFiles()).filter(uri => !referencedUris.has(uri));
+    let freedBytes = 0;
+    for (const uri of orphans) {
+      freedBytes += await this.fileSize(uri);
+    }
+
+    const errors = await this.deleteRecordings(orphans);
+    return { deleted: orphans.length - errors.length, freedBytes, errors };
+  }
+
+  static async getSettings(): Promise<AudioSettings> {
+    const stored = await StorageManager.safeLoad<AudioSettings>(STORAGE_KEYS.audioSettings, defaultAudioSettings);
+    return { ...defaultAudioSettings, ...stored };
+  }
+
+  /**
+   * Startup pass over every profile's symptom logs. Runs before the data contexts
+   * load, so it can rewrite logs in storage without racing in-memory state.
+   */
+  static async runMaintenance(now: Date = new Date()): Promise<AudioMaintenanceReport> {
+    const report: AudioMaintenanceReport = { adopted: 0, expired: 0, orphansDeleted: 0, freedBytes: 0, errors: [] };
+
+    try {
+      const settings = await this.getSettings();
+      const entities = await SchemaMigrations.loadEntities();
+      const expiryCutoff = settings.expireAfterDays !== null
+        ? now.getTime() - settings.expireAfterDays * 24 * 60 * 60 * 1000
+        : null;
+
+      const symptomLogs: StoredEntities['symptomLogs'] = {};
+      let changed = false;
+
+      for (const [profileId, logs] of Object.entries(entities.symptomLogs)) {
+        symptomLogs[profileId] = [];
+        for (const log of logs) {
+          let updated = log;
+
+          // Step 1: Expire old audio, keeping the log and its transcript (unless it has
+          // none yet because the recording is still waiting in the processing queue)
+          const isExpired = expiryCutoff !== null && new Date(updated.timestamp).getTime() < expiryCutoff;
+          if (updated.audioURI && isExpired && !updated.processingStatus) {
+            report.freedBytes += await this.fileSize(updated.audioURI);
+            const errors = await this.deleteRecordings([updated.audioURI]);
+            report.errors.push(...errors);
+            if (errors.length === 0) {
+              const { audioURI, ...rest } = updated;
+              updated = rest;
+              report.expired++;
+            }
+          }
+
+          // Step 2: Adopt recordings still sitting in the cache from older builds
+          if (updated.audioURI && !this.isManaged(updated.audioURI)) {
+            try {
+              const info = await FileSystem.getInfoAsync(updated.audioURI);
+              if (info.exists) {
+                updated = { ...updated, audioURI: await this.importRecording(updated.audioURI, updated.id) };
+                report.adopted++;
+              } else {
+                const { audioURI, ...rest } = updated; // Evicted by the OS; nothing to point at
+                updated = rest;
+              }
+            } catch (error) {
+              report.errors.push(`Failed to adopt audio for log ${updated.id}: ${errorMessage(error)}`);
+            }
+          }
+
+          changed = changed || updated !== log;
+          symptomLogs[profileId].push(updated);
+        }
+      }
+
+      if (changed) {
+        await SchemaMigrations.saveEntities({ ...entities, symptomLogs });
+      }
+
+      // Step 3: Delete files no log references
+      const referenced = new Set<string>();
+      Object.values(symptomLogs).forEach(logs => logs.forEach(log => log.audioURI && referenced.add(log.audioURI)));
+      const gc = await this.collectGarbage(referenced);
+      report.orphansDeleted = gc.deleted;
+      report.freedBytes += gc.freedBytes;
+      report.errors.push(...gc.errors);
+
+      if (report.adopted + report.expired + report.orphansDeleted > 0) {
+        console.log(`🎙️ Audio maintenance: ${report.adopted} adopted, ${report.expired} expired, ${report.orphansDeleted} orphans deleted`);
+      }
+    } catch (error) {
+      console.error('Audio maintenance failed:', error);
+      report.errors.push(errorMessage(error));
+    }
+
+    return report;
+  }
+
+  /**
+   * Format a byte count for display (e.g. "12.4 MB")
+   */
+  static formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static async ensureDirectory(): Promise<void> {
+    const info = await FileSystem.getInfoAsync(AUDIO_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(AUDIO_DIRECTORY, { intermediates: true });
+    }
+  }
+
+  private static async listFiles(): Promise<string[]> {
+    const info = await FileSystem.getInfoAsync(AUDIO_DIRECTORY);
+    if (!info.exists) return [];
+    const names = await FileSystem.readDirectoryAsync(AUDIO_DIRECTORY);
+    return names.map(name => `${AUDIO_DIRECTORY}${name}`);
+  }
+
+  private static async fileSize(uri: string): Promise<number> {
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      return info.exists ? info.size : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import * as FileSystem from 'expo-file-system';
+import { DataEncryption, PassphraseEnvelope } from './encryption';
+import { StorageManager, STORAGE_KEYS } from './storage';
+import { SchemaMigrations, StoredEntities, ProfileCollections, EntityCounts, CURRENT_SCHEMA_VERSION } from './schemaMigrations';
+import { ValidationUtils } from './validation';
+import { AudioStore } from './audioStore';
+
+// ============================================================================
+// BACKUP & RESTORE - Passphrase-protected bundles for moving to a new phone
+// ============================================================================
+//
+// FILE FORMAT (JSON): a plaintext header plus a PassphraseEnvelope whose
+// plaintext is { entities, audio }. The header is bound to the ciphertext as
+// associated data, so editing e.g. schemaVersion makes decryption fail.
+// Entities are stored in their serialized schema form (StoredEntities), which
+// lets SchemaMigrations upgrade backups made by older versions on import.
+
+export const BACKUP_FORMAT = 'nexst-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.nexstbackup';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  appVersion: string;
+  schemaVersion: number;
+}
+
+interface BackupFile extends BackupHeader {
+  encryption: PassphraseEnvelope;
+}
+
+interface BackupAudio {
+  fileName: string;
+  data: string; // base64
+}
+
+interface BackupPayload {
+  entities: StoredEntities;
+  audio: { [symptomLogId: string]: BackupAudio };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * A decrypted, migrated and validated backup, ready to show and restore
+ */
+export interface OpenedBackup {
+  createdAt: string;
+  schemaVersion: number;            // Version the backup was made at (before migration)
+  counts: EntityCounts;             // Valid records that would be restored
+  audioFiles: number;
+  rejectedRecords: number;          // Records that failed validation and will be skipped
+  entities: StoredEntities;
+  audio: { [symptomLogId: string]: BackupAudio };
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  restored: EntityCounts;
+  audioFiles: number;
+  errors: string[];
+}
+
+// Header fields in a fixed order, so the associated data is byte-identical on import
+const serializeHeader = (header: BackupHeader): string => JSON.stringify({
+  format: header.format,
+  formatVersion: header.formatVersion,
+  createdAt: header.createdAt,
+  appVersion: header.appVersion,
+  schemaVersion: header.schemaVersion,
+});
+
+const fileExtension = (uri: string): string => {
+  const match = uri.match(/\.[a-z0-9]+$/i);
+  return match ? match[0] : '.m4a';
+};
+
+export class BackupManager {
+  /**
+   * Write an encrypted backup of all entities and audio recordings
+   * @returns URI of the backup file (in the cache directory, ready to share)
+   */
+  static async createBackup(passphrase: string): Promise<string> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const entities = await SchemaMigrations.loadEntities();
+    const payload: BackupPayload = {
+      entities,
+      audio: await this.collectAudio(entities),
+    };
+
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      appVersion: '1.0.0',
+      schemaVersion: await SchemaMigrations.getStoredVersion(),
+    };
+
+    const file: BackupFile = {
+      ...header,
+      encryption: await DataEncryption.encryptWithPassphrase(
+        JSON.stringify(payload),
+        passphrase,
+        serializeHeader(header)
+      ),
+    };
+
+    const fileUri = `${FileSystem.cacheDirectory}nexst-backup-${header.createdAt.slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(file));
+
+    console.log(`💾 Backup created: ${Object.keys(payload.audio).length} audio files`);
+    return fileUri;
+  }
+
+  /**
+   * Decrypt a backup file, migrate it to the current schema and validate every entity
+   * Nothing is written - the result is shown to the user before restoring
+   * @throws DecryptionError on a wrong passphrase; Error on an unreadable or too-new file
+   */
+  static async openBackup(fileUri: string, passphrase: string): Promise<OpenedBackup> {
+    let file: BackupFile;
+    try {
+      file = JSON.parse(await FileSystem.readAsStringAsync(fileUri));
+    } catch (error) {
+      throw new Error('This file is not a Nexst backup');
+    }
+
+    if (file?.format !== BACKUP_FORMAT || !file.encryption) {
+      throw new Error('This file is not a Nexst backup');
+    }
+    if (file.formatVersion > BACKUP_FORMAT_VERSION || file.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error('This backup was made by a newer version of Nexst. Update the app and try again.');
+    }
+
+    const payload: BackupPayload = JSON.parse(
+      await DataEncryption.decryptWithPassphrase(file.encryption, passphrase, serializeHeader(file))
+    );
+
+    const { entities: migrated } = SchemaMigrations.migrateEntities(payload.entities, file.schemaVersion);
+    const { entities, rejectedRecords } = this.validateEntities(migrated);
+
+    return {
+      createdAt: file.createdAt,
+      schemaVersion: file.schemaVersion,
+      counts: SchemaMigrations.countEntities(entities),
+      audioFiles: Object.keys(payload.audio || {}).length,
+      rejectedRecords,
+      entities,
+      audio: payload.audio || {},
+    };
+  }
+
+  /**
+   * Restore an opened backup
+   * - merge: keep everything on this device, add records it doesn't have
+   * - replace: make this device's data exactly the backup's
+   */
+  static async restoreBackup(backup: OpenedBackup, mode: RestoreMode): Promise<RestoreReport> {
+    const errors: string[] = [];
+
+    // Step 1: Put audio files in app storage and point logs at their new location
+    const incoming = await this.restoreAudio(backup.entities, backup.audio, errors);
+
+    // Step 2: Combine with what's already on the device
+    const current = await SchemaMigrations.loadEntities();
+    const entities = mode === 'merge'
+      ? this.mergeEntities(current, incoming)
+      : this.replaceEntities(current, incoming);
+
+    // Step 3: Write, then drop single entities the backup doesn't have (replace only)
+    // Per-profile data the backup doesn't have is already removed by saveEntities
+    await SchemaMigrations.saveEntities(entities);
+    if (mode === 'replace') {
+      const absentKeys = ([
+        [STORAGE_KEYS.profiles, entities.profiles],
+        [STORAGE_KEYS.notificationSettings, entities.notificationSettings],
+        [STORAGE_KEYS.tutorialState, entities.tutorialState],
+      ] as [string, any][])
+        .filter(([, value]) => value === null || value === undefined)
+        .map(([key]) => key);
+      if (absentKeys.length > 0) {
+        await StorageManager.multiRemove(absentKeys);
+      }
+    }
+
+    console.log(`💾 Backup restored (${mode}) with ${errors.length} errors`);
+    return {
+      mode,
+      restored: SchemaMigrations.countEntities(incoming),
+      audioFiles: Object.keys(backup.audio).length - errors.length,
+      errors,
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Read the audio file behind every symptom log that still has one
+   */
+  private static async collectAudio(entities: StoredEntities): Promise<BackupPayload['audio']> {
+    const audio: BackupPayload['audio'] = {};
+
+    for (const logs of Object.values(entities.symptomLogs)) {
+      for (const log of logs) {
+        if (typeof log?.audioURI !== 'string' || !log.audioURI) continue;
+        try {
+          const info = await FileSystem.getInfoAsync(log.audioURI);
+          if (!info.exists) continue;
+          audio[log.id] = {
+            fileName: `${log.id}${fileExtension(log.audioURI)}`,
+            data: await FileSystem.readAsStringAsync(log.audioURI, { encoding: FileSystem.EncodingType.Base64 }),
+          };
+        } catch (error) {
+          console.warn(`Skipping unreadable audio for log ${log.id}:`, error);
+        }
+      }
+    }
+
+    return audio;
+  }
+
+  /**
+   * Write backed-up audio into app storage; logs without restorable audio lose
+   * their audioURI, since a path from another device means nothing here
+   */
+  private static async restoreAudio(
+    entities: StoredEntities,
+    audio: BackupPayload['audio'],
+    errors: string[]
+  ): Promise<StoredEntities> {
+    const symptomLogs: StoredEntities['symptomLogs'] = {};
+    for (const [profileId, logs] of Object.entries(entities.symptomLogs)) {
+      symptomLogs[profileId] = [];
+      for (const log of logs) {
+        const { audioURI, ...rest } = log;
+        const file = audio[log.id];
+        if (!file) {
+          symptomLogs[profileId].push(rest);
+          continue;
+        }
+
+        try {
+          const uri = await AudioStore.writeRecording(log.id, file.fileName, file.data);
+          symptomLogs[profileId].push({ ...rest, audioURI: uri });
+        } catch (error) {
+          errors.push(`Failed to restore audio for log ${log.id}: ${error instanceof Error ? error.message : error}`);
+          symptomLogs[profileId].push(rest);
+        }
+      }
+    }
+
+    return { ...entities, symptomLogs };
+  }
+
+  /**
+   * Drop records that fail the same validation the contexts apply on load
+   */
+  private static validateEntities(entities: StoredEntities): { entities: StoredEntities; rejectedRecords: number } {
+    let rejectedRecords = 0;
+
+    const keepValid = (items: any[] | null, validate: (item: any) => { isValid: boolean }): any[] | null => {
+      if (!Array.isArray(items)) return null;
+      const valid = items.filter(item => validate(item).isValid);
+      rejectedRecords += items.length - valid.length;
+      return valid;
+    };
+
+    const keepValidSettings = (settings: any, validate: (item: any) => { isValid: boolean }): any => {
+      if (settings === null || settings === undefined) return null;
+      if (validate(ValidationUtils.fixCorruptedDates(settings)).isValid) return settings;
+      rejectedRecords += 1;
+      return null;
+    };
+
+    const keepValidCollections = (
+      collections: ProfileCollections,
+      validate: (item: any) => { isValid: boolean }
+    ): ProfileCollections => {
+      const valid: ProfileCollections = {};
+      for (const [profileId, items] of Object.entries(collections || {})) {
+        valid[profileId] = keepValid(items, validate) || [];
+      }
+      return valid;
+    };
+
+    const isValidProfile = (profile: any) => ({
+      isValid: typeof profile?.id === 'string' && profile.id.length > 0 && typeof profile.name === 'string',
+    });
+
+    return {
+      entities: {
+        profiles: keepValid(entities.profiles, isValidProfile),
+        symptomLogs: keepValidCollections(entities.symptomLogs, log => ValidationUtils.validateSymptomLog(log)),
+        followUpQuestions: keepValidCollections(entities.followUpQuestions, q => ValidationUtils.validateFollowUpQuestion(q)),
+        recommendations: keepValidCollections(entities.recommendations, r => ValidationUtils.validateRecommendation(r)),
+        completedRecommendations: keepValidCollections(
+          entities.completedRecommendations,
+          r => ValidationUtils.validateCompletedRecommendation(r)
+        ),
+        appointments: keepValidCollections(entities.appointments, a => ValidationUtils.validateAppointment(a)),
+        privacySettings: keepValidSettings(entities.privacySettings, s => ValidationUtils.validatePrivacySettings(s)),
+        notificationSettings: keepValidSettings(entities.notificationSettings, s => ValidationUtils.validateNotificationSettings(s)),
+        tutorialState: keepValidSettings(entities.tutorialState, s => ValidationUtils.validateTutorialState(s)),
+      },
+      rejectedRecords,
+    };
+  }
+
+  /**
+   * Union by id; on conflict the device's copy wins, and device settings are kept
+   */
+  private static mergeEntities(current: StoredEntities, incoming: StoredEntities): StoredEntities {
+    const recordKey = (record: any): string => record?.id ?? `title:${record?.title}`;
+    const mergeLists = (existing: any[] | null, added: any[] | null): any[] | null => {
+      if (!Array.isArray(added)) return existing;
+      if (!Array.isArray(existing)) return added;
+      const existingKeys = new Set(existing.map(recordKey));
+      return [...existing, ...added.filter(record => !existingKeys.has(recordKey(record)))];
+    };
+
+    const mergeCollections = (existing: ProfileCollections, added: ProfileCollections): ProfileCollections => {
+      const merged: ProfileCollections = { ...existing };
+      for (const [profileId, list] of Object.entries(added)) {
+        merged[profileId] = mergeLists(merged[profileId] ?? null, list) || [];
+      }
+      return merged;
+    };
+
+    return {
+      profiles: mergeLists(current.profiles, incoming.profiles),
+      symptomLogs: mergeCollections(current.symptomLogs, incoming.symptomLogs),
+      followUpQuestions: mergeCollections(current.followUpQuestions, incoming.followUpQuestions),
+      recommendations: mergeCollections(current.recommendations, incoming.recommendations),
+      completedRecommendations: mergeCollections(current.completedRecommendations, incoming.completedRecommendations),
+      appointments: mergeCollections(current.appointments, incoming.appointments),
+      privacySettings: current.privacySettings ?? incoming.privacySettings,
+      notificationSettings: current.notificationSettings ?? incoming.notificationSettings,
+      tutorialState: current.tutorialState ?? incoming.tutorialState,
+    };
+  }
+
+  /**
+   * The backup's data only; profiles missing from it lose their data when saved.
+   * Privacy settings stay as on this device when the backup has none, since
+   * PrivacyContext treats a missing value as "defaults" rather than "absent"
+   */
+  private static replaceEntities(current: StoredEntities, incoming: StoredEntities): StoredEntities {
+    return {
+      ...incoming,
+      privacySettings: incoming.privacySettings ?? current.privacySettings,
+    };
+  }
+}
@@ -0,0 +1,295 @@
+import { AppState } from 'react-native';
+import { LLM_PRICES } from '@env';
+import type { LLMTask, TokenUsage } from './llm';
+import { StorageManager, STORAGE_KEYS } from './storage';
+import { AudioStore } from './audioStore';
+
+// ============================================================================
+// COST LEDGER - What every model call actually cost
+// ============================================================================
+//
+// PURPOSE: Replace estimated per-feature costs with the real ones: chat calls
+//          are priced from the usage the server reports, transcriptions from
+//          the recording's length, using a per-model price table
+// RECORDING: LLMClient records every call; nothing else needs to
+// TRIGGER: Calls made while the app is in the foreground are "reactive" (user
+//          actions), calls made in the background are "proactive"
+// PRICES (.env, optional): LLM_PRICES="gpt-4o=2.5:10,whisper-1=0.006/min" -
+//          chat models in USD per 1M input:output tokens, audio models in USD
+//          per minute. Models without a price (e.g. local servers) cost $0
+//          and are counted as unpriced
+
+export const MAX_LEDGER_ENTRIES = 2000;
+
+export interface ModelPrice {
+  inputPerMillion?: number;  // USD per 1M prompt tokens
+  outputPerMillion?: number; // USD per 1M completion tokens
+  perMinute?: number;        // USD per minute of audio
+}
+
+export type PriceTable = { [model: string]: ModelPrice };
+
+/**
+ * OpenAI list prices; a model reported with a version suffix (gpt-4-0613)
+ * uses the longest matching name
+ */
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'whisper-1': { perMinute: 0.006 },
+};
+
+export type CostTrigger = 'reactive' | 'proactive';
+
+export interface CostEntry {
+  at: string;
+  task: LLMTask;
+  model: string;
+  trigger: CostTrigger;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  cost: number;      // USD
+  priced: boolean;   // False when the model has no price or the server reported no usage
+}
+
+export interface CostTotals {
+  calls: number;
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  unpricedCalls: number;
+}
+
+/**
+ * Persisted ledger: recent calls in full, plus all-time totals that survive trimming
+ */
+export interface CostLedgerState {
+  entries: CostEntry[]; // Oldest first, at most MAX_LEDGER_ENTRIES
+  totalsByTrigger: { [trigger in CostTrigger]: CostTotals };
+  totalsByTask: { [task in LLMTask]?: CostTotals };
+  totalsByMonth: { [month: string]: CostTotals }; // Keyed by monthKey(), in local time
+  lastCall: string | null;
+}
+
+const emptyTotals = (): CostTotals => ({
+  calls: 0,
+  cost: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  audioSeconds: 0,
+  unpricedCalls: 0,
+});
+
+export const createEmptyLedger = (): CostLedgerState => ({
+  entries: [],
+  totalsByTrigger: { reactive: emptyTotals(), proactive: emptyTotals() },
+  totalsByTask: {},
+  totalsByMonth: {},
+  lastCall: null,
+});
+
+/**
+ * "2025-03" for any time in March 2025, in local time like AIBudget's months
+ */
+export const monthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const addToTotals = (totals: CostTotals = emptyTotals(), entry: CostEntry): CostTotals => ({
+  calls: totals.calls + 1,
+  cost: totals.cost + entry.cost,
+  promptTokens: totals.promptTokens + entry.promptTokens,
+  completionTokens: totals.completionTokens + entry.completionTokens,
+  audioSeconds: totals.audioSeconds + entry.audioSeconds,
+  unpricedCalls: totals.unpricedCalls + (entry.priced ? 0 : 1),
+});
+
+/**
+ * Parse "model=input:output" (per 1M tokens) and "model=price/min" pairs
+ */
+const parsePriceOverrides = (value: string | undefined): PriceTable => {
+  const prices: PriceTable = {};
+  if (!value) return prices;
+
+  for (const pair of value.split(',')) {
+    const [model, price] = pair.split('=').map(part => part?.trim());
+    if (!model || !price) continue;
+
+    const perMinute = price.match(/^([\d.]+)\/min$/);
+    const perToken = price.match(/^([\d.]+):([\d.]+)$/);
+    if (perMinute) {
+      prices[model] = { perMinute: Number(perMinute[1]) };
+    } else if (perToken) {
+      prices[model] = { inputPerMillion: Number(perToken[1]), outputPerMillion: Number(perToken[2]) };
+    } else {
+      console.warn(`Ignoring invalid LLM price "${pair}"`);
+    }
+  }
+  return prices;
+};
+
+type Listener = () => void;
+
+export class CostLedger {
+  private static prices: PriceTable = { ...DEFAULT_MODEL_PRICES, ...parsePriceOverrides(LLM_PRICES) };
+  private static queue: Promise<void> = Promise.resolve();
+  private static listeners = new Set<Listener>();
+
+  // ============================================================================
+  // PRICES
+  // ============================================================================
+
+  /**
+   * Add or replace model prices at runtime
+   */
+  static setPrices(prices: PriceTable): void {
+    this.prices = { ...this.prices, ...prices };
+  }
+
+  static getPrices(): PriceTable {
+    return this.prices;
+  }
+
+  /**
+   * Price for a model, matching versioned names to their base model
+   */
+  static getPrice(model: string): ModelPrice | null {
+    if (this.prices[model]) return this.prices[model];
+
+    const match = Object.keys(this.prices)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.prices[match] : null;
+  }
+
+  // ============================================================================
+  // RECORDING (called by LLMClient)
+  // ============================================================================
+
+  /**
+   * Record a chat completion from the usage the server reported
+   */
+  static recordChat(task: LLMTask, model: string, usage: TokenUsage | null): Promise<void> {
+    const price = this.getPrice(model);
+    const promptTokens = usage?.promptTokens ?? 0;
+    const completionTokens = usage?.completionTokens ?? 0;
+    const priced = price !== null && usage !== null && price.inputPerMillion !== undefined;
+
+    const cost = priced
+      ? (promptTokens * (price!.inputPerMillion ?? 0) + completionTokens * (price!.outputPerMillion ?? 0)) / 1_000_000
+      : 0;
+
+    return this.record({ task, model, promptTokens, completionTokens, audioSeconds: 0, cost, priced });
+  }
+
+  /**
+   * Record a transcription from the recording's length
+   */
+  static async recordTranscription(model: string, audioUri: string): Promise<void> {
+    const audioSeconds = await AudioStore.getDurationSeconds(audioUri);
+    const price = this.getPrice(model);
+    const priced = price?.perMinute !== undefined && audioSeconds !== null;
+    const cost = priced ? ((audioSeconds as number) / 60) * price!.perMinute! : 0;
+
+    return this.record({
+      task: 'transcription',
+      model,
+      promptTokens: 0,
+      completionTokens: 0,
+      audioSeconds: audioSeconds ?? 0,
+      cost,
+      priced,
+    });
+  }
+
+  // ============================================================================
+  // READING
+  // ============================================================================
+
+  static async getLedger(): Promise<CostLedgerState> {
+    const ledger = await StorageManager.load<CostLedgerState>(STORAGE_KEYS.costLedger);
+    if (!ledger) return createEmptyLedger();
+
+    // Ledgers from before monthly totals start from the calls they still hold
+    if (!ledger.totalsByMonth) {
+      ledger.totalsByMonth = {};
+      for (const entry of ledger.entries) {
+        const month = monthKey(new Date(entry.at));
+        ledger.totalsByMonth[month] = addToTotals(ledger.totalsByMonth[month], entry);
+      }
+    }
+    return ledger;
+  }
+
+  /**
+   * Everything recorded in the month containing a date, including calls
+   * already trimmed from the entries
+   */
+  static async getMonthTotals(date: Date): Promise<CostTotals> {
+    const { totalsByMonth } = await this.getLedger();
+    return totalsByMonth[monthKey(date)] ?? emptyTotals();
+  }
+
+  /**
+   * Calls recorded since a date (limited to the most recent MAX_LEDGER_ENTRIES)
+   */
+  static async getEntriesSince(since: Date): Promise<CostEntry[]> {
+    const { entries } = await this.getLedger();
+    return entries.filter(entry => new Date(entry.at) >= since);
+  }
+
+  static async clear(): Promise<void> {
+    await StorageManager.remove(STORAGE_KEYS.costLedger);
+    this.notify();
+  }
+
+  /**
+   * Be told whenever a call is recorded
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static record(call: Omit<CostEntry, 'at' | 'trigger'>): Promise<void> {
+    const entry: CostEntry = {
+      ...call,
+      at: new Date().toISOString(),
+      trigger: AppState.currentState === 'active' ? 'reactive' : 'proactive',
+    };
+    console.log(`💰 ${entry.task}: $${entry.cost.toFixed(4)} (${entry.model}${entry.priced ? '' : ', unpriced'})`);
+
+    // Serialized so concurrent agent calls don't overwrite each other
+    this.queue = this.queue
+      .then(async () => {
+        const ledger = await this.getLedger();
+        ledger.entries = [...ledger.entries, entry].slice(-MAX_LEDGER_ENTRIES);
+        ledger.totalsByTrigger[entry.trigger] = addToTotals(ledger.totalsByTrigger[entry.trigger], entry);
+        ledger.totalsByTask[entry.task] = addToTotals(ledger.totalsByTask[entry.task], entry);
+        const month = monthKey(new Date(entry.at));
+        ledger.totalsByMonth[month] = addToTotals(ledger.totalsByMonth[month], entry);
+        ledger.lastCall = entry.at;
+        await StorageManager.save(STORAGE_KEYS.costLedger, ledger);
+        this.notify();
+      })
+      .catch(error => {
+        console.error('Error recording AI cost:', error);
+      });
+    return this.queue;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -5,9 +5,10 @@
 export class DateUtils {
   /**
    * Format date for display
+   * @param locale - BCP 47 locale, e.g. from useLocale()
    */
-  static formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
+  static formatDate(date: Date, locale: string = 'en-US'): string {
+    return date.toLocaleDateString(locale, {
       month: 'short',
       day: 'numeric',
       year: 'numeric'
@@ -17,8 +18,8 @@ export class DateUtils {
   /**
    * Format date and time for display
    */
-  static formatDateTime(date: Date): string {
-    return date.toLocaleString('en-US', {
+  static formatDateTime(date: Date, locale: string = 'en-US'): string {
+    return date.toLocaleString(locale, {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
@@ -30,8 +31,8 @@ export class DateUtils {
   /**
    * Format time for display
    */
-  static formatTime(date: Date): string {
-    return date.toLocaleTimeString('en-US', {
+  static formatTime(date: Date, locale: string = 'en-US'): string {
+    return date.toLocaleTimeString(locale, {
       hour: '2-digit',
       minute: '2-digit'
     });
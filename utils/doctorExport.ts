@@ -0,0 +1,65 @@
+import { SymptomLog } from '../types/recommendations';
+import { DateUtils } from './dateUtils';
+import { AppLanguage, I18n, TranslationParams } from './i18n';
+import { TranslationKey } from '../locales/en';
+
+// ============================================================================
+// DOCTOR EXPORT - Symptom summaries written for a healthcare provider
+// ============================================================================
+//
+// PURPOSE: Plain text a patient can share before or during an appointment
+// LANGUAGE: Built in an explicit language rather than the UI's, so someone
+//           who records in Hindi can still hand their doctor an English copy
+//           (each log's englishSummary, kept by the symptom analysis)
+// USAGE: DoctorExport.buildSymptomSummary(appointment, symptoms, 'en')
+
+export interface DoctorExportAppointment {
+  title: string;
+  date: Date;
+}
+
+export class DoctorExport {
+  /**
+   * The summary a log is shown with in the given language
+   */
+  static getSummary(log: SymptomLog, language: AppLanguage): string {
+    if (log.processingStatus) return I18n.translate(language, 'symptoms.pendingSummary');
+    return language === 'en' ? log.englishSummary ?? log.summary : log.summary;
+  }
+
+  /**
+   * Text listing the symptoms recorded ahead of an appointment, newest first
+   */
+  static buildSymptomSummary(
+    appointment: DoctorExportAppointment,
+    symptoms: SymptomLog[],
+    language: AppLanguage
+  ): string {
+    const locale = I18n.getLocale(language);
+    const t = (key: TranslationKey, params?: TranslationParams) => I18n.translate(language, key, params);
+
+    const lines = [
+      t('doctorExport.title', { appointment: appointment.title }),
+      t('doctorExport.appointmentDate', { date: DateUtils.formatDateTime(appointment.date, locale) }),
+      '',
+      t('doctorExport.symptoms'),
+    ];
+
+    if (symptoms.length === 0) {
+      lines.push(t('doctorExport.noSymptoms'));
+    } else {
+      [...symptoms]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .forEach(log => {
+          lines.push(`• ${t('doctorExport.symptomLine', {
+            date: DateUtils.formatDate(new Date(log.timestamp), locale),
+            summary: this.getSummary(log, language),
+            severity: t(`common.severity.${log.severity}`),
+          })}`);
+        });
+    }
+
+    lines.push('', t('doctorExport.footer'));
+    return lines.join('\n');
+  }
+}
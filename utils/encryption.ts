@@ -1,37 +1,265 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
 // ============================================================================
 // DATA ENCRYPTION UTILITY - Maximum Security for Health Data
 // ============================================================================
 
 /**
- * Simple encryption utility for local data
- * In a production app, you'd want to use more robust encryption libraries
- * This provides basic encryption for sensitive health data
+ * Versioned ciphertext envelope: `nx1:<base64 nonce>:<base64 ciphertext+tag>`
+ * The prefix lets storage tell new ciphertext apart from legacy Base64/plain JSON
+ */
+const ENVELOPE_PREFIX = 'nx1:';
+const DATA_KEY_NAME = 'nexst_data_encryption_key';
+const KEY_LENGTH = 32; // AES-256
+const NONCE_LENGTH = 12; // 96-bit GCM nonce
+const SALT_LENGTH = 16;
+const PASSPHRASE_KDF_ITERATIONS = 100000; // Stored per envelope, so it can be raised later
+
+/**
+ * Ciphertext protected by a user passphrase rather than the device key,
+ * so it can be opened on another device (backups)
+ */
+export interface PassphraseEnvelope {
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;       // base64
+  nonce: string;      // base64
+  ciphertext: string; // base64, GCM tag included
+}
+
+/**
+ * Raised when a ciphertext envelope cannot be authenticated or decrypted.
+ * Callers must not treat the payload as plaintext when this is thrown.
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Raised when the data key can't be read from the keystore (e.g. the device
+ * hasn't been unlocked since it restarted). The data itself is fine, so
+ * callers must neither quarantine it nor create a new key; retry later.
+ */
+export class KeyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyUnavailableError';
+  }
+}
+
+// ============================================================================
+// BASE64 HELPERS
+// ============================================================================
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Authenticated encryption (AES-256-GCM) for local health data
+ * The per-install data key is generated on first use and kept in the
+ * platform keystore (iOS Keychain / Android Keystore) via expo-secure-store
  */
 export class DataEncryption {
-  // Simple encryption for sensitive data using React Native compatible Base64
-  static encrypt(data: string): string {
+  private static cachedKey: Uint8Array | null = null;
+  private static keyPromise: Promise<Uint8Array> | null = null;
+
+  /**
+   * Whether a data key exists (StorageManager checks before the first key is created)
+   * @throws KeyUnavailableError if the keystore can't be read
+   */
+  static async hasDataKey(): Promise<boolean> {
+    return this.cachedKey !== null || (await this.readStoredKey()) !== null;
+  }
+
+  /**
+   * Get the per-install data key
+   * @param create - Create it if none is stored (encrypting only; decrypting
+   *   with a new key could never succeed)
+   * @throws KeyUnavailableError if the keystore can't be read, or no key is stored and create is false
+   */
+  private static async getDataKey(create: boolean): Promise<Uint8Array> {
+    if (this.cachedKey) return this.cachedKey;
+
+    if (!create) {
+      const storedKey = await this.readStoredKey();
+      if (!storedKey) {
+        throw new KeyUnavailableError('No data encryption key is stored');
+      }
+      this.cachedKey = storedKey;
+      return storedKey;
+    }
+
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const storedKey = await this.readStoredKey();
+        if (storedKey) {
+          return storedKey;
+        }
+
+        const key = Crypto.getRandomBytes(KEY_LENGTH);
+        await SecureStore.setItemAsync(DATA_KEY_NAME, bytesToBase64(key), {
+          keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+        });
+        console.log('🔑 Generated new data encryption key');
+        return key;
+      })();
+    }
+
+    try {
+      this.cachedKey = await this.keyPromise;
+      return this.cachedKey;
+    } finally {
+      this.keyPromise = null;
+    }
+  }
+
+  /**
+   * @returns null when no key is stored
+   */
+  private static async readStoredKey(): Promise<Uint8Array | null> {
+    let storedKey: string | null;
     try {
-      // Use React Native compatible Base64 encoding
-      const encoded = btoa(data);
-      return encoded;
+      storedKey = await SecureStore.getItemAsync(DATA_KEY_NAME);
     } catch (error) {
-      console.error('Encryption error:', error);
-      return data; // Fallback to plain text if encryption fails
+      throw new KeyUnavailableError(`Could not read the data encryption key: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!storedKey) return null;
+
+    const key = base64ToBytes(storedKey);
+    if (key.length !== KEY_LENGTH) {
+      throw new KeyUnavailableError('Stored data encryption key has an invalid length');
     }
+    return key;
   }
 
-  // Simple decryption for sensitive data using React Native compatible Base64
-  static decrypt(encryptedData: string): string {
+  /**
+   * Encrypt data into a versioned envelope
+   * @param associatedData - Bound to the ciphertext (e.g. the storage key) so
+   *   a payload cannot be copied under another key without failing decryption
+   */
+  static async encrypt(data: string, associatedData?: string): Promise<string> {
+    const key = await this.getDataKey(true);
+    const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+    const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+    const ciphertext = gcm(key, nonce, aad).encrypt(utf8ToBytes(data));
+    return `${ENVELOPE_PREFIX}${bytesToBase64(nonce)}:${bytesToBase64(ciphertext)}`;
+  }
+
+  /**
+   * Decrypt a versioned envelope
+   * @throws DecryptionError if the envelope is malformed or fails authentication
+   * @throws KeyUnavailableError if the data key can't be read
+   */
+  static async decrypt(envelope: string, associatedData?: string): Promise<string> {
+    if (!this.isEncryptedEnvelope(envelope)) {
+      throw new DecryptionError('Payload is not an encrypted envelope');
+    }
+
+    const parts = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+    if (parts.length !== 2) {
+      throw new DecryptionError('Malformed encrypted envelope');
+    }
+
+    const key = await this.getDataKey(false);
     try {
-      // Use React Native compatible Base64 decoding
-      const decoded = atob(encryptedData);
-      return decoded;
+      const nonce = base64ToBytes(parts[0]);
+      const ciphertext = base64ToBytes(parts[1]);
+      const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+      return bytesToUtf8(gcm(key, nonce, aad).decrypt(ciphertext));
     } catch (error) {
-      console.error('Decryption error:', error);
-      return encryptedData; // Fallback to original data if decryption fails
+      throw new DecryptionError(`Authentication failed: ${error instanceof Error ? error.message : error}`);
     }
   }
 
+  /**
+   * Encrypt data with a key derived from a user passphrase
+   * @param associatedData - Authenticated but not encrypted (e.g. a backup header)
+   */
+  static async encryptWithPassphrase(
+    data: string,
+    passphrase: string,
+    associatedData?: string
+  ): Promise<PassphraseEnvelope> {
+    const salt = Crypto.getRandomBytes(SALT_LENGTH);
+    const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+    const key = await this.derivePassphraseKey(passphrase, salt, PASSPHRASE_KDF_ITERATIONS);
+    const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+    const ciphertext = gcm(key, nonce, aad).encrypt(utf8ToBytes(data));
+
+    return {
+      kdf: 'pbkdf2-sha256',
+      iterations: PASSPHRASE_KDF_ITERATIONS,
+      salt: bytesToBase64(salt),
+      nonce: bytesToBase64(nonce),
+      ciphertext: bytesToBase64(ciphertext),
+    };
+  }
+
+  /**
+   * Decrypt a passphrase envelope
+   * @throws DecryptionError on a wrong passphrase or tampered data (indistinguishable by design)
+   */
+  static async decryptWithPassphrase(
+    envelope: PassphraseEnvelope,
+    passphrase: string,
+    associatedData?: string
+  ): Promise<string> {
+    if (envelope.kdf !== 'pbkdf2-sha256' || !(envelope.iterations > 0)) {
+      throw new DecryptionError(`Unsupported key derivation: ${envelope.kdf}`);
+    }
+
+    try {
+      const key = await this.derivePassphraseKey(passphrase, base64ToBytes(envelope.salt), envelope.iterations);
+      const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+      const plaintext = gcm(key, base64ToBytes(envelope.nonce), aad).decrypt(base64ToBytes(envelope.ciphertext));
+      return bytesToUtf8(plaintext);
+    } catch (error) {
+      throw new DecryptionError('Wrong passphrase or damaged data');
+    }
+  }
+
+  private static derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    // Async variant yields to the JS thread so the UI stays responsive
+    return pbkdf2Async(sha256, utf8ToBytes(passphrase.normalize('NFKC')), salt, { c: iterations, dkLen: KEY_LENGTH });
+  }
+
+  /**
+   * Check if a stored string uses the current encrypted envelope format
+   */
+  static isEncryptedEnvelope(str: string): boolean {
+    return str.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Decode a legacy payload written before authenticated encryption
+   * (Base64-encoded JSON, or plain JSON from even older builds)
+   */
+  static decodeLegacy(str: string): string {
+    return this.isValidBase64(str) ? atob(str) : str;
+  }
+
   // Check if a string is valid Base64
   static isValidBase64(str: string): boolean {
     try {
@@ -42,4 +270,4 @@ export class DataEncryption {
       return false;
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,450 @@
+import { SymptomLog, MedicalRecommendation, HealthDomain, GenerationInfo } from '../types/recommendations';
+import { HEALTH_DOMAINS, HealthTaxonomy } from './healthTaxonomy';
+import { SEVERITIES, IMPACTS, RECOMMENDATION_CATEGORIES, RECOMMENDATION_URGENCIES } from './agents/outputSchemas';
+import { RedFlagTriage } from './redFlagTriage';
+
+// ============================================================================
+// EVALUATION - Score symptom classification and recommendations on a golden set
+// ============================================================================
+//
+// PURPOSE: Tell whether a model or prompt change makes classification better
+//          or worse before it ships
+// DATASET: fixtures/eval/symptoms.json - de-identified transcripts with the
+//          expected health domain, severity, impact and red-flag rules, plus
+//          optional expectations for the recommendations
+// USAGE: npm run eval (scripts/evaluate.js), which runs AIService against
+//        replayed fixtures or a local model and prints formatReport()
+// SCORING: Severity and impact are the model's own answer, before any red-flag
+//          override; red flags are scored separately against the local rules
+
+export const EVAL_DATASET_VERSION = 1;
+
+export interface EvalCase {
+  id: string;
+  transcript: string; // De-identified: no names, places, dates or contact details
+  expected: {
+    healthDomain: HealthDomain;
+    severity: SymptomLog['severity'];
+    impact: SymptomLog['impact'];
+    redFlags: string[]; // Rule ids (utils/redFlagTriage.ts); empty when none should match
+    recommendations?: {
+      categories?: MedicalRecommendation['category'][]; // At least one recommendation in one of these
+      urgency?: MedicalRecommendation['urgency'];        // The most urgent one is at least this urgent
+    };
+  };
+}
+
+export interface EvalDataset {
+  version: number;
+  cases: EvalCase[];
+}
+
+export interface AnalysisOutcome {
+  summary: string;
+  healthDomain: string;
+  severity: string;
+  impact: string;
+  generatedBy?: GenerationInfo;
+}
+
+/**
+ * The code under test: AIService.analyzeTranscript and generateRecommendationsFromSymptom
+ */
+export interface EvalTarget {
+  analyze: (transcript: string) => Promise<AnalysisOutcome>;
+  recommend?: (log: SymptomLog) => Promise<MedicalRecommendation[]>;
+}
+
+export interface CaseResult {
+  id: string;
+  expected: EvalCase['expected'];
+  analysis: AnalysisOutcome | null;
+  analysisError?: string;
+  redFlags: string[]; // Rules the local triage matched
+  recommendations: {
+    count: number;
+    categories: MedicalRecommendation['category'][];
+    mostUrgent: MedicalRecommendation['urgency'] | null;
+    categoryHit?: boolean; // Set when the case has an expectation for it
+    urgencyHit?: boolean;
+  } | null;
+  recommendationsError?: string;
+}
+
+export interface ConfusionMatrix {
+  labels: string[];
+  counts: number[][]; // counts[expected][actual]; an unexpected label from the model counts as 'other'
+}
+
+export interface FieldScore {
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1; 0 when nothing was scored
+  matrix: ConfusionMatrix;
+}
+
+export interface DomainScore {
+  domain: HealthDomain;
+  cases: number;
+  domainAccuracy: number;
+  severityAccuracy: number;
+  impactAccuracy: number;
+}
+
+export interface EvalReport {
+  caseCount: number;
+  prompts: string[];  // "name@version" of every prompt seen
+  models: string[];
+  analysis: {
+    errors: number;
+    fallbacks: number; // Replies that never validated
+    healthDomain: FieldScore;
+    severity: FieldScore;
+    impact: FieldScore;
+    perDomain: DomainScore[];
+  };
+  redFlags: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    precision: number;
+    recall: number;
+    mismatchedCases: string[];
+  };
+  recommendations: {
+    scored: number;
+    errors: number;
+    empty: number;     // No recommendations (including replies that never validated)
+    averageCount: number;
+    categoryHitRate: number | null; // null when no case has the expectation
+    urgencyHitRate: number | null;
+  } | null;
+  cases: CaseResult[];
+}
+
+const OTHER_LABEL = 'other';
+
+// Most urgent first
+const URGENCY_RANK: MedicalRecommendation['urgency'][] = [...RECOMMENDATION_URGENCIES];
+
+const ratio = (part: number, whole: number): number => (whole === 0 ? 0 : part / whole);
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export class Evaluation {
+  /**
+   * Check a parsed dataset file, listing every problem at once
+   */
+  static validateDataset(data: unknown): EvalDataset {
+    const dataset = data as EvalDataset;
+    if (!dataset || dataset.version !== EVAL_DATASET_VERSION || !Array.isArray(dataset.cases)) {
+      throw new Error(`Evaluation dataset must be { version: ${EVAL_DATASET_VERSION}, cases: [...] }`);
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    dataset.cases.forEach((evalCase, index) => {
+      const label = evalCase?.id || `case ${index}`;
+      if (!evalCase?.id) errors.push(`${label}: missing id`);
+      else if (ids.has(evalCase.id)) errors.push(`${label}: duplicate id`);
+      ids.add(evalCase?.id);
+
+      if (!evalCase?.transcript?.trim()) errors.push(`${label}: missing transcript`);
+      const expected = evalCase?.expected;
+      if (!expected) {
+        errors.push(`${label}: missing expected outcome`);
+        return;
+      }
+      if (!HEALTH_DOMAINS.includes(expected.healthDomain)) errors.push(`${label}: unknown health domain "${expected.healthDomain}"`);
+      if (!SEVERITIES.includes(expected.severity)) errors.push(`${label}: unknown severity "${expected.severity}"`);
+      if (!IMPACTS.includes(expected.impact)) errors.push(`${label}: unknown impact "${expected.impact}"`);
+      if (!Array.isArray(expected.redFlags)) {
+        errors.push(`${label}: redFlags must be a list (empty when none should match)`);
+      } else {
+        expected.redFlags
+          .filter(id => !RedFlagTriage.getRule(id))
+          .forEach(id => errors.push(`${label}: unknown red-flag rule "${id}"`));
+      }
+      expected.recommendations?.categories
+        ?.filter(category => !RECOMMENDATION_CATEGORIES.includes(category))
+        .forEach(category => errors.push(`${label}: unknown recommendation category "${category}"`));
+      if (expected.recommendations?.urgency && !URGENCY_RANK.includes(expected.recommendations.urgency)) {
+        errors.push(`${label}: unknown urgency "${expected.recommendations.urgency}"`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid evaluation dataset:\n${errors.join('\n')}`);
+    }
+    return dataset;
+  }
+
+  /**
+   * Run every case, one at a time, and score the results
+   * A failing call is recorded against its case and the run continues
+   */
+  static async run(
+    dataset: EvalDataset,
+    target: EvalTarget,
+    onCase?: (result: CaseResult, index: number) => void
+  ): Promise<EvalReport> {
+    const results: CaseResult[] = [];
+
+    for (const [index, evalCase] of dataset.cases.entries()) {
+      const result = await this.runCase(evalCase, target);
+      results.push(result);
+      onCase?.(result, index);
+    }
+
+    return this.score(results, target.recommend !== undefined);
+  }
+
+  /**
+   * Score finished case results (also used to re-score a saved JSON report)
+   */
+  static score(results: CaseResult[], includeRecommendations: boolean): EvalReport {
+    const analyzed = results.filter(result => result.analysis !== null);
+    const field = (labels: readonly string[], pick: (result: CaseResult) => [string, string]) =>
+      this.scoreField(labels, analyzed.map(pick));
+
+    const perDomain: DomainScore[] = HEALTH_DOMAINS
+      .map(domain => {
+        const cases = analyzed.filter(result => result.expected.healthDomain === domain);
+        const accuracy = (matches: (result: CaseResult) => boolean) => ratio(cases.filter(matches).length, cases.length);
+        return {
+          domain,
+          cases: cases.length,
+          domainAccuracy: accuracy(result => result.analysis!.healthDomain === domain),
+          severityAccuracy: accuracy(result => result.analysis!.severity === result.expected.severity),
+          impactAccuracy: accuracy(result => result.analysis!.impact === result.expected.impact),
+        };
+      })
+      .filter(score => score.cases > 0);
+
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    const mismatchedCases: string[] = [];
+    for (const result of results) {
+      const expected = new Set(result.expected.redFlags);
+      const actual = new Set(result.redFlags);
+      const hits = result.redFlags.filter(id => expected.has(id)).length;
+      truePositives += hits;
+      falsePositives += actual.size - hits;
+      falseNegatives += expected.size - hits;
+      if (hits !== expected.size || hits !== actual.size) mismatchedCases.push(result.id);
+    }
+
+    const generated = results.flatMap(result => (result.analysis?.generatedBy ? [result.analysis.generatedBy] : []));
+
+    return {
+      caseCount: results.length,
+      prompts: Array.from(new Set(generated.map(info => `${info.prompt}@${info.promptVersion}`))).sort(),
+      models: Array.from(new Set(generated.map(info => info.model).filter(Boolean))).sort(),
+      analysis: {
+        errors: results.length - analyzed.length,
+        fallbacks: generated.filter(info => info.usedFallback).length,
+        healthDomain: field(HEALTH_DOMAINS, result => [result.expected.healthDomain, result.analysis!.healthDomain]),
+        severity: field(SEVERITIES, result => [result.expected.severity, result.analysis!.severity]),
+        impact: field(IMPACTS, result => [result.expected.impact, result.analysis!.impact]),
+        perDomain,
+      },
+      redFlags: {
+        truePositives,
+        falsePositives,
+        falseNegatives,
+        precision: ratio(truePositives, truePositives + falsePositives),
+        recall: ratio(truePositives, truePositives + falseNegatives),
+        mismatchedCases,
+      },
+      recommendations: includeRecommendations ? this.scoreRecommendations(results) : null,
+      cases: results,
+    };
+  }
+
+  /**
+   * Plain-text report: overall accuracy, per-domain accuracy and confusion matrices
+   */
+  static formatReport(report: EvalReport): string {
+    const { analysis, redFlags, recommendations } = report;
+    const lines: string[] = [
+      `Cases: ${report.caseCount}`,
+      `Prompts: ${report.prompts.join(', ') || 'none'}`,
+      `Models: ${report.models.join(', ') || 'none'}`,
+      '',
+      'CLASSIFICATION',
+      `  Errors: ${analysis.errors}   Fallback replies: ${analysis.fallbacks}`,
+      `  Health domain: ${this.formatScore(analysis.healthDomain)}`,
+      `  Severity:      ${this.formatScore(analysis.severity)}`,
+      `  Impact:        ${this.formatScore(analysis.impact)}`,
+      '',
+      'PER DOMAIN (cases / domain / severity / impact accuracy)',
+      ...analysis.perDomain.map(score =>
+        `  ${score.domain.padEnd(20)} ${String(score.cases).padStart(3)}  ${percent(score.domainAccuracy).padStart(6)}  ${percent(score.severityAccuracy).padStart(6)}  ${percent(score.impactAccuracy).padStart(6)}`
+      ),
+      '',
+      'RED FLAGS (local rules)',
+      `  Precision ${percent(redFlags.precision)}   Recall ${percent(redFlags.recall)}   (TP ${redFlags.truePositives}, FP ${redFlags.falsePositives}, FN ${redFlags.falseNegatives})`,
+      ...(redFlags.mismatchedCases.length > 0 ? [`  Mismatched: ${redFlags.mismatchedCases.join(', ')}`] : []),
+    ];
+
+    if (recommendations) {
+      lines.push(
+        '',
+        'RECOMMENDATIONS',
+        `  Scored ${recommendations.scored}   Errors ${recommendations.errors}   Empty ${recommendations.empty}   Average count ${recommendations.averageCount.toFixed(1)}`,
+        `  Expected category present: ${recommendations.categoryHitRate === null ? 'n/a' : percent(recommendations.categoryHitRate)}`,
+        `  Urgent enough:             ${recommendations.urgencyHitRate === null ? 'n/a' : percent(recommendations.urgencyHitRate)}`
+      );
+    }
+
+    lines.push(
+      '',
+      'CONFUSION MATRICES (rows: expected, columns: actual)',
+      '',
+      'Health domain',
+      ...this.formatMatrix(analysis.healthDomain.matrix),
+      '',
+      'Severity',
+      ...this.formatMatrix(analysis.severity.matrix),
+      '',
+      'Impact',
+      ...this.formatMatrix(analysis.impact.matrix)
+    );
+
+    const wrong = report.cases.filter(result =>
+      result.analysisError ||
+      (result.analysis && (
+        result.analysis.healthDomain !== result.expected.healthDomain ||
+        result.analysis.severity !== result.expected.severity ||
+        result.analysis.impact !== result.expected.impact
+      ))
+    );
+    if (wrong.length > 0) {
+      lines.push('', 'MISCLASSIFIED CASES (expected -> actual)');
+      for (const result of wrong) {
+        lines.push(result.analysis
+          ? `  ${result.id}: ${this.describe(result.expected)} -> ${this.describe(result.analysis)}`
+          : `  ${result.id}: error - ${result.analysisError}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static async runCase(evalCase: EvalCase, target: EvalTarget): Promise<CaseResult> {
+    const result: CaseResult = {
+      id: evalCase.id,
+      expected: evalCase.expected,
+      analysis: null,
+      redFlags: RedFlagTriage.evaluate(evalCase.transcript).map(match => match.rule.id),
+      recommendations: null,
+    };
+
+    try {
+      result.analysis = await target.analyze(evalCase.transcript);
+    } catch (error) {
+      result.analysisError = errorMessage(error);
+      return result;
+    }
+
+    if (!target.recommend) return result;
+
+    const log: SymptomLog = {
+      id: `eval-${evalCase.id}`,
+      timestamp: new Date(),
+      summary: result.analysis.summary,
+      transcript: evalCase.transcript,
+      healthDomain: HealthTaxonomy.normalizeDomain(result.analysis.healthDomain).domain,
+      severity: result.analysis.severity as SymptomLog['severity'],
+      impact: result.analysis.impact as SymptomLog['impact'],
+    };
+
+    try {
+      const recommendations = await target.recommend(log);
+      const expected = evalCase.expected.recommendations;
+      const categories = recommendations.map(recommendation => recommendation.category);
+      const mostUrgent = recommendations.length > 0
+        ? URGENCY_RANK[Math.min(...recommendations.map(recommendation => URGENCY_RANK.indexOf(recommendation.urgency)))]
+        : null;
+
+      result.recommendations = {
+        count: recommendations.length,
+        categories,
+        mostUrgent,
+        ...(expected?.categories && { categoryHit: categories.some(category => expected.categories!.includes(category)) }),
+        ...(expected?.urgency && {
+          urgencyHit: mostUrgent !== null && URGENCY_RANK.indexOf(mostUrgent) <= URGENCY_RANK.indexOf(expected.urgency),
+        }),
+      };
+    } catch (error) {
+      result.recommendationsError = errorMessage(error);
+    }
+    return result;
+  }
+
+  private static scoreRecommendations(results: CaseResult[]): NonNullable<EvalReport['recommendations']> {
+    const scored = results.flatMap(result => (result.recommendations ? [result.recommendations] : []));
+    const rate = (hits: (boolean | undefined)[]) => {
+      const applicable = hits.filter((hit): hit is boolean => hit !== undefined);
+      return applicable.length === 0 ? null : ratio(applicable.filter(Boolean).length, applicable.length);
+    };
+
+    return {
+      scored: scored.length,
+      errors: results.filter(result => result.recommendationsError).length,
+      empty: scored.filter(outcome => outcome.count === 0).length,
+      averageCount: ratio(scored.reduce((total, outcome) => total + outcome.count, 0), scored.length),
+      categoryHitRate: rate(scored.map(outcome => outcome.categoryHit)),
+      urgencyHitRate: rate(scored.map(outcome => outcome.urgencyHit)),
+    };
+  }
+
+  private static scoreField(labels: readonly string[], pairs: [string, string][]): FieldScore {
+    const matrixLabels = [...labels];
+    if (pairs.some(([, actual]) => !labels.includes(actual))) {
+      matrixLabels.push(OTHER_LABEL);
+    }
+
+    const counts = matrixLabels.map(() => matrixLabels.map(() => 0));
+    const indexOf = (label: string) => {
+      const index = matrixLabels.indexOf(label);
+      return index === -1 ? matrixLabels.indexOf(OTHER_LABEL) : index;
+    };
+    pairs.forEach(([expected, actual]) => { counts[indexOf(expected)][indexOf(actual)]++; });
+
+    const correct = pairs.filter(([expected, actual]) => expected === actual).length;
+    return { correct, total: pairs.length, accuracy: ratio(correct, pairs.length), matrix: { labels: matrixLabels, counts } };
+  }
+
+  private static formatScore(score: FieldScore): string {
+    return `${percent(score.accuracy)} (${score.correct}/${score.total})`;
+  }
+
+  /**
+   * Matrix rows and columns limited to labels that occur, with short column headers
+   */
+  private static formatMatrix(matrix: ConfusionMatrix): string[] {
+    const used = matrix.labels
+      .map((label, index) => ({ label, index }))
+      .filter(({ index }) => matrix.counts[index].some(Boolean) || matrix.counts.some(row => row[index] > 0));
+    if (used.length === 0) return ['  (nothing scored)'];
+
+    const rowWidth = Math.max(...used.map(({ label }) => label.length));
+    const header = used.map(({ label }) => label.slice(0, 5).padStart(6)).join('');
+    return [
+      `  ${''.padEnd(rowWidth)}${header}`,
+      ...used.map(({ label, index }) =>
+        `  ${label.padEnd(rowWidth)}${used.map(column => String(matrix.counts[index][column.index]).padStart(6)).join('')}`
+      ),
+    ];
+  }
+
+  private static describe(outcome: { healthDomain: string; severity: string; impact: string }): string {
+    return `${outcome.healthDomain}/${outcome.severity}/${outcome.impact}`;
+  }
+}
@@ -0,0 +1,411 @@
+import { SymptomLog, HealthDomain } from '../types/recommendations';
+import type { HealthMemoryContext } from './agents/HealthMemoryAgent';
+import { StorageManager, healthMemoryKey } from './storage';
+import { PromptBudget } from './promptBudget';
+
+// ============================================================================
+// HEALTH MEMORY STORE - Persisted, compacted symptom history per profile
+// ============================================================================
+//
+// PURPOSE: HealthMemoryAgent keeps what it has learned between runs instead of
+//          re-reading the full history on every call. Only logs it has not
+//          seen are sent to the model, and history is compacted as it ages:
+// - Recent logs (last RECENT_WINDOW_DAYS): kept individually
+// - Older weeks: one summary each, for WEEKLY_WINDOW_WEEKS
+// - Older still: one summary per month, the oldest dropped past MAX_MONTHLY_SUMMARIES
+// PROMPTS: formatTimeline() renders all of it, newest first, within a token budget
+// DELETION: The memory holds transcript excerpts, so it forgets what the user
+//           deletes: SymptomLogsContext drops deleted logs (and everything on
+//           clear-all) and RetentionContext drops whatever is past the cutoff
+// LIMITS: Logs older than the last compacted period (e.g. restored from a
+//         backup) and edits to logs already ingested are not picked up;
+//         after clear() the memory is rebuilt from the logs still stored
+
+export const HEALTH_MEMORY_VERSION = 1;
+export const RECENT_WINDOW_DAYS = 14;
+export const WEEKLY_WINDOW_WEEKS = 12;
+export const MAX_MONTHLY_SUMMARIES = 24;
+const MAX_DIGEST_TRANSCRIPT_LENGTH = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a log the memory keeps
+ */
+export interface MemoryLogDigest {
+  id: string;
+  timestamp: string;
+  summary: string;
+  transcript: string; // Truncated
+  healthDomain: HealthDomain;
+  severity: SymptomLog['severity'];
+  impact: SymptomLog['impact'];
+}
+
+export interface PeriodSummary {
+  period: 'week' | 'month';
+  start: string;  // Inclusive
+  end: string;    // Exclusive
+  logCount: number;
+  severityCounts: { [severity in SymptomLog['severity']]: number };
+  domainCounts: { [domain in HealthDomain]?: number };
+  summary: string;
+}
+
+export interface PersistedHealthMemory {
+  version: number;
+  context: Omit<HealthMemoryContext, 'timeline'> | null; // null until the model has analyzed something
+  recentLogs: MemoryLogDigest[];        // Oldest first
+  unanalyzedLogIds: string[];           // Ingested but not yet reflected in context
+  weeklySummaries: PeriodSummary[];     // Oldest first
+  monthlySummaries: PeriodSummary[];    // Oldest first
+  compactedThrough: string | null;      // End of the newest summarized period
+  totalLogs: number;
+  updatedAt: string | null;
+}
+
+export const createEmptyHealthMemory = (): PersistedHealthMemory => ({
+  version: HEALTH_MEMORY_VERSION,
+  context: null,
+  recentLogs: [],
+  unanalyzedLogIds: [],
+  weeklySummaries: [],
+  monthlySummaries: [],
+  compactedThrough: null,
+  totalLogs: 0,
+  updatedAt: null,
+});
+
+/**
+ * Monday 00:00 of the date's week (local time)
+ */
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+const byTime = (a: { timestamp: string }, b: { timestamp: string }) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+export class HealthMemoryStore {
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  static async load(profileId: string): Promise<PersistedHealthMemory> {
+    const stored = await StorageManager.load<PersistedHealthMemory>(healthMemoryKey(profileId));
+    if (!stored || stored.version !== HEALTH_MEMORY_VERSION) {
+      return createEmptyHealthMemory();
+    }
+
+    // Pattern dates come back from JSON as strings
+    if (stored.context) {
+      stored.context.patterns = stored.context.patterns.map(pattern => ({
+        ...pattern,
+        firstOccurrence: new Date(pattern.firstOccurrence),
+        lastOccurrence: new Date(pattern.lastOccurrence),
+      }));
+    }
+    return { ...createEmptyHealthMemory(), ...stored };
+  }
+
+  static save(profileId: string, memory: PersistedHealthMemory): Promise<void> {
+    return StorageManager.save(healthMemoryKey(profileId), memory);
+  }
+
+  /**
+   * Forget everything; the next analysis starts over from the logs still stored
+   */
+  static clear(profileId: string): Promise<void> {
+    return StorageManager.remove(healthMemoryKey(profileId));
+  }
+
+  /**
+   * Load, change and save a profile's memory; nothing is written if the change
+   * returns the memory it was given
+   */
+  static async update(
+    profileId: string,
+    change: (memory: PersistedHealthMemory) => PersistedHealthMemory
+  ): Promise<void> {
+    const memory = await this.load(profileId);
+    const changed = change(memory);
+    if (changed !== memory) {
+      await this.save(profileId, changed);
+    }
+  }
+
+  // ============================================================================
+  // INGESTION
+  // ============================================================================
+
+  /**
+   * Logs the memory has not seen yet (pending recordings are left for later)
+   */
+  static selectNewLogs(memory: PersistedHealthMemory, logs: SymptomLog[]): SymptomLog[] {
+    const known = new Set(memory.recentLogs.map(log => log.id));
+    const compactedThrough = memory.compactedThrough ? new Date(memory.compactedThrough).getTime() : -Infinity;
+
+    return logs.filter(log =>
+      !log.processingStatus &&
+      !known.has(log.id) &&
+      new Date(log.timestamp).getTime() >= compactedThrough
+    );
+  }
+
+  /**
+   * Drop recent logs that were deleted since they were ingested. Only logs in the
+   * time range the caller supplied are checked, so a partial history is safe;
+   * an empty history means every log was deleted.
+   */
+  static forgetMissing(memory: PersistedHealthMemory, logs: SymptomLog[]): PersistedHealthMemory {
+    const ids = new Set(logs.map(log => log.id));
+    const oldest = logs.length > 0 ? Math.min(...logs.map(log => new Date(log.timestamp).getTime())) : -Infinity;
+
+    return this.forgetLogs(
+      memory,
+      memory.recentLogs
+        .filter(log => !ids.has(log.id) && new Date(log.timestamp).getTime() >= oldest)
+        .map(log => log.id)
+    );
+  }
+
+  /**
+   * Drop the given logs from the recent window (summaries already written keep them)
+   */
+  static forgetLogs(memory: PersistedHealthMemory, logIds: string[]): PersistedHealthMemory {
+    const forgetting = new Set(logIds);
+    const recentLogs = memory.recentLogs.filter(log => !forgetting.has(log.id));
+    const forgotten = memory.recentLogs.length - recentLogs.length;
+    if (forgotten === 0) return memory;
+
+    return {
+      ...memory,
+      recentLogs,
+      unanalyzedLogIds: memory.unanalyzedLogIds.filter(id => !forgetting.has(id)),
+      totalLogs: Math.max(0, memory.totalLogs - forgotten),
+    };
+  }
+
+  /**
+   * Drop recent logs and summaries from before a retention cutoff; a summary
+   * that starts before the cutoff goes too, since it describes expired logs
+   */
+  static forgetBefore(memory: PersistedHealthMemory, cutoff: Date): PersistedHealthMemory {
+    const time = cutoff.getTime();
+    const isExpired = (iso: string) => new Date(iso).getTime() < time;
+
+    const expiredLogIds = memory.recentLogs.filter(log => isExpired(log.timestamp)).map(log => log.id);
+    const weeklySummaries = memory.weeklySummaries.filter(week => !isExpired(week.start));
+    const monthlySummaries = memory.monthlySummaries.filter(month => !isExpired(month.start));
+    const droppedSummaries = [
+      ...memory.weeklySummaries.filter(week => isExpired(week.start)),
+      ...memory.monthlySummaries.filter(month => isExpired(month.start)),
+    ];
+    if (expiredLogIds.length === 0 && droppedSummaries.length === 0) return memory;
+
+    const remaining = this.forgetLogs(memory, expiredLogIds);
+    return {
+      ...remaining,
+      weeklySummaries,
+      monthlySummaries,
+      totalLogs: Math.max(0, remaining.totalLogs - droppedSummaries.reduce((total, summary) => total + summary.logCount, 0)),
+    };
+  }
+
+  static ingest(memory: PersistedHealthMemory, logs: SymptomLog[]): PersistedHealthMemory {
+    if (logs.length === 0) return memory;
+
+    const digests: MemoryLogDigest[] = logs.map(log => ({
+      id: log.id,
+      timestamp: new Date(log.timestamp).toISOString(),
+      summary: log.summary,
+      transcript: log.transcript.slice(0, MAX_DIGEST_TRANSCRIPT_LENGTH),
+      healthDomain: log.healthDomain,
+      severity: log.severity,
+      impact: log.impact,
+    }));
+
+    return {
+      ...memory,
+      recentLogs: [...memory.recentLogs, ...digests].sort(byTime),
+      unanalyzedLogIds: [...memory.unanalyzedLogIds, ...digests.map(digest => digest.id)],
+      totalLogs: memory.totalLogs + digests.length,
+    };
+  }
+
+  // ============================================================================
+  // COMPACTION
+  // ============================================================================
+
+  /**
+   * Recent logs from whole weeks that have left the recent window, grouped by week
+   */
+  static weeksToCompact(memory: PersistedHealthMemory, now: Date = new Date()): MemoryLogDigest[][] {
+    const cutoff = startOfWeek(new Date(now.getTime() - RECENT_WINDOW_DAYS * DAY_MS)).getTime();
+    const weeks = new Map<number, MemoryLogDigest[]>();
+
+    memory.recentLogs
+      .filter(log => new Date(log.timestamp).getTime() < cutoff)
+      .forEach(log => {
+        const week = startOfWeek(new Date(log.timestamp)).getTime();
+        weeks.set(week, [...(weeks.get(week) ?? []), log]);
+      });
+
+    return [...weeks.entries()].sort(([a], [b]) => a - b).map(([, logs]) => logs);
+  }
+
+  /**
+   * Weekly summaries from whole months that have left the weekly window, grouped by month
+   */
+  static monthsToCompact(memory: PersistedHealthMemory, now: Date = new Date()): PeriodSummary[][] {
+    const cutoff = startOfMonth(new Date(now.getTime() - WEEKLY_WINDOW_WEEKS * 7 * DAY_MS)).getTime();
+    const months = new Map<number, PeriodSummary[]>();
+
+    memory.weeklySummaries
+      .filter(week => new Date(week.start).getTime() < cutoff)
+      .forEach(week => {
+        const month = startOfMonth(new Date(week.start)).getTime();
+        months.set(month, [...(months.get(month) ?? []), week]);
+      });
+
+    return [...months.entries()].sort(([a], [b]) => a - b).map(([, weeks]) => weeks);
+  }
+
+  /**
+   * Replace a week's logs with its summary
+   */
+  static applyWeeklySummary(memory: PersistedHealthMemory, logs: MemoryLogDigest[], summary: string): PersistedHealthMemory {
+    const start = startOfWeek(new Date(logs[0].timestamp));
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+    const ids = new Set(logs.map(log => log.id));
+
+    const weekly: PeriodSummary = {
+      period: 'week',
+      start: start.toISOString(),
+      end: end.toISOString(),
+      logCount: logs.length,
+      severityCounts: this.countSeverities(logs.map(log => ({ severity: log.severity, count: 1 }))),
+      domainCounts: this.countDomains(logs.map(log => ({ [log.healthDomain]: 1 }))),
+      summary,
+    };
+
+    return {
+      ...memory,
+      recentLogs: memory.recentLogs.filter(log => !ids.has(log.id)),
+      weeklySummaries: [...memory.weeklySummaries, weekly].sort((a, b) => a.start.localeCompare(b.start)),
+      compactedThrough: this.later(memory.compactedThrough, weekly.end),
+    };
+  }
+
+  /**
+   * Replace a month's weekly summaries with one monthly summary
+   */
+  static applyMonthlySummary(memory: PersistedHealthMemory, weeks: PeriodSummary[], summary: string): PersistedHealthMemory {
+    const start = startOfMonth(new Date(weeks[0].start));
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const starts = new Set(weeks.map(week => week.start));
+
+    const monthly: PeriodSummary = {
+      period: 'month',
+      start: start.toISOString(),
+      end: end.toISOString(),
+      logCount: weeks.reduce((total, week) => total + week.logCount, 0),
+      severityCounts: this.countSeverities(
+        weeks.flatMap(week => Object.entries(week.severityCounts).map(([severity, count]) => ({
+          severity: severity as SymptomLog['severity'],
+          count,
+        })))
+      ),
+      domainCounts: this.countDomains(weeks.map(week => week.domainCounts)),
+      summary,
+    };
+
+    return {
+      ...memory,
+      weeklySummaries: memory.weeklySummaries.filter(week => !starts.has(week.start)),
+      monthlySummaries: [...memory.monthlySummaries, monthly]
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .slice(-MAX_MONTHLY_SUMMARIES),
+    };
+  }
+
+  /**
+   * Summary used when the model cannot write one: counts and the most severe entries
+   */
+  static describePeriod(entries: { summary: string; severity?: SymptomLog['severity'] }[], logCount: number): string {
+    const severityRank = { severe: 0, moderate: 1, mild: 2 };
+    const notable = [...entries]
+      .sort((a, b) => severityRank[a.severity ?? 'mild'] - severityRank[b.severity ?? 'mild'])
+      .slice(0, 3)
+      .map(entry => entry.summary);
+    return `${logCount} log${logCount === 1 ? '' : 's'}: ${notable.join('; ')}`;
+  }
+
+  // ============================================================================
+  // PROMPT RENDERING
+  // ============================================================================
+
+  /**
+   * The whole memory as prompt text within a token budget: recent logs first,
+   * then weekly and monthly summaries, each newest first
+   */
+  static formatTimeline(memory: PersistedHealthMemory, maxTokens: number): string {
+    const day = (iso: string) => iso.slice(0, 10);
+
+    const recent = [...memory.recentLogs].reverse().map(log =>
+      `- ${day(log.timestamp)}: ${log.summary} (${log.severity}, ${log.healthDomain})`
+    );
+    const weekly = [...memory.weeklySummaries].reverse().map(week =>
+      `- Week of ${day(week.start)} (${week.logCount} logs): ${week.summary}`
+    );
+    const monthly = [...memory.monthlySummaries].reverse().map(month =>
+      `- ${month.start.slice(0, 7)} (${month.logCount} logs): ${month.summary}`
+    );
+
+    const sections: string[] = [];
+    let remaining = maxTokens;
+    for (const [title, lines] of [['Recent logs', recent], ['Weekly summaries', weekly], ['Monthly summaries', monthly]] as const) {
+      if (lines.length === 0 || remaining <= 0) continue;
+
+      const fitted = PromptBudget.fitLines([`${title}:`, ...lines], remaining);
+      if (fitted.lines.length <= 1) continue; // Only the title fit
+
+      const omitted = fitted.omitted > 0 ? `\n  (${fitted.omitted} older entries omitted)` : '';
+      const section = `${fitted.lines.join('\n')}${omitted}`;
+      sections.push(section);
+      remaining -= PromptBudget.estimateTokens(section);
+    }
+
+    return sections.length > 0 ? sections.join('\n') : 'No symptom history yet';
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static countSeverities(
+    entries: { severity: SymptomLog['severity']; count: number }[]
+  ): PeriodSummary['severityCounts'] {
+    const counts = { mild: 0, moderate: 0, severe: 0 };
+    entries.forEach(({ severity, count }) => { counts[severity] += count; });
+    return counts;
+  }
+
+  private static countDomains(entries: PeriodSummary['domainCounts'][]): PeriodSummary['domainCounts'] {
+    const counts: PeriodSummary['domainCounts'] = {};
+    entries.forEach(entry => {
+      Object.entries(entry).forEach(([domain, count]) => {
+        counts[domain as HealthDomain] = (counts[domain as HealthDomain] ?? 0) + (count ?? 0);
+      });
+    });
+    return counts;
+  }
+
+  private static later(a: string | null, b: string): string {
+    return a && a > b ? a : b;
+  }
+}
@@ -0,0 +1,305 @@
+import { HealthDomain } from '../types/recommendations';
+
+// ============================================================================
+// HEALTH TAXONOMY - The one list of health domains and what maps onto them
+// ============================================================================
+//
+// PURPOSE: HealthDomain is the only classification stored on logs and
+//          recommendations. Models, old app versions and imports use other
+//          vocabularies ("cardiovascular", "pain_management", "GI issues"),
+//          so everything is normalized here before it is stored
+// STRUCTURE:
+// - Domains: the HealthDomain values, with labels and the synonyms that mean them
+// - Body systems: organ systems the model tends to answer with, each filed
+//   under the domain its everyday complaints belong to
+// - Symptom concepts: common complaints, each with a domain and body system
+// USAGE: HealthTaxonomy.normalizeDomain(raw).domain wherever free-form text
+//        becomes a HealthDomain; HealthTaxonomy.isHealthDomain() to validate
+// NOTE: Keep this module free of storage and network imports - schema
+//       migrations run it over serialized data
+
+export interface HealthDomainInfo {
+  id: HealthDomain;
+  label: string;
+  description: string;     // Also shown to the model in the symptom analysis prompt
+  synonyms: string[];
+}
+
+export type BodySystem =
+  | 'cardiovascular'
+  | 'respiratory'
+  | 'digestive'
+  | 'musculoskeletal'
+  | 'neurological'
+  | 'dermatological'
+  | 'endocrine'
+  | 'immune'
+  | 'urinary'
+  | 'ear_nose_throat'
+  | 'eyes'
+  | 'dental';
+
+export interface BodySystemInfo {
+  id: BodySystem;
+  label: string;
+  domain: HealthDomain;    // Where complaints about this system are filed
+  synonyms: string[];
+}
+
+export interface SymptomConcept {
+  id: string;
+  label: string;
+  domain: HealthDomain;
+  bodySystem?: BodySystem;
+  synonyms: string[];
+}
+
+export type DomainMatchSource = 'domain' | 'synonym' | 'body_system' | 'symptom' | 'fallback';
+
+export interface DomainMatch {
+  domain: HealthDomain;
+  source: DomainMatchSource;
+  conceptId?: string;      // The body system or symptom concept that matched
+}
+
+// ============================================================================
+// TAXONOMY DATA
+// ============================================================================
+
+export const HEALTH_DOMAINS = [
+  'physical_injury',
+  'illness',
+  'mental_health',
+  'weight_management',
+  'nutrition',
+  'sleep',
+  'exercise',
+  'reproductive',
+  'chronic_conditions',
+  'medication',
+  'preventive',
+  'general_wellness',
+] as const satisfies readonly HealthDomain[];
+
+export const HEALTH_DOMAIN_INFO: { [domain in HealthDomain]: Omit<HealthDomainInfo, 'id'> } = {
+  physical_injury: {
+    label: 'Physical injury',
+    description: 'sprains, fractures, cuts, burns, muscle and joint pain',
+    synonyms: ['injury', 'injuries', 'trauma', 'accident', 'wound', 'sprain', 'strain', 'fracture', 'broken bone', 'burn', 'cut', 'bruise', 'pain management', 'pain'],
+  },
+  illness: {
+    label: 'Illness',
+    description: 'colds, flu, infections and other acute sickness',
+    synonyms: ['sickness', 'sick', 'infection', 'infectious disease', 'acute illness', 'disease', 'cold', 'flu', 'virus', 'viral', 'bacterial'],
+  },
+  mental_health: {
+    label: 'Mental health',
+    description: 'anxiety, depression, stress, mood',
+    synonyms: ['mental', 'psychological', 'psychiatric', 'psychology', 'emotional', 'behavioral', 'behavioural', 'mood'],
+  },
+  weight_management: {
+    label: 'Weight management',
+    description: 'weight gain or loss, body composition',
+    synonyms: ['weight', 'obesity', 'weight loss', 'weight gain', 'bmi', 'body composition'],
+  },
+  nutrition: {
+    label: 'Nutrition',
+    description: 'diet, food intolerances, eating habits',
+    synonyms: ['diet', 'dietary', 'food', 'eating', 'nutritional', 'food intolerance', 'food allergy', 'hydration'],
+  },
+  sleep: {
+    label: 'Sleep',
+    description: 'sleep quality, insomnia, sleep disorders',
+    synonyms: ['sleep disorder', 'sleep disorders', 'sleep quality', 'sleeping'],
+  },
+  exercise: {
+    label: 'Exercise',
+    description: 'fitness, training soreness, performance',
+    synonyms: ['fitness', 'physical activity', 'sport', 'sports', 'sports medicine', 'training', 'workout', 'athletic'],
+  },
+  reproductive: {
+    label: 'Reproductive health',
+    description: 'periods, pregnancy, fertility, sexual health',
+    synonyms: ['reproductive health', 'sexual health', 'menstrual', 'menstruation', 'gynecological', 'gynecology', 'obstetric', 'pregnancy', 'fertility', 'womens health'],
+  },
+  chronic_conditions: {
+    label: 'Chronic conditions',
+    description: 'diabetes, hypertension, asthma and other long-term conditions',
+    synonyms: ['chronic', 'chronic disease', 'chronic illness', 'chronic condition', 'long term condition', 'diabetes', 'asthma', 'copd', 'arthritis', 'autoimmune'],
+  },
+  medication: {
+    label: 'Medication',
+    description: 'side effects, adherence, interactions',
+    synonyms: ['medications', 'medicine', 'drug', 'drugs', 'side effect', 'side effects', 'adverse reaction', 'drug reaction', 'prescription', 'pharmacology'],
+  },
+  preventive: {
+    label: 'Preventive care',
+    description: 'vaccinations, screenings, check-ups',
+    synonyms: ['prevention', 'preventive care', 'preventative', 'screening', 'vaccination', 'vaccine', 'immunization', 'check up', 'checkup'],
+  },
+  general_wellness: {
+    label: 'General wellness',
+    description: 'energy, fatigue, general health',
+    synonyms: ['general', 'wellness', 'general health', 'wellbeing', 'well being', 'lifestyle', 'other', 'unknown', 'unspecified'],
+  },
+};
+
+export const BODY_SYSTEMS: readonly BodySystemInfo[] = [
+  { id: 'cardiovascular', label: 'Heart and circulation', domain: 'illness', synonyms: ['cardiac', 'heart', 'cardiology', 'circulatory', 'circulation', 'vascular'] },
+  { id: 'respiratory', label: 'Lungs and breathing', domain: 'illness', synonyms: ['lung', 'lungs', 'breathing', 'pulmonary', 'airway'] },
+  { id: 'digestive', label: 'Digestion', domain: 'illness', synonyms: ['gastrointestinal', 'gi', 'gastro', 'stomach', 'gut', 'bowel', 'abdominal', 'digestion', 'gastroenterology'] },
+  { id: 'musculoskeletal', label: 'Muscles, bones and joints', domain: 'physical_injury', synonyms: ['muscle', 'muscles', 'joint', 'joints', 'bone', 'bones', 'orthopedic', 'orthopaedic', 'skeletal', 'spine'] },
+  { id: 'neurological', label: 'Brain and nerves', domain: 'illness', synonyms: ['nervous system', 'neurology', 'neuro', 'brain', 'nerve', 'nerves'] },
+  { id: 'dermatological', label: 'Skin', domain: 'illness', synonyms: ['skin', 'dermatology'] },
+  { id: 'endocrine', label: 'Hormones and metabolism', domain: 'chronic_conditions', synonyms: ['hormonal', 'hormones', 'thyroid', 'metabolic'] },
+  { id: 'immune', label: 'Immune system and allergies', domain: 'illness', synonyms: ['immunology', 'allergy', 'allergies', 'allergic'] },
+  { id: 'urinary', label: 'Kidneys and bladder', domain: 'illness', synonyms: ['urology', 'kidney', 'kidneys', 'bladder', 'renal'] },
+  { id: 'ear_nose_throat', label: 'Ear, nose and throat', domain: 'illness', synonyms: ['ent', 'ear', 'ears', 'sinus', 'sinuses', 'throat'] },
+  { id: 'eyes', label: 'Eyes and vision', domain: 'illness', synonyms: ['eye', 'vision', 'ophthalmology', 'visual'] },
+  { id: 'dental', label: 'Teeth and mouth', domain: 'illness', synonyms: ['teeth', 'tooth', 'oral', 'mouth', 'dentistry'] },
+];
+
+export const SYMPTOM_CONCEPTS: readonly SymptomConcept[] = [
+  { id: 'headache', label: 'Headache', domain: 'illness', bodySystem: 'neurological', synonyms: ['headaches', 'head pain', 'head ache'] },
+  { id: 'migraine', label: 'Migraine', domain: 'illness', bodySystem: 'neurological', synonyms: ['migraines'] },
+  { id: 'dizziness', label: 'Dizziness', domain: 'illness', bodySystem: 'neurological', synonyms: ['dizzy', 'lightheaded', 'light headed', 'vertigo'] },
+  { id: 'chest_pain', label: 'Chest pain', domain: 'illness', bodySystem: 'cardiovascular', synonyms: ['chest pains', 'chest tightness', 'chest pressure'] },
+  { id: 'palpitations', label: 'Palpitations', domain: 'illness', bodySystem: 'cardiovascular', synonyms: ['racing heart', 'heart racing', 'irregular heartbeat'] },
+  { id: 'high_blood_pressure', label: 'High blood pressure', domain: 'chronic_conditions', bodySystem: 'cardiovascular', synonyms: ['hypertension', 'blood pressure'] },
+  { id: 'cough', label: 'Cough', domain: 'illness', bodySystem: 'respiratory', synonyms: ['coughing'] },
+  { id: 'shortness_of_breath', label: 'Shortness of breath', domain: 'illness', bodySystem: 'respiratory', synonyms: ['breathlessness', 'difficulty breathing', 'trouble breathing'] },
+  { id: 'sore_throat', label: 'Sore throat', domain: 'illness', bodySystem: 'ear_nose_throat', synonyms: ['throat pain'] },
+  { id: 'congestion', label: 'Congestion', domain: 'illness', bodySystem: 'ear_nose_throat', synonyms: ['stuffy nose', 'runny nose', 'nasal congestion'] },
+  { id: 'fever', label: 'Fever', domain: 'illness', synonyms: ['high temperature', 'chills'] },
+  { id: 'nausea', label: 'Nausea', domain: 'illness', bodySystem: 'digestive', synonyms: ['vomiting', 'throwing up', 'nauseous', 'queasy'] },
+  { id: 'diarrhea', label: 'Diarrhea', domain: 'illness', bodySystem: 'digestive', synonyms: ['diarrhoea', 'loose stools'] },
+  { id: 'constipation', label: 'Constipation', domain: 'illness', bodySystem: 'digestive', synonyms: [] },
+  { id: 'acid_reflux', label: 'Acid reflux', domain: 'nutrition', bodySystem: 'digestive', synonyms: ['heartburn', 'reflux', 'indigestion', 'gerd'] },
+  { id: 'bloating', label: 'Bloating', domain: 'nutrition', bodySystem: 'digestive', synonyms: ['bloated', 'gas', 'lactose intolerance'] },
+  { id: 'back_pain', label: 'Back pain', domain: 'physical_injury', bodySystem: 'musculoskeletal', synonyms: ['backache', 'back ache', 'lower back pain'] },
+  { id: 'joint_pain', label: 'Joint pain', domain: 'physical_injury', bodySystem: 'musculoskeletal', synonyms: ['knee pain', 'hip pain', 'shoulder pain', 'arthralgia'] },
+  { id: 'muscle_soreness', label: 'Muscle soreness', domain: 'exercise', bodySystem: 'musculoskeletal', synonyms: ['sore muscles', 'muscle ache', 'myalgia', 'doms'] },
+  { id: 'rash', label: 'Rash', domain: 'illness', bodySystem: 'dermatological', synonyms: ['hives', 'itching', 'itchy skin', 'eczema'] },
+  { id: 'blood_sugar', label: 'Blood sugar', domain: 'chronic_conditions', bodySystem: 'endocrine', synonyms: ['high blood sugar', 'low blood sugar', 'hyperglycemia', 'hypoglycemia', 'glucose'] },
+  { id: 'fatigue', label: 'Fatigue', domain: 'general_wellness', synonyms: ['tiredness', 'tired', 'exhaustion', 'exhausted', 'low energy', 'lethargy'] },
+  { id: 'insomnia', label: 'Insomnia', domain: 'sleep', synonyms: ['cant sleep', 'trouble sleeping', 'sleeplessness', 'sleep apnea', 'snoring'] },
+  { id: 'anxiety', label: 'Anxiety', domain: 'mental_health', synonyms: ['anxious', 'panic', 'panic attack', 'panic attacks', 'worry', 'nervousness'] },
+  { id: 'depression', label: 'Depression', domain: 'mental_health', synonyms: ['depressed', 'low mood', 'sadness'] },
+  { id: 'stress', label: 'Stress', domain: 'mental_health', synonyms: ['stressed', 'burnout', 'overwhelmed'] },
+  { id: 'menstrual_cramps', label: 'Menstrual cramps', domain: 'reproductive', synonyms: ['period pain', 'period cramps', 'cramps', 'dysmenorrhea'] },
+];
+
+
+// ============================================================================
+// LOOKUP TABLES (built once)
+// ============================================================================
+
+interface LookupEntry {
+  domain: HealthDomain;
+  source: Exclude<DomainMatchSource, 'fallback'>;
+  conceptId?: string;
+}
+
+/**
+ * "Pain-Management", "pain_management" and "Can't sleep" become
+ * "pain management" and "cant sleep"
+ */
+const toKey = (value: string): string => value
+  .toLowerCase()
+  .replace(/['’]/g, '')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const buildLookup = (): Map<string, LookupEntry> => {
+  const lookup = new Map<string, LookupEntry>();
+  // First entry wins, so domain ids and their synonyms beat systems and symptoms
+  const add = (term: string, entry: LookupEntry) => {
+    const key = toKey(term);
+    if (key && !lookup.has(key)) lookup.set(key, entry);
+  };
+
+  HEALTH_DOMAINS.forEach(domain => add(domain, { domain, source: 'domain' }));
+  HEALTH_DOMAINS.forEach(domain => {
+    const { label, synonyms } = HEALTH_DOMAIN_INFO[domain];
+    [label, ...synonyms].forEach(term => add(term, { domain, source: 'synonym' }));
+  });
+  BODY_SYSTEMS.forEach(system => {
+    [system.id, system.label, ...system.synonyms].forEach(term =>
+      add(term, { domain: system.domain, source: 'body_system', conceptId: system.id }));
+  });
+  SYMPTOM_CONCEPTS.forEach(concept => {
+    [concept.id, concept.label, ...concept.synonyms].forEach(term =>
+      add(term, { domain: concept.domain, source: 'symptom', conceptId: concept.id }));
+  });
+  return lookup;
+};
+
+const LOOKUP = buildLookup();
+
+// Longest terms first, so "lower back pain" wins over "back" and "pain".
+// General wellness terms ("other", "general") are too vague to pick out of a phrase
+const PHRASE_TERMS = Array.from(LOOKUP.entries())
+  .filter(([, entry]) => entry.domain !== 'general_wellness')
+  .sort(([a], [b]) => b.length - a.length);
+
+export class HealthTaxonomy {
+  // ============================================================================
+  // VALIDATION
+  // ============================================================================
+
+  static isHealthDomain(value: unknown): value is HealthDomain {
+    return typeof value === 'string' && (HEALTH_DOMAINS as readonly string[]).includes(value);
+  }
+
+  // ============================================================================
+  // NORMALIZATION
+  // ============================================================================
+
+  /**
+   * Map free-form text onto a HealthDomain: an exact term first, then the
+   * longest known term inside a phrase ("chronic lower back pain")
+   *
+   * @returns The domain, or undefined when nothing in the taxonomy matches
+   */
+  static matchDomain(value: unknown): DomainMatch | undefined {
+    if (typeof value !== 'string') return undefined;
+    if (HealthTaxonomy.isHealthDomain(value)) return { domain: value, source: 'domain' };
+
+    const key = toKey(value);
+    if (!key) return undefined;
+
+    const exact = LOOKUP.get(key);
+    if (exact) return { ...exact };
+
+    const padded = ` ${key} `;
+    const phrase = PHRASE_TERMS.find(([term]) => padded.includes(` ${term} `));
+    return phrase ? { ...phrase[1] } : undefined;
+  }
+
+  /**
+   * Like matchDomain(), but always returns a domain
+   */
+  static normalizeDomain(value: unknown, fallback: HealthDomain = 'general_wellness'): DomainMatch {
+    return HealthTaxonomy.matchDomain(value) ?? { domain: fallback, source: 'fallback' };
+  }
+
+  // ============================================================================
+  // LOOKUPS
+  // ============================================================================
+
+  static getDomainInfo(domain: HealthDomain): HealthDomainInfo {
+    return { id: domain, ...HEALTH_DOMAIN_INFO[domain] };
+  }
+
+  static getDomainLabel(domain: HealthDomain): string {
+    return HealthTaxonomy.getDomainInfo(domain).label;
+  }
+
+  static getBodySystem(id: string): BodySystemInfo | undefined {
+    return BODY_SYSTEMS.find(system => system.id === id);
+  }
+
+  static getSymptomConcept(id: string): SymptomConcept | undefined {
+    return SYMPTOM_CONCEPTS.find(concept => concept.id === id);
+  }
+}
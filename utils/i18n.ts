@@ -0,0 +1,113 @@
+import { en, LocaleCatalog, TranslationKey } from '../locales/en';
+import { es } from '../locales/es';
+import { hi } from '../locales/hi';
+import { zh } from '../locales/zh';
+
+// ============================================================================
+// I18N - Languages the app is recorded, analyzed and displayed in
+// ============================================================================
+//
+// PURPOSE: One place that knows the supported languages, picks one for a
+//          profile and looks strings up in the locale catalogs (locales/)
+// USAGE: I18n.translate('es', 'symptoms.status.saved')
+//        I18n.translateCount('hi', 'privacy.restoreRejected', 3)
+//        Screens use useLocale() (contexts/LocaleContext.tsx) instead
+// LANGUAGE: A profile without a language setting follows the device. Its
+//           recordings are transcribed with language detection, and the
+//           analysis answers in whatever language was spoken
+
+export type AppLanguage = 'en' | 'es' | 'hi' | 'zh';
+
+export interface LanguageInfo {
+  name: string;        // English name, as given to the model in prompts
+  nativeName: string;  // Shown in the language picker
+  locale: string;      // Default BCP 47 locale for dates and times
+}
+
+export const SUPPORTED_LANGUAGES: Record<AppLanguage, LanguageInfo> = {
+  en: { name: 'English', nativeName: 'English', locale: 'en-US' },
+  es: { name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+  zh: { name: 'Mandarin Chinese', nativeName: '中文', locale: 'zh-CN' },
+};
+
+export const DEFAULT_LANGUAGE: AppLanguage = 'en';
+
+const CATALOGS: Record<AppLanguage, LocaleCatalog> = { en, es, hi, zh };
+
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * Keys with .one / .other plural forms, without the suffix
+ */
+export type PluralKey = TranslationKey extends infer Key
+  ? Key extends `${infer Base}.one` ? Base : never
+  : never;
+
+export class I18n {
+  /**
+   * The device's BCP 47 locale, e.g. 'es-MX'
+   */
+  static getDeviceLocale(): string {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().locale || SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE].locale;
+    } catch {
+      return SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE].locale;
+    }
+  }
+
+  static isSupported(language: unknown): language is AppLanguage {
+    return typeof language === 'string' && Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, language);
+  }
+
+  /**
+   * The language to display, from a profile's setting or else the device
+   */
+  static resolveLanguage(preference?: AppLanguage): AppLanguage {
+    if (preference && this.isSupported(preference)) {
+      return preference;
+    }
+
+    const deviceLanguage = this.getDeviceLocale().split('-')[0].toLowerCase();
+    return this.isSupported(deviceLanguage) ? deviceLanguage : DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Locale for dates and times; keeps the device's region when it speaks
+   * the same language (es-MX rather than es-ES)
+   */
+  static getLocale(language: AppLanguage): string {
+    const deviceLocale = this.getDeviceLocale();
+    return deviceLocale.split('-')[0].toLowerCase() === language
+      ? deviceLocale
+      : SUPPORTED_LANGUAGES[language].locale;
+  }
+
+  /**
+   * Look a string up, falling back to English, and fill in {param}s
+   */
+  static translate(language: AppLanguage, key: TranslationKey, params?: TranslationParams): string {
+    const template = CATALOGS[language]?.[key] ?? en[key] ?? key;
+    if (!params) return template;
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] !== undefined ? String(params[name]) : match
+    );
+  }
+
+  /**
+   * Translate a plural string: `base` names keys ending in .one and .other.
+   * Languages without plural forms (Mandarin) simply repeat the text. Rules
+   * are inlined because Hermes does not ship Intl.PluralRules
+   */
+  static translateCount(
+    language: AppLanguage,
+    base: PluralKey,
+    count: number,
+    params?: TranslationParams
+  ): string {
+    const isOne = language === 'hi' ? count === 0 || count === 1 : count === 1;
+    const form = isOne ? 'one' : 'other';
+    return this.translate(language, `${base}.${form}` as TranslationKey, { count, ...params });
+  }
+}
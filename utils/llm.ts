@@ -0,0 +1,416 @@
+import {
+  OPENAI_API_KEY,
+  LLM_BASE_URL,
+  LLM_API_KEY,
+  LLM_MODEL,
+  LLM_MODELS,
+  TRANSCRIPTION_BASE_URL,
+  TRANSCRIPTION_API_KEY,
+  LLM_JSON_MODE,
+} from '@env';
+import { CostLedger } from './costLedger';
+import { AIBudget, BudgetExceededError } from './aiBudget';
+
+// ============================================================================
+// LLM PROVIDERS - Chat completion and transcription behind one interface
+// ============================================================================
+//
+// PURPOSE: Agents ask for a *task* ("healthMemory"), not a model or URL, so the
+//          app can run against OpenAI, a self-hosted llama.cpp / vLLM server or
+//          any OpenAI-compatible gateway without code changes
+// USAGE: LLMClient.complete('recommendations', { messages, maxTokens })
+//        LLMClient.transcribe(audioUri, 'es')
+// CONFIGURATION (.env, all optional):
+// - LLM_BASE_URL / LLM_API_KEY: chat endpoint (default: OpenAI with OPENAI_API_KEY)
+// - TRANSCRIPTION_BASE_URL / TRANSCRIPTION_API_KEY: audio endpoint, so chat can
+//   run locally while transcription stays on OpenAI (default: same as chat)
+// - LLM_MODEL: one model for every chat task (typical for a local server)
+// - LLM_MODELS: per-task overrides, e.g. "healthMemory=qwen2.5:14b,symptomAnalysis=llama3.1:8b"
+// - LLM_JSON_MODE: how structured replies are requested - "json_schema" (strict
+//   servers), "json_object" (default) or "off" for servers without response_format
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export type LLMTask =
+  | 'transcription'
+  | 'symptomAnalysis'
+  | 'appointmentQuestions'
+  | 'recommendations'
+  | 'healthMemory'
+  | 'healthDecision'
+  | 'actionPlanning';
+
+export type TaskModelMap = { [task in LLMTask]: string };
+
+/**
+ * Models used when nothing is configured - what the app has always used on OpenAI
+ */
+export const DEFAULT_TASK_MODELS: TaskModelMap = {
+  transcription: 'whisper-1',
+  symptomAnalysis: 'gpt-3.5-turbo',      // Less critical - basic analysis
+  appointmentQuestions: 'gpt-3.5-turbo', // Less critical - appointment questions
+  recommendations: 'gpt-4',
+  healthMemory: 'gpt-4',
+  healthDecision: 'gpt-4',
+  actionPlanning: 'gpt-4',
+};
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonSchema?: { name: string; schema: object }; // Ask for a JSON reply (see StructuredOutput)
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;       // Empty when the model returned nothing
+  model: string;         // As reported by the server, which may differ from the request
+  usage: TokenUsage | null;
+}
+
+export interface TranscriptionRequest {
+  model: string;
+  audioUri: string;
+  language?: string;
+}
+
+/**
+ * A backend able to serve chat completions and audio transcription
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+export type JsonMode = 'json_schema' | 'json_object' | 'off';
+
+export interface EndpointConfig {
+  baseUrl: string;
+  apiKey?: string;     // Local servers usually need none
+  jsonMode?: JsonMode; // Default: json_object
+}
+
+export interface LLMConfig {
+  chat: EndpointConfig;
+  transcription: EndpointConfig;
+  models: TaskModelMap;
+  transcriptionLanguage?: string; // ISO 639-1; unset lets the model detect the spoken language
+}
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// ============================================================================
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Speaks the OpenAI REST format (/chat/completions, /audio/transcriptions),
+ * which OpenAI, llama.cpp's server, vLLM and most gateways all accept
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly jsonModeUnsupported = new Set<string>(); // Models whose server rejected response_format
+
+  constructor(private readonly endpoint: EndpointConfig, private readonly maxRetries: number = 3) {
+    this.baseUrl = endpoint.baseUrl.replace(/\/+$/, '');
+    this.name = this.baseUrl === OPENAI_BASE_URL ? 'openai' : this.baseUrl;
+  }
+
+  /**
+   * Chat completion with retry on rate limits and network failures
+   * COST: Varies by model and tokens (free on self-hosted servers)
+   */
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    this.assertConfigured();
+
+    const responseFormat = this.responseFormat(request);
+    const body: { [field: string]: any } = {
+      model: request.model,
+      messages: request.messages,
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(responseFormat && { response_format: responseFormat }),
+    };
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+
+          if (response.status === 400 && body.response_format && /response_format|json/i.test(errorData.error?.message ?? '')) {
+            // Older models and some local servers reject JSON mode - the schema is still validated locally
+            // Resent within the same attempt (at most once, as the field is gone), so the plain request is always tried
+            console.log(`JSON mode not supported for ${request.model}, retrying without it`);
+            this.jsonModeUnsupported.add(request.model);
+            delete body.response_format;
+            attempt--;
+            continue;
+          }
+
+          if (response.status === 429 && attempt < this.maxRetries) {
+            // Rate limit - wait and retry
+            const waitTime = Math.pow(2, attempt) * 1000;
+            console.log(`Rate limit hit (attempt ${attempt}), waiting ${waitTime}ms...`);
+            await wait(waitTime);
+            continue;
+          }
+
+          throw new Error(`LLM API Error (attempt ${attempt}): ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+        }
+
+        const data = await response.json();
+        return {
+          content: data.choices?.[0]?.message?.content ?? '',
+          model: data.model || request.model,
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.prompt_tokens ?? 0,
+                completionTokens: data.usage.completion_tokens ?? 0,
+                totalTokens: data.usage.total_tokens ?? 0,
+              }
+            : null,
+        };
+      } catch (error) {
+        if (attempt === this.maxRetries) {
+          throw error;
+        }
+
+        // Wait before retrying
+        const waitTime = Math.pow(2, attempt) * 1000;
+        console.log(`Request failed (attempt ${attempt}), retrying in ${waitTime}ms...`);
+        await wait(waitTime);
+      }
+    }
+
+    throw new Error('All retry attempts failed');
+  }
+
+  /**
+   * Transcribe an audio file (Whisper-style multipart upload)
+   */
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    this.assertConfigured();
+
+    const formData = new FormData();
+    formData.append('file', {
+      uri: request.audioUri,
+      type: 'audio/m4a',
+      name: request.audioUri.split('/').pop() || 'audio.m4a', // Lets recorded fixtures match by file name
+    } as any);
+    formData.append('model', request.model);
+    if (request.language) {
+      formData.append('language', request.language);
+    }
+
+    const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription failed: ${response.status}`);
+    }
+
+    const data: { text: string } = await response.json();
+    return data.text;
+  }
+
+  /**
+   * The response_format for a structured request, if the endpoint supports one
+   */
+  private responseFormat(request: ChatCompletionRequest): object | null {
+    const mode = this.endpoint.jsonMode ?? 'json_object';
+    if (!request.jsonSchema || mode === 'off' || this.jsonModeUnsupported.has(request.model)) {
+      return null;
+    }
+
+    if (mode === 'json_schema') {
+      // Not strict: optional fields with defaults are allowed to be omitted
+      return { type: 'json_schema', json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: false } };
+    }
+    return { type: 'json_object' };
+  }
+
+  private authHeaders(): { [header: string]: string } {
+    return this.endpoint.apiKey ? { 'Authorization': `Bearer ${this.endpoint.apiKey}` } : {};
+  }
+
+  private assertConfigured(): void {
+    if (this.baseUrl === OPENAI_BASE_URL && !this.endpoint.apiKey) {
+      throw new Error('OpenAI API key is not set');
+    }
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Parse "task=model,task=model"; unknown tasks are ignored with a warning
+ */
+const parseModelOverrides = (value: string | undefined): Partial<TaskModelMap> => {
+  const overrides: Partial<TaskModelMap> = {};
+  if (!value) return overrides;
+
+  for (const pair of value.split(',')) {
+    const [task, ...modelParts] = pair.split('=');
+    const model = modelParts.join('=').trim(); // Model names may contain "=" in some gateways
+    if (!task || !model) continue;
+
+    if (task.trim() in DEFAULT_TASK_MODELS) {
+      overrides[task.trim() as LLMTask] = model;
+    } else {
+      console.warn(`Ignoring model override for unknown LLM task "${task.trim()}"`);
+    }
+  }
+  return overrides;
+};
+
+const parseJsonMode = (value: string | undefined): JsonMode | undefined => {
+  if (!value) return undefined;
+  if (value === 'json_schema' || value === 'json_object' || value === 'off') return value;
+
+  console.warn(`Ignoring unknown LLM_JSON_MODE "${value}"`);
+  return undefined;
+};
+
+const loadConfigFromEnv = (): LLMConfig => {
+  const chat: EndpointConfig = {
+    baseUrl: LLM_BASE_URL || OPENAI_BASE_URL,
+    apiKey: LLM_API_KEY || (LLM_BASE_URL ? undefined : OPENAI_API_KEY),
+    jsonMode: parseJsonMode(LLM_JSON_MODE),
+  };
+
+  const transcription: EndpointConfig = TRANSCRIPTION_BASE_URL
+    ? {
+        baseUrl: TRANSCRIPTION_BASE_URL,
+        apiKey: TRANSCRIPTION_API_KEY || (TRANSCRIPTION_BASE_URL === OPENAI_BASE_URL ? OPENAI_API_KEY : undefined),
+      }
+    : { ...chat, apiKey: TRANSCRIPTION_API_KEY || chat.apiKey };
+
+  // A single LLM_MODEL applies to chat tasks only; transcription needs an audio model
+  const chatModels: Partial<TaskModelMap> = {};
+  if (LLM_MODEL) {
+    (Object.keys(DEFAULT_TASK_MODELS) as LLMTask[])
+      .filter(task => task !== 'transcription')
+      .forEach(task => { chatModels[task] = LLM_MODEL; });
+  }
+
+  return {
+    chat,
+    transcription,
+    models: { ...DEFAULT_TASK_MODELS, ...chatModels, ...parseModelOverrides(LLM_MODELS) },
+  };
+};
+
+// ============================================================================
+// LLM CLIENT - Task routing used by AIService and the agents
+// ============================================================================
+
+export class LLMClient {
+  private static config: LLMConfig = loadConfigFromEnv();
+  private static chatProvider: LLMProvider = new OpenAICompatibleProvider(LLMClient.config.chat);
+  private static transcriptionProvider: LLMProvider = new OpenAICompatibleProvider(LLMClient.config.transcription);
+
+  /**
+   * Change endpoints or models at runtime; omitted fields keep their current value
+   */
+  static configure(overrides: {
+    chat?: EndpointConfig;
+    transcription?: EndpointConfig;
+    models?: Partial<TaskModelMap>;
+    transcriptionLanguage?: string;
+  }): void {
+    this.config = {
+      chat: overrides.chat ?? this.config.chat,
+      transcription: overrides.transcription ?? this.config.transcription,
+      models: { ...this.config.models, ...overrides.models },
+      transcriptionLanguage: overrides.transcriptionLanguage ?? this.config.transcriptionLanguage,
+    };
+
+    if (overrides.chat) {
+      this.chatProvider = new OpenAICompatibleProvider(this.config.chat);
+    }
+    if (overrides.transcription) {
+      this.transcriptionProvider = new OpenAICompatibleProvider(this.config.transcription);
+    }
+  }
+
+  /**
+   * Replace the providers outright (e.g. with a non-HTTP implementation)
+   */
+  static setProviders(providers: { chat?: LLMProvider; transcription?: LLMProvider }): void {
+    if (providers.chat) this.chatProvider = providers.chat;
+    if (providers.transcription) this.transcriptionProvider = providers.transcription;
+  }
+
+  static getConfig(): LLMConfig {
+    return this.config;
+  }
+
+  static getModel(task: LLMTask): string {
+    return this.config.models[task];
+  }
+
+  /**
+   * Run a chat completion with the model mapped to the task
+   * Every call is priced and recorded in the CostLedger; near the monthly cap
+   * non-critical tasks use a cheaper model, and at the cap they throw
+   * BudgetExceededError (see AIBudget)
+   */
+  static async complete(task: Exclude<LLMTask, 'transcription'>, request: Omit<ChatCompletionRequest, 'model'>): Promise<ChatCompletionResult> {
+    const policy = await AIBudget.getPolicy(task, this.getModel(task));
+    if (!policy.allowed) {
+      throw new BudgetExceededError(task);
+    }
+
+    const result = await this.chatProvider.complete({ ...request, model: policy.model });
+    CostLedger.recordChat(task, result.model, result.usage);
+    return result;
+  }
+
+  /**
+   * Transcribe an audio recording to text
+   * USAGE: Called by SymptomAnalyzer.processSymptomLog()
+   *
+   * @param language - ISO 639-1 code of the profile's language; without one the
+   *                   configured transcriptionLanguage applies, else auto-detection
+   */
+  static async transcribe(audioUri: string, language?: string): Promise<string> {
+    try {
+      const model = this.getModel('transcription');
+      const text = await this.transcriptionProvider.transcribe({
+        model,
+        audioUri,
+        language: language ?? this.config.transcriptionLanguage,
+      });
+      CostLedger.recordTranscription(model, audioUri); // Reads the recording's length; not awaited
+      return text;
+    } catch (error) {
+      console.error('Transcription error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  LLMProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatMessage,
+  TranscriptionRequest,
+} from './llm';
+
+// ============================================================================
+// LLM FIXTURES - Record model traffic once, replay it deterministically
+// ============================================================================
+//
+// PURPOSE: Run the agents (and AIService.processSymptomAutonomously) without a
+//          network, e.g. in Node tests, by serving previously recorded replies
+// USAGE (in process):
+//   const recorder = new RecordingProvider(new OpenAICompatibleProvider(endpoint));
+//   LLMClient.setProviders({ chat: recorder, transcription: recorder });
+//   ...run the pipeline, then write JSON.stringify(recorder.toFixture()) to a file
+//
+//   LLMClient.setProviders({ chat: new ReplayProvider(fixture), transcription: ... });
+// USAGE (over HTTP): scripts/llm-stand-in-server.js serves and records the same
+//                    fixture files, so a device can point LLM_BASE_URL at it
+//
+// MATCHING: Chat replies match on model + messages; generation settings such as
+//           temperature or JSON mode are ignored. Transcriptions match on the
+//           audio file name. Identical requests replay their replies in order
+
+export const FIXTURE_VERSION = 1;
+
+export interface ChatFixture {
+  request: { model: string; messages: ChatMessage[] };
+  response: ChatCompletionResult;
+}
+
+export interface TranscriptionFixture {
+  audio: string;  // File name of the recording
+  model: string;
+  text: string;
+}
+
+export interface LLMFixture {
+  version: number;
+  note?: string; // Where the replies came from, when not recorded from a model
+  chat: ChatFixture[];
+  transcriptions: TranscriptionFixture[];
+}
+
+export const createEmptyFixture = (): LLMFixture => ({ version: FIXTURE_VERSION, chat: [], transcriptions: [] });
+
+/**
+ * Canonical form of a chat request for matching (must match the stand-in server)
+ */
+export const chatFixtureKey = (request: { model: string; messages: ChatMessage[] }): string =>
+  JSON.stringify([request.model, request.messages.map(message => [message.role, message.content])]);
+
+/**
+ * File name of a recording, which is what the fixtures store
+ */
+export const audioFixtureName = (audioUri: string): string => audioUri.split('/').pop() || audioUri;
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Passes every call through to a real provider and keeps the request/response pairs
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  private fixture: LLMFixture = createEmptyFixture();
+
+  constructor(private readonly provider: LLMProvider) {
+    this.name = `recording:${provider.name}`;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const response = await this.provider.complete(request);
+    this.fixture.chat.push({
+      request: { model: request.model, messages: request.messages },
+      response,
+    });
+    return response;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const text = await this.provider.transcribe(request);
+    this.fixture.transcriptions.push({ audio: audioFixtureName(request.audioUri), model: request.model, text });
+    return text;
+  }
+
+  /**
+   * Everything recorded so far, ready to be written to a fixture file
+   */
+  toFixture(): LLMFixture {
+    return JSON.parse(JSON.stringify(this.fixture));
+  }
+
+  clear(): void {
+    this.fixture = createEmptyFixture();
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Serves recorded replies; an unrecorded request is an error, never a network call
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  private readonly chatReplies = new Map<string, ChatCompletionResult[]>();
+  private readonly transcriptionReplies = new Map<string, string[]>();
+  private readonly served = new Map<string, number>();
+
+  constructor(fixture: LLMFixture) {
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new Error(`Unsupported LLM fixture version: ${fixture.version}`);
+    }
+
+    for (const entry of fixture.chat) {
+      const key = chatFixtureKey(entry.request);
+      this.chatReplies.set(key, [...(this.chatReplies.get(key) ?? []), entry.response]);
+    }
+    for (const entry of fixture.transcriptions) {
+      const key = `${entry.model}:${entry.audio}`;
+      this.transcriptionReplies.set(key, [...(this.transcriptionReplies.get(key) ?? []), entry.text]);
+    }
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const key = chatFixtureKey(request);
+    const replies = this.chatReplies.get(key);
+    if (!replies) {
+      const lastMessage = request.messages[request.messages.length - 1]?.content ?? '';
+      throw new Error(`No recorded reply for ${request.model} request ending in: ${lastMessage.slice(0, 120)}`);
+    }
+    return this.next(`chat:${key}`, replies);
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const audio = audioFixtureName(request.audioUri);
+    const replies = this.transcriptionReplies.get(`${request.model}:${audio}`);
+    if (!replies) {
+      throw new Error(`No recorded transcription for ${audio} with ${request.model}`);
+    }
+    return this.next(`transcription:${request.model}:${audio}`, replies);
+  }
+
+  /**
+   * Number of requests that have been served, e.g. to assert a pipeline's call count
+   */
+  get requestCount(): number {
+    let count = 0;
+    this.served.forEach(value => { count += value; });
+    return count;
+  }
+
+  // Replies for a repeated request come back in recorded order, then the last one repeats
+  private next<T>(key: string, replies: T[]): T {
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return replies[Math.min(index, replies.length - 1)];
+  }
+}
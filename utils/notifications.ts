@@ -1,4 +1,5 @@
 import * as Notifications from 'expo-notifications';
+import { AppLanguage, I18n } from './i18n';
 
 // ============================================================================
 // NOTIFICATION UTILS - Handle app notifications
@@ -109,10 +110,31 @@ export const clearBadgeCount = async (): Promise<void> => {
   }
 };
 
+/**
+ * Whose data a notification is about. The name is only set when the device
+ * tracks several people; the id lets a tap switch to that profile, and the
+ * language is the one that profile reads the app in.
+ */
+export interface NotificationProfile {
+  id: string;
+  name?: string;
+  language: AppLanguage;
+}
+
+const languageFor = (profile?: NotificationProfile): AppLanguage =>
+  profile?.language ?? I18n.resolveLanguage();
+
+const titleFor = (title: string, profile?: NotificationProfile): string =>
+  profile?.name ? `${title} · ${profile.name}` : title;
+
 /**
  * Send notification for new recommendations
  */
-export const sendRecommendationNotification = async (recommendationTitle: string, symptomsAddressed: string[]) => {
+export const sendRecommendationNotification = async (
+  recommendationTitle: string,
+  symptomsAddressed: string[],
+  profile?: NotificationProfile
+) => {
   try {
     const hasPermission = await requestNotificationPermissions();
     if (!hasPermission) {
@@ -120,8 +142,9 @@ export const sendRecommendationNotification = async (recommendationTitle: string
       return;
     }
 
+    const language = languageFor(profile);
     const symptomsText = symptomsAddressed.length > 0 
-      ? `Addresses: ${symptomsAddressed.join(', ')}`
+      ? I18n.translate(language, 'notifications.recommendationAddresses', { symptoms: symptomsAddressed.join(', ') })
       : '';
 
     // Get current badge count and increment it
@@ -130,9 +153,9 @@ export const sendRecommendationNotification = async (recommendationTitle: string
 
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: 'New Health Recommendation',
+        title: titleFor(I18n.translate(language, 'notifications.recommendationTitle'), profile),
         body: `${recommendationTitle}${symptomsText ? `\n${symptomsText}` : ''}`,
-        data: { type: 'recommendation' },
+        data: { type: 'recommendation', profileId: profile?.id },
         badge: newBadgeCount, // Set the new badge count
       },
       trigger: null, // Send immediately
@@ -149,7 +172,7 @@ export const sendRecommendationNotification = async (recommendationTitle: string
 /**
  * Send notification for new follow-up questions
  */
-export const sendFollowUpQuestionNotification = async (questionCount: number) => {
+export const sendFollowUpQuestionNotification = async (questionCount: number, profile?: NotificationProfile) => {
   try {
     const hasPermission = await requestNotificationPermissions();
     if (!hasPermission) {
@@ -157,9 +180,8 @@ export const sendFollowUpQuestionNotification = async (questionCount: number) =>
       return;
     }
 
-    const body = questionCount === 1 
-      ? 'You have a new follow-up question about your health.'
-      : `You have ${questionCount} new follow-up questions about your health.`;
+    const language = languageFor(profile);
+    const body = I18n.translateCount(language, 'notifications.followUpBody', questionCount);
 
     // Get current badge count and increment it
     const currentBadgeCount = await getBadgeCount();
@@ -167,9 +189,9 @@ export const sendFollowUpQuestionNotification = async (questionCount: number) =>
 
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: 'Follow-up Questions',
+        title: titleFor(I18n.translate(language, 'notifications.followUpTitle'), profile),
         body,
-        data: { type: 'follow_up_questions' },
+        data: { type: 'follow_up_questions', profileId: profile?.id },
         badge: newBadgeCount, // Set the new badge count
       },
       trigger: null, // Send immediately
@@ -186,7 +208,11 @@ export const sendFollowUpQuestionNotification = async (questionCount: number) =>
 /**
  * Send daily reminder notification
  */
-export const sendDailyReminderNotification = async (time: Date, enabled: boolean) => {
+export const sendDailyReminderNotification = async (
+  time: Date,
+  enabled: boolean,
+  language: AppLanguage = I18n.resolveLanguage()
+) => {
   try {
     if (!enabled) {
       // Cancel existing daily reminder if disabled
@@ -226,8 +252,8 @@ export const sendDailyReminderNotification = async (time: Date, enabled: boolean
 
     const notificationId = await Notifications.scheduleNotificationAsync({
       content: {
-        title: 'Daily Health Check-in',
-        body: 'Time to record your daily symptom log. Tap to open Nexst.',
+        title: I18n.translate(language, 'notifications.dailyReminderTitle'),
+        body: I18n.translate(language, 'notifications.dailyReminderBody'),
         data: { type: 'daily_reminder' },
         badge: 0, // Daily reminders should NEVER affect badge count
       },
@@ -0,0 +1,279 @@
+import type { TokenUsage } from './llm';
+import { StorageManager, STORAGE_KEYS } from './storage';
+
+// ============================================================================
+// PIPELINE TRACE - Structured record of each agent pipeline run
+// ============================================================================
+//
+// PURPOSE: When AIService.processSymptomAutonomously or
+//          DecisionEngineAgent.makeHealthDecision goes wrong, console logs are
+//          gone and the agents' fallbacks hide the failure. Each run is traced
+//          step by step (inputs, outputs, latency, tokens, repair retries and
+//          fallbacks) and kept in a bounded local log for the Diagnostics screen
+// USAGE: const trace = PipelineTrace.start('process_symptom', userId, { audioUri });
+//        await trace.step('SymptomAnalyzer.analyzeSymptom', 'agent', { audioUri }, () => ...);
+//        trace.finish({ output });
+// STEPS: Agents pass the run down to PromptRegistry, which records each prompt
+//        call; catch blocks that return a fallback record it with trace.fallback()
+// PRIVACY: Inputs and outputs include transcripts and summaries, so traces stay
+//          on the device and are removed with the rest of the user's data
+
+export const MAX_TRACES = 50;
+const MAX_TRACE_PAYLOAD_LENGTH = 2000;
+
+export type TracePipeline = 'process_symptom' | 'health_decision';
+
+export type TraceStepKind =
+  | 'agent'          // An agent method; the steps after it with a greater depth ran inside it
+  | 'prompt'         // One PromptRegistry call, including its repair retries
+  | 'transcription'
+  | 'rule'           // A local decision, no model call
+  | 'fallback';      // A catch block returned canned output instead of failing
+
+export interface TraceStep {
+  name: string;
+  kind: TraceStepKind;
+  depth: number;
+  startedAt: string;
+  latencyMs: number;
+  input?: string;           // JSON, truncated
+  output?: string;          // JSON, truncated
+  model?: string;
+  usage?: TokenUsage | null;
+  retries: number;          // Repair retries after an invalid reply
+  usedFallback: boolean;
+  error?: string;
+}
+
+export interface PipelineTraceRecord {
+  id: string;
+  pipeline: TracePipeline;
+  userId: string;
+  startedAt: string;
+  latencyMs: number;
+  status: 'ok' | 'fallback' | 'error'; // fallback: finished, but a step used canned output
+  input?: string;
+  output?: string;
+  usage: TokenUsage | null; // Summed over the prompt steps
+  steps: TraceStep[];
+  error?: string;
+}
+
+export interface TraceStepResult {
+  output?: unknown;
+  model?: string;
+  usage?: TokenUsage | null;
+  retries?: number;
+  usedFallback?: boolean;
+}
+
+const serialize = (value: unknown): string | undefined => {
+  if (value === undefined) return undefined;
+  let text: string;
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > MAX_TRACE_PAYLOAD_LENGTH ? `${text.slice(0, MAX_TRACE_PAYLOAD_LENGTH)}…` : text;
+};
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+const sumUsage = (steps: TraceStep[]): TokenUsage | null =>
+  steps.reduce<TokenUsage | null>((total, step) => {
+    if (!step.usage) return total;
+    return {
+      promptTokens: (total?.promptTokens ?? 0) + step.usage.promptTokens,
+      completionTokens: (total?.completionTokens ?? 0) + step.usage.completionTokens,
+      totalTokens: (total?.totalTokens ?? 0) + step.usage.totalTokens,
+    };
+  }, null);
+
+/**
+ * Handle for a step that has started; exactly one of end() or fail() is called
+ */
+export interface TraceStepHandle {
+  end(result?: TraceStepResult): void;
+  fail(error: unknown): void;
+}
+
+/**
+ * One pipeline run, created by PipelineTrace.start()
+ * Steps are listed in the order they started. Runs are sequential, so depth
+ * follows the nesting of step() calls.
+ */
+export class TraceRun {
+  private record: PipelineTraceRecord;
+  private startTime = Date.now();
+  private depth = 0;
+  private finished = false;
+
+  constructor(pipeline: TracePipeline, userId: string, input?: unknown) {
+    this.record = {
+      id: `trace-${this.startTime}-${Math.random().toString(36).slice(2, 8)}`,
+      pipeline,
+      userId,
+      startedAt: new Date(this.startTime).toISOString(),
+      latencyMs: 0,
+      status: 'ok',
+      input: serialize(input),
+      usage: null,
+      steps: [],
+    };
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Start a step; end() it with what it produced or fail() it with the error
+   */
+  begin(name: string, kind: TraceStepKind, input?: unknown): TraceStepHandle {
+    const started = Date.now();
+    const step: TraceStep = {
+      name,
+      kind,
+      depth: this.depth,
+      startedAt: new Date(started).toISOString(),
+      latencyMs: 0,
+      input: serialize(input),
+      retries: 0,
+      usedFallback: false,
+    };
+    this.record.steps.push(step);
+
+    return {
+      end: (result = {}) => {
+        step.latencyMs = Date.now() - started;
+        step.output = serialize(result.output);
+        step.retries = result.retries ?? 0;
+        step.usedFallback = result.usedFallback ?? false;
+        if (result.model) step.model = result.model;
+        if (result.usage !== undefined) step.usage = result.usage;
+      },
+      fail: error => {
+        step.latencyMs = Date.now() - started;
+        step.error = describeError(error);
+      },
+    };
+  }
+
+  /**
+   * Run a step, recording its output, or its error before rethrowing it
+   * Steps started inside run() are nested one level deeper
+   */
+  async step<T>(name: string, kind: TraceStepKind, input: unknown, run: () => Promise<T>): Promise<T> {
+    const handle = this.begin(name, kind, input);
+    this.depth++;
+    try {
+      const value = await run();
+      handle.end({ output: value });
+      return value;
+    } catch (error) {
+      handle.fail(error);
+      throw error;
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Record that a catch block returned canned output instead of failing
+   *
+   * @param name - The fallback used, e.g. 'getFallbackDecision'
+   * @param error - What made it necessary
+   * @param output - The canned output
+   */
+  fallback(name: string, error: unknown, output?: unknown): void {
+    this.record.steps.push({
+      name,
+      kind: 'fallback',
+      depth: this.depth,
+      startedAt: new Date().toISOString(),
+      latencyMs: 0,
+      output: serialize(output),
+      retries: 0,
+      usedFallback: true,
+      error: describeError(error),
+    });
+  }
+
+  /**
+   * End the run and save it; later calls are ignored
+   *
+   * @param outcome - What the pipeline returned, or the error it threw
+   */
+  finish(outcome: { output?: unknown; error?: unknown } = {}): Promise<void> {
+    if (this.finished) return Promise.resolve();
+    this.finished = true;
+
+    const { steps } = this.record;
+    const failed = outcome.error !== undefined;
+    const record: PipelineTraceRecord = {
+      ...this.record,
+      latencyMs: Date.now() - this.startTime,
+      status: failed ? 'error' : steps.some(step => step.usedFallback) ? 'fallback' : 'ok',
+      output: serialize(outcome.output),
+      usage: sumUsage(steps),
+      ...(failed && { error: describeError(outcome.error) }),
+    };
+
+    const icon = record.status === 'ok' ? '🧭' : '⚠️';
+    console.log(`${icon} Trace ${record.pipeline}: ${record.status} in ${record.latencyMs}ms, ${steps.length} steps`);
+    return PipelineTrace.save(record);
+  }
+}
+
+export class PipelineTrace {
+  // Serializes log updates so concurrent runs don't overwrite each other
+  private static queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Start tracing a pipeline run
+   *
+   * @param pipeline - Which pipeline is running
+   * @param userId - Profile the run is for
+   * @param input - What the pipeline was called with
+   */
+  static start(pipeline: TracePipeline, userId: string, input?: unknown): TraceRun {
+    return new TraceRun(pipeline, userId, input);
+  }
+
+  /**
+   * Saved runs, most recent first (at most MAX_TRACES), including runs still being saved
+   */
+  static async getTraces(): Promise<PipelineTraceRecord[]> {
+    await this.queue;
+    return this.load();
+  }
+
+  static async clear(): Promise<void> {
+    await StorageManager.remove(STORAGE_KEYS.pipelineTraces);
+  }
+
+  /**
+   * Save a finished run (called by TraceRun.finish)
+   */
+  static save(record: PipelineTraceRecord): Promise<void> {
+    this.queue = this.queue
+      .then(async () => {
+        const traces = await this.load();
+        await StorageManager.save(STORAGE_KEYS.pipelineTraces, [record, ...traces].slice(0, MAX_TRACES));
+      })
+      .catch(error => {
+        console.error('Error saving pipeline trace:', error);
+      });
+    return this.queue;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static async load(): Promise<PipelineTraceRecord[]> {
+    return (await StorageManager.load<PipelineTraceRecord[]>(STORAGE_KEYS.pipelineTraces)) ?? [];
+  }
+}
@@ -0,0 +1,107 @@
+// ============================================================================
+// PROCESSING QUEUE - Recordings waiting for transcription and analysis
+// ============================================================================
+//
+// PURPOSE: A recording is saved as a pending SymptomLog the moment it stops,
+//          so a dropped connection or a server error never loses it. Each
+//          recording becomes a job that works through three stages and is
+//          retried with backoff until it succeeds.
+// STAGES: transcription -> analysis (summary, domain, severity, impact)
+//         -> recommendations; a stage's result is kept on the job, so a retry
+//         resumes where the last attempt stopped. Each new transcript is checked
+//         against the local red-flag rules before the analysis stage runs.
+// PERSISTENCE: One list per profile under processingQueueKey(); jobs survive
+//              restarts and resume when their profile is active
+// RUNNER: ProcessingQueueContext; retries early when the app returns to the
+//         foreground or another job succeeds (connectivity is back)
+// LOG STATUS: The log's processingStatus is 'pending' while a job retries and
+//             'failed' once it has given up (a manual retry starts over). Its
+//             summary stays empty until analysis; screens show a translated
+//             placeholder for any log with a processingStatus
+
+export type ProcessingStage = 'transcription' | 'analysis' | 'recommendations';
+
+export interface ProcessingJob {
+  id: string;              // Same as the symptom log's id
+  audioURI: string;
+  stage: ProcessingStage;
+  status: 'pending' | 'failed';
+  attempts: number;        // Failed attempts at the current stage
+  transcript?: string;     // Result of the transcription stage
+  lastError?: string;
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
+export const MAX_PROCESSING_ATTEMPTS = 8;
+export const BASE_RETRY_DELAY_MS = 30 * 1000;
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export class ProcessingQueue {
+  static createJob(logId: string, audioURI: string, now: Date = new Date()): ProcessingJob {
+    return {
+      id: logId,
+      audioURI,
+      stage: 'transcription',
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now.toISOString(),
+      createdAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m ... capped at an hour
+   */
+  static retryDelayMs(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  static isDue(job: ProcessingJob, now: Date = new Date()): boolean {
+    return job.status === 'pending' && new Date(job.nextAttemptAt).getTime() <= now.getTime();
+  }
+
+  /**
+   * The job after a failed attempt: rescheduled, or failed once out of attempts
+   */
+  static recordFailure(job: ProcessingJob, error: unknown, now: Date = new Date()): ProcessingJob {
+    const attempts = job.attempts + 1;
+    return {
+      ...job,
+      attempts,
+      status: attempts >= MAX_PROCESSING_ATTEMPTS ? 'failed' : 'pending',
+      lastError: errorMessage(error),
+      nextAttemptAt: new Date(now.getTime() + this.retryDelayMs(attempts)).toISOString(),
+    };
+  }
+
+  /**
+   * The job moved on to its next stage with a fresh set of attempts
+   */
+  static advance(job: ProcessingJob, stage: ProcessingStage, updates: Partial<ProcessingJob> = {}): ProcessingJob {
+    const { lastError, ...rest } = job;
+    return { ...rest, ...updates, stage, attempts: 0, status: 'pending', nextAttemptAt: new Date().toISOString() };
+  }
+
+  /**
+   * Make a job due now: a manual retry, or a sign that connectivity is back
+   */
+  static retryNow(job: ProcessingJob, resetAttempts: boolean = false, now: Date = new Date()): ProcessingJob {
+    return {
+      ...job,
+      status: 'pending',
+      attempts: resetAttempts ? 0 : job.attempts,
+      nextAttemptAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * When the earliest pending job is due, or null if none is pending
+   */
+  static nextDueAt(jobs: ProcessingJob[]): Date | null {
+    const times = jobs.filter(job => job.status === 'pending').map(job => new Date(job.nextAttemptAt).getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }
+}
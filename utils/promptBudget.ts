@@ -0,0 +1,54 @@
+import { SymptomLog } from '../types/recommendations';
+
+// ============================================================================
+// PROMPT BUDGET - Keep history sections of a prompt under a token limit
+// ============================================================================
+//
+// PURPOSE: Prompts that list symptom history grow with every log; these
+//          helpers cut each section to a fixed budget, newest lines first
+// ESTIMATE: ~4 characters per token for English text. Deliberately rough: the
+//           budgets leave headroom, and no tokenizer ships with the app
+
+const CHARS_PER_TOKEN = 4;
+
+export class PromptBudget {
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * The leading lines that fit in the budget (callers put the most important first)
+   * @returns The kept lines and how many were left out
+   */
+  static fitLines(lines: string[], maxTokens: number): { lines: string[]; omitted: number } {
+    const kept: string[] = [];
+    let used = 0;
+
+    for (const line of lines) {
+      const cost = this.estimateTokens(line) + 1; // + newline
+      if (used + cost > maxTokens) break;
+      kept.push(line);
+      used += cost;
+    }
+    return { lines: kept, omitted: lines.length - kept.length };
+  }
+
+  /**
+   * Cut a single text to the budget, marking the cut
+   */
+  static truncate(text: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    return text.length <= maxChars ? text : `${text.slice(0, maxChars - 1)}…`;
+  }
+
+  /**
+   * Most recent symptom summaries that fit in the budget, newest first
+   */
+  static symptomSummaries(symptoms: SymptomLog[], maxTokens: number): string {
+    const newestFirst = [...symptoms].sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+    const { lines, omitted } = this.fitLines(newestFirst.map(s => s.summary), maxTokens);
+    return omitted > 0 ? `${lines.join(', ')} (and ${omitted} earlier)` : lines.join(', ');
+  }
+}
@@ -0,0 +1,163 @@
+import { LLMClient, LLMTask, ChatCompletionRequest, ChatCompletionResult } from './llm';
+import { StructuredOutput, OutputSpec, StructuredResult } from './structuredOutput';
+import { GenerationInfo } from '../types/recommendations';
+import type { TraceRun } from './pipelineTrace';
+
+// ============================================================================
+// PROMPT REGISTRY - Named, versioned prompt templates
+// ============================================================================
+//
+// PURPOSE: Every prompt the agents send lives in one place (utils/agents/prompts.ts)
+//          under a name and version, so generated logs and recommendations can
+//          record exactly which prompt and model produced them
+// USAGE: PromptRegistry.complete(SYMPTOM_ANALYSIS_PROMPT, { transcript }, SYMPTOM_ANALYSIS_OUTPUT)
+//        -> { value, generatedBy: { prompt: 'symptom_analysis', promptVersion: 1, model } }
+// VERSIONING: Bump a template's version whenever its text, token limit or
+//             temperature changes; content generated before the edit keeps the
+//             old version, which is how regressions are traced to prompt edits
+// VARIABLES: Typed per template. Callers format and budget them (PromptBudget)
+//            before rendering; templates only place them.
+// TRACING: Pass the pipeline's TraceRun and the call is recorded as a step
+//          (variables, reply, model, tokens, repair retries, fallback)
+
+export type PromptTask = Exclude<LLMTask, 'transcription'>;
+
+export interface PromptTemplate<V> {
+  name: string;       // snake_case, unique
+  version: number;    // Starts at 1
+  task: PromptTask;
+  system: (vars: V) => string;
+  user: (vars: V) => string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface PromptInfo {
+  name: string;
+  version: number;
+  task: PromptTask;
+}
+
+const templates = new Map<string, PromptTemplate<any>>();
+
+/**
+ * Register a template, e.g. `export const X_PROMPT = definePrompt<{ ... }>({ ... })`
+ */
+export const definePrompt = <V>(template: PromptTemplate<V>): PromptTemplate<V> =>
+  PromptRegistry.register(template);
+
+export class PromptRegistry {
+  /**
+   * Add a template; names are unique so a version always means one text
+   */
+  static register<V>(template: PromptTemplate<V>): PromptTemplate<V> {
+    if (templates.has(template.name)) {
+      throw new Error(`Prompt template "${template.name}" is already registered`);
+    }
+    if (!Number.isInteger(template.version) || template.version < 1) {
+      throw new Error(`Prompt template "${template.name}" needs a positive integer version`);
+    }
+    templates.set(template.name, template);
+    return template;
+  }
+
+  static get(name: string): PromptTemplate<unknown> | undefined {
+    return templates.get(name);
+  }
+
+  /**
+   * Every registered template, for diagnostics and evaluation runs
+   */
+  static list(): PromptInfo[] {
+    return Array.from(templates.values())
+      .map(({ name, version, task }) => ({ name, version, task }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * "name@version", as shown in logs
+   */
+  static id(template: PromptTemplate<any>): string {
+    return `${template.name}@${template.version}`;
+  }
+
+  /**
+   * The chat request for a template and its variables
+   */
+  static render<V>(template: PromptTemplate<V>, vars: V): Omit<ChatCompletionRequest, 'model' | 'jsonSchema'> {
+    return {
+      messages: [
+        { role: 'system', content: template.system(vars) },
+        { role: 'user', content: template.user(vars) },
+      ],
+      maxTokens: template.maxTokens,
+      temperature: template.temperature,
+    };
+  }
+
+  /**
+   * Render and send a template whose reply must match the spec (see StructuredOutput)
+   * Network and API errors are not caught
+   */
+  static async complete<V, T>(
+    template: PromptTemplate<V>,
+    vars: V,
+    spec: OutputSpec<T>,
+    trace?: TraceRun
+  ): Promise<{ value: T; generatedBy: GenerationInfo }> {
+    const step = trace?.begin(this.id(template), 'prompt', vars);
+    let result: StructuredResult<T>;
+    try {
+      result = await StructuredOutput.completeDetailed(template.task, this.render(template, vars), spec);
+    } catch (error) {
+      step?.fail(error);
+      throw error;
+    }
+    step?.end({
+      output: result.value,
+      model: result.model,
+      usage: result.usage,
+      retries: result.attempts - 1,
+      usedFallback: result.usedFallback,
+    });
+
+    if (result.usedFallback) {
+      console.warn(`📝 Prompt ${this.id(template)}: no valid reply from ${result.model || 'the model'}, using the fallback`);
+    }
+
+    return {
+      value: result.value,
+      generatedBy: {
+        prompt: template.name,
+        promptVersion: template.version,
+        model: result.model,
+        ...(result.usedFallback && { usedFallback: true }),
+      },
+    };
+  }
+
+  /**
+   * Render and send a template with a free-text reply
+   * Network and API errors are not caught
+   */
+  static async completeText<V>(
+    template: PromptTemplate<V>,
+    vars: V,
+    trace?: TraceRun
+  ): Promise<{ content: string; generatedBy: GenerationInfo }> {
+    const step = trace?.begin(this.id(template), 'prompt', vars);
+    let response: ChatCompletionResult;
+    try {
+      response = await LLMClient.complete(template.task, this.render(template, vars));
+    } catch (error) {
+      step?.fail(error);
+      throw error;
+    }
+    step?.end({ output: response.content, model: response.model, usage: response.usage });
+
+    return {
+      content: response.content,
+      generatedBy: { prompt: template.name, promptVersion: template.version, model: response.model },
+    };
+  }
+}
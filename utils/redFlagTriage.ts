@@ -0,0 +1,480 @@
+import { HealthDomain, MedicalRecommendation } from '../types/recommendations';
+import { TranslationKey } from '../locales/en';
+import { AppLanguage, DEFAULT_LANGUAGE, I18n, SUPPORTED_LANGUAGES } from './i18n';
+
+// ============================================================================
+// RED-FLAG TRIAGE - Local emergency rules checked before any AI call
+// ============================================================================
+//
+// PURPOSE: Emergency guidance must not depend on a model choosing "severe".
+//          Every transcript is checked against these rules on the device, so
+//          a match doesn't wait on analysis and works over budget and with AI
+//          processing turned off.
+// LIMIT: Transcription needs the network, so a recording made offline is
+//        checked once it is transcribed; SymptomsScreen tells the user so
+// MATCHING: A rule matches when each of its phrase groups has a phrase in the
+//           transcript that isn't negated ("no chest pain", "I don't want to die").
+//           A negation only counts directly next to the phrase, so "I've never
+//           had chest pain this bad" still matches: a missed alarm is worse
+//           than a false one
+// LANGUAGES: Phrases and negations per language (RED_FLAG_PHRASES). The
+//            profile's language is checked, and English as well, since people
+//            often use English medical terms in other languages
+// ON MATCH: ProcessingQueueContext marks the log, RedFlagContext shows the
+//           emergency screen, and an emergency recommendation is created
+// TEXT: Titles and guidance are locale catalog keys (locales/en.ts) with
+//       {emergency} and {crisis} numbers chosen by the device's region
+//       (EMERGENCY_CONTACTS); other regions get 112 and no crisis line
+// NOTE: Deliberately narrow. These rules catch the clearest emergencies; they
+//       are not a substitute for the model's severity assessment.
+
+export type RedFlagRuleId = 'cardiac' | 'stroke' | 'suicidal_ideation' | 'anaphylaxis' | 'severe_bleeding';
+
+export interface RedFlagRule {
+  id: RedFlagRuleId;
+  title: TranslationKey;          // Headline on the emergency screen
+  condition: TranslationKey;      // What the symptoms may indicate
+  healthDomain: HealthDomain;
+  guidance: TranslationKey[];     // What to do right now, in order
+  crisisLineStep?: TranslationKey; // First step where the region has a crisis line
+  contact: 'emergency' | 'crisis';
+}
+
+export interface RedFlagMatch {
+  rule: RedFlagRule;
+  phrases: string[]; // The phrases that matched, one per group
+}
+
+export interface EmergencyContacts {
+  emergency: string;
+  crisis?: string; // A suicide and crisis line, where one is known
+}
+
+export interface RedFlagGuidance {
+  title: string;
+  condition: string;
+  steps: string[];
+}
+
+interface LanguagePhrases {
+  phraseGroups: Record<RedFlagRuleId, string[][]>; // Each group needs one un-negated phrase
+  negatedBy: { before: string[]; after: string[] }; // Cues that cancel a phrase directly next to it
+  spaced: boolean;         // Words are separated by spaces (not Mandarin)
+}
+
+// Emergency and crisis numbers by ISO 3166 region
+export const EMERGENCY_CONTACTS: Record<string, EmergencyContacts> = {
+  US: { emergency: '911', crisis: '988' },
+  CA: { emergency: '911', crisis: '988' },
+  MX: { emergency: '911', crisis: '8009112000' },
+  ES: { emergency: '112', crisis: '024' },
+  GB: { emergency: '999', crisis: '116123' },
+  IE: { emergency: '112', crisis: '116123' },
+  AU: { emergency: '000', crisis: '131114' },
+  IN: { emergency: '112', crisis: '14416' },
+  CN: { emergency: '120' },
+  TW: { emergency: '119', crisis: '1925' },
+};
+
+// Reaches emergency services from mobile phones in most regions
+const DEFAULT_CONTACTS: EmergencyContacts = { emergency: '112' };
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'cardiac',
+    title: 'redFlags.cardiac.title',
+    condition: 'redFlags.cardiac.condition',
+    healthDomain: 'illness',
+    guidance: ['redFlags.cardiac.step1', 'redFlags.cardiac.step2', 'redFlags.cardiac.step3'],
+    contact: 'emergency',
+  },
+  {
+    id: 'stroke',
+    title: 'redFlags.stroke.title',
+    condition: 'redFlags.stroke.condition',
+    healthDomain: 'illness',
+    guidance: ['redFlags.stroke.step1', 'redFlags.stroke.step2', 'redFlags.stroke.step3', 'redFlags.stroke.step4'],
+    contact: 'emergency',
+  },
+  {
+    id: 'suicidal_ideation',
+    title: 'redFlags.suicidalIdeation.title',
+    condition: 'redFlags.suicidalIdeation.condition',
+    healthDomain: 'mental_health',
+    guidance: ['redFlags.suicidalIdeation.step1', 'redFlags.suicidalIdeation.step2', 'redFlags.suicidalIdeation.step3'],
+    crisisLineStep: 'redFlags.suicidalIdeation.crisisLine',
+    contact: 'crisis',
+  },
+  {
+    id: 'anaphylaxis',
+    title: 'redFlags.anaphylaxis.title',
+    condition: 'redFlags.anaphylaxis.condition',
+    healthDomain: 'illness',
+    guidance: ['redFlags.anaphylaxis.step1', 'redFlags.anaphylaxis.step2', 'redFlags.anaphylaxis.step3'],
+    contact: 'emergency',
+  },
+  {
+    id: 'severe_bleeding',
+    title: 'redFlags.severeBleeding.title',
+    condition: 'redFlags.severeBleeding.condition',
+    healthDomain: 'physical_injury',
+    guidance: ['redFlags.severeBleeding.step1', 'redFlags.severeBleeding.step2', 'redFlags.severeBleeding.step3'],
+    contact: 'emergency',
+  },
+];
+
+// Phrases are matched after normalize(), so accents and apostrophes are optional
+export const RED_FLAG_PHRASES: Record<AppLanguage, LanguagePhrases> = {
+  en: {
+    phraseGroups: {
+      cardiac: [
+        [
+          'chest pain', 'chest pains', 'pain in my chest', 'chest pressure', 'pressure in my chest',
+          'chest tightness', 'tightness in my chest', 'tight chest', 'crushing chest', 'chest hurts',
+        ],
+        [
+          'short of breath', 'shortness of breath', 'cant breathe', 'cannot breathe', 'hard to breathe',
+          'trouble breathing', 'difficulty breathing', 'struggling to breathe', 'out of breath', 'gasping',
+        ],
+      ],
+      stroke: [
+        [
+          'face drooping', 'face is drooping', 'face droops', 'drooping face', 'droopy face', 'one side of my face',
+          'slurred', 'slurring', 'cant speak', 'trouble speaking', 'cant get my words out',
+          // Arm weakness only with a sudden or one-sided qualifier; "I cant lift my arm" alone is usually an injury
+          'weakness on one side', 'numb on one side', 'numbness on one side', 'arm suddenly went weak',
+          'suddenly cant lift my arm', 'one arm went weak', 'one arm is weak',
+          'sudden confusion', 'lost vision in one eye', 'worst headache of my life',
+        ],
+      ],
+      suicidal_ideation: [
+        [
+          'kill myself', 'killing myself', 'suicide', 'suicidal', 'end my life', 'ending my life',
+          'end it all', 'ending it all', 'take my own life', 'want to die', 'dont want to live',
+          'dont want to be alive', 'better off dead', 'no reason to live', 'self harm',
+          // Only with intent; "I hurt myself lifting boxes" is an injury
+          'want to hurt myself', 'wanting to hurt myself', 'going to hurt myself', 'urge to hurt myself',
+          'thinking about hurting myself', 'thoughts of hurting myself',
+        ],
+      ],
+      anaphylaxis: [
+        [
+          'throat is closing', 'throat closing', 'throat is swelling', 'throat swelling', 'throat feels tight',
+          'tongue is swelling', 'tongue swelling', 'swollen tongue', 'lips are swelling', 'swollen lips',
+          'cant swallow', 'anaphylaxis', 'anaphylactic',
+        ],
+      ],
+      severe_bleeding: [
+        [
+          'wont stop bleeding', 'cant stop the bleeding', 'cant stop bleeding', 'bleeding heavily',
+          'bleeding a lot', 'coughing up blood', 'vomiting blood', 'throwing up blood',
+        ],
+      ],
+    },
+    negatedBy: {
+      before: [
+        'no', 'not', 'never', 'without', 'without any', 'dont', 'didnt', 'doesnt', 'denies', 'denied', 'isnt', 'wasnt',
+        'no more', 'not having', 'dont have', 'dont have any', 'doesnt have', 'didnt have', 'havent had',
+        'havent had any', 'hasnt had', 'dont feel', 'dont get',
+      ],
+      after: [],
+    },
+    spaced: true,
+  },
+  es: {
+    phraseGroups: {
+      cardiac: [
+        [
+          'dolor de pecho', 'dolor en el pecho', 'me duele el pecho', 'presión en el pecho', 'opresión en el pecho',
+          'pecho apretado', 'dolor torácico',
+        ],
+        [
+          'no puedo respirar', 'falta de aire', 'me falta el aire', 'me cuesta respirar', 'dificultad para respirar',
+          'me ahogo', 'ahogándome', 'sin aliento',
+        ],
+      ],
+      stroke: [
+        [
+          'cara caída', 'se me cae la cara', 'un lado de la cara', 'habla arrastrada', 'arrastra las palabras',
+          'arrastrando las palabras', 'no puedo hablar', 'debilidad en un lado', 'entumecido de un lado',
+          'adormecido de un lado', 'de repente no puedo mover el brazo', 'un brazo se me debilitó',
+          'confusión repentina', 'perdí la vista de un ojo', 'el peor dolor de cabeza de mi vida',
+        ],
+      ],
+      suicidal_ideation: [
+        [
+          'suicidarme', 'suicidio', 'suicida', 'matarme', 'quitarme la vida', 'acabar con mi vida',
+          'acabar con todo', 'quiero morir', 'quiero morirme', 'no quiero vivir', 'no quiero seguir viviendo',
+          'mejor muerto', 'mejor muerta', 'autolesión', 'quiero hacerme daño', 'quiero lastimarme',
+          'ganas de hacerme daño', 'ganas de lastimarme', 'pienso en hacerme daño', 'pienso en lastimarme',
+        ],
+      ],
+      anaphylaxis: [
+        [
+          'se me cierra la garganta', 'garganta cerrada', 'garganta hinchada', 'se me hincha la garganta',
+          'lengua hinchada', 'se me hincha la lengua', 'labios hinchados', 'no puedo tragar',
+          'anafilaxia', 'anafiláctico', 'anafiláctica',
+        ],
+      ],
+      severe_bleeding: [
+        [
+          'no para de sangrar', 'no deja de sangrar', 'no puedo parar el sangrado', 'sangrado abundante',
+          'sangrando mucho', 'tosiendo sangre', 'toso sangre', 'vomitando sangre', 'vomito sangre',
+        ],
+      ],
+    },
+    negatedBy: {
+      before: [
+        'no', 'ni', 'nunca', 'jamás', 'sin', 'sin ningún', 'tampoco', 'niega', 'no tengo', 'no tiene', 'no tuve',
+        'no tengo ningún', 'no hay', 'no siento',
+      ],
+      after: [],
+    },
+    spaced: true,
+  },
+  hi: {
+    phraseGroups: {
+      cardiac: [
+        [
+          'सीने में दर्द', 'छाती में दर्द', 'सीने में जकड़न', 'छाती में जकड़न', 'सीने में दबाव', 'छाती में दबाव',
+          'सीना दर्द',
+        ],
+        [
+          'सांस लेने में तकलीफ', 'सांस लेने में दिक्कत', 'सांस लेने में परेशानी', 'सांस नहीं ले पा',
+          'सांस फूल', 'सांस नहीं आ',
+        ],
+      ],
+      stroke: [
+        [
+          'चेहरा लटक', 'चेहरा लटका', 'चेहरा टेढ़ा', 'एक तरफ कमजोरी', 'एक तरफ सुन्न', 'बोलने में दिक्कत',
+          'बोल नहीं पा', 'जुबान लड़खड़ा', 'अचानक हाथ नहीं उठ', 'एक आंख से दिखना बंद',
+          'जिंदगी का सबसे बुरा सिरदर्द',
+        ],
+      ],
+      suicidal_ideation: [
+        [
+          'आत्महत्या', 'खुदकुशी', 'मरना चाहता', 'मरना चाहती', 'जीना नहीं चाहता', 'जीना नहीं चाहती',
+          'खुद को मार', 'अपनी जान ले', 'सब खत्म कर', 'जीने की कोई वजह नहीं',
+          'खुद को नुकसान पहुंचाना चाहता', 'खुद को नुकसान पहुंचाना चाहती',
+        ],
+      ],
+      anaphylaxis: [
+        [
+          'गला बंद हो रहा', 'गले में सूजन', 'जीभ में सूजन', 'जीभ सूज', 'होंठ सूज', 'निगल नहीं पा', 'एनाफिलेक्सिस',
+        ],
+      ],
+      severe_bleeding: [
+        [
+          'खून बंद नहीं हो रहा', 'खून नहीं रुक रहा', 'बहुत खून बह रहा', 'खांसी में खून', 'खून की उल्टी',
+          'उल्टी में खून',
+        ],
+      ],
+    },
+    // Hindi puts the negation after the symptom: "सीने में दर्द नहीं है"
+    negatedBy: {
+      before: ['बिना', 'न'],
+      after: ['नहीं', 'नही', 'न', 'मत', 'तो नहीं', 'बिल्कुल नहीं'],
+    },
+    spaced: true,
+  },
+  zh: {
+    phraseGroups: {
+      cardiac: [
+        [
+          '胸痛', '胸口痛', '胸口疼', '胸疼', '胸闷', '胸悶', '胸口闷', '胸口悶', '胸口压', '胸口壓', '心口痛',
+        ],
+        [
+          '喘不过气', '喘不過氣', '呼吸困难', '呼吸困難', '不能呼吸', '无法呼吸', '無法呼吸', '上不来气', '上不來氣',
+          '透不过气', '透不過氣', '气短', '氣短',
+        ],
+      ],
+      stroke: [
+        [
+          '口角歪斜', '嘴歪', '脸歪', '臉歪', '半边脸', '半邊臉', '口齿不清', '口齒不清', '说话不清', '說話不清',
+          '说不出话', '說不出話', '一侧无力', '一側無力', '半身无力', '半身無力', '半身麻木',
+          '一只眼睛看不见', '一隻眼睛看不見', '这辈子最严重的头痛', '這輩子最嚴重的頭痛',
+        ],
+      ],
+      suicidal_ideation: [
+        [
+          '自杀', '自殺', '想死', '不想活', '轻生', '輕生', '结束生命', '結束生命', '了结自己', '了結自己',
+          '自残', '自殘', '想伤害自己', '想傷害自己', '活着没意思', '活著沒意思',
+        ],
+      ],
+      anaphylaxis: [
+        [
+          '喉咙肿', '喉嚨腫', '喉咙发紧', '喉嚨發緊', '舌头肿', '舌頭腫', '嘴唇肿', '嘴唇腫', '咽不下',
+          '无法吞咽', '無法吞嚥', '过敏性休克', '過敏性休克',
+        ],
+      ],
+      severe_bleeding: [
+        [
+          '血止不住', '止不住血', '流血不止', '大量出血', '大出血', '咳血', '咯血', '吐血', '呕血', '嘔血',
+        ],
+      ],
+    },
+    negatedBy: {
+      before: ['不', '没', '沒', '没有', '沒有', '无', '無', '未', '别', '別', '不会', '不會'],
+      after: [],
+    },
+    spaced: false,
+  },
+};
+
+// Clause boundaries, including Mandarin punctuation and the Hindi danda
+const CLAUSE_BREAK = /[.!?;,:。！？；，、：।]/;
+
+// Lowercase without accents, apostrophes or hyphens; Hindi chandrabindu is spelled as anusvara
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\u0901/g, '\u0902')
+    .replace(/[‘’'"“”]/g, '')
+    .replace(/[-–—()[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export class RedFlagTriage {
+  /**
+   * Every rule the text matches, in the given language and in English
+   */
+  static evaluate(text: string, language: AppLanguage = DEFAULT_LANGUAGE): RedFlagMatch[] {
+    const clauses = normalize(text).split(CLAUSE_BREAK).map(clause => clause.trim()).filter(Boolean);
+    const languages: AppLanguage[] = language === DEFAULT_LANGUAGE ? [language] : [language, DEFAULT_LANGUAGE];
+    const matches: RedFlagMatch[] = [];
+
+    for (const rule of RED_FLAG_RULES) {
+      for (const candidate of languages) {
+        const phrases = RED_FLAG_PHRASES[candidate];
+        const found = phrases.phraseGroups[rule.id].map(group =>
+          group.find(phrase => clauses.some(clause => this.mentions(clause, normalize(phrase), phrases)))
+        );
+        if (found.every(phrase => phrase !== undefined)) {
+          matches.push({ rule, phrases: found as string[] });
+          break;
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * The rule with the given id, e.g. to explain a log's stored red flags
+   */
+  static getRule(id: string): RedFlagRule | undefined {
+    return RED_FLAG_RULES.find(rule => rule.id === id);
+  }
+
+  /**
+   * Numbers to call, from the device's region, or the language's default
+   * region when the device doesn't say
+   */
+  static getEmergencyContacts(language: AppLanguage = DEFAULT_LANGUAGE): EmergencyContacts {
+    const region = this.getRegion(I18n.getDeviceLocale()) ?? this.getRegion(SUPPORTED_LANGUAGES[language].locale);
+    return (region && EMERGENCY_CONTACTS[region]) || DEFAULT_CONTACTS;
+  }
+
+  /**
+   * A rule's title, condition and steps in the given language, with the
+   * region's numbers filled in
+   */
+  static describe(
+    rule: RedFlagRule,
+    language: AppLanguage,
+    contacts: EmergencyContacts = this.getEmergencyContacts(language)
+  ): RedFlagGuidance {
+    const params = { emergency: contacts.emergency, crisis: contacts.crisis ?? contacts.emergency };
+    const steps = contacts.crisis && rule.crisisLineStep ? [rule.crisisLineStep, ...rule.guidance] : rule.guidance;
+    return {
+      title: I18n.translate(language, rule.title),
+      condition: I18n.translate(language, rule.condition),
+      steps: steps.map(step => I18n.translate(language, step, params)),
+    };
+  }
+
+  /**
+   * Emergency recommendation for a match; the title is stable per rule, so a
+   * second match while the first is still open doesn't add a duplicate
+   * 
+   * @param sourceLogId - The symptom log whose transcript matched
+   * @param language - Language of the recommendation's text
+   */
+  static createRecommendation(
+    match: RedFlagMatch,
+    symptomSummary: string,
+    sourceLogId: string,
+    language: AppLanguage = DEFAULT_LANGUAGE
+  ): MedicalRecommendation {
+    const { rule } = match;
+    const { title, condition, steps } = this.describe(rule, language);
+    return {
+      id: `redflag-${rule.id}-${Date.now()}`,
+      title: I18n.translate(language, 'redFlags.recommendationTitle', { title }),
+      description: `${condition} ${steps[0]}`,
+      category: 'emergency',
+      priority: 'HIGH',
+      actionItems: steps.map((step, index) => ({
+        id: `redflag-${rule.id}-${Date.now()}-${index}`,
+        title: step,
+        description: step,
+        type: 'consultation',
+        isCompleted: false,
+        priority: 'HIGH',
+      })),
+      urgency: 'immediate',
+      healthDomain: rule.healthDomain,
+      medicalRationale: I18n.translate(language, 'redFlags.recommendationRationale', {
+        phrases: match.phrases.map(phrase => `"${phrase}"`).join(', '),
+        condition,
+      }),
+      symptomsTriggering: [symptomSummary],
+      severityIndicators: match.phrases,
+      followUpRequired: true,
+      followUpTimeline: I18n.translate(language, 'redFlags.followUpTimeline'),
+      riskLevel: 'critical',
+      interventionType: 'emergency_care',
+      createdAt: new Date(),
+      isCompleted: false,
+      isCancelled: false,
+      provenance: { sourceLogIds: [sourceLogId], patterns: [] },
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Whether the (normalized) phrase appears in the clause at least once
+   * without a negation directly next to it
+   */
+  private static mentions(clause: string, phrase: string, language: LanguagePhrases): boolean {
+    const { spaced } = language;
+    const before = language.negatedBy.before.map(normalize);
+    const after = language.negatedBy.after.map(normalize);
+    // Spaced languages match whole words; Mandarin has no word spacing
+    const text = spaced ? ` ${clause} ` : clause.replace(/ /g, '');
+    const target = spaced ? ` ${phrase} ` : phrase;
+    let index = text.indexOf(target);
+
+    while (index !== -1) {
+      // Padded with spaces so cues match whole words
+      const preceding = spaced ? ` ${text.slice(0, index).trim()}` : text.slice(0, index);
+      const following = spaced ? `${text.slice(index + target.length).trim()} ` : text.slice(index + target.length);
+      const negated = spaced
+        ? before.some(cue => preceding.endsWith(` ${cue}`)) || after.some(cue => following.startsWith(`${cue} `))
+        : before.some(cue => preceding.endsWith(cue)) || after.some(cue => following.startsWith(cue));
+      if (!negated) {
+        return true;
+      }
+      index = text.indexOf(target, index + 1);
+    }
+    return false;
+  }
+
+  private static getRegion(locale: string): string | undefined {
+    return locale.split(/[-_]/).slice(1).find(part => /^[A-Z]{2}$/.test(part));
+  }
+}
@@ -0,0 +1,280 @@
+import {
+  StorageManager,
+  STORAGE_KEYS,
+  PROFILE_SCOPED_KEYS,
+  profileScopedKey,
+  symptomLogIndexKey,
+  symptomLogRecordPrefix,
+  processingQueueKey,
+  healthMemoryKey,
+} from './storage';
+import { SymptomLog, MedicalRecommendation, CompletedRecommendation, FollowUpQuestion } from '../types/recommendations';
+import { Profile } from '../types/profiles';
+import { PurgeLogEntry } from './retention';
+import { AudioSettings } from './audioStore';
+import { ProcessingJob } from './processingQueue';
+
+// ============================================================================
+// REPOSITORIES - What contexts depend on instead of StorageManager
+// ============================================================================
+//
+// PURPOSE: Give each context a small, typed persistence interface so the
+//          storage layout (whole array vs. one record per key) and backend
+//          can change without touching UI code
+// USAGE: useRepositories() inside a RepositoryProvider for device-wide data,
+//        useProfileRepositories() for the active profile's health data
+
+/**
+ * A collection persisted as a whole (small lists: questions, appointments)
+ */
+export interface CollectionRepository<T> {
+  /** @returns null when nothing has been stored yet */
+  loadAll(): Promise<T[] | null>;
+  replaceAll(items: T[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * A collection persisted one record per key, so writes touch only one record
+ */
+export interface RecordRepository<T extends { id: string }> extends CollectionRepository<T> {
+  add(item: T): Promise<void>;
+  put(item: T): Promise<void>;
+  remove(id: string): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+}
+
+/**
+ * A single persisted document (settings objects, flags)
+ */
+export interface DocumentRepository<T> {
+  load(): Promise<T | null>;
+  save(value: T): Promise<void>;
+  remove(): Promise<void>;
+}
+
+// ============================================================================
+// STORAGE-MANAGER BACKED IMPLEMENTATIONS
+// ============================================================================
+
+export class KeyDocumentRepository<T> implements DocumentRepository<T> {
+  constructor(private readonly key: string) {}
+
+  load(): Promise<T | null> {
+    return StorageManager.load<T>(this.key);
+  }
+
+  save(value: T): Promise<void> {
+    return StorageManager.save(this.key, value);
+  }
+
+  remove(): Promise<void> {
+    return StorageManager.remove(this.key);
+  }
+}
+
+export class KeyCollectionRepository<T> implements CollectionRepository<T> {
+  constructor(private readonly key: string) {}
+
+  async loadAll(): Promise<T[] | null> {
+    const stored = await StorageManager.load<T[]>(this.key);
+    return Array.isArray(stored) ? stored : null;
+  }
+
+  replaceAll(items: T[]): Promise<void> {
+    return StorageManager.save(this.key, items);
+  }
+
+  clear(): Promise<void> {
+    return StorageManager.save(this.key, []);
+  }
+}
+
+/**
+ * Stores each record under `${recordPrefix}${id}` plus an ordered id index.
+ * Writes are serialized so concurrent adds cannot lose index entries.
+ */
+export class KeyRecordRepository<T extends { id: string }> implements RecordRepository<T> {
+  private ids: string[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly indexKey: string,
+    private readonly recordPrefix: string
+  ) {}
+
+  async loadAll(): Promise<T[] | null> {
+    const ids = await StorageManager.load<string[]>(this.indexKey);
+    if (!Array.isArray(ids)) {
+      this.ids = [];
+      return null;
+    }
+
+    const records = await StorageManager.loadMany<T>(ids.map(id => this.recordKey(id)));
+    const loaded = records.filter((record): record is T => record !== null);
+
+    // Drop index entries whose record is gone (e.g. quarantined)
+    this.ids = loaded.map(record => record.id);
+    return loaded;
+  }
+
+  add(item: T): Promise<void> {
+    return this.put(item);
+  }
+
+  put(item: T): Promise<void> {
+    return this.enqueue(async () => {
+      const ids = await this.getIds();
+      await StorageManager.save(this.recordKey(item.id), item);
+      if (!ids.includes(item.id)) {
+        this.ids = [...ids, item.id];
+        await StorageManager.save(this.indexKey, this.ids);
+      }
+    });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.removeMany([id]);
+  }
+
+  removeMany(ids: string[]): Promise<void> {
+    return this.enqueue(async () => {
+      const removing = new Set(ids);
+      const existing = await this.getIds();
+      this.ids = existing.filter(id => !removing.has(id));
+      await StorageManager.save(this.indexKey, this.ids);
+      await StorageManager.multiRemove(ids.map(id => this.recordKey(id)));
+    });
+  }
+
+  replaceAll(items: T[]): Promise<void> {
+    return this.enqueue(async () => {
+      const previousIds = await this.getIds();
+      const nextIds = items.map(item => item.id);
+
+      await StorageManager.saveMany(items.map(item => [this.recordKey(item.id), item] as [string, T]));
+      this.ids = nextIds;
+      await StorageManager.save(this.indexKey, nextIds);
+
+      const staleKeys = previousIds
+        .filter(id => !nextIds.includes(id))
+        .map(id => this.recordKey(id));
+      if (staleKeys.length > 0) {
+        await StorageManager.multiRemove(staleKeys);
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.replaceAll([]);
+  }
+
+  private recordKey(id: string): string {
+    return `${this.recordPrefix}${id}`;
+  }
+
+  private async getIds(): Promise<string[]> {
+    if (this.ids === null) {
+      const stored = await StorageManager.load<string[]>(this.indexKey);
+      this.ids = Array.isArray(stored) ? stored : [];
+    }
+    return this.ids;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    // Keep the queue alive after a failure; the caller still sees the error
+    this.writeQueue = run.catch(() => {});
+    return run;
+  }
+}
+
+// ============================================================================
+// REPOSITORY SET
+// ============================================================================
+
+/**
+ * Health data belonging to one profile; no two profiles share a key
+ */
+export interface ProfileRepositories {
+  symptomLogs: RecordRepository<SymptomLog>;
+  followUpQuestions: CollectionRepository<FollowUpQuestion>;
+  recommendations: CollectionRepository<MedicalRecommendation>;
+  completedRecommendations: CollectionRepository<CompletedRecommendation>;
+  appointments: CollectionRepository<any>;
+  processingJobs: CollectionRepository<ProcessingJob>;
+}
+
+export interface Repositories {
+  forProfile: (profileId: string) => ProfileRepositories;
+  deleteProfileData: (profileId: string) => Promise<void>;
+  profiles: DocumentRepository<Profile[]>;
+  activeProfileId: DocumentRepository<string>;
+  privacySettings: DocumentRepository<any>;
+  notificationSettings: DocumentRepository<any>;
+  tutorialState: DocumentRepository<any>;
+  onboardingComplete: DocumentRepository<string>;
+  retentionPurgeLog: DocumentRepository<PurgeLogEntry[]>;
+  audioSettings: DocumentRepository<AudioSettings>;
+}
+
+/**
+ * Create the repository set backed by StorageManager (and therefore by
+ * whichever StorageBackend it is configured with)
+ */
+export const createStorageRepositories = (): Repositories => {
+  // Cached so every context of a profile shares one record repository and its write queue
+  const profileRepositories = new Map<string, ProfileRepositories>();
+
+  const forProfile = (profileId: string): ProfileRepositories => {
+    if (!profileRepositories.has(profileId)) {
+      profileRepositories.set(profileId, {
+        symptomLogs: new KeyRecordRepository<SymptomLog>(symptomLogIndexKey(profileId), symptomLogRecordPrefix(profileId)),
+        followUpQuestions: new KeyCollectionRepository<FollowUpQuestion>(
+          profileScopedKey(STORAGE_KEYS.followUpQuestions, profileId)
+        ),
+        recommendations: new KeyCollectionRepository<MedicalRecommendation>(
+          profileScopedKey(STORAGE_KEYS.recommendations, profileId)
+        ),
+        completedRecommendations: new KeyCollectionRepository<CompletedRecommendation>(
+          profileScopedKey(STORAGE_KEYS.completedRecommendations, profileId)
+        ),
+        appointments: new KeyCollectionRepository<any>(profileScopedKey(STORAGE_KEYS.appointments, profileId)),
+        processingJobs: new KeyCollectionRepository<ProcessingJob>(processingQueueKey(profileId)),
+      });
+    }
+    return profileRepositories.get(profileId)!;
+  };
+
+  /**
+   * Remove every key a profile owns (audio files are the caller's job)
+   */
+  const deleteProfileData = async (profileId: string): Promise<void> => {
+    profileRepositories.delete(profileId);
+
+    const recordPrefix = symptomLogRecordPrefix(profileId);
+    const ownedKeys = new Set<string>([
+      symptomLogIndexKey(profileId),
+      processingQueueKey(profileId),
+      healthMemoryKey(profileId),
+      ...PROFILE_SCOPED_KEYS.map(baseKey => profileScopedKey(baseKey, profileId)),
+    ]);
+    const keys = (await StorageManager.getAllKeys()).filter(key => ownedKeys.has(key) || key.startsWith(recordPrefix));
+    if (keys.length > 0) {
+      await StorageManager.multiRemove(keys);
+    }
+  };
+
+  return {
+    forProfile,
+    deleteProfileData,
+    profiles: new KeyDocumentRepository<Profile[]>(STORAGE_KEYS.profiles),
+    activeProfileId: new KeyDocumentRepository<string>(STORAGE_KEYS.activeProfileId),
+    privacySettings: new KeyDocumentRepository<any>(STORAGE_KEYS.privacySettings),
+    notificationSettings: new KeyDocumentRepository<any>(STORAGE_KEYS.notificationSettings),
+    tutorialState: new KeyDocumentRepository<any>(STORAGE_KEYS.tutorialState),
+    onboardingComplete: new KeyDocumentRepository<string>(STORAGE_KEYS.onboardingComplete),
+    retentionPurgeLog: new KeyDocumentRepository<PurgeLogEntry[]>(STORAGE_KEYS.retentionPurgeLog),
+    audioSettings: new KeyDocumentRepository<AudioSettings>(STORAGE_KEYS.audioSettings),
+  };
+};
@@ -0,0 +1,172 @@
+import { SymptomLog, FollowUpQuestion, CompletedRecommendation } from '../types/recommendations';
+import { AppLanguage, I18n } from './i18n';
+
+// ============================================================================
+// DATA RETENTION - Decide what falls outside PrivacySettings.dataRetentionDays
+// ============================================================================
+//
+// PURPOSE: Pure selection of expired records, so the same logic drives the
+//          preview the user confirms and the purge that follows
+// USAGE: RetentionContext builds a preview of every profile once the data has
+//        loaded and on a timer, shows it, then deletes the previewed ids -
+//        through the data contexts for the active profile, and through the
+//        repositories for the others
+
+export const RETENTION_CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000; // Twice a day
+export const MAX_PURGE_LOG_ENTRIES = 50;
+
+/**
+ * Everything retention applies to, as currently held by the data contexts
+ */
+export interface RetentionData {
+  symptomLogs: SymptomLog[];
+  followUpQuestions: FollowUpQuestion[];
+  completedRecommendations: CompletedRecommendation[];
+  appointments: { id: string; date: Date }[];
+}
+
+export interface RetentionCounts {
+  symptomLogs: number;
+  audioFiles: number;
+  followUpQuestions: number;
+  completedRecommendations: number;
+  appointments: number;
+}
+
+// Order of the lines in describe()
+const RETENTION_COUNT_KEYS: (keyof RetentionCounts)[] = [
+  'symptomLogs',
+  'audioFiles',
+  'followUpQuestions',
+  'completedRecommendations',
+  'appointments',
+];
+
+/**
+ * What a purge would remove right now; shown to the user before anything is deleted
+ */
+export interface RetentionPreview {
+  retentionDays: number;
+  cutoff: Date;
+  symptomLogIds: string[];
+  audioURIs: string[];                 // Deleted along with their logs
+  followUpQuestionIds: string[];
+  completedRecommendationIds: string[];
+  appointmentIds: string[];
+  counts: RetentionCounts;
+  totalItems: number;
+}
+
+/**
+ * Previews of every profile on the device, against the same cutoff
+ */
+export interface DeviceRetentionPreview {
+  retentionDays: number;
+  cutoff: Date;
+  profiles: { profileId: string; preview: RetentionPreview }[]; // Only profiles with something to remove
+  counts: RetentionCounts;             // Summed over profiles
+  totalItems: number;
+}
+
+/**
+ * Persisted record of a completed purge (counts only - no health content)
+ */
+export interface PurgeLogEntry {
+  profileId?: string;                  // Absent on entries from before profiles existed
+  purgedAt: string;
+  retentionDays: number;
+  cutoff: string;
+  counts: RetentionCounts;
+  errors: string[];
+}
+
+const isBefore = (value: Date | string | undefined, cutoff: Date): boolean => {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return !isNaN(time) && time < cutoff.getTime();
+};
+
+export class RetentionPolicy {
+  /**
+   * Oldest moment still inside the retention window
+   */
+  static getCutoff(retentionDays: number, now: Date = new Date()): Date {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+    return cutoff;
+  }
+
+  /**
+   * Select every record older than the retention window
+   * Completed recommendations age from completion; appointments from their date
+   */
+  static preview(data: RetentionData, retentionDays: number, now: Date = new Date()): RetentionPreview {
+    const cutoff = this.getCutoff(retentionDays, now);
+
+    const expiredLogs = data.symptomLogs.filter(log => isBefore(log.timestamp, cutoff));
+    const audioURIs = expiredLogs
+      .map(log => log.audioURI)
+      .filter((uri): uri is string => typeof uri === 'string' && uri.length > 0);
+    const followUpQuestionIds = data.followUpQuestions
+      .filter(question => isBefore(question.timestamp, cutoff))
+      .map(question => question.id);
+    const completedRecommendationIds = data.completedRecommendations
+      .filter(recommendation => isBefore(recommendation.completedAt, cutoff))
+      .map(recommendation => recommendation.id);
+    const appointmentIds = data.appointments
+      .filter(appointment => isBefore(appointment.date, cutoff))
+      .map(appointment => appointment.id);
+
+    const counts: RetentionCounts = {
+      symptomLogs: expiredLogs.length,
+      audioFiles: audioURIs.length,
+      followUpQuestions: followUpQuestionIds.length,
+      completedRecommendations: completedRecommendationIds.length,
+      appointments: appointmentIds.length,
+    };
+
+    return {
+      retentionDays,
+      cutoff,
+      symptomLogIds: expiredLogs.map(log => log.id),
+      audioURIs,
+      followUpQuestionIds,
+      completedRecommendationIds,
+      appointmentIds,
+      counts,
+      // Audio files belong to logs already counted, so they don't add to the total
+      totalItems: counts.symptomLogs + counts.followUpQuestions + counts.completedRecommendations + counts.appointments,
+    };
+  }
+
+  /**
+   * Combine per-profile previews into the single preview the user confirms
+   */
+  static combine(previews: Record<string, RetentionPreview>, retentionDays: number, now: Date = new Date()): DeviceRetentionPreview {
+    const profiles = Object.entries(previews)
+      .filter(([, preview]) => preview.totalItems > 0)
+      .map(([profileId, preview]) => ({ profileId, preview }));
+
+    const counts = RETENTION_COUNT_KEYS.reduce((sum, key) => {
+      sum[key] = profiles.reduce((total, { preview }) => total + preview.counts[key], 0);
+      return sum;
+    }, {} as RetentionCounts);
+
+    return {
+      retentionDays,
+      cutoff: this.getCutoff(retentionDays, now),
+      profiles,
+      counts,
+      totalItems: profiles.reduce((total, { preview }) => total + preview.totalItems, 0),
+    };
+  }
+
+  /**
+   * Human-readable summary of a preview, one line per non-empty category
+   */
+  static describe(counts: RetentionCounts, language: AppLanguage): string[] {
+    return RETENTION_COUNT_KEYS
+      .filter(key => counts[key] > 0)
+      .map(key => I18n.translateCount(language, `privacy.retentionCount.${key}`, counts[key]));
+  }
+}
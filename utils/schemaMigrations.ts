@@ -0,0 +1,600 @@
+import {
+  StorageManager,
+  STORAGE_KEYS,
+  DEFAULT_PROFILE_ID,
+  PROFILE_SCOPED_KEYS,
+  ProfileScopedKey,
+  profileScopedKey,
+  symptomLogIndexKey,
+  symptomLogRecordPrefix,
+} from './storage';
+import { KeyRecordRepository } from './repositories';
+import { HealthTaxonomy } from './healthTaxonomy';
+
+// ============================================================================
+// SCHEMA MIGRATIONS - Versioned, resumable upgrades of stored entities
+// ============================================================================
+//
+// PURPOSE: Upgrade persisted data whenever the shape of SymptomLog,
+//          MedicalRecommendation or the settings objects changes, instead of
+//          letting validation filters silently drop records on load
+// USAGE: SchemaMigrations.run() once at startup in App.tsx, before contexts
+//        read their data
+//
+// ADDING A MIGRATION: append to MIGRATIONS with the next version number.
+// Migrations are pure functions over the serialized (JSON) entities - dates
+// are ISO strings here - and must never drop a record they can repair.
+
+/**
+ * One list per profile id; a profile with nothing stored has no entry
+ */
+export type ProfileCollections = { [profileId: string]: any[] };
+
+/**
+ * Every persisted entity, in its serialized JSON form
+ * Health data is per profile; settings are shared by the whole device
+ */
+export interface StoredEntities {
+  profiles: any[] | null;
+  symptomLogs: ProfileCollections;
+  followUpQuestions: ProfileCollections;
+  recommendations: ProfileCollections;
+  completedRecommendations: ProfileCollections;
+  appointments: ProfileCollections;
+  privacySettings: any | null;
+  notificationSettings: any | null;
+  tutorialState: any | null;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  migrate: (entities: StoredEntities) => StoredEntities;
+}
+
+/**
+ * Entity counts used to show what a migration step did to the data
+ */
+export interface EntityCounts {
+  profiles: number;
+  symptomLogs: number;
+  followUpQuestions: number;
+  recommendations: number;
+  appointments: number;
+  settings: number;
+}
+
+export interface MigrationStepReport {
+  version: number;
+  name: string;
+  before: EntityCounts;
+  after: EntityCounts;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  resumed: boolean;
+  steps: MigrationStepReport[];
+  errors: string[];
+  completedAt: string;
+}
+
+/**
+ * Checkpoint written before migrated entities are copied to their real keys.
+ * If the app is killed mid-write, the next run replays it instead of
+ * migrating half-written data a second time.
+ */
+interface MigrationStaging {
+  fromVersion: number;
+  targetVersion: number;
+  entities: StoredEntities;
+  steps: MigrationStepReport[];
+}
+
+// ============================================================================
+// MIGRATION HELPERS
+// ============================================================================
+
+const toISODate = (value: any, fallback: string): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  return value !== undefined && value !== null && !isNaN(date.getTime()) ? date.toISOString() : fallback;
+};
+
+const pickEnum = <T extends string>(value: any, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value) ? value : fallback;
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Entities from before schema v5 (old backups, staging) hold one list per
+ * entity instead of one per profile; those lists belong to the default profile
+ */
+const toProfileCollections = (value: any): ProfileCollections => {
+  if (Array.isArray(value)) return { [DEFAULT_PROFILE_ID]: value };
+  return isPlainObject(value) ? value : {};
+};
+
+const mapProfileCollections = (value: any, transform: (list: any[]) => any[]): any => {
+  if (Array.isArray(value)) return transform(value);
+  if (!isPlainObject(value)) return value;
+
+  const mapped: ProfileCollections = {};
+  for (const [profileId, list] of Object.entries<any>(value)) {
+    mapped[profileId] = Array.isArray(list) ? transform(list) : list;
+  }
+  return mapped;
+};
+
+/**
+ * Map whatever healthDomain a record holds onto the taxonomy; records without
+ * a recognizable one become general_wellness
+ */
+const normalizeHealthDomains = (list: any[]): any[] => list.map(item => (
+  isPlainObject(item) && !HealthTaxonomy.isHealthDomain(item.healthDomain)
+    ? { ...item, healthDomain: HealthTaxonomy.normalizeDomain(item.healthDomain).domain }
+    : item
+));
+
+/**
+ * Give recommendations from before provenance was recorded the ids of the
+ * logs whose summary they list in symptomsTriggering (all that was kept)
+ */
+const linkRecommendationSources = (recommendations: any[], logs: any[]): any[] => {
+  const idsBySummary = new Map<string, string[]>();
+  logs.filter(isPlainObject).forEach(log => {
+    if (typeof log.summary !== 'string' || typeof log.id !== 'string') return;
+    idsBySummary.set(log.summary, [...(idsBySummary.get(log.summary) || []), log.id]);
+  });
+
+  return recommendations.map(rec => {
+    if (!isPlainObject(rec) || rec.provenance !== undefined || !Array.isArray(rec.symptomsTriggering)) return rec;
+
+    const sourceLogIds = [...new Set(rec.symptomsTriggering.flatMap((summary: any) => idsBySummary.get(summary) || []))];
+    return sourceLogIds.length > 0 ? { ...rec, provenance: { sourceLogIds, patterns: [] } } : rec;
+  });
+};
+
+const countCollections = (value: any): number =>
+  Object.values(toProfileCollections(value)).reduce((total, list) => total + (Array.isArray(list) ? list.length : 0), 0);
+
+// ============================================================================
+// MIGRATION REGISTRY (ordered by version)
+// ============================================================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'repair-symptom-logs',
+    migrate: (entities) => {
+      const symptomLogs: StoredEntities['symptomLogs'] = {};
+
+      for (const [key, logs] of Object.entries(entities.symptomLogs)) {
+        symptomLogs[key] = logs
+          .filter(isPlainObject)
+          .map((log, index) => {
+            const timestamp = toISODate(log.timestamp, new Date(0).toISOString());
+            const transcript = typeof log.transcript === 'string' && log.transcript.trim()
+              ? log.transcript
+              : (typeof log.summary === 'string' ? log.summary : '');
+            const summary = typeof log.summary === 'string' && log.summary.trim()
+              ? log.summary
+              : 'General health concern';
+
+            return {
+              ...log,
+              id: typeof log.id === 'string' && log.id ? log.id : `${timestamp}-${index}`,
+              timestamp,
+              summary,
+              transcript: transcript.trim() ? transcript : summary,
+              healthDomain: typeof log.healthDomain === 'string' && log.healthDomain
+                ? log.healthDomain
+                : 'general_wellness',
+              severity: pickEnum(log.severity, ['mild', 'moderate', 'severe'] as const, 'mild'),
+              impact: pickEnum(log.impact, ['low', 'medium', 'high'] as const, 'low'),
+            };
+          });
+      }
+
+      return { ...entities, symptomLogs };
+    },
+  },
+  {
+    version: 2,
+    name: 'repair-follow-up-questions',
+    migrate: (entities) => {
+      const followUpQuestions = mapProfileCollections(entities.followUpQuestions, questions => questions
+        .filter(question => isPlainObject(question) && typeof question.question === 'string')
+        .map((question, index) => {
+          const timestamp = toISODate(question.timestamp, new Date(0).toISOString());
+          return {
+            ...question,
+            id: typeof question.id === 'string' && question.id ? question.id : `question-${timestamp}-${index}`,
+            questionType: typeof question.questionType === 'string' && question.questionType
+              ? question.questionType
+              : 'general',
+            timestamp,
+            isAnswered: typeof question.isAnswered === 'boolean' ? question.isAnswered : false,
+          };
+        }));
+
+      return { ...entities, followUpQuestions };
+    },
+  },
+  {
+    version: 3,
+    name: 'fill-settings-defaults',
+    migrate: (entities) => {
+      const privacySettings = isPlainObject(entities.privacySettings)
+        ? {
+            aiProcessingEnabled: true,
+            dataSharingEnabled: false,
+            analyticsEnabled: false,
+            lastPrivacyUpdate: null,
+            encryptionEnabled: true,
+            ...entities.privacySettings,
+            dataRetentionDays: typeof entities.privacySettings.dataRetentionDays === 'number' &&
+              entities.privacySettings.dataRetentionDays >= 1
+              ? entities.privacySettings.dataRetentionDays
+              : 365,
+          }
+        : entities.privacySettings;
+
+      const notificationSettings = isPlainObject(entities.notificationSettings)
+        ? {
+            enabled: true,
+            dailyReminderEnabled: false,
+            frequency: 'Daily',
+            ...entities.notificationSettings,
+            dailyReminderTime: toISODate(
+              entities.notificationSettings.dailyReminderTime,
+              new Date(2024, 0, 1, 9, 0, 0).toISOString()
+            ),
+            time: toISODate(entities.notificationSettings.time, new Date().toISOString()),
+          }
+        : entities.notificationSettings;
+
+      const tutorialState = isPlainObject(entities.tutorialState)
+        ? {
+            hasSeenOnboarding: false,
+            hasSeenSymptomTutorial: false,
+            hasSeenRecommendationTutorial: false,
+            hasSeenAppointmentTutorial: false,
+            showOnboardingTutorial: false,
+            ...entities.tutorialState,
+          }
+        : entities.tutorialState;
+
+      return { ...entities, privacySettings, notificationSettings, tutorialState };
+    },
+  },
+  {
+    // No shape change: committing rewrites symptom logs from the legacy
+    // whole-array keys into one record per key plus an id index
+    version: 4,
+    name: 'move-symptom-logs-to-record-storage',
+    migrate: (entities) => entities,
+  },
+  {
+    // Older data belongs to whoever used the app before profiles existed.
+    // Committing moves the lists from their shared keys to profileScopedKey()
+    version: 5,
+    name: 'scope-entities-by-profile',
+    migrate: (entities) => {
+      const symptomLogs: StoredEntities['symptomLogs'] = {};
+      for (const [owner, logs] of Object.entries(entities.symptomLogs)) {
+        // SymptomLogsContext never had a user id, so its logs were stored under "null"
+        const profileId = owner === 'null' ? DEFAULT_PROFILE_ID : owner;
+        symptomLogs[profileId] = [...(symptomLogs[profileId] || []), ...logs];
+      }
+
+      return {
+        ...entities,
+        profiles: Array.isArray(entities.profiles) ? entities.profiles : null,
+        symptomLogs,
+        followUpQuestions: toProfileCollections(entities.followUpQuestions),
+        recommendations: toProfileCollections(entities.recommendations),
+        completedRecommendations: toProfileCollections(entities.completedRecommendations),
+        appointments: toProfileCollections(entities.appointments),
+      };
+    },
+  },
+  {
+    // Model output was stored unchecked, so logs hold domains such as
+    // "cardiovascular" or "pain_management" that HealthDomain never had
+    version: 6,
+    name: 'normalize-health-domains',
+    migrate: (entities) => ({
+      ...entities,
+      symptomLogs: mapProfileCollections(entities.symptomLogs, normalizeHealthDomains),
+      recommendations: mapProfileCollections(entities.recommendations, normalizeHealthDomains),
+    }),
+  },
+  {
+    // Recommendations only kept free-text symptom summaries; link them back
+    // to the recordings so "Why am I seeing this?" has something to show
+    version: 7,
+    name: 'link-recommendation-sources',
+    migrate: (entities) => {
+      const recommendations = toProfileCollections(entities.recommendations);
+      const linked: ProfileCollections = {};
+      for (const [profileId, list] of Object.entries(recommendations)) {
+        linked[profileId] = Array.isArray(list)
+          ? linkRecommendationSources(list, entities.symptomLogs[profileId] || [])
+          : list;
+      }
+      return { ...entities, recommendations: linked };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length > 0
+  ? MIGRATIONS[MIGRATIONS.length - 1].version
+  : 0;
+
+// ============================================================================
+// MIGRATION RUNNER
+// ============================================================================
+
+export class SchemaMigrations {
+  /**
+   * Run all pending migrations and persist a report of what happened
+   * Safe to call on every launch - it is a no-op once data is current
+   */
+  static async run(): Promise<MigrationReport> {
+    const fromVersion = await this.getStoredVersion();
+    const report: MigrationReport = {
+      fromVersion,
+      toVersion: fromVersion,
+      resumed: false,
+      steps: [],
+      errors: [],
+      completedAt: new Date().toISOString(),
+    };
+
+    try {
+      // Step 1: Finish an interrupted run before doing anything else
+      const staging = await StorageManager.load<MigrationStaging>(STORAGE_KEYS.schemaMigrationStaging);
+      if (staging && staging.targetVersion > fromVersion) {
+        console.log(`🔄 Resuming interrupted schema migration to v${staging.targetVersion}`);
+        await this.commit(staging);
+        report.resumed = true;
+        report.fromVersion = staging.fromVersion;
+        report.toVersion = staging.targetVersion;
+        report.steps = staging.steps;
+      } else if (staging) {
+        await StorageManager.remove(STORAGE_KEYS.schemaMigrationStaging);
+      }
+
+      // Step 2: Apply remaining migrations in order
+      const pending = MIGRATIONS
+        .filter(migration => migration.version > report.toVersion)
+        .sort((a, b) => a.version - b.version);
+
+      if (pending.length > 0) {
+        const { entities, steps, targetVersion } = this.migrateEntities(await this.loadEntities(), report.toVersion);
+        const nextStaging: MigrationStaging = {
+          fromVersion: report.toVersion,
+          targetVersion,
+          entities,
+          steps,
+        };
+
+        await StorageManager.save(STORAGE_KEYS.schemaMigrationStaging, nextStaging);
+        await this.commit(nextStaging);
+
+        report.toVersion = targetVersion;
+        report.steps = [...report.steps, ...steps];
+      }
+    } catch (error) {
+      console.error('Schema migration failed:', error);
+      report.errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    report.completedAt = new Date().toISOString();
+    try {
+      await StorageManager.save(STORAGE_KEYS.schemaMigrationReport, report);
+    } catch (error) {
+      console.error('Error saving schema migration report:', error);
+    }
+
+    return report;
+  }
+
+  /**
+   * Get the schema version of the data currently on disk
+   */
+  static async getStoredVersion(): Promise<number> {
+    const version = await StorageManager.load<number>(STORAGE_KEYS.schemaVersion);
+    return typeof version === 'number' ? version : 0;
+  }
+
+  /**
+   * Get the report from the most recent migration run
+   */
+  static async getLastReport(): Promise<MigrationReport | null> {
+    return StorageManager.load<MigrationReport>(STORAGE_KEYS.schemaMigrationReport);
+  }
+
+  /**
+   * Apply every migration newer than fromVersion to in-memory entities
+   * Pure - nothing is written; also used to upgrade imported backups
+   */
+  static migrateEntities(entities: StoredEntities, fromVersion: number): {
+    entities: StoredEntities;
+    steps: MigrationStepReport[];
+    targetVersion: number;
+  } {
+    const pending = MIGRATIONS
+      .filter(migration => migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+
+    const steps: MigrationStepReport[] = [];
+    let migrated = entities;
+
+    for (const migration of pending) {
+      const before = this.countEntities(migrated);
+      migrated = migration.migrate(migrated);
+      const after = this.countEntities(migrated);
+      steps.push({ version: migration.version, name: migration.name, before, after });
+      console.log(`🔄 Schema migration v${migration.version} (${migration.name}) applied`);
+    }
+
+    return {
+      entities: migrated,
+      steps,
+      targetVersion: pending.length > 0 ? pending[pending.length - 1].version : fromVersion,
+    };
+  }
+
+  /**
+   * Read every persisted entity in its serialized form, from either symptom
+   * log layout and from shared (pre-v5) or per-profile list keys
+   */
+  static async loadEntities(): Promise<StoredEntities> {
+    const keys = await StorageManager.getAllKeys();
+    const symptomLogs: StoredEntities['symptomLogs'] = {};
+
+    // Legacy layout: one array per user under symptomLogs_<userId>
+    for (const key of keys.filter(k => k.startsWith(STORAGE_KEYS.symptomLogsPrefix))) {
+      const logs = await StorageManager.load<any[]>(key);
+      if (Array.isArray(logs)) {
+        symptomLogs[key.slice(STORAGE_KEYS.symptomLogsPrefix.length)] = logs;
+      }
+    }
+
+    // Record layout: an id index per user plus one key per log
+    for (const key of keys.filter(k => k.startsWith(STORAGE_KEYS.symptomLogIndexPrefix))) {
+      const userId = key.slice(STORAGE_KEYS.symptomLogIndexPrefix.length);
+      const ids = await StorageManager.load<string[]>(key);
+      if (!Array.isArray(ids)) continue;
+
+      const records = (await StorageManager.loadMany<any>(ids.map(id => `${symptomLogRecordPrefix(userId)}${id}`)))
+        .filter(record => record !== null);
+      const recordIds = new Set(records.map(record => record.id));
+      const legacyOnly = (symptomLogs[userId] || []).filter(log => !recordIds.has(log?.id));
+      symptomLogs[userId] = [...legacyOnly, ...records];
+    }
+
+    const loadCollections = async (baseKey: ProfileScopedKey): Promise<ProfileCollections> => {
+      const collections: ProfileCollections = {};
+
+      // Shared layout: one list for the whole device, owned by the default profile
+      const shared = await StorageManager.load<any[]>(baseKey);
+      if (Array.isArray(shared)) {
+        collections[DEFAULT_PROFILE_ID] = shared;
+      }
+
+      // Per-profile layout wins over the shared list if both exist
+      for (const key of keys.filter(k => k.startsWith(`${baseKey}:`))) {
+        const list = await StorageManager.load<any[]>(key);
+        if (Array.isArray(list)) {
+          collections[key.slice(baseKey.length + 1)] = list;
+        }
+      }
+      return collections;
+    };
+
+    return {
+      profiles: await StorageManager.load<any[]>(STORAGE_KEYS.profiles),
+      symptomLogs,
+      followUpQuestions: await loadCollections(STORAGE_KEYS.followUpQuestions),
+      recommendations: await loadCollections(STORAGE_KEYS.recommendations),
+      completedRecommendations: await loadCollections(STORAGE_KEYS.completedRecommendations),
+      appointments: await loadCollections(STORAGE_KEYS.appointments),
+      privacySettings: await StorageManager.load(STORAGE_KEYS.privacySettings),
+      notificationSettings: await StorageManager.load(STORAGE_KEYS.notificationSettings),
+      tutorialState: await StorageManager.load(STORAGE_KEYS.tutorialState),
+    };
+  }
+
+  /**
+   * Write serialized entities to their real keys (symptom logs in the record
+   * layout, lists per profile). Entities are the complete data set: stored
+   * health data of a profile missing from them is deleted.
+   */
+  static async saveEntities(entities: StoredEntities): Promise<void> {
+    for (const [owner, logs] of Object.entries(entities.symptomLogs)) {
+      // Staging written by older builds is keyed by the legacy storage key
+      const profileId = owner.startsWith(STORAGE_KEYS.symptomLogsPrefix)
+        ? owner.slice(STORAGE_KEYS.symptomLogsPrefix.length)
+        : owner;
+      const repository = new KeyRecordRepository<any>(symptomLogIndexKey(profileId), symptomLogRecordPrefix(profileId));
+      await repository.replaceAll(logs);
+    }
+
+    const collections: [ProfileScopedKey, any][] = [
+      [STORAGE_KEYS.followUpQuestions, entities.followUpQuestions],
+      [STORAGE_KEYS.recommendations, entities.recommendations],
+      [STORAGE_KEYS.completedRecommendations, entities.completedRecommendations],
+      [STORAGE_KEYS.appointments, entities.appointments],
+    ];
+
+    const writtenKeys = new Set<string>();
+    for (const [baseKey, value] of collections) {
+      for (const [profileId, list] of Object.entries(toProfileCollections(value))) {
+        const key = profileScopedKey(baseKey, profileId);
+        await StorageManager.save(key, list);
+        writtenKeys.add(key);
+      }
+    }
+
+    // Remove legacy shared keys and anything owned by a profile no longer present
+    const symptomLogOwners = new Set(Object.keys(entities.symptomLogs).map(owner => symptomLogIndexKey(owner)));
+    const staleKeys = (await StorageManager.getAllKeys()).filter(key => {
+      if (key.startsWith(STORAGE_KEYS.symptomLogsPrefix)) return true;
+      if ((PROFILE_SCOPED_KEYS as readonly string[]).includes(key)) return true;
+      if (PROFILE_SCOPED_KEYS.some(baseKey => key.startsWith(`${baseKey}:`))) return !writtenKeys.has(key);
+      if (key.startsWith(STORAGE_KEYS.symptomLogIndexPrefix)) return !symptomLogOwners.has(key);
+      if (key.startsWith(STORAGE_KEYS.symptomLogRecordPrefix)) {
+        const owner = key.slice(STORAGE_KEYS.symptomLogRecordPrefix.length).split(':')[0];
+        return !symptomLogOwners.has(symptomLogIndexKey(owner));
+      }
+      return false;
+    });
+    if (staleKeys.length > 0) {
+      await StorageManager.multiRemove(staleKeys);
+    }
+
+    const singleKeys: [string, any][] = [
+      [STORAGE_KEYS.profiles, entities.profiles],
+      [STORAGE_KEYS.privacySettings, entities.privacySettings],
+      [STORAGE_KEYS.notificationSettings, entities.notificationSettings],
+      [STORAGE_KEYS.tutorialState, entities.tutorialState],
+    ];
+
+    for (const [key, value] of singleKeys) {
+      // Absent entities stay absent - migrations never create settings from nothing
+      if (value !== null && value !== undefined) {
+        await StorageManager.save(key, value);
+      }
+    }
+  }
+
+  static countEntities(entities: StoredEntities): EntityCounts {
+    return {
+      profiles: Array.isArray(entities.profiles) ? entities.profiles.length : 0,
+      symptomLogs: countCollections(entities.symptomLogs),
+      followUpQuestions: countCollections(entities.followUpQuestions),
+      recommendations: countCollections(entities.recommendations) + countCollections(entities.completedRecommendations),
+      appointments: countCollections(entities.appointments),
+      settings: [entities.privacySettings, entities.notificationSettings, entities.tutorialState]
+        .filter(value => value !== null && value !== undefined).length,
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Write staged entities to their real keys, then bump the version
+   * Replaying a commit is idempotent, which is what makes runs resumable
+   */
+  private static async commit(staging: MigrationStaging): Promise<void> {
+    await this.saveEntities(staging.entities);
+    await StorageManager.save(STORAGE_KEYS.schemaVersion, staging.targetVersion);
+    await StorageManager.remove(STORAGE_KEYS.schemaMigrationStaging);
+  }
+}
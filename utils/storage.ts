@@ -1,5 +1,107 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { DataEncryption } from './encryption';
+import { DataEncryption, DecryptionError, KeyUnavailableError } from './encryption';
+import { StorageBackend, AsyncStorageBackend } from './storageBackends';
+
+// ============================================================================
+// STORAGE KEYS - Single source of truth for persisted entity keys
+// ============================================================================
+
+export const STORAGE_KEYS = {
+  symptomLogsPrefix: 'symptomLogs_', // Legacy whole-array layout, migrated in schema v4
+  symptomLogIndexPrefix: 'symptomLogIndex:',
+  symptomLogRecordPrefix: 'symptomLog:',
+  followUpQuestions: 'follow_up_questions', // Per-profile lists are stored under profileScopedKey()
+  recommendations: 'recommendations',
+  completedRecommendations: 'completed_recommendations',
+  appointments: 'appointments',
+  privacySettings: 'privacySettings',
+  notificationSettings: '@nexst:notification_settings',
+  tutorialState: 'tutorialState',
+  onboardingComplete: 'onboardingComplete',
+  schemaVersion: 'schemaVersion',
+  schemaMigrationStaging: 'schemaMigrationStaging',
+  schemaMigrationReport: 'schemaMigrationReport',
+  quarantinePrefix: 'quarantine:',
+  retentionPurgeLog: 'retentionPurgeLog',
+  audioSettings: 'audioSettings',
+  profiles: 'profiles',
+  activeProfileId: 'activeProfileId',
+  structuredOutputLog: 'structuredOutputLog',
+  costLedger: 'costLedger',
+  aiBudgetSettings: 'aiBudgetSettings',
+  processingQueuePrefix: 'processingQueue:',
+  healthMemoryPrefix: 'healthMemory:',
+  pipelineTraces: 'pipelineTraces',
+  storageFallback: 'storageFallback', // Set while data is written to AsyncStorage because SQLite failed to open
+} as const;
+
+/**
+ * Profile that owns data created before profiles existed
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * List entities stored once per profile (symptom logs are per-profile through their own keys)
+ */
+export const PROFILE_SCOPED_KEYS = [
+  STORAGE_KEYS.followUpQuestions,
+  STORAGE_KEYS.recommendations,
+  STORAGE_KEYS.completedRecommendations,
+  STORAGE_KEYS.appointments,
+] as const;
+
+export type ProfileScopedKey = typeof PROFILE_SCOPED_KEYS[number];
+
+export const profileScopedKey = (baseKey: ProfileScopedKey, profileId: string): string =>
+  `${baseKey}:${profileId}`;
+
+/**
+ * Storage keys for a profile's symptom logs (one record per key plus an id index)
+ * Logs written before profiles existed are owned by "null", moved in schema v5
+ */
+export const symptomLogIndexKey = (profileId: string): string =>
+  `${STORAGE_KEYS.symptomLogIndexPrefix}${profileId}`;
+
+export const symptomLogRecordPrefix = (profileId: string): string =>
+  `${STORAGE_KEYS.symptomLogRecordPrefix}${profileId}:`;
+
+/**
+ * Storage key for a profile's queue of recordings awaiting processing
+ * (kept out of PROFILE_SCOPED_KEYS so schema migrations leave it alone)
+ */
+export const processingQueueKey = (profileId: string): string =>
+  `${STORAGE_KEYS.processingQueuePrefix}${profileId}`;
+
+/**
+ * Storage key for a profile's persisted health memory (see HealthMemoryStore)
+ */
+export const healthMemoryKey = (profileId: string): string =>
+  `${STORAGE_KEYS.healthMemoryPrefix}${profileId}`;
+
+// ============================================================================
+// QUARANTINE TYPES - Corrupted payloads are kept aside instead of deleted
+// ============================================================================
+
+export interface QuarantineEntry {
+  originalKey: string;
+  payload: string; // Raw stored string, exactly as it was found
+  error: string;
+  quarantinedAt: string;
+  salvagedRecords?: number;
+}
+
+export interface QuarantinedRecord extends QuarantineEntry {
+  quarantineKey: string;
+}
+
+export interface RecoveryResult {
+  quarantineKey: string;
+  originalKey: string;
+  status: 'restored' | 'partial' | 'conflict' | 'unrecoverable';
+  salvagedRecords: number;
+}
+
+const isQuarantineKey = (key: string): boolean =>
+  key.startsWith(STORAGE_KEYS.quarantinePrefix);
 
 // ============================================================================
 // ENCRYPTED STORAGE MANAGER - Maximum Security for User Data
@@ -10,14 +112,88 @@ import { DataEncryption } from './encryption';
  * All user data is encrypted to maximize security and privacy
  */
 export class StorageManager {
+  private static backend: StorageBackend = new AsyncStorageBackend();
+
+  /**
+   * Swap the persistence backend (e.g. in-memory for tests and previews)
+   * Must be called before any context loads data
+   */
+  static configure(backend: StorageBackend): void {
+    this.backend = backend;
+    console.log(`🗄️ Storage backend: ${backend.name}`);
+  }
+
+  static getBackend(): StorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * Copy every key from the current backend into another, switch to it, then
+   * empty the old one. Values are copied as stored (already encrypted).
+   * Which copy wins when both backends hold a key:
+   * - After recordFallback() the app wrote to the current backend, so its copies win
+   * - Otherwise a run copied them but couldn't empty it, and the app has
+   *   written to the target since, so the target's copies win
+   * Must be called before any context loads data
+   *
+   * @returns Number of keys copied
+   */
+  static async migrateTo(target: StorageBackend): Promise<number> {
+    const source = this.backend;
+    const sourceKeys = await source.getAllKeys();
+    const sourceWins = sourceKeys.includes(STORAGE_KEYS.storageFallback);
+    const targetKeys = new Set(await target.getAllKeys());
+
+    const copying = sourceKeys.filter(key =>
+      key !== STORAGE_KEYS.storageFallback && (sourceWins || !targetKeys.has(key))
+    );
+    const entries = (await source.multiGet(copying))
+      .filter((entry): entry is [string, string] => entry[1] !== null);
+    if (entries.length > 0) {
+      await target.multiSet(entries);
+    }
+
+    // Once the target is in use its copies must win, so drop the marker before switching;
+    // if that fails the caller stays on the source, which still holds everything
+    if (sourceWins) {
+      await source.removeItem(STORAGE_KEYS.storageFallback);
+    }
+    this.configure(target);
+
+    const leftoverKeys = sourceKeys.filter(key => key !== STORAGE_KEYS.storageFallback);
+    if (leftoverKeys.length > 0) {
+      try {
+        await source.multiRemove(leftoverKeys);
+      } catch (error) {
+        // Harmless: the target's copies win next time
+        console.warn(`⚠️ Could not empty ${source.name} after migrating:`, error);
+      }
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Note that the app is carrying on with the current backend because
+   * migrateTo() failed, so the next successful migration keeps its copies
+   */
+  static async recordFallback(): Promise<void> {
+    try {
+      await this.save(STORAGE_KEYS.storageFallback, { since: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error recording storage fallback:', error);
+    }
+  }
+
   /**
-   * Save data to AsyncStorage with encryption
+   * Save data to the storage backend with encryption
    */
   static async save<T>(key: string, data: T): Promise<void> {
     try {
-      // Encrypt data before storage for maximum security
-      const encryptedData = DataEncryption.encrypt(JSON.stringify(data));
-      await AsyncStorage.setItem(key, encryptedData);
+      await this.ensureDataKeyMayBeCreated();
+      // Encrypt data before storage, binding the ciphertext to its key
+      const encryptedData = await DataEncryption.encrypt(JSON.stringify(data), key);
+      await this.backend.setItem(key, encryptedData);
     } catch (error) {
       console.error(`Error saving encrypted data for key ${key}:`, error);
       throw error;
@@ -25,68 +201,81 @@ export class StorageManager {
   }
 
   /**
-   * Load data from AsyncStorage with decryption
+   * Save several keys in one backend round trip
    */
-  static async load<T>(key: string): Promise<T | null> {
+  static async saveMany<T>(entries: [string, T][]): Promise<void> {
     try {
-      const storedData = await AsyncStorage.getItem(key);
-      if (!storedData) return null;
-      
-      // Check if the data is Base64 encoded (encrypted) or plain text (legacy)
-      let decryptedData: string;
-      
-      if (DataEncryption.isValidBase64(storedData)) {
-        // Data is encrypted, decrypt it
-        try {
-          decryptedData = DataEncryption.decrypt(storedData);
-        } catch (decryptError) {
-          console.warn(`Decryption failed for key ${key}, treating as legacy data:`, decryptError);
-          decryptedData = storedData; // Use as-is if decryption fails
-        }
-      } else {
-        // Data is not encrypted (legacy data), use as-is
-        console.log(`Key ${key} contains legacy (non-encrypted) data`);
-        decryptedData = storedData;
-      }
-      
-      // Validate that the decrypted data is valid JSON
-      if (!decryptedData || typeof decryptedData !== 'string') {
-        console.warn(`Invalid decrypted data for key ${key}, removing corrupted data`);
-        await AsyncStorage.removeItem(key);
-        return null;
-      }
-      
-      try {
-        return JSON.parse(decryptedData);
-      } catch (parseError) {
-        console.error(`JSON parse error for key ${key}:`, parseError);
-        console.error(`Raw decrypted data:`, decryptedData);
-        
-        // Remove corrupted data to prevent future errors
-        await AsyncStorage.removeItem(key);
-        return null;
+      await this.ensureDataKeyMayBeCreated();
+      const encrypted: [string, string][] = [];
+      for (const [key, data] of entries) {
+        encrypted.push([key, await DataEncryption.encrypt(JSON.stringify(data), key)]);
       }
+      await this.backend.multiSet(encrypted);
     } catch (error) {
-      console.error(`Error loading data for key ${key}:`, error);
-      
-      // If there's an error, try to remove the corrupted data
+      console.error(`Error saving ${entries.length} encrypted keys:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load data from the storage backend with decryption
+   * Legacy (Base64 or plain JSON) payloads are re-saved as ciphertext on read.
+   * Payloads that fail to decrypt or parse are quarantined, never deleted.
+   * @throws DecryptionError if an encrypted payload fails authentication
+   * @throws KeyUnavailableError if the data key can't be read (nothing is quarantined)
+   */
+  static async load<T>(key: string): Promise<T | null> {
+    let storedData: string | null;
+    try {
+      storedData = await this.backend.getItem(key);
+    } catch (error) {
+      console.error(`Error reading data for key ${key}:`, error);
+      return null;
+    }
+    return this.decode<T>(key, storedData);
+  }
+
+  /**
+   * Load several keys in one backend round trip
+   * Missing or corrupted keys come back as null; results keep the key order
+   * @throws DecryptionError if any encrypted payload fails authentication
+   * @throws KeyUnavailableError if the data key can't be read
+   */
+  static async loadMany<T>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) return [];
+
+    let entries: [string, string | null][];
+    try {
+      entries = await this.backend.multiGet(keys);
+    } catch (error) {
+      console.error(`Error reading ${keys.length} keys:`, error);
+      return keys.map(() => null);
+    }
+
+    const results: (T | null)[] = [];
+    let decryptionError: DecryptionError | null = null;
+    for (const [key, storedData] of entries) {
       try {
-        await AsyncStorage.removeItem(key);
-        console.log(`Removed corrupted data for key ${key}`);
-      } catch (removeError) {
-        console.error(`Error removing corrupted data for key ${key}:`, removeError);
+        results.push(await this.decode<T>(key, storedData));
+      } catch (error) {
+        if (!(error instanceof DecryptionError)) throw error;
+        decryptionError = error;
+        results.push(null);
       }
-      
-      return null;
     }
+
+    if (decryptionError) {
+      throw decryptionError;
+    }
+    return results;
   }
 
   /**
-   * Remove data from AsyncStorage
+   * Remove data from the storage backend
    */
   static async remove(key: string): Promise<void> {
     try {
-      await AsyncStorage.removeItem(key);
+      await this.backend.removeItem(key);
     } catch (error) {
       console.error(`Error removing data for key ${key}:`, error);
       throw error;
@@ -94,12 +283,12 @@ export class StorageManager {
   }
 
   /**
-   * Clear all data from AsyncStorage
+   * Clear all data from the storage backend
    */
   static async clearAll(): Promise<void> {
     try {
-      await AsyncStorage.clear();
-      console.log('✅ All data cleared from AsyncStorage');
+      await this.backend.clear();
+      console.log('✅ All data cleared from storage');
     } catch (error) {
       console.error('Error clearing all data:', error);
       throw error;
@@ -107,12 +296,11 @@ export class StorageManager {
   }
 
   /**
-   * Get all keys from AsyncStorage
+   * Get all keys from the storage backend
    */
   static async getAllKeys(): Promise<string[]> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      return keys as string[];
+      return await this.backend.getAllKeys();
     } catch (error) {
       console.error('Error getting all keys:', error);
       return [];
@@ -120,12 +308,12 @@ export class StorageManager {
   }
 
   /**
-   * Remove multiple keys from AsyncStorage
+   * Remove multiple keys from the storage backend
    */
   static async multiRemove(keys: string[]): Promise<void> {
     try {
-      await AsyncStorage.multiRemove(keys);
-      console.log(`✅ Removed ${keys.length} keys from AsyncStorage`);
+      await this.backend.multiRemove(keys);
+      console.log(`✅ Removed ${keys.length} keys from storage`);
     } catch (error) {
       console.error('Error removing multiple keys:', error);
       throw error;
@@ -163,19 +351,15 @@ export class StorageManager {
         try {
           const data = await this.load(key);
           if (data === null) {
-            // Data was corrupted and removed during load
+            // Data was corrupted and quarantined during load
             corruptedCount++;
           } else {
             migratedCount++;
           }
         } catch (error) {
-          console.warn(`Removing corrupted key ${key}:`, error);
-          try {
-            await AsyncStorage.removeItem(key);
-            corruptedCount++;
-          } catch (removeError) {
-            console.error(`Failed to remove corrupted key ${key}:`, removeError);
-          }
+          // Undecryptable payloads were already quarantined by load
+          console.warn(`Corrupted key ${key}:`, error);
+          corruptedCount++;
         }
       }
 
@@ -186,7 +370,7 @@ export class StorageManager {
   }
 
   /**
-   * Migrate legacy (non-encrypted) data to encrypted format
+   * Migrate legacy (Base64 or plain JSON) data to the encrypted envelope format
    */
   static async migrateLegacyData(): Promise<void> {
     try {
@@ -196,13 +380,13 @@ export class StorageManager {
 
       for (const key of keys) {
         try {
-          const rawData = await AsyncStorage.getItem(key);
-          if (rawData && !DataEncryption.isValidBase64(rawData)) {
+          const rawData = await this.backend.getItem(key);
+          if (rawData && !DataEncryption.isEncryptedEnvelope(rawData)) {
             // This is legacy data, migrate it to encrypted format
             console.log(`Migrating legacy data for key: ${key}`);
             
             // Parse the legacy data
-            const legacyData = JSON.parse(rawData);
+            const legacyData = JSON.parse(DataEncryption.decodeLegacy(rawData));
             
             // Save it in encrypted format
             await this.save(key, legacyData);
@@ -223,18 +407,18 @@ export class StorageManager {
   /**
    * Check data health and report issues
    */
-  static async checkDataHealth(): Promise<{ healthy: boolean; totalKeys: number; corruptedKeys: number; errors: string[] }> {
+  static async checkDataHealth(): Promise<{ healthy: boolean; totalKeys: number; corruptedKeys: number; quarantinedKeys: string[]; errors: string[] }> {
     try {
       const keys = await this.getAllKeys();
       const errors: string[] = [];
       let corruptedKeys = 0;
 
-      for (const key of keys) {
+      for (const key of keys.filter(k => !isQuarantineKey(k))) {
         try {
           const data = await this.load(key);
           if (data === null) {
             corruptedKeys++;
-            errors.push(`Key ${key}: Data corrupted and removed`);
+            errors.push(`Key ${key}: Data corrupted and quarantined`);
           }
         } catch (error) {
           corruptedKeys++;
@@ -242,12 +426,15 @@ export class StorageManager {
         }
       }
 
-      const healthy = corruptedKeys === 0;
+      // Re-read keys so anything quarantined during this check is reported
+      const quarantinedKeys = (await this.getAllKeys()).filter(isQuarantineKey);
+      const healthy = corruptedKeys === 0 && quarantinedKeys.length === 0;
       
       return {
         healthy,
         totalKeys: keys.length,
         corruptedKeys,
+        quarantinedKeys,
         errors
       };
     } catch (error) {
@@ -256,8 +443,261 @@ export class StorageManager {
         healthy: false,
         totalKeys: 0,
         corruptedKeys: 0,
+        quarantinedKeys: [],
         errors: [`Data health check failed: ${error}`]
       };
     }
   }
-} 
\ No newline at end of file
+
+  // ============================================================================
+  // QUARANTINE AND RECOVERY
+  // ============================================================================
+
+  /**
+   * Get every quarantined payload with its error and timestamp
+   */
+  static async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    const keys = (await this.getAllKeys()).filter(isQuarantineKey);
+    const records: QuarantinedRecord[] = [];
+
+    for (const quarantineKey of keys) {
+      const entry = await this.load<QuarantineEntry>(quarantineKey);
+      if (entry) {
+        records.push({ ...entry, quarantineKey });
+      }
+    }
+
+    return records.sort((a, b) => a.quarantinedAt.localeCompare(b.quarantinedAt));
+  }
+
+  /**
+   * Permanently discard quarantined payloads (all of them by default)
+   */
+  static async discardQuarantined(quarantineKeys?: string[]): Promise<void> {
+    const keys = quarantineKeys ?? (await this.getAllKeys()).filter(isQuarantineKey);
+    if (keys.length > 0) {
+      await this.multiRemove(keys.filter(isQuarantineKey));
+    }
+  }
+
+  /**
+   * Recovery pass over quarantined payloads
+   * 
+   * Workflow:
+   * 1. Decode the payload (decrypt, or decode legacy Base64)
+   * 2. If it parses as a whole, restore it (merging arrays into newer data)
+   * 3. Otherwise salvage whichever array elements still parse on their own
+   * 
+   * Fully restored entries leave quarantine; partial ones stay so the rest
+   * can still be exported or discarded explicitly.
+   */
+  static async recoverQuarantined(): Promise<RecoveryResult[]> {
+    const results: RecoveryResult[] = [];
+
+    for (const record of await this.getQuarantinedRecords()) {
+      const result: RecoveryResult = {
+        quarantineKey: record.quarantineKey,
+        originalKey: record.originalKey,
+        status: 'unrecoverable',
+        salvagedRecords: 0,
+      };
+
+      try {
+        let text: string;
+        try {
+          text = DataEncryption.isEncryptedEnvelope(record.payload)
+            ? await DataEncryption.decrypt(record.payload, record.originalKey)
+            : DataEncryption.decodeLegacy(record.payload);
+        } catch {
+          results.push(result);
+          continue;
+        }
+
+        let restored: any;
+        let isComplete = true;
+        try {
+          restored = JSON.parse(text);
+        } catch {
+          restored = this.salvageArrayElements(text);
+          isComplete = false;
+        }
+
+        if (restored === null || (!isComplete && restored.length === 0)) {
+          results.push(result);
+          continue;
+        }
+
+        const current = await this.load<any>(record.originalKey);
+        if (current === null) {
+          await this.save(record.originalKey, restored);
+        } else if (Array.isArray(current) && Array.isArray(restored)) {
+          await this.save(record.originalKey, this.mergeRecords(current, restored));
+        } else {
+          // Newer, non-mergeable data exists under the key - never overwrite it
+          result.status = 'conflict';
+          results.push(result);
+          continue;
+        }
+
+        result.salvagedRecords = Array.isArray(restored) ? restored.length : 1;
+        if (isComplete) {
+          result.status = 'restored';
+          await this.remove(record.quarantineKey);
+        } else {
+          result.status = 'partial';
+          const { quarantineKey, ...entry } = record;
+          await this.save<QuarantineEntry>(quarantineKey, { ...entry, salvagedRecords: result.salvagedRecords });
+        }
+      } catch (error) {
+        console.error(`Error recovering quarantined key ${record.quarantineKey}:`, error);
+      }
+
+      results.push(result);
+    }
+
+    const recovered = results.filter(r => r.status === 'restored' || r.status === 'partial').length;
+    if (results.length > 0) {
+      console.log(`🩹 Quarantine recovery: ${recovered}/${results.length} payloads recovered`);
+    }
+    return results;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Decrypt (or decode legacy) and parse a raw stored payload
+   */
+  private static async decode<T>(key: string, storedData: string | null): Promise<T | null> {
+    if (!storedData) return null;
+
+    try {
+      // Encrypted envelopes must decrypt - never fall back to treating them as plaintext
+      if (DataEncryption.isEncryptedEnvelope(storedData)) {
+        const decryptedData = await DataEncryption.decrypt(storedData, key);
+        return JSON.parse(decryptedData);
+      }
+
+      // Legacy data written before authenticated encryption
+      console.log(`Key ${key} contains legacy (unauthenticated) data, migrating`);
+      const parsed = JSON.parse(DataEncryption.decodeLegacy(storedData));
+      
+      try {
+        await this.save(key, parsed);
+      } catch (saveError) {
+        console.warn(`Could not re-encrypt legacy data for key ${key}:`, saveError);
+      }
+      return parsed;
+    } catch (error) {
+      // The payload may be fine; it can't be read until the keystore is available
+      if (error instanceof KeyUnavailableError) {
+        throw error;
+      }
+
+      console.error(`Corrupted data for key ${key}:`, error);
+      await this.quarantine(key, storedData, error);
+
+      if (error instanceof DecryptionError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Refuse to let encryption create a data key while ciphertext exists: a
+   * missing key then means the keystore misread, and a new key would leave
+   * every existing envelope unreadable
+   */
+  private static async ensureDataKeyMayBeCreated(): Promise<void> {
+    if (await DataEncryption.hasDataKey()) return;
+
+    const entries = await this.backend.multiGet(await this.backend.getAllKeys());
+    if (entries.some(([, value]) => value !== null && DataEncryption.isEncryptedEnvelope(value))) {
+      throw new KeyUnavailableError('No data encryption key was found, but encrypted data exists');
+    }
+  }
+
+  /**
+   * Move a corrupted payload into the quarantine namespace
+   * If quarantining fails the original is left in place rather than lost
+   */
+  private static async quarantine(key: string, payload: string, error: unknown): Promise<void> {
+    if (isQuarantineKey(key)) {
+      console.error(`Quarantine entry ${key} is itself unreadable; leaving it in place`);
+      return;
+    }
+
+    const entry: QuarantineEntry = {
+      originalKey: key,
+      payload,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+      quarantinedAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.save(`${STORAGE_KEYS.quarantinePrefix}${key}@${entry.quarantinedAt}`, entry);
+      await this.backend.removeItem(key);
+      console.warn(`⚠️ Quarantined corrupted data for key ${key}`);
+    } catch (quarantineError) {
+      console.error(`Failed to quarantine key ${key}, leaving original in place:`, quarantineError);
+    }
+  }
+
+  /**
+   * Parse the elements of a damaged top-level JSON array one by one,
+   * keeping every object or array element that is still valid JSON
+   */
+  private static salvageArrayElements(text: string): any[] | null {
+    const start = text.indexOf('[');
+    if (start === -1) return null;
+
+    const salvaged: any[] = [];
+    let depth = 0;
+    let elementStart = -1;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start + 1; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) elementStart = i;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) break; // End of the top-level array
+        depth--;
+        if (depth === 0 && elementStart !== -1) {
+          try {
+            salvaged.push(JSON.parse(text.slice(elementStart, i + 1)));
+          } catch {
+            // Element is damaged - skip it
+          }
+          elementStart = -1;
+        }
+      }
+    }
+
+    return salvaged;
+  }
+
+  /**
+   * Merge salvaged records into current ones, keeping current on id clashes
+   */
+  private static mergeRecords(current: any[], salvaged: any[]): any[] {
+    const identify = (record: any) =>
+      record && typeof record === 'object' && record.id !== undefined ? `id:${record.id}` : JSON.stringify(record);
+    const seen = new Set(current.map(identify));
+    return [...current, ...salvaged.filter(record => !seen.has(identify(record)))];
+  }
+}
@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+
+// ============================================================================
+// STORAGE BACKENDS - Raw key/value persistence beneath StorageManager
+// ============================================================================
+//
+// PURPOSE: Decouple StorageManager (encryption, quarantine) from where bytes
+//          actually live. Values reaching a backend are already encrypted.
+// BACKENDS:
+// - SQLiteStorageBackend: used on device; transactional, no AsyncStorage size limits
+// - AsyncStorageBackend: StorageManager's default, and where data lived before
+//   SQLite; App.tsx moves it with StorageManager.migrateTo() at startup
+// - MemoryStorageBackend: tests and scripts, nothing touches disk
+// USAGE: StorageManager.configure(new MemoryStorageBackend())
+
+export interface StorageBackend {
+  readonly name: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  multiGet(keys: string[]): Promise<[string, string | null][]>;
+  multiSet(entries: [string, string][]): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// ASYNC STORAGE BACKEND
+// ============================================================================
+
+export class AsyncStorageBackend implements StorageBackend {
+  readonly name = 'async-storage';
+
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<[string, string | null][]> {
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries.map(([key, value]) => [key, value]);
+  }
+
+  multiSet(entries: [string, string][]): Promise<void> {
+    return AsyncStorage.multiSet(entries);
+  }
+
+  multiRemove(keys: string[]): Promise<void> {
+    return AsyncStorage.multiRemove(keys);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...(await AsyncStorage.getAllKeys())];
+  }
+
+  clear(): Promise<void> {
+    return AsyncStorage.clear();
+  }
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  private store = new Map<string, string>();
+
+  constructor(initial?: { [key: string]: string }) {
+    if (initial) {
+      Object.entries(initial).forEach(([key, value]) => this.store.set(key, value));
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.has(key) ? this.store.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async multiGet(keys: string[]): Promise<[string, string | null][]> {
+    return keys.map(key => [key, this.store.has(key) ? this.store.get(key)! : null]);
+  }
+
+  async multiSet(entries: [string, string][]): Promise<void> {
+    entries.forEach(([key, value]) => this.store.set(key, value));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach(key => this.store.delete(key));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...this.store.keys()];
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+// ============================================================================
+// SQLITE BACKEND
+// ============================================================================
+
+interface KeyValueRow {
+  key: string;
+  value: string;
+}
+
+// SQLite caps bound parameters per statement; chunk large key lists
+const SQLITE_MAX_PARAMS = 500;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class SQLiteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  private databaseName: string;
+  private dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  constructor(databaseName: string = 'nexst.db') {
+    this.databaseName = databaseName;
+  }
+
+  /**
+   * Open the database and create the key/value table on first use
+   */
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = (async () => {
+        const db = await SQLite.openDatabaseAsync(this.databaseName);
+        await db.execAsync(`
+          PRAGMA journal_mode = WAL;
+          CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+        `);
+        return db;
+      })();
+      this.dbPromise.catch(() => {
+        this.dbPromise = null; // Allow a retry after a failed open
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<KeyValueRow>('SELECT value FROM kv WHERE key = ?', key);
+    return row ? row.value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('DELETE FROM kv WHERE key = ?', key);
+  }
+
+  async multiGet(keys: string[]): Promise<[string, string | null][]> {
+    const db = await this.getDatabase();
+    const values = new Map<string, string>();
+
+    for (const keyChunk of chunk(keys, SQLITE_MAX_PARAMS)) {
+      const placeholders = keyChunk.map(() => '?').join(', ');
+      const rows = await db.getAllAsync<KeyValueRow>(
+        `SELECT key, value FROM kv WHERE key IN (${placeholders})`,
+        keyChunk
+      );
+      rows.forEach(row => values.set(row.key, row.value));
+    }
+
+    return keys.map(key => [key, values.has(key) ? values.get(key)! : null]);
+  }
+
+  async multiSet(entries: [string, string][]): Promise<void> {
+    const db = await this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      for (const [key, value] of entries) {
+        await db.runAsync('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', key, value);
+      }
+    });
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    const db = await this.getDatabase();
+    await db.withTransactionAsync(async () => {
+      for (const keyChunk of chunk(keys, SQLITE_MAX_PARAMS)) {
+        const placeholders = keyChunk.map(() => '?').join(', ');
+        await db.runAsync(`DELETE FROM kv WHERE key IN (${placeholders})`, keyChunk);
+      }
+    });
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ key: string }>('SELECT key FROM kv');
+    return rows.map(row => row.key);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('DELETE FROM kv');
+  }
+}
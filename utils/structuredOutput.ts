@@ -0,0 +1,479 @@
+import { LLMClient, LLMTask, ChatCompletionRequest, ChatMessage, TokenUsage } from './llm';
+import { StorageManager, STORAGE_KEYS } from './storage';
+
+// ============================================================================
+// STRUCTURED OUTPUT - Schema-validated JSON responses from the models
+// ============================================================================
+//
+// PURPOSE: Every agent response that the app reads as data has a typed schema.
+//          The schema is sent as the requested JSON format, the reply is
+//          validated and safely coerced, and a failing reply gets one repair
+//          retry before the caller's fallback is used
+// USAGE: StructuredOutput.complete('healthMemory', { messages }, HEALTH_MEMORY_OUTPUT)
+// MONITORING: Invalid replies are logged with their payload (see getLog()),
+//             so we can see how often each model misbehaves
+//
+// SAFE COERCIONS: numeric strings to numbers, "true"/"false" to booleans,
+// enum values matched case- and separator-insensitively, a single value where
+// a list was expected, JSON wrapped in prose or code fences, and a bare array
+// where the schema's root object has exactly one list field
+
+export const MAX_REPAIR_ATTEMPTS = 1;
+export const MAX_LOGGED_FAILURES = 50;
+const MAX_LOGGED_PAYLOAD_LENGTH = 2000;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface ParseContext {
+  issues: SchemaIssue[];
+  coercions: string[];
+}
+
+type JsonSchema = { [key: string]: any };
+
+/**
+ * A validator for one value; parse() returns undefined when the value is invalid
+ */
+export interface Schema<T> {
+  readonly json: JsonSchema;
+  readonly hasDefault: boolean;
+  readonly shape?: { [key: string]: Schema<any> }; // Objects only
+  parse(value: unknown, path: string, context: ParseContext): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+interface FieldOptions<T> {
+  default?: T; // Used when the field is missing or null; without one the field is required
+}
+
+const normalizeToken = (value: string): string => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// Defaults and fallbacks are plain JSON; copy them so results never share arrays
+const copyJson = <T>(value: T): T => (typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Shared handling of missing values for every schema kind
+ */
+const createSchema = <T>(
+  json: JsonSchema,
+  options: FieldOptions<T>,
+  parsePresent: (value: unknown, path: string, context: ParseContext) => T | undefined,
+  shape?: { [key: string]: Schema<any> }
+): Schema<T> => ({
+  json,
+  shape,
+  hasDefault: options.default !== undefined,
+  parse(value, path, context) {
+    if (value === undefined || value === null) {
+      if (options.default !== undefined) return copyJson(options.default);
+      context.issues.push({ path, message: 'is required' });
+      return undefined;
+    }
+    return parsePresent(value, path, context);
+  },
+});
+
+// ============================================================================
+// SCHEMA BUILDERS
+// ============================================================================
+
+export class OutputSchema {
+  static string(options: FieldOptions<string> = {}): Schema<string> {
+    return createSchema({ type: 'string' }, options, (value, path, context) => {
+      if (typeof value === 'string') return value.trim();
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        context.coercions.push(`${path}: ${typeof value} to string`);
+        return String(value);
+      }
+      context.issues.push({ path, message: `expected a string, got ${describe(value)}` });
+      return undefined;
+    });
+  }
+
+  static number(options: FieldOptions<number> & { min?: number; max?: number } = {}): Schema<number> {
+    const json: JsonSchema = { type: 'number' };
+    if (options.min !== undefined) json.minimum = options.min;
+    if (options.max !== undefined) json.maximum = options.max;
+
+    return createSchema(json, options, (value, path, context) => {
+      let number = value;
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        context.coercions.push(`${path}: numeric string to number`);
+        number = Number(value);
+      }
+      if (typeof number !== 'number' || !isFinite(number)) {
+        context.issues.push({ path, message: `expected a number, got ${describe(value)}` });
+        return undefined;
+      }
+      if ((options.min !== undefined && number < options.min) || (options.max !== undefined && number > options.max)) {
+        context.issues.push({ path, message: `must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}` });
+        return undefined;
+      }
+      return number;
+    });
+  }
+
+  static boolean(options: FieldOptions<boolean> = {}): Schema<boolean> {
+    return createSchema({ type: 'boolean' }, options, (value, path, context) => {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        context.coercions.push(`${path}: string to boolean`);
+        return value === 'true';
+      }
+      context.issues.push({ path, message: `expected a boolean, got ${describe(value)}` });
+      return undefined;
+    });
+  }
+
+  /**
+   * One of a fixed set of strings
+   * @param options.fallback - Value to use for an unrecognized answer instead of failing
+   */
+  static enumOf<const V extends readonly string[]>(
+    values: V,
+    options: FieldOptions<V[number]> & {
+      normalize?: (value: string) => V[number] | undefined; // Maps synonyms before the fallback applies
+      fallback?: V[number];
+    } = {}
+  ): Schema<V[number]> {
+    return createSchema({ type: 'string', enum: [...values] }, options, (value, path, context) => {
+      if (typeof value === 'string') {
+        if ((values as readonly string[]).includes(value)) return value as V[number];
+
+        const match = values.find(allowed => normalizeToken(allowed) === normalizeToken(value));
+        if (match) {
+          context.coercions.push(`${path}: "${value}" to "${match}"`);
+          return match;
+        }
+
+        const normalized = options.normalize?.(value);
+        if (normalized !== undefined && (values as readonly string[]).includes(normalized)) {
+          context.coercions.push(`${path}: "${value}" to "${normalized}"`);
+          return normalized;
+        }
+      }
+      if (options.fallback !== undefined) {
+        context.coercions.push(`${path}: unrecognized ${JSON.stringify(value)} to "${options.fallback}"`);
+        return options.fallback;
+      }
+      context.issues.push({ path, message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+      return undefined;
+    });
+  }
+
+  static array<T>(item: Schema<T>, options: FieldOptions<T[]> = {}): Schema<T[]> {
+    return createSchema({ type: 'array', items: item.json }, options, (value, path, context) => {
+      let items = value;
+      if (!Array.isArray(value)) {
+        context.coercions.push(`${path}: single value to list`);
+        items = [value];
+      }
+
+      const parsed: T[] = [];
+      let valid = true;
+      (items as unknown[]).forEach((entry, index) => {
+        const result = item.parse(entry, `${path}[${index}]`, context);
+        if (result === undefined) {
+          valid = false;
+        } else {
+          parsed.push(result);
+        }
+      });
+      return valid ? parsed : undefined;
+    });
+  }
+
+  /**
+   * An object with known fields; unknown fields are dropped
+   */
+  static object<S extends { [key: string]: Schema<any> }>(
+    shape: S,
+    options: FieldOptions<{ [K in keyof S]: Infer<S[K]> }> = {}
+  ): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    const json: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.json])),
+      required: Object.entries(shape).filter(([, field]) => !field.hasDefault).map(([key]) => key),
+      additionalProperties: false,
+    };
+
+    return createSchema(json, options, (value, path, context) => {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        context.issues.push({ path, message: `expected an object, got ${describe(value)}` });
+        return undefined;
+      }
+
+      const result: { [key: string]: any } = {};
+      let valid = true;
+      for (const [key, field] of Object.entries(shape)) {
+        const parsed = field.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, context);
+        if (parsed === undefined) {
+          valid = false;
+        } else {
+          result[key] = parsed;
+        }
+      }
+      return valid ? (result as { [K in keyof S]: Infer<S[K]> }) : undefined;
+    }, shape);
+  }
+}
+
+// ============================================================================
+// OUTPUT SPECS AND VALIDATION
+// ============================================================================
+
+/**
+ * What one agent call must return, and what to use if the model never complies
+ */
+export interface OutputSpec<T> {
+  name: string; // snake_case; also sent to the API as the schema name
+  schema: Schema<T>;
+  fallback: T;
+}
+
+/**
+ * Declare an output spec; the type comes from the schema and the fallback must match it
+ */
+export const defineOutput = <T>(name: string, schema: Schema<T>, fallback: NoInfer<T>): OutputSpec<T> => ({
+  name,
+  schema,
+  fallback,
+});
+
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: SchemaIssue[];
+  coercions: string[];
+}
+
+/**
+ * Find the JSON in a reply, tolerating code fences and surrounding prose
+ */
+const extractJson = (content: string, context: ParseContext): unknown => {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to extraction
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1]];
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    candidates.push(trimmed.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const parsed = JSON.parse(candidate);
+      context.coercions.push('extracted JSON from surrounding text');
+      return parsed;
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  context.issues.push({ path: '', message: 'response is not valid JSON' });
+  return undefined;
+};
+
+// ============================================================================
+// FAILURE LOG
+// ============================================================================
+
+export interface StructuredResult<T> {
+  value: T;
+  model: string;          // As reported by the server for the last attempt
+  usedFallback: boolean;  // Every attempt failed validation
+  attempts: number;       // 1 + repair retries
+  usage: TokenUsage | null; // Summed over all attempts; null when the server reported none
+}
+
+export interface StructuredOutputStats {
+  requests: number;
+  repaired: number;   // Valid only after a repair retry
+  failed: number;     // Still invalid after all retries; the fallback was used
+}
+
+export interface StructuredOutputFailure {
+  at: string;
+  task: LLMTask;
+  schema: string;
+  model: string;
+  attempt: number;    // 0 = first reply, 1+ = repair retries
+  issues: string[];
+  payload: string;    // The offending reply, truncated
+}
+
+export interface StructuredOutputLog {
+  stats: { [schema: string]: StructuredOutputStats };
+  failures: StructuredOutputFailure[]; // Most recent first
+}
+
+const emptyLog = (): StructuredOutputLog => ({ stats: {}, failures: [] });
+
+const addUsage = (total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null => {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+};
+
+export class StructuredOutput {
+  // Serializes log updates so concurrent agent calls don't overwrite each other
+  private static logQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Validate a raw reply against a schema
+   */
+  static validate<T>(content: string, schema: Schema<T>): ValidationResult<T> {
+    const context: ParseContext = { issues: [], coercions: [] };
+    let data = extractJson(content, context);
+    if (data === undefined) {
+      return { value: null, issues: context.issues, coercions: context.coercions };
+    }
+
+    // A bare list for an object with one list field (older prompts asked for arrays)
+    if (Array.isArray(data) && schema.shape) {
+      const listFields = Object.entries(schema.shape).filter(([, field]) => field.json.type === 'array');
+      if (listFields.length === 1) {
+        context.coercions.push(`root array wrapped as "${listFields[0][0]}"`);
+        data = { [listFields[0][0]]: data };
+      }
+    }
+
+    const value = schema.parse(data, '', context);
+    return {
+      value: value === undefined || context.issues.length > 0 ? null : value,
+      issues: context.issues,
+      coercions: context.coercions,
+    };
+  }
+
+  /**
+   * Request a chat completion whose reply must match the spec's schema
+   * Invalid replies get up to MAX_REPAIR_ATTEMPTS repair retries, then the fallback
+   * Network and API errors are not caught - callers keep their own error handling
+   */
+  static async complete<T>(
+    task: Exclude<LLMTask, 'transcription'>,
+    request: Omit<ChatCompletionRequest, 'model' | 'jsonSchema'>,
+    spec: OutputSpec<T>
+  ): Promise<T> {
+    return (await this.completeDetailed(task, request, spec)).value;
+  }
+
+  /**
+   * Same as complete(), also reporting which model answered, whether the fallback
+   * was used, and the attempts and tokens it took
+   */
+  static async completeDetailed<T>(
+    task: Exclude<LLMTask, 'transcription'>,
+    request: Omit<ChatCompletionRequest, 'model' | 'jsonSchema'>,
+    spec: OutputSpec<T>
+  ): Promise<StructuredResult<T>> {
+    let messages: ChatMessage[] = request.messages;
+    let model = '';
+    let usage: TokenUsage | null = null;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await LLMClient.complete(task, {
+        ...request,
+        messages,
+        jsonSchema: { name: spec.name, schema: spec.schema.json },
+      });
+      model = response.model;
+      usage = addUsage(usage, response.usage);
+
+      const result = this.validate(response.content, spec.schema);
+      if (result.coercions.length > 0) {
+        console.log(`🧩 ${spec.name}: coerced ${result.coercions.join('; ')}`);
+      }
+
+      if (result.value !== null) {
+        this.recordOutcome(spec.name, attempt > 0 ? 'repaired' : 'valid');
+        return { value: result.value, model, usedFallback: false, attempts: attempt + 1, usage };
+      }
+
+      const issues = result.issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+      console.warn(`⚠️ ${spec.name} reply failed validation (attempt ${attempt + 1}):`, issues, response.content);
+      this.recordFailure({
+        at: new Date().toISOString(),
+        task,
+        schema: spec.name,
+        model: response.model,
+        attempt,
+        issues,
+        payload: response.content.slice(0, MAX_LOGGED_PAYLOAD_LENGTH),
+      });
+
+      // Show the model its own reply and what was wrong with it
+      messages = [
+        ...request.messages,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `Your reply did not match the required format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n` +
+            `Reply with only JSON matching this JSON Schema:\n${JSON.stringify(spec.schema.json)}`,
+        },
+      ];
+    }
+
+    this.recordOutcome(spec.name, 'failed');
+    return { value: copyJson(spec.fallback), model, usedFallback: true, attempts: MAX_REPAIR_ATTEMPTS + 1, usage };
+  }
+
+  static async getLog(): Promise<StructuredOutputLog> {
+    return (await StorageManager.load<StructuredOutputLog>(STORAGE_KEYS.structuredOutputLog)) ?? emptyLog();
+  }
+
+  static async clearLog(): Promise<void> {
+    await StorageManager.remove(STORAGE_KEYS.structuredOutputLog);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static recordOutcome(schema: string, outcome: 'valid' | 'repaired' | 'failed'): void {
+    this.updateLog(log => {
+      const stats = log.stats[schema] ?? { requests: 0, repaired: 0, failed: 0 };
+      log.stats[schema] = {
+        requests: stats.requests + 1,
+        repaired: stats.repaired + (outcome === 'repaired' ? 1 : 0),
+        failed: stats.failed + (outcome === 'failed' ? 1 : 0),
+      };
+    });
+  }
+
+  private static recordFailure(failure: StructuredOutputFailure): void {
+    this.updateLog(log => {
+      log.failures = [failure, ...log.failures].slice(0, MAX_LOGGED_FAILURES);
+    });
+  }
+
+  private static updateLog(update: (log: StructuredOutputLog) => void): void {
+    this.logQueue = this.logQueue
+      .then(async () => {
+        const log = await this.getLog();
+        update(log);
+        await StorageManager.save(STORAGE_KEYS.structuredOutputLog, log);
+      })
+      .catch(error => {
+        console.error('Error updating structured output log:', error);
+      });
+  }
+}
@@ -0,0 +1,380 @@
+import { SymptomLog, SymptomPattern, HealthDomain, RecommendationPattern } from '../types/recommendations';
+
+// ============================================================================
+// SYMPTOM ANALYTICS - Deterministic pattern and trend statistics
+// ============================================================================
+//
+// PURPOSE: Compute the numeric parts of a SymptomPattern (frequency, duration,
+//          severity, trend, time of day, seasonality) from log timestamps,
+//          severities and domains instead of asking a model to guess them
+// CLUSTERING: Logs whose summaries share most of their words (after dropping
+//             filler, severity and time-of-day words) in the same health domain
+//             count as one recurring symptom
+// TRENDS: Least-squares slopes of severity over time and of weekly occurrences;
+//         either rising past its threshold reads as worsening, falling as improving
+// DURATION: Logs don't record how long a symptom lasted, so logs of the same
+//           symptom on consecutive days count as one episode
+// USAGE: HealthMemoryAgent computes patterns and trends here and only asks the
+//        model for triggers and narrative context
+
+export type TimeOfDay = NonNullable<SymptomPattern['timeOfDayPattern']>;
+
+/**
+ * A recurring symptom: the pattern fields that can be computed, plus the
+ * numbers behind them
+ */
+export interface SymptomCluster extends Omit<SymptomPattern, 'triggers'> {
+  logIds: string[];
+  occurrences: number;
+  severitySlope: number;    // Severity points (mild=1 ... severe=3) per 30 days
+  frequencySlope: number;   // Change in weekly occurrences per 30 days
+  timeOfDayDistribution: { [time in TimeOfDay]: number }; // Share of occurrences, 0-1
+  peakMonths?: number[];    // Months (0-11) of the peak season when seasonal
+}
+
+export interface OverallTrends {
+  overall: 'improving' | 'stable' | 'worsening';
+  frequency: number; // Logs per week over the recent window
+  severity: 'mild' | 'moderate' | 'severe';
+}
+
+export const MIN_OCCURRENCES_FOR_PATTERN = 2;
+export const MIN_OCCURRENCES_FOR_TREND = 3;
+export const SIMILARITY_THRESHOLD = 0.5;      // Jaccard similarity of summary words
+export const SEVERITY_SLOPE_THRESHOLD = 0.3;  // Severity points per 30 days
+export const FREQUENCY_SLOPE_THRESHOLD = 0.5; // Weekly occurrences per 30 days
+export const TIME_OF_DAY_SHARE = 0.5;         // Share needed to call a time of day typical
+export const RECENT_WINDOW_DAYS = 28;         // Window for the overall frequency and severity
+export const OVERALL_TREND_DAYS = 90;         // Window for the overall trend
+
+// Seasonality needs a year of history, enough occurrences, and a 3-month
+// window holding most occurrences but not most of the other logs (which
+// would only mean more was logged then)
+const SEASONAL_MIN_HISTORY_DAYS = 365;
+const SEASONAL_MIN_OCCURRENCES = 4;
+const SEASONAL_PEAK_SHARE = 0.6;
+const SEASONAL_MAX_BASELINE_SHARE = 0.4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const SEVERITY_SCORE: { [severity in SymptomLog['severity']]: number } = {
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+};
+
+// Words that describe how or when rather than what
+const IGNORED_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'with', 'from', 'after',
+  'before', 'during', 'since', 'about', 'my', 'i', 'me', 'is', 'was', 'been', 'have', 'has', 'had',
+  'feel', 'feeling', 'felt', 'some', 'very', 'really', 'bit', 'little', 'again', 'still', 'today',
+  'yesterday', 'mild', 'moderate', 'severe', 'slight', 'slightly', 'bad', 'worse', 'terrible',
+  'morning', 'afternoon', 'evening', 'night', 'nighttime', 'day', 'daily', 'all', 'not', 'no',
+  'couldnt', 'cant', 'dont', 'didnt', 'trouble', 'issue', 'issues', 'problem', 'problems',
+]);
+
+const stem = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * The words of a summary that identify the symptom
+ */
+export const symptomWords = (summary: string): Set<string> =>
+  new Set(
+    summary
+      .toLowerCase()
+      .replace(/'/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !IGNORED_WORDS.has(word))
+      .map(stem)
+  );
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Least-squares slope of y over x
+ */
+export const slope = (points: { x: number; y: number }[]): number => {
+  if (points.length < 2) return 0;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  return variance === 0 ? 0 : covariance / variance;
+};
+
+export const timeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+};
+
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  // Ties go to the value seen last (values are oldest first)
+  let best = values[values.length - 1];
+  counts.forEach((count, value) => {
+    if (count > (counts.get(best) ?? 0)) best = value;
+  });
+  return best;
+};
+
+const severityFromScore = (score: number): SymptomLog['severity'] =>
+  score >= 2.5 ? 'severe' : score >= 1.5 ? 'moderate' : 'mild';
+
+interface Cluster {
+  domain: HealthDomain;
+  words: Set<string>; // Words in at least half the members
+  wordCounts: Map<string, number>;
+  logs: SymptomLog[];
+}
+
+export class SymptomAnalytics {
+  // ============================================================================
+  // CLUSTERING
+  // ============================================================================
+
+  /**
+   * Group logs that describe the same symptom
+   * @returns Groups of logs, each oldest first
+   */
+  static clusterLogs(logs: SymptomLog[]): SymptomLog[][] {
+    const clusters: Cluster[] = [];
+
+    [...logs].sort((a, b) => this.time(a) - this.time(b)).forEach(log => {
+      const words = symptomWords(log.summary);
+      let best: Cluster | null = null;
+      let bestScore = SIMILARITY_THRESHOLD;
+
+      for (const cluster of clusters) {
+        if (cluster.domain !== log.healthDomain) continue;
+        const score = jaccard(words, cluster.words);
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+
+      if (!best) {
+        clusters.push({ domain: log.healthDomain, words, wordCounts: new Map([...words].map(word => [word, 1])), logs: [log] });
+        return;
+      }
+
+      best.logs.push(log);
+      words.forEach(word => best!.wordCounts.set(word, (best!.wordCounts.get(word) ?? 0) + 1));
+      const core = [...best.wordCounts].filter(([, count]) => count * 2 >= best!.logs.length).map(([word]) => word);
+      if (core.length > 0) best.words = new Set(core);
+    });
+
+    return clusters.map(cluster => cluster.logs);
+  }
+
+  // ============================================================================
+  // PATTERNS
+  // ============================================================================
+
+  /**
+   * Recurring symptoms with their statistics, most frequent first
+   * @param now - Reference time for the frequency trend (weeks since the last occurrence count as zero)
+   */
+  static detectPatterns(logs: SymptomLog[], now: Date = new Date()): SymptomCluster[] {
+    const analyzed = logs.filter(log => !log.processingStatus);
+    if (analyzed.length === 0) return [];
+
+    const historyStart = Math.min(...analyzed.map(log => this.time(log)));
+
+    return this.clusterLogs(analyzed)
+      .filter(cluster => cluster.length >= MIN_OCCURRENCES_FOR_PATTERN)
+      .map(cluster => this.describeCluster(cluster, analyzed, historyStart, now))
+      .sort((a, b) => b.occurrences - a.occurrences || b.lastOccurrence.getTime() - a.lastOccurrence.getTime());
+  }
+
+  /**
+   * Frequency, severity and direction across all symptoms
+   */
+  static overallTrends(logs: SymptomLog[], now: Date = new Date()): OverallTrends {
+    const analyzed = logs.filter(log => !log.processingStatus);
+    if (analyzed.length === 0) {
+      return { overall: 'stable', frequency: 0, severity: 'mild' };
+    }
+
+    const recentStart = now.getTime() - RECENT_WINDOW_DAYS * DAY_MS;
+    const recent = analyzed.filter(log => this.time(log) >= recentStart);
+    const historyStart = Math.min(...analyzed.map(log => this.time(log)));
+    const recentWeeks = Math.max(1, (now.getTime() - Math.max(recentStart, historyStart)) / WEEK_MS);
+    const severityBasis = recent.length > 0 ? recent : analyzed;
+
+    const trendStart = now.getTime() - OVERALL_TREND_DAYS * DAY_MS;
+    const trendLogs = analyzed.filter(log => this.time(log) >= trendStart);
+
+    return {
+      overall: this.direction(
+        this.severitySlope(trendLogs),
+        this.frequencySlope(trendLogs, now),
+        trendLogs.length
+      ),
+      frequency: Math.round((recent.length / recentWeeks) * 10) / 10,
+      severity: severityFromScore(
+        severityBasis.reduce((sum, log) => sum + SEVERITY_SCORE[log.severity], 0) / severityBasis.length
+      ),
+    };
+  }
+
+  /**
+   * The parts of a pattern a recommendation keeps as its provenance
+   */
+  static snapshot(pattern: Omit<SymptomPattern, 'triggers'>): RecommendationPattern {
+    const { symptom, healthDomain, frequency, severity, trend } = pattern;
+    return { symptom, healthDomain, frequency, severity, trend };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private static describeCluster(
+    logs: SymptomLog[],
+    allLogs: SymptomLog[],
+    historyStart: number,
+    now: Date
+  ): SymptomCluster {
+    const times = logs.map(log => this.time(log));
+    const first = times[0];
+    const last = times[times.length - 1];
+    const spanWeeks = Math.max(1, (last - first) / WEEK_MS);
+
+    const distribution: { [time in TimeOfDay]: number } = { morning: 0, afternoon: 0, evening: 0, night: 0 };
+    logs.forEach(log => { distribution[timeOfDay(new Date(log.timestamp))] += 1 / logs.length; });
+    const [peakTime, peakShare] = (Object.entries(distribution) as [TimeOfDay, number][])
+      .sort(([, a], [, b]) => b - a)[0];
+
+    const severitySlope = this.severitySlope(logs);
+    const frequencySlope = this.frequencySlope(logs, now);
+    const peakMonths = this.seasonalPeak(logs, allLogs, historyStart, now);
+
+    return {
+      symptom: mostCommon(logs.map(log => log.summary)),
+      healthDomain: mostCommon(logs.map(log => log.healthDomain)),
+      logIds: logs.map(log => log.id),
+      occurrences: logs.length,
+      frequency: Math.round((logs.length / spanWeeks) * 10) / 10,
+      averageDuration: this.averageEpisodeDays(times),
+      severity: severityFromScore(logs.reduce((sum, log) => sum + SEVERITY_SCORE[log.severity], 0) / logs.length),
+      trend: this.direction(severitySlope, frequencySlope, logs.length),
+      impact: mostCommon(logs.map(log => log.impact)),
+      firstOccurrence: new Date(first),
+      lastOccurrence: new Date(last),
+      severitySlope: Math.round(severitySlope * 100) / 100,
+      frequencySlope: Math.round(frequencySlope * 100) / 100,
+      timeOfDayDistribution: distribution,
+      timeOfDayPattern: logs.length >= MIN_OCCURRENCES_FOR_TREND && peakShare >= TIME_OF_DAY_SHARE ? peakTime : undefined,
+      seasonalPattern: peakMonths !== null,
+      peakMonths: peakMonths ?? undefined,
+    };
+  }
+
+  private static direction(severitySlope: number, frequencySlope: number, count: number): OverallTrends['overall'] {
+    if (count < MIN_OCCURRENCES_FOR_TREND) return 'stable';
+
+    const score =
+      (severitySlope >= SEVERITY_SLOPE_THRESHOLD ? 1 : severitySlope <= -SEVERITY_SLOPE_THRESHOLD ? -1 : 0) +
+      (frequencySlope >= FREQUENCY_SLOPE_THRESHOLD ? 1 : frequencySlope <= -FREQUENCY_SLOPE_THRESHOLD ? -1 : 0);
+    return score > 0 ? 'worsening' : score < 0 ? 'improving' : 'stable';
+  }
+
+  /**
+   * Severity points per 30 days
+   */
+  private static severitySlope(logs: SymptomLog[]): number {
+    return slope(logs.map(log => ({ x: this.time(log) / (30 * DAY_MS), y: SEVERITY_SCORE[log.severity] })));
+  }
+
+  /**
+   * Change in weekly occurrences per 30 days, counting every week from the
+   * first occurrence up to now (so a symptom that stopped trends down)
+   */
+  private static frequencySlope(logs: SymptomLog[], now: Date): number {
+    if (logs.length === 0) return 0;
+
+    const first = Math.min(...logs.map(log => this.time(log)));
+    const weeks = Math.max(1, Math.ceil((now.getTime() - first) / WEEK_MS));
+    const counts = new Array<number>(weeks).fill(0);
+    logs.forEach(log => {
+      const week = Math.min(weeks - 1, Math.floor((this.time(log) - first) / WEEK_MS));
+      counts[week]++;
+    });
+
+    return slope(counts.map((count, week) => ({ x: week, y: count }))) * (30 / 7);
+  }
+
+  /**
+   * Logs on consecutive days are one episode; its length runs from the first to the last day
+   */
+  private static averageEpisodeDays(times: number[]): number {
+    const days = [...new Set(times.map(time => Math.floor(time / DAY_MS)))].sort((a, b) => a - b);
+    const episodes: number[] = [];
+    let start = days[0];
+
+    days.forEach((day, index) => {
+      const next = days[index + 1];
+      if (next === undefined || next - day > 1) {
+        episodes.push(day - start + 1);
+        start = next;
+      }
+    });
+
+    return Math.round((episodes.reduce((sum, length) => sum + length, 0) / episodes.length) * 10) / 10;
+  }
+
+  /**
+   * The 3-month window (by month of year) holding most occurrences, if the
+   * symptom is seasonal; null otherwise
+   */
+  private static seasonalPeak(logs: SymptomLog[], allLogs: SymptomLog[], historyStart: number, now: Date): number[] | null {
+    if (logs.length < SEASONAL_MIN_OCCURRENCES || now.getTime() - historyStart < SEASONAL_MIN_HISTORY_DAYS * DAY_MS) {
+      return null;
+    }
+
+    const byMonth = (items: SymptomLog[]) => {
+      const counts = new Array<number>(12).fill(0);
+      items.forEach(item => { counts[new Date(item.timestamp).getMonth()]++; });
+      return counts;
+    };
+    const ids = new Set(logs.map(log => log.id));
+    const otherLogs = allLogs.filter(log => !ids.has(log.id));
+    const symptomMonths = byMonth(logs);
+    const otherMonths = byMonth(otherLogs);
+    const windowOf = (start: number) => [start, (start + 1) % 12, (start + 2) % 12];
+    const share = (counts: number[], months: number[], total: number) =>
+      months.reduce((sum, month) => sum + counts[month], 0) / total;
+
+    let peak = windowOf(0);
+    for (let start = 1; start < 12; start++) {
+      if (share(symptomMonths, windowOf(start), 1) > share(symptomMonths, peak, 1)) {
+        peak = windowOf(start);
+      }
+    }
+
+    const isSeasonal =
+      share(symptomMonths, peak, logs.length) >= SEASONAL_PEAK_SHARE &&
+      (otherLogs.length === 0 || share(otherMonths, peak, otherLogs.length) <= SEASONAL_MAX_BASELINE_SHARE);
+    return isSeasonal ? peak : null;
+  }
+
+  private static time(log: SymptomLog): number {
+    return new Date(log.timestamp).getTime();
+  }
+}
@@ -0,0 +1,236 @@
+import { SymptomLog, SymptomLogQuery, SymptomLogQueryResult } from '../types/recommendations';
+
+// ============================================================================
+// SYMPTOM LOG INDEX - In-memory secondary indexes for symptom log queries
+// ============================================================================
+//
+// PURPOSE: Answer "last 30 days of sleep logs" style questions without every
+//          screen and agent filtering the full log array by hand
+// MAINTENANCE: SymptomLogsContext calls upsert/remove/clear on every write,
+//              so indexes never need a full rebuild after the initial load
+// USAGE: useSymptomLogs().querySymptomLogs({ healthDomains: ['sleep'], from })
+
+const SEVERITY_RANK: { [severity in SymptomLog['severity']]: number } = {
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+};
+
+interface TimelineEntry {
+  time: number;
+  id: string;
+}
+
+/**
+ * Position of the last item on a page, in sort-key terms, so the next page
+ * still lines up if that item is deleted in between
+ */
+interface QueryCursor {
+  key: number;
+  time: number;
+  id: string;
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 0);
+
+const encodeCursor = (cursor: QueryCursor): string => btoa(JSON.stringify(cursor));
+
+const decodeCursor = (cursor: string): QueryCursor | null => {
+  try {
+    const parsed = JSON.parse(atob(cursor));
+    return typeof parsed.key === 'number' && typeof parsed.time === 'number' && typeof parsed.id === 'string'
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export class SymptomLogIndex {
+  private logs = new Map<string, SymptomLog>();
+  private timeline: TimelineEntry[] = []; // Sorted ascending by time, then id
+  private byDomain = new Map<string, Set<string>>();
+  private bySeverity = new Map<string, Set<string>>();
+  private byImpact = new Map<string, Set<string>>();
+  private byToken = new Map<string, Set<string>>();
+
+  constructor(logs: SymptomLog[] = []) {
+    logs.forEach(log => this.upsert(log));
+  }
+
+  get size(): number {
+    return this.logs.size;
+  }
+
+  get(id: string): SymptomLog | undefined {
+    return this.logs.get(id);
+  }
+
+  // ============================================================================
+  // WRITE-SIDE MAINTENANCE
+  // ============================================================================
+
+  /**
+   * Add a log, or re-index it if a log with the same id already exists
+   */
+  upsert(log: SymptomLog): void {
+    if (this.logs.has(log.id)) {
+      this.remove(log.id);
+    }
+
+    this.logs.set(log.id, log);
+
+    const entry = { time: new Date(log.timestamp).getTime(), id: log.id };
+    this.timeline.splice(this.lowerBound(entry.time, entry.id), 0, entry);
+
+    this.addTo(this.byDomain, log.healthDomain, log.id);
+    this.addTo(this.bySeverity, log.severity, log.id);
+    this.addTo(this.byImpact, log.impact, log.id);
+    new Set(tokenize(`${log.summary} ${log.transcript}`)).forEach(token => this.addTo(this.byToken, token, log.id));
+  }
+
+  remove(id: string): void {
+    const log = this.logs.get(id);
+    if (!log) return;
+
+    this.logs.delete(id);
+
+    const time = new Date(log.timestamp).getTime();
+    const position = this.lowerBound(time, id);
+    if (this.timeline[position]?.id === id) {
+      this.timeline.splice(position, 1);
+    }
+
+    this.removeFrom(this.byDomain, log.healthDomain, id);
+    this.removeFrom(this.bySeverity, log.severity, id);
+    this.removeFrom(this.byImpact, log.impact, id);
+    tokenize(`${log.summary} ${log.transcript}`).forEach(token => this.removeFrom(this.byToken, token, id));
+  }
+
+  clear(): void {
+    this.logs.clear();
+    this.timeline = [];
+    this.byDomain.clear();
+    this.bySeverity.clear();
+    this.byImpact.clear();
+    this.byToken.clear();
+  }
+
+  // ============================================================================
+  // QUERY
+  // ============================================================================
+
+  query(query: SymptomLogQuery = {}): SymptomLogQueryResult {
+    const sortBy = query.sortBy ?? 'timestamp';
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+
+    // Step 1: Narrow by time range using the sorted timeline
+    const start = query.from ? this.lowerBound(query.from.getTime(), '') : 0;
+    const end = query.to ? this.lowerBound(query.to.getTime(), '') : this.timeline.length;
+    let candidates = this.timeline.slice(start, Math.max(start, end));
+
+    // Step 2: Intersect with each secondary index that the query uses
+    const filters: (Set<string> | null)[] = [
+      this.union(this.byDomain, query.healthDomains),
+      this.union(this.bySeverity, query.severities),
+      this.union(this.byImpact, query.impacts),
+      ...this.textFilters(query.text),
+    ];
+    for (const filter of filters) {
+      if (filter) {
+        candidates = candidates.filter(entry => filter.has(entry.id));
+      }
+    }
+
+    // Step 3: Sort (timeline order already covers timestamp sorting)
+    const sortKey = (entry: TimelineEntry): number =>
+      sortBy === 'severity' ? SEVERITY_RANK[this.logs.get(entry.id)!.severity] : entry.time;
+    const compare = (a: QueryCursor, b: QueryCursor): number =>
+      direction * (a.key - b.key || a.time - b.time || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    let ordered = candidates.map(entry => ({ key: sortKey(entry), time: entry.time, id: entry.id }));
+    ordered.sort(compare);
+    const total = ordered.length;
+
+    // Step 4: Resume after the cursor, then take one page
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (cursor) {
+      ordered = ordered.filter(item => compare(item, cursor) > 0);
+    }
+
+    const limit = query.limit && query.limit > 0 ? query.limit : ordered.length;
+    const page = ordered.slice(0, limit);
+    const hasMore = ordered.length > page.length;
+
+    return {
+      logs: page.map(item => this.logs.get(item.id)!),
+      total,
+      nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * First timeline position at or after (time, id)
+   */
+  private lowerBound(time: number, id: string): number {
+    let low = 0;
+    let high = this.timeline.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      const entry = this.timeline[mid];
+      if (entry.time < time || (entry.time === time && entry.id < id)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private addTo(index: Map<string, Set<string>>, value: string, id: string): void {
+    if (!index.has(value)) {
+      index.set(value, new Set());
+    }
+    index.get(value)!.add(id);
+  }
+
+  private removeFrom(index: Map<string, Set<string>>, value: string, id: string): void {
+    const ids = index.get(value);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) {
+      index.delete(value);
+    }
+  }
+
+  /**
+   * Ids matching any of the given values, or null when the filter is unused
+   */
+  private union(index: Map<string, Set<string>>, values?: string[]): Set<string> | null {
+    if (!values || values.length === 0) return null;
+    const ids = new Set<string>();
+    values.forEach(value => index.get(value)?.forEach(id => ids.add(id)));
+    return ids;
+  }
+
+  /**
+   * One id set per query word; a word matches any indexed token it prefixes
+   */
+  private textFilters(text?: string): Set<string>[] {
+    if (!text) return [];
+    return tokenize(text).map(word => {
+      const ids = new Set<string>();
+      this.byToken.forEach((tokenIds, token) => {
+        if (token.startsWith(word)) {
+          tokenIds.forEach(id => ids.add(id));
+        }
+      });
+      return ids;
+    });
+  }
+}
@@ -1,4 +1,5 @@
-import { SymptomLog, MedicalRecommendation } from '../types/recommendations';
+import { SymptomLog, MedicalRecommendation, CompletedRecommendation } from '../types/recommendations';
+import { HealthTaxonomy, HEALTH_DOMAINS } from './healthTaxonomy';
 
 // ============================================================================
 // VALIDATION UTILITIES - Input Validation and Data Integrity
@@ -33,8 +34,29 @@ export class ValidationUtils {
     } else if (!this.parseDateSafely(log.timestamp)) {
       errors.push('Symptom log must have a valid timestamp');
     }
-    if (!log.summary || log.summary.trim().length === 0) errors.push('Symptom log must have a summary');
-    if (!log.transcript || log.transcript.trim().length === 0) errors.push('Symptom log must have a transcript');
+    // Logs waiting in the processing queue have no summary or transcript yet
+    if (!log.processingStatus && (!log.summary || log.summary.trim().length === 0)) {
+      errors.push('Symptom log must have a summary');
+    }
+    if (!log.processingStatus && (!log.transcript || log.transcript.trim().length === 0)) {
+      errors.push('Symptom log must have a transcript');
+    }
+    if (log.processingStatus && !['pending', 'failed'].includes(log.processingStatus)) {
+      errors.push('Processing status must be pending or failed');
+    }
+    if (log.redFlags !== undefined && (!Array.isArray(log.redFlags) || log.redFlags.some(flag => typeof flag !== 'string'))) {
+      errors.push('Red flags must be a list of rule ids');
+    }
+    if (log.englishSummary !== undefined && typeof log.englishSummary !== 'string') {
+      errors.push('English summary must be text');
+    }
+    if (log.generatedBy !== undefined && (typeof log.generatedBy?.prompt !== 'string' || typeof log.generatedBy?.promptVersion !== 'number')) {
+      errors.push('Generation info must name a prompt and its version');
+    }
+    
+    if (!HealthTaxonomy.isHealthDomain(log.healthDomain)) {
+      errors.push(`Health domain must be one of ${HEALTH_DOMAINS.join(', ')}`);
+    }
     
     if (log.severity && !['mild', 'moderate', 'severe'].includes(log.severity)) {
       errors.push('Severity must be mild, moderate, or severe');
@@ -67,6 +89,31 @@ export class ValidationUtils {
       errors.push('Urgency must be immediate, within days, or within weeks');
     }
 
+    if (rec.provenance !== undefined && (
+      !Array.isArray(rec.provenance?.sourceLogIds) || rec.provenance.sourceLogIds.some(id => typeof id !== 'string') ||
+      !Array.isArray(rec.provenance.patterns)
+    )) {
+      errors.push('Provenance must list source log ids and patterns');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate completed recommendation data
+   */
+  static validateCompletedRecommendation(rec: Partial<CompletedRecommendation>): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!rec.id) errors.push('Completed recommendation must have an ID');
+    if (!rec.title || rec.title.trim().length === 0) errors.push('Completed recommendation must have a title');
+    if (!rec.completedAt || !this.parseDateSafely(rec.completedAt)) {
+      errors.push('Completed recommendation must have a valid completion date');
+    }
+
     return {
       isValid: errors.length === 0,
       errors